@@ -2,16 +2,24 @@ import { Suspense, lazy } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { Loader2 } from 'lucide-react';
+import { SessionWatcher } from './components/SessionWatcher';
+import { ProtectedRoute } from './components/ProtectedRoute';
 
 // 1. Lazy Import pages
 const Login = lazy(() => import('./pages/Login'));
 const DashboardLayout = lazy(() => import('./layouts/DashboardLayout'));
 const Dashboard = lazy(() => import('./pages/Dashboard'));
 const Inventory = lazy(() => import('./pages/Inventory'));
+const StockAudit = lazy(() => import('./pages/StockAudit'));
+const Categories = lazy(() => import('./pages/Categories'));
+const Reorder = lazy(() => import('./pages/Reorder'));
 const Orders = lazy(() => import('./pages/Orders'));
+const PrintOrders = lazy(() => import('./pages/PrintOrders'));
 const Feedback = lazy(() => import('./pages/Feedback'));
 const Support = lazy(() => import('./pages/Support'));
 const Delivery = lazy(() => import('./pages/Delivery'));
+const Suppliers = lazy(() => import('./pages/Suppliers'));
+const Settings = lazy(() => import('./pages/Settings'));
 
 // 2. Create a Loading Spinner Component
 const PageLoader = () => (
@@ -24,19 +32,29 @@ function App() {
   return (
     <>
       <Toaster position="top-right" />
+      <SessionWatcher />
       {/* 3. Wrap Routes in Suspense */}
       <Suspense fallback={<PageLoader />}>
         <Routes>
           <Route path="/" element={<Navigate to="/login" replace />} />
           <Route path="/login" element={<Login />} />
 
-          <Route element={<DashboardLayout />}>
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="/inventory" element={<Inventory />} />
-            <Route path="/orders" element={<Orders />} />
-            <Route path="/feedback" element={<Feedback />} />
-            <Route path="/support" element={<Support />} />
-            <Route path="/delivery" element={<Delivery />} />
+          <Route element={<ProtectedRoute />}>
+            {/* Printable sheets render without the sidebar and header */}
+            <Route path="/orders/print" element={<ProtectedRoute permission="orders:view"><PrintOrders /></ProtectedRoute>} />
+            <Route element={<DashboardLayout />}>
+              <Route path="/dashboard" element={<ProtectedRoute permission="dashboard:view"><Dashboard /></ProtectedRoute>} />
+              <Route path="/inventory" element={<ProtectedRoute permission="inventory:view"><Inventory /></ProtectedRoute>} />
+              <Route path="/inventory/stock-audit" element={<ProtectedRoute permission="inventory:view"><StockAudit /></ProtectedRoute>} />
+              <Route path="/inventory/categories" element={<ProtectedRoute permission="inventory:view"><Categories /></ProtectedRoute>} />
+              <Route path="/inventory/reorder" element={<ProtectedRoute permission="inventory:view"><Reorder /></ProtectedRoute>} />
+              <Route path="/suppliers" element={<ProtectedRoute permission="purchasing:view"><Suppliers /></ProtectedRoute>} />
+              <Route path="/orders" element={<ProtectedRoute permission="orders:view"><Orders /></ProtectedRoute>} />
+              <Route path="/feedback" element={<ProtectedRoute permission="feedback:view"><Feedback /></ProtectedRoute>} />
+              <Route path="/support" element={<ProtectedRoute permission="support:view"><Support /></ProtectedRoute>} />
+              <Route path="/delivery" element={<ProtectedRoute permission="delivery:assign"><Delivery /></ProtectedRoute>} />
+              <Route path="/settings" element={<ProtectedRoute permission="settings:manage"><Settings /></ProtectedRoute>} />
+            </Route>
           </Route>
         </Routes>
       </Suspense>
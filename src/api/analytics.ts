@@ -0,0 +1,43 @@
+import { apiGet } from './client';
+import { arrayOf, num, object, oneOf, str, withDefault } from './validate';
+import type { DailySalesData, DashboardSummary, SalesComparison } from '../types/dashboard';
+
+const summarySchema = object<DashboardSummary>({
+  totalOrders: num,
+  packedOrders: num,
+  outForDelivery: num,
+  deliveredOrders: num,
+  cancelledOrders: num,
+  totalCashCollected: num,
+  refundsPaid: withDefault(num, 0),
+});
+
+const dailySalesSchema = object<DailySalesData>({
+  date: str,
+  totalOrders: num,
+  deliveredOrders: num,
+  cancelledOrders: num,
+  totalCashCollected: num,
+  refundsPaid: withDefault(num, 0),
+});
+
+const comparisonSchema = object<SalesComparison>({
+  today: dailySalesSchema,
+  yesterday: dailySalesSchema,
+  change: object<SalesComparison['change']>({
+    ordersPercent: num,
+    revenuePercent: num,
+    trend: oneOf('UP', 'DOWN', 'FLAT'),
+  }),
+});
+
+export const analyticsApi = {
+  getSummary: () =>
+    apiGet('/admin/dashboard/summary', summarySchema),
+
+  getSevenDaySales: () =>
+    apiGet('/admin/analytics/sales/7-days', arrayOf(dailySalesSchema)),
+
+  getTodayVsYesterday: () =>
+    apiGet('/admin/analytics/sales/today-vs-yesterday', comparisonSchema),
+};
@@ -0,0 +1,14 @@
+import { apiPost } from './client';
+import { nullable, object, optional, str } from './validate';
+import type { LoginRequest, LoginResult } from '../types/auth';
+
+const loginResultSchema = object<LoginResult>({
+  token: str,
+  refreshToken: optional(nullable(str)),
+  role: str,
+});
+
+export const authApi = {
+  login: (credentials: LoginRequest) =>
+    apiPost('/auth/login', credentials, loginResultSchema),
+};
@@ -1,4 +1,7 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { nullable, object, optional, str, unwrap } from './validate';
+import { expireSession, getRefreshToken, getRole, getToken, isTokenExpired, saveSession } from './session';
+import type { LoginResult, RefreshRequest } from '../types/auth';
 
 // Use Environment Variable for URL (Best Practice)
 const BASE_URL = import.meta.env.VITE_API_URL || 'https://api.expertsec.in/api';
@@ -10,26 +13,82 @@ const api = axios.create({
   },
 });
 
-// Request Interceptor: Attach Token
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
+// Auth endpoints never carry or refresh the session themselves
+const isAuthRequest = (config?: InternalAxiosRequestConfig) => !!config?.url?.startsWith('/auth/');
+
+// Refresh slightly early so a token doesn't expire in flight
+const EXPIRY_SKEW_MS = 10 * 1000;
+
+const refreshResultSchema = object<LoginResult>({
+  token: str,
+  refreshToken: optional(nullable(str)),
+  role: str,
+});
+
+// One refresh at a time: concurrent callers share this promise, so every
+// request that hit a 401 while refreshing is queued behind it and retried.
+let refreshPromise: Promise<string> | null = null;
+
+export const refreshSession = () => {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return Promise.reject(new Error('No refresh token'));
+
+  if (!refreshPromise) {
+    refreshPromise = api.post('/auth/refresh', { refreshToken } satisfies RefreshRequest)
+      .then((res) => {
+        const result = unwrap(res.data, refreshResultSchema);
+        saveSession({
+          token: result.token,
+          refreshToken: result.refreshToken || refreshToken, // Backend may not rotate it
+          role: result.role || getRole() || '',
+        });
+        return result.token;
+      })
+      .finally(() => { refreshPromise = null; });
+  }
+  return refreshPromise;
+};
+
+// Request Interceptor: Attach Token (refreshing first if it already expired)
+api.interceptors.request.use(async (config) => {
+  if (isAuthRequest(config)) return config;
+
+  let token = getToken();
+  if (token && getRefreshToken() && isTokenExpired(token, EXPIRY_SKEW_MS)) {
+    token = await refreshSession().catch(() => token);
+  }
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
 
-// Response Interceptor: Handle Global Errors
+// Requests already replayed once after a refresh
+const retriedRequests = new WeakSet<InternalAxiosRequestConfig>();
+
+// Response Interceptor: Refresh on 401, otherwise end the session without a full reload
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    // If 401 (Unauthorized), clear storage and redirect to login
-    if (error.response && error.response.status === 401) {
-      localStorage.clear();
-      window.location.href = '/login';
+  async (error) => {
+    const config: InternalAxiosRequestConfig | undefined = error.config;
+    if (error.response?.status !== 401 || isAuthRequest(config) || !config) {
+      return Promise.reject(error);
     }
+
+    if (getRefreshToken() && !retriedRequests.has(config)) {
+      retriedRequests.add(config);
+      try {
+        const token = await refreshSession();
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      } catch {
+        // Fall through to expiring the session
+      }
+    }
+
+    expireSession();
     return Promise.reject(error);
   }
 );
 
-export default api;
\ No newline at end of file
+export default api;
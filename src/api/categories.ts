@@ -0,0 +1,37 @@
+import { apiCommand, apiGet, apiPatch, apiPost } from './client';
+import { arrayOf, bool, nullable, num, object, str } from './validate';
+import type { Category, CategoryDTO } from '../types/inventory';
+
+const categorySchema = object<Category>({
+  id: num,
+  name: str,
+  parentId: nullable(num),
+  position: num,
+  icon: str,
+  active: bool,
+  productCount: num,
+});
+
+export const categoriesApi = {
+  // Every category, each parent followed by its subcategories, in display order
+  list: () =>
+    apiGet('/admin/categories', arrayOf(categorySchema)),
+
+  create: (data: CategoryDTO) =>
+    apiPost('/admin/categories', data, categorySchema),
+
+  update: (id: number, data: Partial<CategoryDTO>) =>
+    apiPatch(`/admin/categories/${id}`, data, categorySchema),
+
+  // Sets the display order of one level: top-level (parentId null) or one parent's children
+  reorder: (parentId: number | null, categoryIds: number[]) =>
+    apiCommand('patch', '/admin/categories/order', { parentId, categoryIds }),
+
+  // Moves the products (and subcategories) to the target, then deletes the category
+  merge: (id: number, targetId: number) =>
+    apiCommand('post', `/admin/categories/${id}/merge`, { targetId }),
+
+  // Categories with products need somewhere to move them
+  remove: (id: number, reassignTo?: number) =>
+    apiCommand('delete', `/admin/categories/${id}`, undefined, { params: reassignTo ? { reassignTo } : undefined }),
+};
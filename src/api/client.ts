@@ -0,0 +1,55 @@
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import api from './axios';
+import { ApiError, toApiError } from './errors';
+import { unwrap, type Check } from './validate';
+
+// Thin typed wrappers around the axios instance. Every call unwraps the
+// ApiResponse envelope, validates `data` and rethrows failures as ApiError.
+const send = async <T>(request: Promise<AxiosResponse<unknown>>, check: Check<T>): Promise<T> => {
+  try {
+    const res = await request;
+    return unwrap(res.data, check);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const apiGet = <T>(url: string, check: Check<T>, config?: AxiosRequestConfig) =>
+  send(api.get(url, config), check);
+
+export const apiPost = <T>(url: string, body: unknown, check: Check<T>, config?: AxiosRequestConfig) =>
+  send(api.post(url, body, config), check);
+
+export const apiPatch = <T>(url: string, body: unknown, check: Check<T>, config?: AxiosRequestConfig) =>
+  send(api.patch(url, body, config), check);
+
+// For state changes whose response body we don't use (status updates, deletes).
+// Only an explicit `success: false` is treated as a failure, so empty 200/204 bodies pass.
+export const apiCommand = async (
+  method: 'post' | 'patch' | 'delete',
+  url: string,
+  body?: unknown,
+  config?: AxiosRequestConfig
+): Promise<void> => {
+  try {
+    const res = method === 'delete'
+      ? await api.delete(url, config)
+      : await api[method](url, body, config);
+    const data = res.data as { success?: boolean; message?: string } | undefined;
+    if (data && typeof data === 'object' && data.success === false) {
+      throw new ApiError('REJECTED', data.message);
+    }
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Binary downloads (PDF receipts) bypass the JSON envelope
+export const apiGetBlob = async (url: string, config?: AxiosRequestConfig): Promise<Blob> => {
+  try {
+    const res = await api.get<Blob>(url, { ...config, responseType: 'blob' });
+    return res.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
@@ -0,0 +1,73 @@
+import { isAxiosError } from 'axios';
+
+export type ApiErrorCode =
+  | 'NETWORK'          // No response from the server
+  | 'UNAUTHORIZED'     // 401
+  | 'FORBIDDEN'        // 403
+  | 'NOT_FOUND'        // 404
+  | 'VALIDATION'       // 400 / 422
+  | 'SERVER'           // 5xx
+  | 'REJECTED'         // 2xx with { success: false }
+  | 'INVALID_RESPONSE' // Body did not match the expected contract
+  | 'UNKNOWN';
+
+const DEFAULT_MESSAGES: Record<ApiErrorCode, string> = {
+  NETWORK: 'Unable to reach the server. Check your connection.',
+  UNAUTHORIZED: 'Your session has expired. Please sign in again.',
+  FORBIDDEN: 'You do not have permission to do that.',
+  NOT_FOUND: 'The requested record was not found.',
+  VALIDATION: 'Some of the submitted values are invalid.',
+  SERVER: 'The server ran into a problem. Please try again.',
+  REJECTED: 'The request was rejected by the server.',
+  INVALID_RESPONSE: 'The server sent an unexpected response.',
+  UNKNOWN: 'Something went wrong. Please try again.',
+};
+
+// Normalized error thrown by every service in src/api
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+
+  constructor(code: ApiErrorCode, message?: string, status?: number) {
+    super(message || DEFAULT_MESSAGES[code]);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+  }
+
+  // True when the message came from the backend rather than our defaults
+  get hasServerMessage() {
+    return this.message !== DEFAULT_MESSAGES[this.code];
+  }
+}
+
+const codeFromStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 400 || status === 422) return 'VALIDATION';
+  if (status >= 500) return 'SERVER';
+  return 'UNKNOWN';
+};
+
+// Converts anything thrown by axios (or our own validators) into an ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (isAxiosError<{ message?: string }>(error)) {
+    if (!error.response) return new ApiError('NETWORK');
+    const { status, data } = error.response;
+    const message = data && typeof data === 'object' ? data.message : undefined;
+    return new ApiError(codeFromStatus(status), message, status);
+  }
+
+  if (error instanceof Error) return new ApiError('UNKNOWN', error.message);
+  return new ApiError('UNKNOWN');
+};
+
+// Prefers the backend's message, then the caller's fallback, then our default
+export const getErrorMessage = (error: unknown, fallback?: string) => {
+  const apiError = toApiError(error);
+  if (apiError.hasServerMessage || !fallback) return apiError.message;
+  return fallback;
+};
@@ -0,0 +1,34 @@
+import { apiCommand, apiGet } from './client';
+import { nullable, num, object, oneOf, page, str } from './validate';
+import type { Issue, IssueFilters } from '../types/support';
+
+export const issueSchema = object<Issue>({
+  id: num,
+  orderId: num,
+  customerPhone: str,
+  issueType: str, // Kept open-ended in case the backend adds new types
+  severity: oneOf('CRITICAL', 'HIGH', 'MEDIUM', 'LOW'),
+  status: oneOf('OPEN', 'RESOLVED', 'REJECTED', 'IN_PROGRESS'),
+  description: str,
+  createdAt: str,
+  resolvedAt: nullable(str),
+  acknowledgedAt: nullable(str),
+  resolvedBy: nullable(str),
+  adminNote: nullable(str),
+});
+
+export const issuesApi = {
+  list: ({ status, severity, search, page: pageIndex, size }: IssueFilters) => {
+    const params: Record<string, string | number> = { page: pageIndex, size };
+    if (status) params.status = status;
+    if (severity) params.severity = severity;
+    if (search) params.search = search;
+    return apiGet('/admin/issues', page(issueSchema), { params });
+  },
+
+  acknowledge: (id: number) =>
+    apiCommand('patch', `/admin/issues/${id}/acknowledge`),
+
+  resolve: (id: number) =>
+    apiCommand('patch', `/admin/issues/${id}/resolve`),
+};
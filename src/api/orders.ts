@@ -0,0 +1,112 @@
+import { apiCommand, apiGet, apiGetBlob, apiPatch, apiPost } from './client';
+import { arrayOf, nullable, num, object, oneOf, page, str, withDefault } from './validate';
+import type {
+  CancellationReason, CancelOrderDTO, EditOrderItemsDTO, Order, OrderDetails, OrderFilters, OrderItem, OrderStatus, TimelineEvent, TimelineEventKind, UndoTransitionDTO,
+} from '../types/orders';
+
+export const ORDER_STATUSES: readonly OrderStatus[] = ['ORDER_PLACED', 'PACKED', 'OUT_FOR_DELIVERY', 'DELIVERED', 'CANCELLED'];
+
+// Orders still to be fulfilled
+export const OPEN_ORDER_STATUSES: readonly OrderStatus[] = ['ORDER_PLACED', 'PACKED', 'OUT_FOR_DELIVERY'];
+
+const orderStatus = oneOf(...ORDER_STATUSES);
+const cancellationReason = nullable(oneOf<CancellationReason>(
+  'CUSTOMER_REQUEST', 'OUT_OF_STOCK', 'PAYMENT_FAILED', 'ADDRESS_UNREACHABLE', 'DUPLICATE_ORDER', 'OTHER',
+));
+
+export const orderSchema = object<Order>({
+  id: num,
+  customerName: nullable(str),
+  phone: nullable(str),
+  address: str,
+  totalAmount: num,
+  status: orderStatus,
+  customerPhone: nullable(str),
+  deliveryPhone: nullable(str),
+  assignedAt: nullable(str),
+  packedAt: withDefault(nullable(str), null),
+  createdAt: str,
+  receiptNumber: nullable(str),
+  receiptGeneratedAt: nullable(str),
+  cancellationReason,
+  cancellationNote: nullable(str),
+  refundedAmount: withDefault(num, 0),
+});
+
+const orderItemSchema = object<OrderItem>({
+  productId: num,
+  productName: str,
+  variantId: nullable(num),
+  unit: nullable(str),
+  sku: nullable(str),
+  barcode: nullable(str),
+  quantity: num,
+  price: num,
+  total: num,
+});
+
+const orderDetailsSchema = object<OrderDetails>({
+  orderId: num,
+  status: orderStatus,
+  createdAt: str,
+  customerName: nullable(str),
+  customerPhone: str,
+  address: str,
+  deliveryPhone: nullable(str),
+  totalAmount: num,
+  cancellationReason,
+  cancellationNote: nullable(str),
+  refundedAmount: withDefault(num, 0),
+  items: arrayOf(orderItemSchema),
+});
+
+const timelineEventSchema = object<TimelineEvent>({
+  id: num,
+  orderId: num,
+  status: orderStatus,
+  kind: withDefault(oneOf<TimelineEventKind>('STATUS_CHANGE', 'ITEMS_EDITED', 'REFUND'), 'STATUS_CHANGE'),
+  note: nullable(str),
+  timestamp: str,
+});
+
+export const ordersApi = {
+  list: ({ status, phone, startDate, endDate, page: pageIndex, size }: OrderFilters) => {
+    const params: Record<string, string | number> = { page: pageIndex, size };
+    if (status) params.status = status;
+    if (phone) params.phone = phone;
+    if (startDate && endDate) { params.from = startDate; params.to = endDate; }
+    return apiGet('/admin/orders', page(orderSchema), { params });
+  },
+
+  getDetails: (orderId: number) =>
+    apiGet(`/admin/orders/getdetails/${orderId}`, orderDetailsSchema),
+
+  getTimeline: (orderId: number) =>
+    apiGet(`/admin/orders/${orderId}/timeline`, arrayOf(timelineEventSchema)),
+
+  downloadReceipt: (orderId: number) =>
+    apiGetBlob(`/admin/orders/${orderId}/receipt`),
+
+  // One PDF with a page per order
+  downloadReceipts: (orderIds: number[]) =>
+    apiGetBlob('/admin/orders/receipts', { params: { ids: orderIds.join(',') } }),
+
+  // Only moves listed in ORDER_TRANSITIONS (utils/orderStateMachine) are accepted
+  updateStatus: (orderId: number, status: OrderStatus) =>
+    apiPatch(`/admin/orders/${orderId}/status`, { status }, orderSchema),
+
+  cancel: (orderId: number, data: CancelOrderDTO) =>
+    apiPatch(`/admin/orders/${orderId}/cancel`, data, orderSchema),
+
+  // Reverts the order's latest transition, within ORDER_UNDO_WINDOW_MS of it and
+  // only if that is still `data`
+  undo: (orderId: number, data: UndoTransitionDTO) =>
+    apiPost(`/admin/orders/${orderId}/undo`, data, orderSchema),
+
+  // Reduce, remove or substitute items on a pending order; the total and stock follow
+  editItems: (orderId: number, data: EditOrderItemsDTO) =>
+    apiPatch(`/admin/orders/${orderId}/items`, data, orderDetailsSchema),
+
+  assign: (orderId: number, deliveryPhone: string) =>
+    apiCommand('patch', `/admin/orders/${orderId}/assign`, null, { params: { deliveryPhone } }),
+};
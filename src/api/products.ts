@@ -0,0 +1,108 @@
+import { apiCommand, apiGet, apiPost } from './client';
+import { arrayOf, bool, nullable, num, object, page, str, withDefault } from './validate';
+import { orderSchema } from './orders';
+import type {
+  CreateProductDTO, Product, ProductFilters, ProductImage, ProductLookup, ProductStats, ProductVariant, UpdateProductDTO,
+} from '../types/inventory';
+
+const productVariantSchema = object<ProductVariant>({
+  id: num,
+  unit: str,
+  price: num,
+  stock: num,
+  sku: nullable(str),
+  barcode: nullable(str),
+});
+
+const productImageSchema = object<ProductImage>({
+  id: num,
+  url: str,
+});
+
+export const productSchema = object<Product>({
+  id: num,
+  name: str,
+  category: str,
+  unit: str,
+  price: num,
+  stock: num,
+  description: str,
+  imageUrl: nullable(str),
+  images: withDefault(arrayOf(productImageSchema), []),
+  active: bool,
+  reorderPoint: nullable(num),
+  reorderQuantity: nullable(num),
+  variants: withDefault(arrayOf(productVariantSchema), []),
+  createdAt: str,
+  updatedAt: str,
+});
+
+const productStatsSchema = object<ProductStats>({
+  totalProducts: num,
+  lowStock: num,
+  outOfStock: num,
+  archived: num,
+});
+
+export const productsApi = {
+  list: () =>
+    apiGet('/admin/products', arrayOf(productSchema)),
+
+  search: ({ search, category, minPrice, maxPrice, stockLevel, active, sort, page: pageIndex, size }: ProductFilters) => {
+    const params: Record<string, string | number | boolean> = { page: pageIndex, size };
+    if (search) params.search = search;
+    if (category) params.category = category;
+    if (minPrice !== undefined) params.minPrice = minPrice;
+    if (maxPrice !== undefined && Number.isFinite(maxPrice)) params.maxPrice = maxPrice;
+    if (stockLevel) params.stockLevel = stockLevel;
+    if (active !== undefined) params.active = active;
+    if (sort) params.sort = `${sort.field},${sort.direction}`;
+    return apiGet('/admin/products/search', page(productSchema), { params });
+  },
+
+  get: (id: number) =>
+    apiGet(`/admin/products/${id}`, productSchema),
+
+  // Exact SKU or EAN/UPC match, archived products included; 404 when nothing matches
+  lookup: (code: string) =>
+    apiGet('/admin/products/lookup', object<ProductLookup>({ product: productSchema, variantId: num }), { params: { code } }),
+
+  getStats: () =>
+    apiGet('/admin/products/stats', productStatsSchema),
+
+  create: (data: CreateProductDTO) =>
+    apiPost('/admin/products', data, productSchema),
+
+  update: (id: number, data: UpdateProductDTO) =>
+    apiCommand('patch', `/admin/products/${id}`, data),
+
+  // Archived products keep their id, stock ledger and order history
+  archive: (id: number) =>
+    apiCommand('patch', `/admin/products/${id}`, { active: false }),
+
+  restore: (id: number) =>
+    apiCommand('patch', `/admin/products/${id}`, { active: true }),
+
+  // Orders not yet delivered or cancelled that include the product
+  openOrders: (id: number) =>
+    apiGet(`/admin/products/${id}/open-orders`, arrayOf(orderSchema)),
+
+  // Appends to the gallery; `onProgress` gets 0-100 while the file is sent
+  uploadImage: (id: number, file: File, onProgress?: (percent: number) => void) => {
+    const formData = new FormData();
+    formData.append('image', file);
+    return apiPost(`/admin/products/${id}/images`, formData, productImageSchema, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) onProgress(Math.round((event.loaded / event.total) * 100));
+      },
+    });
+  },
+
+  // Every image id in the new order; the first becomes the primary
+  reorderImages: (id: number, imageIds: number[]) =>
+    apiCommand('patch', `/admin/products/${id}/images`, { imageIds }),
+
+  removeImage: (id: number, imageId: number) =>
+    apiCommand('delete', `/admin/products/${id}/images/${imageId}`),
+};
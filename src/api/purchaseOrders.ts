@@ -0,0 +1,74 @@
+import { apiGet, apiPatch, apiPost } from './client';
+import { arrayOf, nullable, num, object, oneOf, page, str } from './validate';
+import type {
+  DraftPurchaseOrdersResult, PurchaseOrder, PurchaseOrderDTO, PurchaseOrderFilters, PurchaseOrderLine,
+  PurchaseOrderStatus, ReceivePurchaseOrderDTO
+} from '../types/suppliers';
+
+export const PURCHASE_ORDER_STATUSES: readonly PurchaseOrderStatus[] = ['DRAFT', 'SENT', 'PARTIALLY_RECEIVED', 'CLOSED', 'CANCELLED'];
+
+const purchaseOrderLineSchema = object<PurchaseOrderLine>({
+  productId: num,
+  variantId: nullable(num),
+  productName: str,
+  unit: str,
+  quantity: num,
+  receivedQuantity: num,
+  costPrice: num,
+});
+
+const purchaseOrderSchema = object<PurchaseOrder>({
+  id: num,
+  supplierId: num,
+  supplierName: str,
+  status: oneOf(...PURCHASE_ORDER_STATUSES),
+  lines: arrayOf(purchaseOrderLineSchema),
+  total: num,
+  notes: nullable(str),
+  expectedAt: nullable(str),
+  createdBy: nullable(str),
+  createdAt: str,
+  sentAt: nullable(str),
+  closedAt: nullable(str),
+});
+
+const draftResultSchema = object<DraftPurchaseOrdersResult>({
+  orders: arrayOf(purchaseOrderSchema),
+  unassignedProductIds: arrayOf(num),
+});
+
+export const purchaseOrdersApi = {
+  list: ({ status, supplierId, page: pageIndex, size }: PurchaseOrderFilters) => {
+    const params: Record<string, string | number> = { page: pageIndex, size };
+    if (status) params.status = status;
+    if (supplierId) params.supplierId = supplierId;
+    return apiGet('/admin/purchase-orders', page(purchaseOrderSchema), { params });
+  },
+
+  get: (id: number) =>
+    apiGet(`/admin/purchase-orders/${id}`, purchaseOrderSchema),
+
+  create: (data: PurchaseOrderDTO) =>
+    apiPost('/admin/purchase-orders', data, purchaseOrderSchema),
+
+  // Drafts only
+  update: (id: number, data: PurchaseOrderDTO) =>
+    apiPatch(`/admin/purchase-orders/${id}`, data, purchaseOrderSchema),
+
+  // One draft per cheapest linked supplier for the given products and quantities
+  draftFromProducts: (lines: { productId: number; quantity: number }[]) =>
+    apiPost('/admin/purchase-orders/drafts', { lines }, draftResultSchema),
+
+  send: (id: number) =>
+    apiPatch(`/admin/purchase-orders/${id}/send`, null, purchaseOrderSchema),
+
+  // Adds received quantities to stock; closes the order once every line is complete
+  receive: (id: number, data: ReceivePurchaseOrderDTO) =>
+    apiPost(`/admin/purchase-orders/${id}/receipts`, data, purchaseOrderSchema),
+
+  close: (id: number) =>
+    apiPatch(`/admin/purchase-orders/${id}/close`, null, purchaseOrderSchema),
+
+  cancel: (id: number) =>
+    apiPatch(`/admin/purchase-orders/${id}/cancel`, null, purchaseOrderSchema),
+};
@@ -0,0 +1,53 @@
+import { apiGet, apiPatch, apiPost } from './client';
+import { arrayOf, nullable, num, object, oneOf, page, str } from './validate';
+import type { Refund, RefundDecisionDTO, RefundFilters, RefundLine, RefundRequestDTO } from '../types/refunds';
+
+const refundLineSchema = object<RefundLine>({
+  productId: num,
+  variantId: nullable(num),
+  productName: str,
+  unit: nullable(str),
+  quantity: num,
+  amount: num,
+});
+
+export const refundSchema = object<Refund>({
+  id: num,
+  orderId: num,
+  issueId: nullable(num),
+  amount: num,
+  method: oneOf('CASH', 'UPI', 'STORE_CREDIT'),
+  reason: oneOf('DAMAGED_ITEM', 'WRONG_ITEM', 'MISSING_ITEM', 'QUALITY', 'LATE_DELIVERY', 'OTHER'),
+  note: nullable(str),
+  status: oneOf('PENDING_APPROVAL', 'APPROVED', 'REJECTED'),
+  items: arrayOf(refundLineSchema),
+  requestedBy: str,
+  requestedAt: str,
+  decidedBy: nullable(str),
+  decidedAt: nullable(str),
+  decisionNote: nullable(str),
+});
+
+export const refundsApi = {
+  list: ({ status, orderId, issueId, page: pageIndex, size }: RefundFilters) => {
+    const params: Record<string, string | number> = { page: pageIndex, size };
+    if (status) params.status = status;
+    if (orderId) params.orderId = orderId;
+    if (issueId) params.issueId = issueId;
+    return apiGet('/admin/refunds', page(refundSchema), { params });
+  },
+
+  // Every refund of an order, newest first; used to work out what is left to refund
+  forOrder: (orderId: number) =>
+    apiGet(`/admin/orders/${orderId}/refunds`, arrayOf(refundSchema)),
+
+  request: (data: RefundRequestDTO) =>
+    apiPost('/admin/refunds', data, refundSchema),
+
+  // Needs someone other than the requester
+  approve: (id: number, data: RefundDecisionDTO = {}) =>
+    apiPatch(`/admin/refunds/${id}/approve`, data, refundSchema),
+
+  reject: (id: number, data: RefundDecisionDTO) =>
+    apiPatch(`/admin/refunds/${id}/reject`, data, refundSchema),
+};
@@ -0,0 +1,40 @@
+import { apiGet, apiPatch } from './client';
+import { arrayOf, nullable, num, object, oneOf, str } from './validate';
+import type { CategoryReorderDefault, ReorderSuggestion, ReorderSuggestionQuery } from '../types/inventory';
+
+const categoryReorderDefaultSchema = object<CategoryReorderDefault>({
+  category: str,
+  reorderPoint: num,
+  reorderQuantity: num,
+});
+
+const reorderSuggestionSchema = object<ReorderSuggestion>({
+  productId: num,
+  productName: str,
+  category: str,
+  unit: str,
+  price: num,
+  stock: num,
+  reorderPoint: num,
+  reorderQuantity: num,
+  unitsSold: num,
+  dailyVelocity: num,
+  daysOfCover: nullable(num),
+  suggestedQuantity: num,
+  urgency: oneOf('OUT_OF_STOCK', 'BELOW_REORDER_POINT', 'PROJECTED'),
+});
+
+export const reorderApi = {
+  getDefaults: () =>
+    apiGet('/admin/inventory/reorder-defaults', arrayOf(categoryReorderDefaultSchema)),
+
+  // Replaces the defaults for the categories sent; others keep theirs
+  updateDefaults: (defaults: CategoryReorderDefault[]) =>
+    apiPatch('/admin/inventory/reorder-defaults', defaults, arrayOf(categoryReorderDefaultSchema)),
+
+  // Products at or below their reorder point, or projected to reach it within coverDays
+  suggestions: ({ days, coverDays }: ReorderSuggestionQuery) =>
+    apiGet('/admin/inventory/reorder-suggestions', arrayOf(reorderSuggestionSchema), {
+      params: { days, coverDays },
+    }),
+};
@@ -0,0 +1,20 @@
+import { apiGet } from './client';
+import { arrayOf, object } from './validate';
+import { orderSchema } from './orders';
+import { productSchema } from './products';
+import { issueSchema } from './issues';
+import { suggestionSchema } from './suggestions';
+import type { SearchResults } from '../types/search';
+
+const searchResultsSchema = object<SearchResults>({
+  orders: arrayOf(orderSchema),
+  products: arrayOf(productSchema),
+  issues: arrayOf(issueSchema),
+  suggestions: arrayOf(suggestionSchema),
+});
+
+export const searchApi = {
+  // Orders by id/phone/receipt, products by name/category, tickets by id/order/phone, suggestions by phone
+  search: (query: string, limit = 5) =>
+    apiGet('/admin/search', searchResultsSchema, { params: { q: query, limit } }),
+};
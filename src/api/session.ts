@@ -0,0 +1,95 @@
+// Auth session persisted in localStorage. Kept free of axios so both the
+// interceptors and the UI can use it without import cycles.
+
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const ROLE_KEY = 'role';
+
+export interface StoredSession {
+  token: string;
+  refreshToken?: string | null;
+  role: string;
+}
+
+export interface TokenClaims {
+  sub?: string;
+  role?: string;
+  exp?: number; // Seconds since epoch
+}
+
+export const getToken = () => localStorage.getItem(TOKEN_KEY);
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+export const getRole = () => localStorage.getItem(ROLE_KEY);
+
+export const saveSession = ({ token, refreshToken, role }: StoredSession) => {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(ROLE_KEY, role);
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  else localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(ROLE_KEY);
+};
+
+// Reads the JWT payload without verifying it (the backend does that)
+export const decodeToken = (token: string | null): TokenClaims | null => {
+  if (!token) return null;
+  try {
+    const [, payload] = token.split('.');
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    return JSON.parse(json) as TokenClaims;
+  } catch {
+    return null;
+  }
+};
+
+// Epoch millis at which the current token expires, or null if unknown
+export const getTokenExpiry = (token = getToken()) => {
+  const exp = decodeToken(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+export const isTokenExpired = (token = getToken(), skewMs = 0) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - skewMs <= Date.now();
+};
+
+// --- Session expiry notifications ---
+// The interceptors can't navigate, so they announce the expiry and
+// <SessionWatcher /> redirects to /login with a returnTo param.
+
+type ExpiredListener = (returnTo: string) => void;
+const expiredListeners = new Set<ExpiredListener>();
+
+export const onSessionExpired = (listener: ExpiredListener) => {
+  expiredListeners.add(listener);
+  return () => { expiredListeners.delete(listener); };
+};
+
+export const currentLocation = () => `${window.location.pathname}${window.location.search}`;
+
+// Requests that fail together each report the expiry; only the first redirects,
+// since the later ones would see the login page as where the user was
+export const expireSession = () => {
+  if (!getToken()) return;
+  clearSession();
+  const returnTo = currentLocation();
+  if (expiredListeners.size === 0) {
+    window.location.href = buildLoginUrl(returnTo);
+    return;
+  }
+  expiredListeners.forEach(listener => listener(returnTo));
+};
+
+// Only same-app paths are honoured, so a crafted link can't bounce users off-site
+export const safeReturnTo = (value: string | null) =>
+  value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/login') ? value : null;
+
+// Anything safeReturnTo would reject is dropped here rather than after sign-in
+export const buildLoginUrl = (returnTo?: string) => {
+  const target = safeReturnTo(returnTo ?? null);
+  return target ? `/login?returnTo=${encodeURIComponent(target)}` : '/login';
+};
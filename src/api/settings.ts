@@ -0,0 +1,19 @@
+import { apiGet, apiPatch } from './client';
+import { num, object, oneOf, str } from './validate';
+import type { StoreSettings, StoreSettingsDTO } from '../types/settings';
+
+const storeSettingsSchema = object<StoreSettings>({
+  currency: str,
+  locale: str,
+  timeZone: str,
+  currencyDisplay: oneOf('symbol', 'narrowSymbol', 'code'),
+  fractionDigits: num,
+});
+
+export const settingsApi = {
+  getStore: () =>
+    apiGet('/admin/settings/store', storeSettingsSchema),
+
+  updateStore: (data: StoreSettingsDTO) =>
+    apiPatch('/admin/settings/store', data, storeSettingsSchema),
+};
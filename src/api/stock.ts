@@ -0,0 +1,60 @@
+import { apiGet, apiPost } from './client';
+import { arrayOf, nullable, num, object, oneOf, page, str } from './validate';
+import type { PageRequest } from '../types/api';
+import type {
+  StockAdjustmentDTO, StockMovement, StockMovementFilters, StockMovementReason, StockMovementSummary
+} from '../types/stock';
+
+export const STOCK_MOVEMENT_REASONS: readonly StockMovementReason[] = ['DELIVERY', 'SALE', 'ORDER_EDIT', 'RETURN', 'SPOILAGE', 'THEFT', 'CORRECTION'];
+
+const stockMovementSchema = object<StockMovement>({
+  id: num,
+  productId: num,
+  productName: str,
+  category: str,
+  variantId: num,
+  unit: str,
+  quantity: num,
+  balanceAfter: num,
+  reason: oneOf(...STOCK_MOVEMENT_REASONS),
+  note: nullable(str),
+  createdBy: nullable(str),
+  createdAt: str,
+});
+
+const stockMovementSummarySchema = object<StockMovementSummary>({
+  reason: oneOf(...STOCK_MOVEMENT_REASONS),
+  count: num,
+  quantity: num,
+});
+
+const reportParams = ({ from, to, category, reason }: Omit<StockMovementFilters, 'page' | 'size'>) => {
+  const params: Record<string, string> = {};
+  if (from) params.from = from;
+  if (to) params.to = to;
+  if (category) params.category = category;
+  if (reason) params.reason = reason;
+  return params;
+};
+
+// Stock only changes through signed movements, so every change has a reason on record
+export const stockApi = {
+  adjust: (productId: number, data: StockAdjustmentDTO) =>
+    apiPost(`/admin/products/${productId}/stock-movements`, data, stockMovementSchema),
+
+  // Newest first; balanceAfter gives the running balance
+  history: (productId: number, { page: pageIndex, size }: PageRequest) =>
+    apiGet(`/admin/products/${productId}/stock-movements`, page(stockMovementSchema), {
+      params: { page: pageIndex, size },
+    }),
+
+  report: ({ page: pageIndex, size, ...filters }: StockMovementFilters) =>
+    apiGet('/admin/stock-movements', page(stockMovementSchema), {
+      params: { ...reportParams(filters), page: pageIndex, size },
+    }),
+
+  summary: (filters: Omit<StockMovementFilters, 'page' | 'size'>) =>
+    apiGet('/admin/stock-movements/summary', arrayOf(stockMovementSummarySchema), {
+      params: reportParams(filters),
+    }),
+};
@@ -0,0 +1,20 @@
+import { apiGet } from './client';
+import { num, object, oneOf, page, str } from './validate';
+import type { Suggestion, SuggestionFilters } from '../types/feedback';
+
+export const suggestionSchema = object<Suggestion>({
+  id: num,
+  userPhone: str,
+  message: str,
+  status: oneOf('OPEN', 'IN_REVIEW', 'RESOLVED', 'CLOSED'),
+  createdDate: str,
+  createdAt: str,
+});
+
+export const suggestionsApi = {
+  list: ({ phone, page: pageIndex, size }: SuggestionFilters) => {
+    const params: Record<string, string | number> = { page: pageIndex, size };
+    if (phone) params.phone = phone;
+    return apiGet('/admin/suggestions', page(suggestionSchema), { params });
+  },
+};
@@ -0,0 +1,55 @@
+import { apiCommand, apiGet, apiPatch, apiPost } from './client';
+import { arrayOf, nullable, num, object, str } from './validate';
+import type { Supplier, SupplierDTO, SupplierProduct, SupplierProductDTO } from '../types/suppliers';
+
+const supplierSchema = object<Supplier>({
+  id: num,
+  name: str,
+  contactName: nullable(str),
+  phone: nullable(str),
+  email: nullable(str),
+  address: nullable(str),
+  notes: nullable(str),
+  productCount: num,
+  createdAt: str,
+});
+
+const supplierProductSchema = object<SupplierProduct>({
+  id: num,
+  supplierId: num,
+  supplierName: str,
+  productId: num,
+  productName: str,
+  unit: str,
+  costPrice: num,
+  supplierSku: nullable(str),
+});
+
+export const suppliersApi = {
+  list: () =>
+    apiGet('/admin/suppliers', arrayOf(supplierSchema)),
+
+  create: (data: SupplierDTO) =>
+    apiPost('/admin/suppliers', data, supplierSchema),
+
+  update: (id: number, data: SupplierDTO) =>
+    apiPatch(`/admin/suppliers/${id}`, data, supplierSchema),
+
+  remove: (id: number) =>
+    apiCommand('delete', `/admin/suppliers/${id}`),
+
+  // Products a supplier delivers, with cost prices
+  listProducts: (supplierId: number) =>
+    apiGet(`/admin/suppliers/${supplierId}/products`, arrayOf(supplierProductSchema)),
+
+  // Adds the link, or updates its cost price and SKU if it exists
+  linkProduct: (supplierId: number, data: SupplierProductDTO) =>
+    apiPost(`/admin/suppliers/${supplierId}/products`, data, supplierProductSchema),
+
+  unlinkProduct: (supplierId: number, productId: number) =>
+    apiCommand('delete', `/admin/suppliers/${supplierId}/products/${productId}`),
+
+  // Every supplier of one product, cheapest first
+  forProduct: (productId: number) =>
+    apiGet(`/admin/products/${productId}/suppliers`, arrayOf(supplierProductSchema)),
+};
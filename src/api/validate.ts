@@ -0,0 +1,84 @@
+import { ApiError } from './errors';
+import type { ApiResponse, Page } from '../types/api';
+
+// A Check verifies an unknown value at runtime and returns it typed.
+// Schemas are built from these so a backend contract change fails loudly
+// in one place instead of leaking `undefined` into the pages.
+export type Check<T> = (value: unknown, path: string) => T;
+
+// Object schema: one Check per key of T, so the schema must stay in sync with the interface
+export type Shape<T> = { [K in keyof T]-?: Check<T[K]> };
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  const received = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  throw new ApiError('INVALID_RESPONSE', `Unexpected response: ${path} should be ${expected}, got ${received}`);
+};
+
+export const str: Check<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'a string', value);
+
+export const num: Check<number> = (value, path) =>
+  typeof value === 'number' && !Number.isNaN(value) ? value : fail(path, 'a number', value);
+
+export const bool: Check<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'a boolean', value);
+
+export const unknownValue: Check<unknown> = (value) => value;
+
+export const oneOf = <T extends string>(...options: readonly T[]): Check<T> => (value, path) =>
+  typeof value === 'string' && (options as readonly string[]).includes(value)
+    ? (value as T)
+    : fail(path, `one of ${options.join(', ')}`, value);
+
+// Accepts null or a missing key, normalizing both to null
+export const nullable = <T>(check: Check<T>): Check<T | null> => (value, path) =>
+  value === null || value === undefined ? null : check(value, path);
+
+// Accepts a missing key, leaving it undefined
+export const optional = <T>(check: Check<T>): Check<T | undefined> => (value, path) =>
+  value === undefined ? undefined : check(value, path);
+
+// Accepts null or a missing key as `fallback`, for fields older backends don't send yet
+export const withDefault = <T>(check: Check<T>, fallback: T): Check<T> => (value, path) =>
+  value === null || value === undefined ? fallback : check(value, path);
+
+export const arrayOf = <T>(check: Check<T>): Check<T[]> => (value, path) => {
+  if (!Array.isArray(value)) return fail(path, 'an array', value);
+  return value.map((item, i) => check(item, `${path}[${i}]`));
+};
+
+export const object = <T>(shape: Shape<T>): Check<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(path, 'an object', value);
+  }
+  const source = value as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...source };
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    result[key] = shape[key](source[key], `${path}.${key}`);
+  }
+  return result as T;
+};
+
+export const page = <T>(item: Check<T>): Check<Page<T>> => object<Page<T>>({
+  content: arrayOf(item),
+  totalPages: num,
+  totalElements: num,
+  size: num,
+  number: num,
+  first: bool,
+  last: bool,
+  empty: bool,
+});
+
+// Validates the { success, message, data } envelope and returns `data`.
+// A `success: false` body is surfaced as a REJECTED ApiError.
+export const unwrap = <T>(body: unknown, check: Check<T>, path = 'data'): T => {
+  const envelope = object<ApiResponse<unknown>>({
+    success: bool,
+    message: (value, p) => (value === null || value === undefined ? '' : str(value, p)),
+    data: unknownValue,
+  })(body, 'response');
+
+  if (!envelope.success) throw new ApiError('REJECTED', envelope.message || undefined);
+  return check(envelope.data, path);
+};
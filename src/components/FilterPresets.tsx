@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Bookmark, Check, X } from 'lucide-react';
+import { loadPresets, savePresets, serializeFilters, type FilterPreset } from '../utils/filterPresets';
+
+interface FilterPresetsProps {
+  scope: string;              // One preset list per page, e.g. 'orders'
+  keys: readonly string[];    // URL params that make up the page's filters
+}
+
+// Saved named filter combinations for a list page. Applying one rewrites the
+// filter params (and resets paging), so it also lands in the browser history.
+export const FilterPresets = ({ scope, keys }: FilterPresetsProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [presets, setPresets] = useState<FilterPreset[]>(() => loadPresets(scope));
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const currentQuery = serializeFilters(searchParams, keys);
+
+  const updatePresets = (next: FilterPreset[]) => {
+    setPresets(next);
+    savePresets(scope, next);
+  };
+
+  const applyPreset = (preset: FilterPreset) => {
+    setSearchParams(params => {
+      keys.forEach(key => params.delete(key));
+      params.delete('page');
+      new URLSearchParams(preset.query).forEach((value, key) => params.set(key, value));
+      return params;
+    });
+    setIsOpen(false);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updatePresets([...presets.filter(p => p.name !== trimmed), { name: trimmed, query: currentQuery }]);
+    setName('');
+    toast.success(`Saved preset "${trimmed}"`);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-50 whitespace-nowrap"
+      >
+        <Bookmark size={16} /> Presets
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-100 rounded-xl shadow-lg z-20 overflow-hidden">
+            <div className="max-h-64 overflow-y-auto py-1">
+              {presets.length === 0 ? (
+                <p className="px-4 py-3 text-sm text-gray-400">No saved presets yet.</p>
+              ) : presets.map(preset => (
+                <div key={preset.name} className="flex items-center group hover:bg-gray-50">
+                  <button onClick={() => applyPreset(preset)} className="flex-1 text-left px-4 py-2 text-sm text-gray-700 flex items-center gap-2 min-w-0">
+                    <Check size={14} className={preset.query === currentQuery ? 'text-blue-600' : 'invisible'} />
+                    <span className="truncate">{preset.name}</span>
+                  </button>
+                  <button
+                    onClick={() => updatePresets(presets.filter(p => p.name !== preset.name))}
+                    className="p-2 mr-2 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                    aria-label={`Delete preset ${preset.name}`}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <form onSubmit={handleSave} className="border-t border-gray-100 p-3 flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Save current filters as..."
+                className="flex-1 min-w-0 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!name.trim() || !currentQuery}
+                title={currentQuery ? undefined : 'Set some filters first'}
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </form>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,18 +1,33 @@
 import { RefreshCw } from "lucide-react";
+import { useRealtimeStatus } from "../hooks/useRealtimeStatus";
+import type { ConnectionState } from "../types/realtime";
+
+const STATUS_STYLES: Record<ConnectionState, { label: string; ping: string; dot: string }> = {
+  connected: { label: 'Live Updates', ping: 'bg-green-400', dot: 'bg-green-500' },
+  connecting: { label: 'Connecting...', ping: 'bg-amber-400', dot: 'bg-amber-500' },
+  reconnecting: { label: 'Reconnecting...', ping: 'bg-amber-400', dot: 'bg-amber-500' },
+  offline: { label: 'Offline · Polling', ping: '', dot: 'bg-gray-400' },
+};
 
 export const LiveIndicator = ({ isFetching }: { isFetching: boolean }) => {
+  const status = useRealtimeStatus();
+  const style = STATUS_STYLES[status];
+
   return (
-    <div className="flex items-center gap-2 bg-white border border-gray-200 px-3 py-1.5 rounded-full shadow-sm">
+    <div
+      className="flex items-center gap-2 bg-white border border-gray-200 px-3 py-1.5 rounded-full shadow-sm"
+      title={status === 'connected' ? 'Receiving updates in real time' : 'Live stream unavailable, refreshing periodically'}
+    >
       <span className="relative flex h-2.5 w-2.5">
-        <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
-        <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-green-500"></span>
+        {style.ping && <span className={`animate-ping absolute inline-flex h-full w-full rounded-full ${style.ping} opacity-75`}></span>}
+        <span className={`relative inline-flex rounded-full h-2.5 w-2.5 ${style.dot}`}></span>
       </span>
       <span className="text-xs font-medium text-gray-600">
-        Live Updates
+        {style.label}
       </span>
       {isFetching && (
         <RefreshCw size={12} className="text-blue-500 animate-spin ml-1" />
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,46 @@
+import { Navigate, Outlet, useLocation, useNavigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { buildLoginUrl, getRefreshToken, getToken, isTokenExpired } from '../api/session';
+import { usePermissions } from '../hooks/usePermissions';
+import type { Permission } from '../types/auth';
+
+interface ProtectedRouteProps {
+  permission?: Permission;
+  children?: React.ReactNode;
+}
+
+const AccessDenied = () => {
+  const navigate = useNavigate();
+  return (
+    <div className="flex flex-col items-center justify-center py-24 text-center">
+      <div className="w-16 h-16 bg-red-50 rounded-full flex items-center justify-center mb-4">
+        <ShieldAlert size={32} className="text-red-500" />
+      </div>
+      <h3 className="text-lg font-semibold text-gray-900">Access denied</h3>
+      <p className="text-sm text-gray-500 mt-1 mb-4">Your role doesn't have access to this page.</p>
+      <button
+        onClick={() => navigate('/dashboard')}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+      >
+        Back to Dashboard
+      </button>
+    </div>
+  );
+};
+
+// Without `permission` it only requires a live session (used around the layout);
+// with it, the page is also blocked for roles that lack the permission.
+export const ProtectedRoute = ({ permission, children }: ProtectedRouteProps) => {
+  const location = useLocation();
+  const { can } = usePermissions();
+
+  const token = getToken();
+  const canResume = !!token && (!isTokenExpired(token) || !!getRefreshToken());
+  if (!canResume) {
+    return <Navigate to={buildLoginUrl(`${location.pathname}${location.search}`)} replace />;
+  }
+
+  if (permission && !can(permission)) return <AccessDenied />;
+
+  return children ? <>{children}</> : <Outlet />;
+};
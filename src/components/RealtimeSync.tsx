@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { connectRealtime, onRealtimeEvent } from '../realtime/connection';
+import { applyRealtimeEvent } from '../realtime/cache';
+
+// Keeps the push stream open while the dashboard is mounted and feeds
+// every event into the React Query caches.
+export const RealtimeSync = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const unsubscribe = onRealtimeEvent(event => applyRealtimeEvent(queryClient, event));
+    const disconnect = connectRealtime();
+    return () => {
+      unsubscribe();
+      disconnect();
+    };
+  }, [queryClient]);
+
+  return null;
+};
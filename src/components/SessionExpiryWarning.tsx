@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { refreshSession } from '../api/axios';
+import { expireSession, getRefreshToken, getTokenExpiry } from '../api/session';
+
+// Show the warning this long before the JWT's `exp`
+const WARNING_WINDOW_MS = 2 * 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SessionExpiryWarning = () => {
+  const [now, setNow] = useState(() => Date.now());
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expiry = getTokenExpiry();
+  const remaining = expiry === null ? null : expiry - now;
+  const hasRefreshToken = !!getRefreshToken();
+
+  // Without a refresh token the session just ends; with one, the next request refreshes it
+  useEffect(() => {
+    if (remaining !== null && remaining <= 0 && !hasRefreshToken) expireSession();
+  }, [remaining, hasRefreshToken]);
+
+  if (remaining === null || remaining > WARNING_WINDOW_MS || remaining <= 0) return null;
+
+  const handleStaySignedIn = async () => {
+    setIsRefreshing(true);
+    try {
+      await refreshSession();
+      toast.success('Session extended');
+    } catch {
+      toast.error('Could not extend your session');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[90] w-[calc(100%-3rem)] max-w-sm bg-white border border-amber-200 rounded-xl shadow-xl p-4 animate-fade-in">
+      <div className="flex items-start gap-3">
+        <div className="w-9 h-9 rounded-full bg-amber-50 text-amber-600 flex items-center justify-center flex-shrink-0">
+          <Clock size={18} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-gray-900">Session expiring in {formatRemaining(remaining)}</p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {hasRefreshToken
+              ? 'Stay signed in to keep working without losing your changes.'
+              : 'Save your work. You will need to sign in again shortly.'}
+          </p>
+          <div className="flex gap-2 mt-3">
+            {hasRefreshToken ? (
+              <button
+                onClick={handleStaySignedIn}
+                disabled={isRefreshing}
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-medium hover:bg-blue-700 disabled:opacity-70 flex items-center gap-1.5"
+              >
+                {isRefreshing && <Loader2 size={12} className="animate-spin" />}
+                Stay signed in
+              </button>
+            ) : (
+              <button
+                onClick={expireSession}
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-medium hover:bg-blue-700"
+              >
+                Sign in again
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { buildLoginUrl, onSessionExpired } from '../api/session';
+
+// Turns a session expiry announced by the axios interceptors into a
+// client-side redirect, so the React Query cache survives the re-login.
+export const SessionWatcher = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const isOnLogin = location.pathname === '/login';
+
+  useEffect(() => {
+    if (isOnLogin) return;
+    return onSessionExpired((returnTo) => {
+      toast.error('Your session has expired. Please sign in again.', { id: 'session-expired' });
+      navigate(buildLoginUrl(returnTo), { replace: true });
+    });
+  }, [navigate, isOnLogin]);
+
+  return null;
+};
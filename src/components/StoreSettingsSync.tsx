@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { settingsApi } from '../api/settings';
+import { setStoreSettings } from '../utils/format';
+
+// Loads the store's currency, locale and time zone while the dashboard is
+// mounted and hands them to the shared formatters.
+export const StoreSettingsSync = () => {
+  const { data } = useQuery({
+    queryKey: ['store-settings'],
+    queryFn: settingsApi.getStore,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (data) setStoreSettings(data);
+  }, [data]);
+
+  return null;
+};
@@ -0,0 +1,98 @@
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Loader2, Archive, AlertTriangle } from 'lucide-react';
+import { productsApi } from '../../api/products';
+import { getErrorMessage } from '../../api/errors';
+import type { Product } from '../../types/inventory';
+import { formatEnum } from '../../utils/helpers';
+import { useFormatters } from '../../hooks/useFormatters';
+
+interface ArchiveProductModalProps {
+  product: Product;
+  onClose: () => void;
+}
+
+// Confirms archiving, warning first if customers are still waiting on the product
+const ArchiveProductModal = ({ product, onClose }: ArchiveProductModalProps) => {
+  const { dayMonth } = useFormatters();
+  const queryClient = useQueryClient();
+
+  const { data: openOrders, isLoading, isError } = useQuery({
+    queryKey: ['orders', 'open-for-product', product.id],
+    queryFn: () => productsApi.openOrders(product.id),
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: () => productsApi.archive(product.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['reorder-suggestions'] });
+      toast.success(`${product.name} archived`);
+      onClose();
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to archive product')),
+  });
+
+  const hasOpenOrders = !!openOrders?.length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-900">Archive Product</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            <span className="font-semibold text-gray-900">{product.name}</span> will be hidden from customers and
+            the active catalog. Its stock, history and past orders are kept, and it can be restored from the Archived tab.
+          </p>
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="animate-spin" size={16} /> Checking open orders...
+            </div>
+          ) : isError ? (
+            <p className="text-xs text-gray-500">Open orders could not be checked.</p>
+          ) : hasOpenOrders && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+              <p className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+                <AlertTriangle size={16} />
+                In {openOrders.length} open {openOrders.length === 1 ? 'order' : 'orders'}
+              </p>
+              <p className="text-xs text-amber-700 mt-1">These orders still need this product. Archiving does not change them.</p>
+              <ul className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+                {openOrders.map(order => (
+                  <li key={order.id} className="flex items-center justify-between text-xs">
+                    <Link to={`/orders?order=${order.id}`} className="font-medium text-amber-900 hover:underline">
+                      #{order.id} · {order.customerName || order.customerPhone || 'Customer'}
+                    </Link>
+                    <span className="text-amber-700">
+                      {formatEnum(order.status)} · {dayMonth(order.createdAt)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Cancel</button>
+          <button
+            onClick={() => archiveMutation.mutate()}
+            disabled={isLoading || archiveMutation.isPending}
+            className={`px-6 py-2.5 text-white rounded-lg font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${hasOpenOrders ? 'bg-amber-600 hover:bg-amber-700' : 'bg-red-600 hover:bg-red-700'}`}
+          >
+            {archiveMutation.isPending ? <Loader2 className="animate-spin" size={16} /> : <Archive size={16} />}
+            {hasOpenOrders ? 'Archive Anyway' : 'Archive'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveProductModal;
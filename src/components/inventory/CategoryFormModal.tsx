@@ -0,0 +1,129 @@
+import { useForm, useWatch } from 'react-hook-form';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Loader2, ChevronDown } from 'lucide-react';
+import { categoriesApi } from '../../api/categories';
+import { getErrorMessage } from '../../api/errors';
+import type { Category, CategoryDTO } from '../../types/inventory';
+import { CATEGORY_ICONS, refreshCategoryData } from '../../utils/categories';
+
+interface CategoryFormModalProps {
+  category: Category | null;  // null creates a new category
+  parentId?: number | null;   // Preselected parent when adding a subcategory
+  categories: Category[];
+  onClose: () => void;
+}
+
+interface CategoryFormValues {
+  name: string;
+  parentId: string;  // '' = top-level
+  icon: string;
+  active: boolean;
+}
+
+const CategoryFormModal = ({ category, parentId = null, categories, onClose }: CategoryFormModalProps) => {
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, setValue, control, formState: { errors } } = useForm<CategoryFormValues>({
+    defaultValues: {
+      name: category?.name ?? '',
+      parentId: String(category?.parentId ?? parentId ?? ''),
+      icon: category?.icon ?? 'tag',
+      active: category?.active ?? true,
+    },
+  });
+  const icon = useWatch({ control, name: 'icon' });
+
+  // Only two levels: parents must be top-level, and a category with subcategories stays top-level
+  const hasChildren = !!category && categories.some(c => c.parentId === category.id);
+  const parents = categories.filter(c => c.parentId === null && c.id !== category?.id);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: CategoryDTO) => (category ? categoriesApi.update(category.id, data) : categoriesApi.create(data)),
+    onSuccess: () => {
+      refreshCategoryData(queryClient);
+      toast.success(category ? 'Category updated' : 'Category added');
+      onClose();
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to save category')),
+  });
+
+  const onSubmit = (data: CategoryFormValues) => saveMutation.mutate({
+    name: data.name.trim(),
+    parentId: data.parentId ? Number(data.parentId) : null,
+    icon: data.icon,
+    active: data.active,
+  });
+
+  const inputClass = 'w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500 transition-all';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-900">{category ? 'Edit Category' : 'Add Category'}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input {...register('name', { required: 'Name is required', validate: v => !!v.trim() || 'Name is required' })} placeholder="e.g. Frozen Foods" className={inputClass} />
+            {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name.message}</p>}
+            {category && category.productCount > 0 && (
+              <p className="text-xs text-gray-500 mt-1">Renaming updates all {category.productCount} products in this category.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Parent Category</label>
+            <div className="relative">
+              <select {...register('parentId')} disabled={hasChildren} className={`${inputClass} appearance-none disabled:bg-gray-50 disabled:text-gray-500`}>
+                <option value="">None (top-level)</option>
+                {parents.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
+            </div>
+            {hasChildren && <p className="text-xs text-gray-500 mt-1">Categories with subcategories stay top-level.</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Icon</label>
+            <div className="grid grid-cols-8 gap-2">
+              {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setValue('icon', key)}
+                  title={key}
+                  className={`aspect-square flex items-center justify-center rounded-lg border transition-colors ${
+                    icon === key ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <Icon size={18} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input type="checkbox" {...register('active')} className="mt-1 accent-blue-600" />
+            <span>
+              <span className="block text-sm font-medium text-gray-700">Active</span>
+              <span className="block text-xs text-gray-500">Inactive categories can't be picked for new products; existing products keep them.</span>
+            </span>
+          </label>
+
+          <div className="pt-4 border-t border-gray-100 flex justify-end gap-3">
+            <button type="button" onClick={onClose} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Cancel</button>
+            <button type="submit" disabled={saveMutation.isPending} className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-70">
+              {saveMutation.isPending && <Loader2 className="animate-spin" size={16} />}
+              {category ? 'Save Changes' : 'Add Category'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryFormModal;
@@ -1,90 +1,224 @@
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
-import { X, Package, Loader2, Upload } from 'lucide-react';
-import api from '../../api/axios';
-import type { Product } from '../../types/inventory';
-import { CATEGORIES } from '../../utils/inventory-constants';
-
-interface UpdateProductDTO {
-    price?: number;
-    stock?: number;
-    category?: string;
-}
+import { X, Loader2, History, ArrowLeft } from 'lucide-react';
+import { productsApi } from '../../api/products';
+import { categoriesApi } from '../../api/categories';
+import { stockApi } from '../../api/stock';
+import { reorderApi } from '../../api/reorder';
+import { getErrorMessage } from '../../api/errors';
+import type { Product, ProductVariant, ProductVariantDTO, UpdateProductDTO } from '../../types/inventory';
+import type { StockAdjustmentDTO, StockMovementReason } from '../../types/stock';
+import { STOCK_REASONS } from '../../utils/inventory-constants';
+import { categoryOptions } from '../../utils/categories';
+import { resolveReorder } from '../../utils/reorder';
+import { getFormatters } from '../../utils/format';
+import { toVariantDTO, toVariantDraft, validateVariants, variantAsDTO, type VariantDraft } from '../../utils/variants';
+import { useProductGallery } from '../../hooks/useProductGallery';
+import VariantsEditor from './VariantsEditor';
+import ProductImageGallery from './ProductImageGallery';
 
 interface EditProductModalProps {
     product: Product;
+    variantId?: number;  // Size to adjust stock for, e.g. after scanning its barcode
     onClose: () => void;
+    onViewHistory?: () => void;
+}
+
+interface EditProductForm {
+    name: string;
+    category: string;
+    description: string;
+    active: boolean;
+    reorderPoint: string;     // Blank = use the category default
+    reorderQuantity: string;
+    adjustVariantId: string;
+    adjustReason: StockMovementReason;
+    adjustQuantity: number | '';
+    adjustNote: string;
 }
 
-const EditProductModal = ({ product, onClose }: EditProductModalProps) => {
+// One row of the before/after review shown ahead of saving
+interface FieldChange {
+    label: string;
+    from: string;
+    to: string;
+}
+
+interface PendingSave {
+    data: UpdateProductDTO;
+    stock: StockAdjustmentDTO | null;
+    changes: FieldChange[];
+}
+
+const MANUAL_REASONS = STOCK_REASONS.filter(r => r.manual);
+
+// Sizes are reviewed row by row instead (see variantChanges)
+type DetailField = Exclude<keyof UpdateProductDTO, 'variants'>;
+
+const FIELD_LABELS: Record<DetailField, string> = {
+    name: 'Name',
+    category: 'Category',
+    description: 'Description',
+    active: 'Status',
+    reorderPoint: 'Reorder Point',
+    reorderQuantity: 'Reorder Quantity',
+};
+
+const formatField = (field: DetailField, value: UpdateProductDTO[DetailField]) => {
+    if (field === 'active') return value ? 'Active' : 'Archived';
+    if (value === null) return 'Category default';
+    return String(value) || '(empty)';
+};
+
+const formatVariant = ({ unit, price, sku, barcode }: ProductVariantDTO) =>
+    [unit, getFormatters().money(price), sku && `SKU ${sku}`, barcode && `Barcode ${barcode}`].filter(Boolean).join(' · ');
+
+// Added, edited and removed sizes; empty when the list is unchanged
+const variantChanges = (saved: ProductVariant[], edited: ProductVariantDTO[]): FieldChange[] => {
+    const changes: FieldChange[] = [];
+    edited.forEach(dto => {
+        const before = saved.find(v => v.id === dto.id);
+        if (!before) {
+            changes.push({ label: `New size ${dto.unit}`, from: '—', to: formatVariant(dto) });
+        } else {
+            const from = formatVariant(variantAsDTO(before));
+            const to = formatVariant(dto);
+            if (from !== to) changes.push({ label: `Size ${before.unit}`, from, to });
+        }
+    });
+    saved
+        .filter(v => !edited.some(dto => dto.id === v.id))
+        .forEach(v => changes.push({ label: `Size ${v.unit}`, from: formatVariant(variantAsDTO(v)), to: 'Removed' }));
+    return changes;
+};
+
+// Reasons with a fixed direction take a plain count; corrections take a signed one
+const signedQuantity = (reason: StockMovementReason, quantity: number) => {
+    const direction = STOCK_REASONS.find(r => r.value === reason)?.direction ?? 0;
+    return direction === 0 ? quantity : direction * Math.abs(quantity);
+};
+
+const EditProductModal = ({ product, variantId, onClose, onViewHistory }: EditProductModalProps) => {
     const queryClient = useQueryClient();
-    const [previewUrl, setPreviewUrl] = useState<string | null>(product.imageUrl || null);
+    const gallery = useProductGallery(product.id, product.images);
+    const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
+    const [variants, setVariants] = useState<VariantDraft[]>(() => product.variants.map(toVariantDraft));
+    const [variantError, setVariantError] = useState<string | null>(null);
 
-    const { register, handleSubmit, formState: { errors } } = useForm({
+    const { register, handleSubmit, control, setFocus, formState: { errors } } = useForm<EditProductForm>({
         defaultValues: {
-            price: product.price,
-            stock: product.stock,
+            name: product.name,
             category: product.category,
+            description: product.description,
+            active: product.active,
+            reorderPoint: product.reorderPoint?.toString() ?? '',
+            reorderQuantity: product.reorderQuantity?.toString() ?? '',
+            adjustVariantId: String(product.variants.find(v => v.id === variantId)?.id ?? product.variants[0]?.id ?? ''),
+            adjustReason: 'DELIVERY',
+            adjustQuantity: '',
+            adjustNote: '',
         }
     });
+    const [adjustVariantId, adjustReason, adjustQuantity, category, active] = useWatch({
+        control,
+        name: ['adjustVariantId', 'adjustReason', 'adjustQuantity', 'category', 'active'],
+    });
+    const adjustment = adjustQuantity === '' ? 0 : signedQuantity(adjustReason, Number(adjustQuantity));
+    const hasSizes = product.variants.length > 1;
+    // Without sizes the adjustment applies to the product as a whole
+    const adjustVariant = product.variants.find(v => v.id === Number(adjustVariantId)) ?? product.variants[0]
+        ?? { id: undefined, unit: product.unit, stock: product.stock };
+
+    // Opened from a scan: go straight to the quantity of the scanned size
+    useEffect(() => {
+        if (variantId) setFocus('adjustQuantity');
+    }, [variantId, setFocus]);
+
+    // Inactive categories can't take new products, but the current one stays selectable
+    const { data: categories = [] } = useQuery({ queryKey: ['categories'], queryFn: categoriesApi.list });
 
+    // Placeholders show what a blank override falls back to for the selected category
+    const { data: reorderDefaults } = useQuery({
+        queryKey: ['reorder-defaults'],
+        queryFn: reorderApi.getDefaults,
+    });
+    const categoryReorder = resolveReorder({ category, reorderPoint: null, reorderQuantity: null }, reorderDefaults || []);
+
+    // Details and stock are separate endpoints; stock changes are recorded as a movement
     const updateMutation = useMutation({
-        mutationFn: async ({ id, data }: { id: number; data: UpdateProductDTO }) => api.patch(`/admin/products/${id}`, data),
+        mutationFn: async ({ id, data, stock }: { id: number; data: UpdateProductDTO; stock: StockAdjustmentDTO | null }) => {
+            if (Object.keys(data).length > 0) await productsApi.update(id, data);
+            if (stock) await stockApi.adjust(id, stock);
+        },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['products'] });
+            queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+            queryClient.invalidateQueries({ queryKey: ['reorder-suggestions'] });
             toast.success('Product updated successfully');
             onClose();
         },
-        onError: () => toast.error('Failed to update product')
+        onError: (error) => toast.error(getErrorMessage(error, 'Failed to update product'))
     });
 
-    const editImageMutation = useMutation({
-        mutationFn: async ({ id, file }: { id: number; file: File }) => {
-            const formData = new FormData();
-            formData.append('image', file);
-            return api.post(`/admin/products/${id}/image`, formData, {
-                headers: { 'Content-Type': 'multipart/form-data' }
-            });
-        },
-        onSuccess: () => {
-            queryClient.invalidateQueries({ queryKey: ['products'] });
-            toast.success('Image updated');
-        },
-        onError: () => toast.error('Failed to update image')
-    });
+    // Collects only what changed and shows it for review; saving happens on confirm
+    const onSubmit = (data: EditProductForm) => {
+        // Sizes are only checked when they changed, so products an older backend sent
+        // without sizes can still be renamed, archived or restocked
+        const variantDTOs = variants.map(toVariantDTO);
+        const sizeChanges = variantChanges(product.variants, variantDTOs);
+        const problem = sizeChanges.length > 0 ? validateVariants(variants) : null;
+        setVariantError(problem);
+        if (problem) return;
 
-    const onSubmit = (data: any) => {
         const payload: UpdateProductDTO = {};
-        if (Number(data.price) !== product.price) payload.price = Number(data.price);
-        if (Number(data.stock) !== product.stock) payload.stock = Number(data.stock);
+        if (data.name.trim() !== product.name) payload.name = data.name.trim();
         if (data.category !== product.category) payload.category = data.category;
+        if (data.description.trim() !== product.description) payload.description = data.description.trim();
+        if (data.active !== product.active) payload.active = data.active;
+        const reorderPoint = data.reorderPoint === '' ? null : Number(data.reorderPoint);
+        const reorderQuantity = data.reorderQuantity === '' ? null : Number(data.reorderQuantity);
+        if (reorderPoint !== product.reorderPoint) payload.reorderPoint = reorderPoint;
+        if (reorderQuantity !== product.reorderQuantity) payload.reorderQuantity = reorderQuantity;
+        const stock: StockAdjustmentDTO | null = adjustment !== 0
+            ? { variantId: adjustVariant.id, quantity: adjustment, reason: data.adjustReason, note: data.adjustNote.trim() || undefined }
+            : null;
+
+        const changes: FieldChange[] = (Object.keys(payload) as DetailField[]).map(field => ({
+            label: FIELD_LABELS[field],
+            from: formatField(field, product[field]),
+            to: formatField(field, payload[field]),
+        }));
+        if (sizeChanges.length > 0) {
+            payload.variants = variantDTOs;
+            changes.push(...sizeChanges);
+        }
+        if (stock) {
+            const reasonLabel = STOCK_REASONS.find(r => r.value === stock.reason)?.label;
+            changes.push({
+                label: hasSizes ? `Stock (${adjustVariant.unit})` : 'Stock',
+                from: String(adjustVariant.stock),
+                to: `${adjustVariant.stock + stock.quantity} (${reasonLabel} ${stock.quantity > 0 ? '+' : ''}${stock.quantity})`,
+            });
+        }
 
-        if (Object.keys(payload).length > 0) {
-            updateMutation.mutate({ id: product.id, data: payload });
+        if (changes.length > 0) {
+            setPendingSave({ data: payload, stock, changes });
         } else {
             toast('No changes detected');
             onClose();
         }
     };
 
-    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            setPreviewUrl(URL.createObjectURL(file));
-            editImageMutation.mutate({ id: product.id, file });
-        }
-    };
-
-    const isLoading = updateMutation.isPending || editImageMutation.isPending;
+    const isLoading = updateMutation.isPending;
 
     return (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50">
-            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl overflow-hidden">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl overflow-hidden">
                 {/* Header */}
                 <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
-                    <h3 className="text-lg font-semibold text-gray-900">Edit Product</h3>
+                    <h3 className="text-lg font-semibold text-gray-900">{pendingSave ? 'Review Changes' : 'Edit Product'}</h3>
                     <button
                         onClick={onClose}
                         className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100"
@@ -95,129 +229,238 @@ const EditProductModal = ({ product, onClose }: EditProductModalProps) => {
 
                 {/* Content */}
                 <div className="p-6 max-h-[calc(90vh-120px)] overflow-y-auto">
-                    {/* Image Upload Section */}
-                    <div className="mb-6 bg-gray-50 rounded-lg p-4 border border-gray-200">
-                        <label className="block text-sm font-medium text-gray-700 mb-3">Product Image</label>
-                        <div className="flex flex-col md:flex-row items-center gap-4">
-                            <div className="relative">
-                                <div className="w-24 h-24 rounded-lg bg-white border border-gray-300 overflow-hidden">
-                                    {previewUrl ? (
-                                        <img src={previewUrl} alt={product.name} className="w-full h-full object-cover" />
-                                    ) : (
-                                        <div className="w-full h-full flex items-center justify-center bg-gray-100">
-                                            <Package size={32} className="text-gray-400" />
-                                        </div>
-                                    )}
-                                </div>
-                                {editImageMutation.isPending && (
-                                    <div className="absolute inset-0 bg-black/50 rounded-lg flex items-center justify-center">
-                                        <Loader2 className="animate-spin text-white" size={24} />
-                                    </div>
-                                )}
+                    {pendingSave && (
+                        <div className="space-y-4">
+                            <p className="text-sm text-gray-600">
+                                These changes to <span className="font-semibold text-gray-900">{product.name}</span> will be saved:
+                            </p>
+                            <div className="border border-gray-200 rounded-lg overflow-hidden">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+                                            <th className="px-4 py-2">Field</th>
+                                            <th className="px-4 py-2">Before</th>
+                                            <th className="px-4 py-2">After</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {pendingSave.changes.map(change => (
+                                            <tr key={change.label} className="align-top">
+                                                <td className="px-4 py-2.5 font-medium text-gray-700 whitespace-nowrap">{change.label}</td>
+                                                <td className="px-4 py-2.5 text-red-600 line-through break-words">{change.from}</td>
+                                                <td className="px-4 py-2.5 text-green-700 font-medium break-words">{change.to}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
                             </div>
-
-                            <div className="flex-1 text-center md:text-left">
-                                <label className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 cursor-pointer transition-colors text-sm font-medium">
-                                    <Upload size={16} />
-                                    <span>Upload New Image</span>
-                                    <input
-                                        type="file"
-                                        className="hidden"
-                                        accept="image/*"
-                                        onChange={handleImageChange}
-                                        disabled={editImageMutation.isPending}
-                                    />
-                                </label>
-                                <p className="text-xs text-gray-500 mt-2">Recommended: Square image, at least 500x500px</p>
+                            {pendingSave.data.active === false && (
+                                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                                    Archived products keep their stock and order history but are hidden from customers.
+                                    They can be restored from the Archived tab.
+                                </p>
+                            )}
+                            <div className="flex gap-3 pt-4 border-t border-gray-200">
+                                <button
+                                    type="button"
+                                    onClick={() => setPendingSave(null)}
+                                    disabled={updateMutation.isPending}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium flex justify-center items-center gap-2 transition-colors disabled:opacity-60"
+                                >
+                                    <ArrowLeft size={16} />
+                                    Back to Editing
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => updateMutation.mutate({ id: product.id, data: pendingSave.data, stock: pendingSave.stock })}
+                                    disabled={updateMutation.isPending}
+                                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex justify-center items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {updateMutation.isPending && <Loader2 className="animate-spin" size={16} />}
+                                    {updateMutation.isPending ? 'Saving...' : 'Confirm & Save'}
+                                </button>
                             </div>
                         </div>
-                    </div>
+                    )}
 
-                    {/* Form */}
-                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-                        {/* Product Name (Read-only) */}
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Product Name</label>
-                            <input
-                                value={product.name}
-                                disabled
-                                className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-gray-600 cursor-not-allowed"
-                            />
+                    {/* Editing stays mounted while reviewing so going back keeps the values */}
+                    <div className={pendingSave ? 'hidden' : undefined}>
+                        {/* Images (saved as soon as they change) */}
+                        <div className="mb-6 bg-gray-50 rounded-lg p-4 border border-gray-200">
+                            <label className="block text-sm font-medium text-gray-700 mb-3">Product Images</label>
+                            <ProductImageGallery gallery={gallery} />
                         </div>
 
-                        {/* ID and Unit (Read-only) */}
-                        <div className="grid grid-cols-2 gap-4">
+                        {/* Form */}
+                        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                            {/* Product Name */}
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Product ID</label>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Product Name</label>
                                 <input
-                                    value={product.id}
-                                    disabled
-                                    className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-gray-600 cursor-not-allowed"
+                                    {...register("name", { validate: (v) => !!v.trim() || 'Name is required' })}
+                                    className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300"
                                 />
+                                {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name.message}</p>}
                             </div>
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
-                                <input
-                                    value={product.unit}
-                                    disabled
-                                    className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-gray-600 cursor-not-allowed"
-                                />
+
+                            {/* ID (Read-only) and Category */}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Product ID</label>
+                                    <input
+                                        value={product.id}
+                                        disabled
+                                        className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-gray-600 cursor-not-allowed"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                                    <select
+                                        {...register("category", { required: true })}
+                                        className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300 text-gray-700"
+                                    >
+                                        {categoryOptions(categories, { selected: product.category }).map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                    </select>
+                                </div>
                             </div>
-                        </div>
 
-                        {/* Category */}
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
-                            <select
-                                {...register("category", { required: true })}
-                                className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300 text-gray-700"
-                            >
-                                {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
-                            </select>
-                        </div>
+                            {/* Sizes & Prices */}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Sizes</label>
+                                <VariantsEditor variants={variants} onChange={setVariants} stockEditable={false} />
+                                {variantError && <p className="text-red-500 text-xs mt-1">{variantError}</p>}
+                            </div>
 
-                        {/* Price and Stock */}
-                        <div className="grid grid-cols-2 gap-4">
+                            {/* Description */}
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Price ($)</label>
-                                <input
-                                    type="number"
-                                    step="0.01"
-                                    {...register("price", { required: true, min: 0 })}
-                                    className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300"
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                                <textarea
+                                    {...register("description")}
+                                    rows={2}
+                                    className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300 resize-none"
                                 />
-                                {errors.price && <p className="text-red-500 text-xs mt-1">Valid price required</p>}
                             </div>
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Stock Quantity</label>
+
+                            {/* Active */}
+                            <label className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
+                                <input type="checkbox" {...register("active")} className="mt-0.5 accent-blue-600" />
+                                <span>
+                                    <span className="block text-sm font-medium text-gray-700">Active</span>
+                                    <span className="block text-xs text-gray-500">
+                                        {active
+                                            ? 'Visible to customers and included in reorder suggestions.'
+                                            : 'Archived: hidden from customers. Stock and order history are kept.'}
+                                    </span>
+                                </span>
+                            </label>
+
+                            {/* Reorder Settings */}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Reorder Point</label>
+                                    <input
+                                        type="number"
+                                        placeholder={`${categoryReorder.reorderPoint} (category default)`}
+                                        {...register("reorderPoint", { min: 0, validate: (v) => v === '' || Number.isInteger(Number(v)) })}
+                                        className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300"
+                                    />
+                                    {errors.reorderPoint && <p className="text-red-500 text-xs mt-1">Whole number of at least 0</p>}
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Reorder Quantity</label>
+                                    <input
+                                        type="number"
+                                        placeholder={`${categoryReorder.reorderQuantity} (category default)`}
+                                        {...register("reorderQuantity", { min: 1, validate: (v) => v === '' || Number.isInteger(Number(v)) })}
+                                        className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300"
+                                    />
+                                    {errors.reorderQuantity && <p className="text-red-500 text-xs mt-1">Whole number of at least 1</p>}
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500 -mt-2">Leave blank to follow the category's reorder settings.</p>
+
+                            {/* Stock Adjustment */}
+                            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <label className="text-sm font-medium text-gray-700">Adjust Stock</label>
+                                    {onViewHistory && (
+                                        <button
+                                            type="button"
+                                            onClick={onViewHistory}
+                                            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+                                        >
+                                            <History size={14} />
+                                            View history
+                                        </button>
+                                    )}
+                                </div>
+                                {hasSizes && (
+                                    <select
+                                        {...register("adjustVariantId")}
+                                        className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300 text-gray-700"
+                                    >
+                                        {product.variants.map(v => <option key={v.id} value={v.id}>{v.unit} ({v.stock} in stock)</option>)}
+                                    </select>
+                                )}
+                                <div className="grid grid-cols-2 gap-4">
+                                    <select
+                                        {...register("adjustReason")}
+                                        className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300 text-gray-700"
+                                    >
+                                        {MANUAL_REASONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                    </select>
+                                    <div>
+                                        <input
+                                            type="number"
+                                            placeholder={adjustReason === 'CORRECTION' ? 'e.g. -3 or 5' : 'Quantity'}
+                                            {...register("adjustQuantity", {
+                                                validate: (value) => value === '' || Number.isInteger(Number(value)) || 'Whole numbers only',
+                                            })}
+                                            className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300"
+                                        />
+                                        {errors.adjustQuantity && <p className="text-red-500 text-xs mt-1">{errors.adjustQuantity.message}</p>}
+                                    </div>
+                                </div>
                                 <input
-                                    type="number"
-                                    {...register("stock", { required: true, min: 0 })}
+                                    {...register("adjustNote")}
+                                    placeholder="Note (supplier invoice, batch, who counted...)"
                                     className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-gray-300"
                                 />
-                                {errors.stock && <p className="text-red-500 text-xs mt-1">Valid stock required</p>}
+                                <p className="text-xs text-gray-500">
+                                    Current stock{hasSizes && ` of ${adjustVariant.unit}`}{' '}
+                                    <span className="font-semibold text-gray-700">{adjustVariant.stock}</span>
+                                    {adjustment !== 0 && (
+                                        <>
+                                            {' '}→ new balance{' '}
+                                            <span className={`font-semibold ${adjustVariant.stock + adjustment < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                                {adjustVariant.stock + adjustment}
+                                            </span>
+                                            {' '}({adjustment > 0 ? '+' : ''}{adjustment})
+                                        </>
+                                    )}
+                                </p>
                             </div>
-                        </div>
 
-                        {/* Footer Actions */}
-                        <div className="flex gap-3 pt-4 border-t border-gray-200">
-                            <button
-                                type="button"
-                                onClick={onClose}
-                                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors"
-                            >
-                                Cancel
-                            </button>
-                            <button
-                                type="submit"
-                                disabled={isLoading}
-                                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex justify-center items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
-                            >
-                                {isLoading && <Loader2 className="animate-spin" size={16} />}
-                                {isLoading ? 'Saving...' : 'Save Changes'}
-                            </button>
-                        </div>
-                    </form>
+                            {/* Footer Actions */}
+                            <div className="flex gap-3 pt-4 border-t border-gray-200">
+                                <button
+                                    type="button"
+                                    onClick={onClose}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isLoading || adjustVariant.stock + adjustment < 0}
+                                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex justify-center items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {isLoading && <Loader2 className="animate-spin" size={16} />}
+                                    Review Changes
+                                </button>
+                            </div>
+                        </form>
+                    </div>
                 </div>
             </div>
         </div>
@@ -0,0 +1,166 @@
+import { useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { X, Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+import { cropImage, formatBytes } from '../../utils/images';
+
+interface ImageCropModalProps {
+  file: File;
+  position: number;  // 1-based, when several files were picked at once
+  total: number;
+  onCrop: (file: File) => void;
+  onSkip: () => void;
+}
+
+const VIEWPORT = 288;  // px; the square crop window
+const MAX_ZOOM = 4;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Square crop with drag-to-pan and zoom. The result is resized and compressed
+// before it's handed back, so onCrop receives the file to upload.
+const ImageCropModal = ({ file, position, total, onCrop, onSkip }: ImageCropModalProps) => {
+  const [url] = useState(() => URL.createObjectURL(file));
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });  // Image's top-left within the window
+  const [isProcessing, setIsProcessing] = useState(false);
+  const dragStart = useRef<{ pointer: Point; offset: Point } | null>(null);
+
+  // Zoom 1 makes the shorter side fill the window
+  const baseScale = natural ? VIEWPORT / Math.min(natural.width, natural.height) : 1;
+  const scale = baseScale * zoom;
+
+  // Keeps the window covered by the image
+  const clamp = (point: Point, atScale: number): Point => natural ? {
+    x: Math.min(0, Math.max(VIEWPORT - natural.width * atScale, point.x)),
+    y: Math.min(0, Math.max(VIEWPORT - natural.height * atScale, point.y)),
+  } : point;
+
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    const initialScale = VIEWPORT / Math.min(width, height);
+    setNatural({ width, height });
+    setOffset({ x: (VIEWPORT - width * initialScale) / 2, y: (VIEWPORT - height * initialScale) / 2 });
+  };
+
+  // Zooms around the middle of the window
+  const changeZoom = (next: number) => {
+    const nextZoom = Math.min(MAX_ZOOM, Math.max(1, next));
+    const nextScale = baseScale * nextZoom;
+    const center = { x: (VIEWPORT / 2 - offset.x) / scale, y: (VIEWPORT / 2 - offset.y) / scale };
+    setZoom(nextZoom);
+    setOffset(clamp({ x: VIEWPORT / 2 - center.x * nextScale, y: VIEWPORT / 2 - center.y * nextScale }, nextScale));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointer: { x: e.clientX, y: e.clientY }, offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    setOffset(clamp({
+      x: start.offset.x + e.clientX - start.pointer.x,
+      y: start.offset.y + e.clientY - start.pointer.y,
+    }, scale));
+  };
+
+  const finish = (next: () => void) => {
+    URL.revokeObjectURL(url);
+    next();
+  };
+
+  const handleCrop = async () => {
+    setIsProcessing(true);
+    try {
+      const cropped = await cropImage(file, { x: -offset.x / scale, y: -offset.y / scale, size: VIEWPORT / scale });
+      finish(() => onCrop(cropped));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not process ${file.name}`);
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden animate-fade-in">
+        <div className="px-5 py-4 border-b border-gray-100 flex justify-between items-center">
+          <div className="min-w-0">
+            <h3 className="text-base font-bold text-gray-900">Crop Image{total > 1 && ` ${position} of ${total}`}</h3>
+            <p className="text-xs text-gray-500 truncate">{file.name} · {formatBytes(file.size)}</p>
+          </div>
+          <button onClick={() => finish(onSkip)} disabled={isProcessing} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div
+            className="relative mx-auto overflow-hidden rounded-lg bg-gray-100 cursor-move touch-none select-none"
+            style={{ width: VIEWPORT, height: VIEWPORT }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragStart.current = null; }}
+            onPointerCancel={() => { dragStart.current = null; }}
+            onWheel={(e) => changeZoom(zoom - e.deltaY / 500)}
+          >
+            <img
+              src={url}
+              alt=""
+              draggable={false}
+              onLoad={handleLoad}
+              className={`absolute max-w-none ${natural ? '' : 'invisible'}`}
+              style={natural ? {
+                left: offset.x,
+                top: offset.y,
+                width: natural.width * scale,
+                height: natural.height * scale,
+              } : undefined}
+            />
+            {!natural && <Loader2 className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 animate-spin text-gray-400" size={24} />}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <ZoomOut size={16} className="text-gray-400" />
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={zoom}
+              onChange={(e) => changeZoom(Number(e.target.value))}
+              aria-label="Zoom"
+              className="flex-1 accent-blue-600"
+            />
+            <ZoomIn size={16} className="text-gray-400" />
+          </div>
+          <p className="text-xs text-gray-500 text-center">Drag to position. Saved as a square WebP image.</p>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={() => finish(onSkip)}
+              disabled={isProcessing}
+              className="flex-1 px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium disabled:opacity-60"
+            >
+              {total > 1 ? 'Skip' : 'Cancel'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCrop}
+              disabled={!natural || isProcessing}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex justify-center items-center gap-2 disabled:opacity-60"
+            >
+              {isProcessing && <Loader2 className="animate-spin" size={16} />}
+              Use Image
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropModal;
@@ -0,0 +1,382 @@
+import { useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, FileSpreadsheet, Loader2, AlertCircle, CheckCircle, Download, ChevronDown } from 'lucide-react';
+import { productsApi } from '../../api/products';
+import { stockApi } from '../../api/stock';
+import { categoriesApi } from '../../api/categories';
+import { ApiError, getErrorMessage, toApiError } from '../../api/errors';
+import { toCsv } from '../../utils/csv';
+import { readSpreadsheet } from '../../utils/xlsx';
+import { downloadBlob } from '../../utils/helpers';
+import { variantAsDTO } from '../../utils/variants';
+import {
+  IMPORT_FIELDS, autoMapColumns, validateImportRows, type ColumnMapping, type ImportRow
+} from '../../utils/productImport';
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+interface ImportFailure {
+  row: ImportRow;
+  message: string;
+}
+
+// Products are created/updated a few at a time so a big file doesn't flood the API
+const BATCH_SIZE = 5;
+
+const TEMPLATE_ROWS = [
+  ['Name', 'Category', 'Unit', 'Price', 'Stock', 'Description', 'SKU', 'Barcode'],
+  ['Organic Bananas', 'Produce', '1kg', '60', '40', 'Fresh Cavendish bananas', 'FC-BAN-1KG', ''],
+];
+
+const ImportProductsModal = ({ onClose }: { onClose: () => void }) => {
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+  const cancelledRef = useRef(false);
+
+  // Full catalog, used to match rows to existing products by name
+  const { data: existingProducts, isLoading: isLoadingProducts } = useQuery({
+    queryKey: ['products'],
+    queryFn: productsApi.list,
+  });
+
+  const { data: categories, isLoading: isLoadingCategories } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoriesApi.list,
+  });
+
+  const handleFile = async (file: File) => {
+    setIsParsing(true);
+    try {
+      const [headerRow, ...body] = await readSpreadsheet(file);
+      if (!headerRow || body.length === 0) {
+        toast.error('The file has no data rows');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setDataRows(body);
+      setMapping(autoMapColumns(headerRow));
+      setStep('map');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Could not read the file'));
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const missingRequired = mapping ? IMPORT_FIELDS.filter(f => f.required && mapping[f.field] < 0) : [];
+
+  const handlePreview = () => {
+    if (!mapping) return;
+    setRows(validateImportRows(dataRows, mapping, existingProducts || [], categories || []));
+    setStep('preview');
+  };
+
+  const validRows = rows.filter(r => r.dto && (updateExisting || r.existingId === null));
+  const invalidRows = rows.filter(r => !r.dto);
+  const skippedRows = rows.filter(r => r.dto && !updateExisting && r.existingId !== null);
+  const updateCount = validRows.filter(r => r.existingId !== null).length;
+
+  // Rows fill in the size with the same unit, adding it when the product doesn't have
+  // that size yet. Existing products are re-read right before writing, so the stock
+  // correction to the file's count starts from the live figure, not the one we opened with.
+  const importRow = async (row: ImportRow) => {
+    const dto = row.dto!;
+    if (row.existingId === null) {
+      const { unit, price, stock, sku, barcode, ...details } = dto;
+      return productsApi.create({ ...details, variants: [{ unit, price, stock, sku: sku ?? undefined, barcode: barcode ?? undefined }] });
+    }
+    // A blank description cell keeps the current one
+    const description = mapping && mapping.description >= 0 ? row.cells[mapping.description]?.trim() : '';
+    const size = { unit: dto.unit, price: dto.price, ...(dto.sku && { sku: dto.sku }), ...(dto.barcode && { barcode: dto.barcode }) };
+    const current = await productsApi.get(row.existingId);
+    const hasSize = current.variants.some(v => v.unit === dto.unit);
+    await productsApi.update(row.existingId, {
+      category: dto.category,
+      ...(description && { description }),
+      variants: [
+        ...current.variants.map(v => ({ ...variantAsDTO(v), ...(v.unit === dto.unit && size) })),
+        ...(hasSize ? [] : [size]),
+      ],
+    });
+    const target = (await productsApi.get(row.existingId)).variants.find(v => v.unit === dto.unit);
+    const delta = target ? dto.stock - target.stock : 0;
+    if (target && delta !== 0) {
+      // The details are saved by now, so the failure report says only the stock is left to do
+      try {
+        await stockApi.adjust(row.existingId, { variantId: target.id, quantity: delta, reason: 'CORRECTION', note: `Imported from ${fileName}` });
+      } catch (error) {
+        const { code, message, status } = toApiError(error);
+        throw new ApiError(code, `Details updated, stock not corrected: ${message}`, status);
+      }
+    }
+  };
+
+  const handleImport = async () => {
+    cancelledRef.current = false;
+    setStep('importing');
+    setProgress({ done: 0, total: validRows.length });
+    const failed: ImportFailure[] = [];
+
+    for (let i = 0; i < validRows.length && !cancelledRef.current; i += BATCH_SIZE) {
+      const batch = validRows.slice(i, i + BATCH_SIZE);
+      const results = await Promise.allSettled(batch.map(importRow));
+      results.forEach((result, j) => {
+        if (result.status === 'rejected') failed.push({ row: batch[j], message: getErrorMessage(result.reason) });
+      });
+      setProgress({ done: Math.min(i + BATCH_SIZE, validRows.length), total: validRows.length });
+    }
+
+    setFailures(failed);
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+    queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+    setStep('done');
+  };
+
+  // Rows that failed validation or the API, with the reason in an extra column
+  const downloadFailureReport = () => {
+    const reportRows = [
+      ...invalidRows.map(row => ({ row, message: row.errors.join('; ') })),
+      ...failures,
+    ].sort((a, b) => a.row.rowNumber - b.row.rowNumber);
+    const csv = toCsv([
+      ['Row', ...headers, 'Error'],
+      ...reportRows.map(({ row, message }) => [row.rowNumber, ...headers.map((_, i) => row.cells[i] ?? ''), message]),
+    ]);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `import-failures-${fileName.replace(/\.\w+$/, '')}.csv`);
+  };
+
+  const downloadTemplate = () =>
+    downloadBlob(new Blob([toCsv(TEMPLATE_ROWS)], { type: 'text/csv;charset=utf-8' }), 'product-import-template.csv');
+
+  const succeeded = progress.done - failures.length;
+  const percent = progress.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-white">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Import Products</h3>
+            <p className="text-xs text-gray-500 mt-0.5">{fileName || 'CSV or Excel (.xlsx) file with a header row'}</p>
+          </div>
+          {step !== 'importing' && (
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+          )}
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {/* Step 1: Upload */}
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <div className="relative border-2 border-dashed border-gray-300 rounded-xl p-10 flex flex-col items-center justify-center text-center hover:bg-gray-50 transition-colors cursor-pointer">
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                  disabled={isParsing}
+                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                />
+                <div className="w-12 h-12 bg-blue-50 text-blue-500 rounded-full flex items-center justify-center mb-3">
+                  {isParsing ? <Loader2 className="animate-spin" size={24} /> : <FileSpreadsheet size={24} />}
+                </div>
+                <p className="text-sm font-medium text-gray-900">{isParsing ? 'Reading file...' : 'Click to choose a .csv or .xlsx file'}</p>
+                <p className="text-xs text-gray-500 mt-1">Columns: name, category, unit, price, stock, description, SKU, barcode</p>
+              </div>
+              <button onClick={downloadTemplate} className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1.5">
+                <Download size={14} /> Download a template
+              </button>
+            </div>
+          )}
+
+          {/* Step 2: Map columns */}
+          {step === 'map' && mapping && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">Match each product field to a column in your file. We guessed from the headers.</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {label} {required && <span className="text-red-500">*</span>}
+                    </label>
+                    <div className="relative">
+                      <select
+                        value={mapping[field]}
+                        onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                        className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg appearance-none outline-none focus:border-blue-500"
+                      >
+                        <option value={-1}>{required ? 'Select a column' : 'Not imported'}</option>
+                        {headers.map((header, i) => <option key={i} value={i}>{header || `Column ${i + 1}`}</option>)}
+                      </select>
+                      <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
+                    </div>
+                    {mapping[field] >= 0 && (
+                      <p className="text-xs text-gray-400 mt-1 truncate">e.g. {dataRows[0]?.[mapping[field]] || '(empty)'}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Step 3: Preview with row-level errors */}
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="bg-green-50 border border-green-100 rounded-lg p-3">
+                  <p className="text-xs font-medium text-green-700 uppercase">New</p>
+                  <p className="text-xl font-semibold text-green-800">{validRows.length - updateCount}</p>
+                </div>
+                <div className="bg-blue-50 border border-blue-100 rounded-lg p-3">
+                  <p className="text-xs font-medium text-blue-700 uppercase">Updates</p>
+                  <p className="text-xl font-semibold text-blue-800">{updateCount}</p>
+                </div>
+                <div className="bg-red-50 border border-red-100 rounded-lg p-3">
+                  <p className="text-xs font-medium text-red-700 uppercase">Errors</p>
+                  <p className="text-xl font-semibold text-red-800">{invalidRows.length}</p>
+                </div>
+                <div className="bg-gray-50 border border-gray-100 rounded-lg p-3">
+                  <p className="text-xs font-medium text-gray-600 uppercase">Skipped</p>
+                  <p className="text-xl font-semibold text-gray-800">{skippedRows.length}</p>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={updateExisting} onChange={(e) => setUpdateExisting(e.target.checked)} className="accent-blue-600" />
+                Update price, stock and category of products whose name already exists
+              </label>
+
+              <div className="border border-gray-200 rounded-lg overflow-auto max-h-[40vh]">
+                <table className="w-full text-left text-sm">
+                  <thead className="sticky top-0 bg-gray-50 text-xs uppercase text-gray-500">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Name</th>
+                      <th className="px-3 py-2">Category</th>
+                      <th className="px-3 py-2">Unit</th>
+                      <th className="px-3 py-2">Price</th>
+                      <th className="px-3 py-2">Stock</th>
+                      <th className="px-3 py-2">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map(row => {
+                      const raw = (field: keyof ColumnMapping) => (mapping && mapping[field] >= 0 ? row.cells[mapping[field]] : '') || '—';
+                      return (
+                        <tr key={row.rowNumber} className={row.dto ? '' : 'bg-red-50/60'}>
+                          <td className="px-3 py-2 text-gray-400">{row.rowNumber}</td>
+                          <td className="px-3 py-2 font-medium text-gray-900">{row.dto?.name ?? raw('name')}</td>
+                          <td className="px-3 py-2">{row.dto?.category ?? raw('category')}</td>
+                          <td className="px-3 py-2">{row.dto?.unit ?? raw('unit')}</td>
+                          <td className="px-3 py-2">{row.dto?.price ?? raw('price')}</td>
+                          <td className="px-3 py-2">{row.dto?.stock ?? raw('stock')}</td>
+                          <td className="px-3 py-2">
+                            {row.dto ? (
+                              <span className={`text-xs font-semibold ${row.existingId !== null ? (updateExisting ? 'text-blue-600' : 'text-gray-400') : 'text-green-600'}`}>
+                                {row.existingId !== null ? (updateExisting ? 'Update' : 'Skip') : 'Create'}
+                              </span>
+                            ) : (
+                              <span className="text-xs text-red-600">{row.errors.join('; ')}</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Step 4: Progress */}
+          {step === 'importing' && (
+            <div className="py-10 space-y-4 text-center">
+              <Loader2 className="animate-spin text-blue-600 mx-auto" size={32} />
+              <p className="text-sm font-medium text-gray-900">Importing {progress.done} of {progress.total} products...</p>
+              <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden">
+                <div className="bg-blue-600 h-2 transition-all duration-300" style={{ width: `${percent}%` }}></div>
+              </div>
+              <button onClick={() => { cancelledRef.current = true; }} className="text-sm text-red-600 hover:text-red-700 font-medium">
+                Stop after this batch
+              </button>
+            </div>
+          )}
+
+          {/* Step 5: Summary */}
+          {step === 'done' && (
+            <div className="py-8 space-y-4 text-center">
+              {failures.length === 0 && invalidRows.length === 0 ? (
+                <CheckCircle className="text-green-500 mx-auto" size={40} />
+              ) : (
+                <AlertCircle className="text-amber-500 mx-auto" size={40} />
+              )}
+              <p className="text-lg font-semibold text-gray-900">{succeeded} of {progress.total} products imported</p>
+              <p className="text-sm text-gray-500">
+                {failures.length} failed on the server, {invalidRows.length} had validation errors
+                {progress.done < progress.total && `, ${progress.total - progress.done} not attempted`}.
+              </p>
+              {(failures.length > 0 || invalidRows.length > 0) && (
+                <button onClick={downloadFailureReport} className="px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium inline-flex items-center gap-2">
+                  <Download size={16} /> Download failure report
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {step !== 'importing' && step !== 'upload' && (
+          <div className="px-6 py-4 border-t border-gray-100 flex justify-between gap-3">
+            {step === 'map' && (
+              <>
+                <button onClick={() => setStep('upload')} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Back</button>
+                <button
+                  onClick={handlePreview}
+                  disabled={missingRequired.length > 0 || isLoadingProducts || isLoadingCategories}
+                  title={missingRequired.length > 0 ? `Map ${missingRequired.map(f => f.label).join(', ')} first` : undefined}
+                  className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Preview {dataRows.length} rows
+                </button>
+              </>
+            )}
+            {step === 'preview' && (
+              <>
+                <button onClick={() => setStep('map')} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Back</button>
+                <div className="flex gap-3">
+                  {invalidRows.length > 0 && (
+                    <button onClick={downloadFailureReport} className="px-4 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium flex items-center gap-2">
+                      <Download size={16} /> Error report
+                    </button>
+                  )}
+                  <button
+                    onClick={handleImport}
+                    disabled={validRows.length === 0}
+                    className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Import {validRows.length} products
+                  </button>
+                </div>
+              </>
+            )}
+            {step === 'done' && (
+              <button onClick={onClose} className="ml-auto px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium">Done</button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportProductsModal;
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { ImagePlus, Star, X, RotateCw, AlertCircle } from 'lucide-react';
+import type { ProductGallery } from '../../hooks/useProductGallery';
+import { ACCEPTED_IMAGE_TYPES, MAX_PRODUCT_IMAGES, MAX_SOURCE_BYTES, formatBytes, validateImageFile } from '../../utils/images';
+import ImageCropModal from './ImageCropModal';
+
+// Thumbnails of a product's images. New files are validated and cropped one at a
+// time before they reach the gallery; the first image is the primary one.
+const ProductImageGallery = ({ gallery }: { gallery: ProductGallery }) => {
+  const [cropQueue, setCropQueue] = useState<File[]>([]);
+  const [cropTotal, setCropTotal] = useState(0);
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+
+  const slotsLeft = MAX_PRODUCT_IMAGES - gallery.items.length - cropQueue.length;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const valid = files.filter(file => {
+      const problem = validateImageFile(file);
+      if (problem) toast.error(problem);
+      return !problem;
+    });
+    if (valid.length > slotsLeft) {
+      toast.error(`A product can have at most ${MAX_PRODUCT_IMAGES} images; ${valid.length - slotsLeft} skipped`);
+    }
+    const accepted = valid.slice(0, Math.max(0, slotsLeft));
+    if (accepted.length === 0) return;
+    setCropQueue(current => [...current, ...accepted]);
+    setCropTotal(total => (cropQueue.length === 0 ? accepted.length : total + accepted.length));
+  };
+
+  const nextCrop = () => setCropQueue(current => current.slice(1));
+
+  const handleDrop = (index: number) => {
+    if (draggedKey) gallery.move(draggedKey, index);
+    setDraggedKey(null);
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-4 sm:grid-cols-5 gap-3">
+        {gallery.items.map((item, index) => (
+          <div
+            key={item.key}
+            draggable={item.status !== 'uploading'}
+            onDragStart={() => setDraggedKey(item.key)}
+            onDragEnd={() => setDraggedKey(null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            className={`relative aspect-square rounded-lg overflow-hidden border-2 bg-gray-100 group cursor-grab ${
+              index === 0 ? 'border-blue-500' : 'border-gray-200'
+            } ${draggedKey === item.key ? 'opacity-40' : ''}`}
+          >
+            <img src={item.url} alt="" draggable={false} className="w-full h-full object-cover" />
+
+            {index === 0 && (
+              <span className="absolute top-1 left-1 text-[10px] font-bold uppercase bg-blue-600 text-white px-1.5 py-0.5 rounded">Primary</span>
+            )}
+
+            {item.status === 'pending' && (
+              <span className="absolute bottom-1 left-1 text-[10px] font-medium bg-black/60 text-white px-1.5 py-0.5 rounded">
+                {gallery.canRetry ? 'Queued' : 'Uploads on save'}
+              </span>
+            )}
+
+            {item.status === 'uploading' && (
+              <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-end p-2">
+                <span className="text-xs font-semibold text-white mb-1">{item.progress}%</span>
+                <div className="w-full h-1.5 bg-white/30 rounded-full overflow-hidden">
+                  <div className="h-full bg-white transition-all" style={{ width: `${item.progress}%` }} />
+                </div>
+              </div>
+            )}
+
+            {item.status === 'failed' && (
+              <div className="absolute inset-0 bg-red-900/60 flex flex-col items-center justify-center gap-1 p-1 text-center" title={item.error ?? undefined}>
+                <AlertCircle size={18} className="text-white" />
+                {gallery.canRetry ? (
+                  <button
+                    type="button"
+                    onClick={() => gallery.retry(item.key)}
+                    className="flex items-center gap-1 text-[11px] font-semibold text-white bg-white/20 hover:bg-white/30 px-2 py-0.5 rounded"
+                  >
+                    <RotateCw size={12} /> Retry
+                  </button>
+                ) : (
+                  <span className="text-[10px] text-white">Upload failed</span>
+                )}
+              </div>
+            )}
+
+            {item.status !== 'uploading' && (
+              <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => gallery.move(item.key, 0)}
+                    title="Make primary"
+                    className="p-1 bg-white/90 rounded text-gray-600 hover:text-blue-600"
+                  >
+                    <Star size={12} />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => gallery.remove(item.key)}
+                  title="Remove image"
+                  className="p-1 bg-white/90 rounded text-gray-600 hover:text-red-600"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {slotsLeft > 0 && (
+          <label className="aspect-square rounded-lg border-2 border-dashed border-gray-300 flex flex-col items-center justify-center gap-1 text-gray-500 hover:bg-gray-50 hover:text-blue-600 cursor-pointer transition-colors">
+            <ImagePlus size={20} />
+            <span className="text-xs font-medium">Add</span>
+            <input type="file" multiple accept={ACCEPTED_IMAGE_TYPES.join(',')} onChange={handleFiles} className="hidden" />
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Drag to reorder; the first image is shown in lists. JPEG, PNG or WebP up to {formatBytes(MAX_SOURCE_BYTES)}, max {MAX_PRODUCT_IMAGES} images.
+      </p>
+
+      {cropQueue.length > 0 && (
+        <ImageCropModal
+          key={`${cropTotal}-${cropQueue.length}`}
+          file={cropQueue[0]}
+          position={cropTotal - cropQueue.length + 1}
+          total={cropTotal}
+          onCrop={(file) => {
+            gallery.add([file]);
+            nextCrop();
+          }}
+          onSkip={nextCrop}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProductImageGallery;
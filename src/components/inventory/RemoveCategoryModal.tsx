@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Loader2, ChevronDown, AlertTriangle } from 'lucide-react';
+import { categoriesApi } from '../../api/categories';
+import { getErrorMessage } from '../../api/errors';
+import type { Category } from '../../types/inventory';
+import { categoryOptions, refreshCategoryData } from '../../utils/categories';
+
+interface RemoveCategoryModalProps {
+  category: Category;
+  mode: 'merge' | 'delete';
+  categories: Category[];
+  onClose: () => void;
+}
+
+// Merging moves products and subcategories into another category; deleting
+// needs somewhere to move the products to unless the category is empty.
+const RemoveCategoryModal = ({ category, mode, categories, onClose }: RemoveCategoryModalProps) => {
+  const queryClient = useQueryClient();
+  const [targetName, setTargetName] = useState('');
+
+  const children = categories.filter(c => c.parentId === category.id);
+  const isMerge = mode === 'merge';
+  const needsTarget = isMerge || category.productCount > 0;
+  const blocked = !isMerge && children.length > 0;
+
+  // A category with subcategories can only be merged into another top-level one
+  const targets = categoryOptions(
+    categories.filter(c => c.id !== category.id && c.parentId !== category.id && (children.length === 0 || c.parentId === null))
+  );
+  const target = categories.find(c => c.name === targetName);
+
+  const removeMutation = useMutation({
+    mutationFn: () => (isMerge ? categoriesApi.merge(category.id, target!.id) : categoriesApi.remove(category.id, target?.id)),
+    onSuccess: () => {
+      refreshCategoryData(queryClient);
+      toast.success(isMerge ? `${category.name} merged into ${target!.name}` : 'Category deleted');
+      onClose();
+    },
+    onError: (error) => toast.error(getErrorMessage(error, isMerge ? 'Failed to merge category' : 'Failed to delete category')),
+  });
+
+  const productsLabel = `${category.productCount} ${category.productCount === 1 ? 'product' : 'products'}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-900">{isMerge ? 'Merge' : 'Delete'} {category.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {blocked ? (
+            <div className="flex gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+              <p>
+                {category.name} has {children.length} {children.length === 1 ? 'subcategory' : 'subcategories'} ({children.map(c => c.name).join(', ')}).
+                Move or delete them first, or merge {category.name} into another category instead.
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {isMerge
+                  ? `Its ${productsLabel}${children.length > 0 ? ` and ${children.length} subcategories` : ''} move to the category you choose, along with their stock history and reorder settings. ${category.name} is then deleted.`
+                  : category.productCount > 0
+                    ? `${category.name} still has ${productsLabel}. Choose where they should go before it's deleted.`
+                    : `${category.name} has no products and will be deleted.`}
+              </p>
+              {needsTarget && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{isMerge ? 'Merge into' : 'Move products to'}</label>
+                  <div className="relative">
+                    <select
+                      value={targetName}
+                      onChange={(e) => setTargetName(e.target.value)}
+                      className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg appearance-none outline-none focus:border-blue-500"
+                    >
+                      <option value="">Select Category</option>
+                      {targets.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                    </select>
+                    <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Cancel</button>
+          {!blocked && (
+            <button
+              onClick={() => removeMutation.mutate()}
+              disabled={(needsTarget && !target) || removeMutation.isPending}
+              className="px-6 py-2.5 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {removeMutation.isPending && <Loader2 className="animate-spin" size={16} />}
+              {isMerge ? 'Merge Category' : 'Delete Category'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RemoveCategoryModal;
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Loader2 } from 'lucide-react';
+import { reorderApi } from '../../api/reorder';
+import { getErrorMessage } from '../../api/errors';
+import type { Category, CategoryReorderDefault } from '../../types/inventory';
+import { resolveReorder } from '../../utils/reorder';
+
+interface ReorderDefaultsModalProps {
+  defaults: CategoryReorderDefault[];
+  categories: Category[];
+  onClose: () => void;
+}
+
+// Category-wide reorder point and quantity, used by every product without its own
+const ReorderDefaultsModal = ({ defaults, categories, onClose }: ReorderDefaultsModalProps) => {
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<CategoryReorderDefault[]>(() =>
+    categories.map(({ name: category }) => ({
+      category,
+      ...resolveReorder({ category, reorderPoint: null, reorderQuantity: null }, defaults),
+    }))
+  );
+
+  const isSubcategory = (category: string) => categories.some(c => c.name === category && c.parentId !== null);
+
+  const updateRow = (category: string, changes: Partial<CategoryReorderDefault>) =>
+    setRows(current => current.map(row => (row.category === category ? { ...row, ...changes } : row)));
+
+  const isValid = rows.every(row =>
+    Number.isInteger(row.reorderPoint) && row.reorderPoint >= 0 && Number.isInteger(row.reorderQuantity) && row.reorderQuantity >= 1
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: () => reorderApi.updateDefaults(rows),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['reorder-defaults'], saved);
+      queryClient.invalidateQueries({ queryKey: ['reorder-suggestions'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      toast.success('Reorder defaults saved');
+      onClose();
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to save reorder defaults')),
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Category Reorder Defaults</h3>
+            <p className="text-xs text-gray-500 mt-0.5">Products with their own reorder settings are not affected.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 max-h-[60vh] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-gray-500">
+                <th className="pb-2">Category</th>
+                <th className="pb-2">Reorder Point</th>
+                <th className="pb-2">Reorder Qty</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.category}>
+                  <td className={`py-2 font-medium text-gray-900 ${isSubcategory(row.category) ? 'pl-4' : ''}`}>{row.category}</td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min={0}
+                      value={Number.isNaN(row.reorderPoint) ? '' : row.reorderPoint}
+                      onChange={(e) => updateRow(row.category, { reorderPoint: e.target.valueAsNumber })}
+                      className="w-full px-3 py-1.5 border border-gray-200 rounded-lg outline-none focus:border-blue-500"
+                    />
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={Number.isNaN(row.reorderQuantity) ? '' : row.reorderQuantity}
+                      onChange={(e) => updateRow(row.category, { reorderQuantity: e.target.valueAsNumber })}
+                      className="w-full px-3 py-1.5 border border-gray-200 rounded-lg outline-none focus:border-blue-500"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Cancel</button>
+          <button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isValid || saveMutation.isPending}
+            className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saveMutation.isPending && <Loader2 className="animate-spin" size={16} />}
+            Save Defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReorderDefaultsModal;
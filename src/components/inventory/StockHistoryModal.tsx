@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { X, Loader2, History } from 'lucide-react';
+import { stockApi } from '../../api/stock';
+import { getErrorMessage } from '../../api/errors';
+import type { Product } from '../../types/inventory';
+import { STOCK_REASONS } from '../../utils/inventory-constants';
+import { Pagination } from '../Pagination';
+import { StatusBadge } from '../StatusBadge';
+import { useFormatters } from '../../hooks/useFormatters';
+
+const HISTORY_PAGE_SIZE = 15;
+
+interface StockHistoryModalProps {
+  product: Product;
+  onClose: () => void;
+}
+
+// Read-only ledger for one product, newest first with the balance after each movement
+const StockHistoryModal = ({ product, onClose }: StockHistoryModalProps) => {
+  const { dateTime } = useFormatters();
+  const [page, setPage] = useState(0);
+
+  const { data: historyPage, isLoading, isError, error } = useQuery({
+    queryKey: ['stock-movements', 'product', product.id, page],
+    queryFn: () => stockApi.history(product.id, { page, size: HISTORY_PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+
+  const movements = historyPage?.content || [];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Stock History</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {product.name} · current stock <span className="font-semibold text-gray-700">{product.stock}</span>
+              {product.variants.length > 1 && ` (${product.variants.map(v => `${v.unit}: ${v.stock}`).join(', ')})`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-16 text-gray-500">
+              <Loader2 className="animate-spin" size={24} />
+            </div>
+          ) : isError ? (
+            <p className="py-16 text-center text-sm text-red-600">{getErrorMessage(error)}</p>
+          ) : movements.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+              <History size={28} className="text-gray-400 mb-2" />
+              <p className="text-sm">No stock movements recorded yet</p>
+            </div>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="sticky top-0 bg-gray-50 text-xs uppercase text-gray-500">
+                <tr>
+                  <th className="px-6 py-3">Date</th>
+                  <th className="px-6 py-3">Size</th>
+                  <th className="px-6 py-3">Reason</th>
+                  <th className="px-6 py-3 text-right">Change</th>
+                  <th className="px-6 py-3 text-right">Balance</th>
+                  <th className="px-6 py-3">Note</th>
+                  <th className="px-6 py-3">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {movements.map(movement => {
+                  const reason = STOCK_REASONS.find(r => r.value === movement.reason);
+                  return (
+                    <tr key={movement.id}>
+                      <td className="px-6 py-3 text-gray-600 whitespace-nowrap">{dateTime(movement.createdAt)}</td>
+                      <td className="px-6 py-3 text-gray-600 whitespace-nowrap">{movement.unit}</td>
+                      <td className="px-6 py-3"><StatusBadge className={reason?.color}>{reason?.label ?? movement.reason}</StatusBadge></td>
+                      <td className={`px-6 py-3 text-right font-semibold ${movement.quantity > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                      </td>
+                      <td className="px-6 py-3 text-right font-medium text-gray-900">{movement.balanceAfter}</td>
+                      <td className="px-6 py-3 text-gray-600">{movement.note || '—'}</td>
+                      <td className="px-6 py-3 text-gray-500">{movement.createdBy || 'System'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {(historyPage?.totalPages ?? 0) > 1 && (
+          <div className="px-6 py-3 border-t border-gray-100">
+            <Pagination currentPage={page} totalPages={historyPage!.totalPages} onPageChange={setPage} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockHistoryModal;
@@ -0,0 +1,138 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { UNIT_TYPES } from '../../utils/inventory-constants';
+import { emptyVariant, type VariantDraft } from '../../utils/variants';
+import { useFormatters } from '../../hooks/useFormatters';
+
+interface VariantsEditorProps {
+  variants: VariantDraft[];
+  onChange: (variants: VariantDraft[]) => void;
+  stockEditable: boolean; // Opening stock is entered on create; afterwards it changes through adjustments
+}
+
+const INPUT = 'w-full px-2 py-1.5 bg-white border border-gray-200 rounded-md text-sm outline-none focus:border-blue-500';
+
+// Pack sizes of one product. The first row is the default size shown in lists.
+const VariantsEditor = ({ variants, onChange, stockEditable }: VariantsEditorProps) => {
+  const { currencySymbol } = useFormatters();
+  const update = (key: string, changes: Partial<VariantDraft>) =>
+    onChange(variants.map(v => (v.key === key ? { ...v, ...changes } : v)));
+
+  // Sizes that still hold stock have to be written off before they can go
+  const canRemove = (variant: VariantDraft) =>
+    variants.length > 1 && (stockEditable || variant.id === undefined || Number(variant.stock) === 0);
+
+  return (
+    <div>
+      <div className="border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+              <th className="px-2 py-2 min-w-[150px]">Size</th>
+              <th className="px-2 py-2 min-w-[90px]">Price ({currencySymbol})</th>
+              <th className="px-2 py-2 min-w-[70px]">Stock</th>
+              <th className="px-2 py-2 min-w-[110px]">SKU</th>
+              <th className="px-2 py-2 min-w-[130px]">EAN / UPC</th>
+              <th className="px-2 py-2 w-8"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {variants.map((variant, i) => (
+              <tr key={variant.key}>
+                <td className="px-2 py-2">
+                  <div className="flex">
+                    <input
+                      type="number"
+                      step="any"
+                      value={variant.unitValue}
+                      onChange={(e) => update(variant.key, { unitValue: e.target.value })}
+                      placeholder="1"
+                      aria-label="Size amount"
+                      className={`${INPUT} rounded-r-none border-r-0`}
+                    />
+                    <select
+                      value={variant.unitType}
+                      onChange={(e) => update(variant.key, { unitType: e.target.value })}
+                      aria-label="Size unit"
+                      className="bg-gray-50 border border-gray-200 text-gray-700 text-sm rounded-r-md px-2 outline-none"
+                    >
+                      {UNIT_TYPES.map(u => <option key={u} value={u}>{u}</option>)}
+                    </select>
+                  </div>
+                  {i === 0 && <p className="text-[11px] text-gray-400 mt-0.5">Default size</p>}
+                </td>
+                <td className="px-2 py-2 align-top">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={variant.price}
+                    onChange={(e) => update(variant.key, { price: e.target.value })}
+                    placeholder="0.00"
+                    aria-label="Price"
+                    className={INPUT}
+                  />
+                </td>
+                <td className="px-2 py-2 align-top">
+                  {stockEditable ? (
+                    <input
+                      type="number"
+                      min={0}
+                      value={variant.stock}
+                      onChange={(e) => update(variant.key, { stock: e.target.value })}
+                      aria-label="Opening stock"
+                      className={INPUT}
+                    />
+                  ) : (
+                    <span className="block py-1.5 text-gray-700">{variant.id === undefined ? 0 : variant.stock}</span>
+                  )}
+                </td>
+                <td className="px-2 py-2 align-top">
+                  <input
+                    value={variant.sku}
+                    onChange={(e) => update(variant.key, { sku: e.target.value })}
+                    placeholder="Optional"
+                    aria-label="SKU"
+                    className={INPUT}
+                  />
+                </td>
+                <td className="px-2 py-2 align-top">
+                  <input
+                    value={variant.barcode}
+                    onChange={(e) => update(variant.key, { barcode: e.target.value })}
+                    // Scanners finish with Enter, which would otherwise submit the form
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.preventDefault(); }}
+                    inputMode="numeric"
+                    placeholder="Scan or type"
+                    aria-label="Barcode"
+                    className={INPUT}
+                  />
+                </td>
+                <td className="px-2 py-2 align-top">
+                  <button
+                    type="button"
+                    onClick={() => onChange(variants.filter(v => v.key !== variant.key))}
+                    disabled={!canRemove(variant)}
+                    title={canRemove(variant) ? 'Remove size' : variants.length === 1 ? 'A product needs at least one size' : 'Write off its stock before removing this size'}
+                    className="p-1.5 text-gray-400 hover:text-red-600 rounded disabled:opacity-40 disabled:hover:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...variants, emptyVariant()])}
+        className="mt-2 flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        <Plus size={16} />
+        Add Size
+      </button>
+    </div>
+  );
+};
+
+export default VariantsEditor;
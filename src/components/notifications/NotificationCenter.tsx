@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { AlertTriangle, Bell, CheckCheck, Clock, PackageX, ShoppingCart } from 'lucide-react';
+import { useNotifications } from '../../hooks/useNotifications';
+import {
+  clearNotifications, markAllNotificationsRead, markNotificationRead, setNotificationPreferences,
+} from '../../notifications/store';
+import { desktopNotificationsSupported, requestDesktopPermission } from '../../notifications/alerts';
+import type { AppNotification, NotificationKind } from '../../types/notifications';
+
+const KIND_ICONS: Record<NotificationKind, { icon: React.ElementType; className: string }> = {
+  ORDER_PLACED: { icon: ShoppingCart, className: 'bg-blue-50 text-blue-600' },
+  ISSUE_OPENED: { icon: AlertTriangle, className: 'bg-red-50 text-red-600' },
+  OUT_OF_STOCK: { icon: PackageX, className: 'bg-amber-50 text-amber-600' },
+  ORDER_STUCK: { icon: Clock, className: 'bg-purple-50 text-purple-600' },
+};
+
+export const NotificationCenter = () => {
+  const navigate = useNavigate();
+  const { notifications, preferences, unreadCount } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const openNotification = (notification: AppNotification) => {
+    markNotificationRead(notification.id);
+    setIsOpen(false);
+    navigate(notification.link);
+  };
+
+  const toggleDesktop = async () => {
+    if (preferences.desktop) {
+      setNotificationPreferences({ desktop: false });
+      return;
+    }
+    if (await requestDesktopPermission()) {
+      setNotificationPreferences({ desktop: true });
+    } else {
+      toast.error('Desktop notifications are blocked in this browser');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg relative"
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+      >
+        <Bell size={18} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white border border-gray-200 rounded-xl shadow-xl z-50 overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+              <button
+                onClick={markAllNotificationsRead}
+                disabled={unreadCount === 0}
+                className="text-xs font-medium text-blue-600 hover:text-blue-700 flex items-center gap-1 disabled:text-gray-300 disabled:cursor-not-allowed"
+              >
+                <CheckCheck size={14} /> Mark all read
+              </button>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-50">
+              {notifications.length === 0 ? (
+                <div className="py-10 text-center text-sm text-gray-400">You're all caught up</div>
+              ) : notifications.map(notification => {
+                const { icon: Icon, className } = KIND_ICONS[notification.kind];
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => openNotification(notification)}
+                    className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-gray-50 transition-colors ${notification.read ? '' : 'bg-blue-50/40'}`}
+                  >
+                    <div className={`w-8 h-8 rounded-lg flex items-center justify-center shrink-0 ${className}`}>
+                      <Icon size={16} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm truncate ${notification.read ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>{notification.title}</p>
+                      <p className="text-xs text-gray-500 line-clamp-2">{notification.message}</p>
+                      <p className="text-[11px] text-gray-400 mt-1">{formatDistanceToNow(parseISO(notification.createdAt), { addSuffix: true })}</p>
+                    </div>
+                    {!notification.read && <span className="w-2 h-2 mt-1.5 bg-blue-500 rounded-full shrink-0"></span>}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="px-4 py-3 border-t border-gray-100 bg-gray-50 space-y-2">
+              <p className="text-[11px] font-semibold text-gray-500 uppercase tracking-wider">Critical alerts</p>
+              {desktopNotificationsSupported() && (
+                <label className="flex items-center justify-between text-sm text-gray-700 cursor-pointer">
+                  Desktop notifications
+                  <input type="checkbox" checked={preferences.desktop} onChange={toggleDesktop} className="accent-blue-600" />
+                </label>
+              )}
+              <label className="flex items-center justify-between text-sm text-gray-700 cursor-pointer">
+                Play a sound
+                <input
+                  type="checkbox"
+                  checked={preferences.sound}
+                  onChange={() => setNotificationPreferences({ sound: !preferences.sound })}
+                  className="accent-blue-600"
+                />
+              </label>
+              {notifications.length > 0 && (
+                <button onClick={clearNotifications} className="text-xs text-gray-500 hover:text-red-600">
+                  Clear all
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
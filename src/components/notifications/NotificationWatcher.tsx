@@ -0,0 +1,54 @@
+import { useCallback, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ordersApi } from '../../api/orders';
+import { onRealtimeEvent } from '../../realtime/connection';
+import { addNotification, getNotificationPreferences, markNotificationRead } from '../../notifications/store';
+import { isStuckPacked, notificationForEvent, notificationForStuckOrder } from '../../notifications/rules';
+import { playAlertSound, showDesktopNotification } from '../../notifications/alerts';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { AppNotification } from '../../types/notifications';
+
+const STUCK_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Turns realtime events and the periodic stuck-order check into entries in
+// the notification center, plus desktop/sound alerts when enabled.
+export const NotificationWatcher = () => {
+  const navigate = useNavigate();
+  const { can } = usePermissions();
+  const canViewOrders = can('orders:view');
+
+  // Desktop and sound alerts are reserved for critical notifications
+  const notify = useCallback((notification: Omit<AppNotification, 'read' | 'createdAt'>) => {
+    if (!addNotification(notification) || !notification.critical) return;
+    const preferences = getNotificationPreferences();
+    if (preferences.desktop) {
+      showDesktopNotification(notification, () => {
+        markNotificationRead(notification.id);
+        navigate(notification.link);
+      });
+    }
+    if (preferences.sound) playAlertSound();
+  }, [navigate]);
+
+  useEffect(() => onRealtimeEvent(event => {
+    const notification = notificationForEvent(event, can);
+    if (notification) notify(notification);
+  }), [can, notify]);
+
+  const { data: packedOrders } = useQuery({
+    queryKey: ['orders', 'stuck-check'],
+    queryFn: () => ordersApi.list({ status: 'PACKED', page: 0, size: 100 }),
+    refetchInterval: STUCK_CHECK_INTERVAL_MS,
+    enabled: canViewOrders,
+  });
+
+  useEffect(() => {
+    const now = new Date();
+    packedOrders?.content
+      .filter(order => isStuckPacked(order, now))
+      .forEach(order => notify(notificationForStuckOrder(order)));
+  }, [packedOrders, notify]);
+
+  return null;
+};
@@ -0,0 +1,67 @@
+import { X, Loader2, RotateCcw, CheckCircle2, XCircle, MinusCircle } from 'lucide-react';
+import { idsWithOutcome, summarizeBulk, type BulkResult } from '../../utils/bulk';
+
+interface BulkResultsModalProps {
+  title: string;              // e.g. "Mark as Packed"
+  results: BulkResult[];
+  describe: (id: number) => string; // Row label, e.g. "#1022 · Asha Rao"
+  isRetrying: boolean;
+  onRetry: (failedIds: number[]) => void;
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<BulkResult['outcome'], { icon: React.ElementType; className: string }> = {
+  succeeded: { icon: CheckCircle2, className: 'text-green-600' },
+  failed: { icon: XCircle, className: 'text-red-600' },
+  skipped: { icon: MinusCircle, className: 'text-gray-400' },
+};
+
+// Per-record outcome of a bulk action, with a retry for just the ones that failed
+const BulkResultsModal = ({ title, results, describe, isRetrying, onRetry, onClose }: BulkResultsModalProps) => {
+  const failedIds = idsWithOutcome(results, 'failed');
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in flex flex-col max-h-[80vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+            <p className="text-sm text-gray-500 mt-0.5">{summarizeBulk(results)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="overflow-y-auto divide-y divide-gray-100">
+          {results.map(result => {
+            const { icon: Icon, className } = OUTCOME_STYLES[result.outcome];
+            return (
+              <div key={result.id} className="flex items-start gap-3 px-6 py-3 text-sm">
+                <Icon size={18} className={`shrink-0 mt-0.5 ${className}`} />
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{describe(result.id)}</p>
+                  {result.message && <p className={`text-xs mt-0.5 ${result.outcome === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>{result.message}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">Close</button>
+          {failedIds.length > 0 && (
+            <button
+              onClick={() => onRetry(failedIds)}
+              disabled={isRetrying}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center gap-2 disabled:opacity-50"
+            >
+              {isRetrying ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+              Retry {failedIds.length} Failed
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkResultsModal;
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { X, Loader2, Ban } from 'lucide-react';
+import type { CancellationReason, CancelOrderDTO } from '../../types/orders';
+import { CANCELLATION_REASONS, cancellationProblem } from '../../utils/orderStateMachine';
+
+interface CancelOrderModalProps {
+  title: string;              // e.g. "Cancel Order #1022"
+  isPending: boolean;
+  onConfirm: (data: CancelOrderDTO) => void;
+  onClose: () => void;
+}
+
+// Asks why before an order is cancelled; the reason is kept on the order
+const CancelOrderModal = ({ title, isPending, onConfirm, onClose }: CancelOrderModalProps) => {
+  const [reason, setReason] = useState<CancellationReason | ''>('');
+  const [note, setNote] = useState('');
+  const problem = cancellationProblem(reason || undefined, note);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+            <div className="space-y-2">
+              {CANCELLATION_REASONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="cancellation-reason"
+                    checked={reason === option.value}
+                    onChange={() => setReason(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note {reason !== 'OTHER' && <span className="text-gray-400 font-normal">(optional)</span>}</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="Shown on the order for the rest of the team"
+              className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500 resize-none text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Keep Order</button>
+          <button
+            onClick={() => reason && onConfirm({ reason, note: note.trim() || undefined })}
+            disabled={!!problem || isPending}
+            title={problem || undefined}
+            className="px-6 py-2.5 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPending ? <Loader2 className="animate-spin" size={16} /> : <Ban size={16} />}
+            Cancel Order
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelOrderModal;
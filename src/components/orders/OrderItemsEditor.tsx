@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Loader2, Trash2, Undo2 } from 'lucide-react';
+import { ordersApi } from '../../api/orders';
+import { productsApi } from '../../api/products';
+import { getErrorMessage } from '../../api/errors';
+import { refreshOrderQueries } from '../../hooks/useOrderTransition';
+import { useFormatters } from '../../hooks/useFormatters';
+import { isSameLine, orderEditProblem } from '../../utils/orderEdits';
+import type { OrderDetails, OrderItemEditDTO } from '../../types/orders';
+
+interface OrderItemsEditorProps {
+  details: OrderDetails;
+  onDone: () => void;
+}
+
+interface LineDraft {
+  quantity: number;
+  substitute: string; // "productId:variantId", '' to keep the product
+}
+
+// Reduce, remove or swap items on a pending order, e.g. when something is out
+// of stock at packing time. The customer sees the change on the order timeline.
+const OrderItemsEditor = ({ details, onDone }: OrderItemsEditorProps) => {
+  const queryClient = useQueryClient();
+  const { money } = useFormatters();
+  const [drafts, setDrafts] = useState<LineDraft[]>(() => details.items.map(item => ({ quantity: item.quantity, substitute: '' })));
+  const [note, setNote] = useState('');
+
+  const { data: products } = useQuery({
+    queryKey: ['products'],
+    queryFn: productsApi.list,
+  });
+
+  // Sizes in stock that aren't already on the order
+  const substituteOptions = (products ?? [])
+    .filter(p => p.active)
+    .flatMap(p => p.variants
+      .filter(v => v.stock > 0 && !details.items.some(item => isSameLine(item, { productId: p.id, variantId: v.id })))
+      .map(v => ({ value: `${p.id}:${v.id}`, productId: p.id, variantId: v.id, label: `${p.name} (${v.unit})`, price: v.price, stock: v.stock })));
+
+  const edits: OrderItemEditDTO[] = details.items.flatMap((item, index) => {
+    const draft = drafts[index];
+    const option = substituteOptions.find(o => o.value === draft.substitute);
+    if (option) {
+      return [{ productId: item.productId, variantId: item.variantId, quantity: draft.quantity, substitute: { productId: option.productId, variantId: option.variantId } }];
+    }
+    return draft.quantity === item.quantity ? [] : [{ productId: item.productId, variantId: item.variantId, quantity: draft.quantity }];
+  });
+  const problem = orderEditProblem(details.status, details.items, edits);
+  const newTotal = details.items.reduce((sum, item, index) => {
+    const draft = drafts[index];
+    const price = substituteOptions.find(o => o.value === draft.substitute)?.price ?? item.price;
+    return sum + price * draft.quantity;
+  }, 0);
+
+  const updateDraft = (index: number, changes: Partial<LineDraft>) =>
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+
+  const saveMutation = useMutation({
+    mutationFn: () => ordersApi.editItems(details.orderId, { edits, note: note.trim() || undefined }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['order-details', details.orderId], updated);
+      refreshOrderQueries(queryClient, details.orderId);
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      toast.success(`Order #${details.orderId} updated`);
+      onDone();
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to update the order')),
+  });
+
+  const inputClass = 'px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Edit Items</h3>
+        <p className="text-sm text-gray-600 mt-1">Quantities can only go down. Substitutes are charged at their own price.</p>
+      </div>
+
+      <div className="border border-gray-100 rounded-xl overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-50 text-gray-500 font-medium border-b border-gray-100">
+            <tr>
+              <th className="px-4 py-3">Product</th>
+              <th className="px-4 py-3">Substitute With</th>
+              <th className="px-4 py-3 text-center">Qty</th>
+              <th className="px-4 py-3 text-right">Total</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {details.items.map((item, index) => {
+              const draft = drafts[index];
+              const isRemoved = draft.quantity === 0;
+              const option = substituteOptions.find(o => o.value === draft.substitute);
+              const maxQuantity = option ? Math.min(item.quantity, option.stock) : item.quantity;
+              return (
+                <tr key={index} className={isRemoved ? 'bg-red-50/50' : draft.quantity !== item.quantity || option ? 'bg-amber-50/50' : ''}>
+                  <td className="px-4 py-3">
+                    <p className={`font-medium ${isRemoved || option ? 'text-gray-400 line-through' : 'text-gray-900'}`}>{item.productName}</p>
+                    <p className="text-xs text-gray-500">{[item.unit, `${item.quantity} ordered @ ${money(item.price)}`].filter(Boolean).join(' · ')}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={draft.substitute}
+                      onChange={(e) => updateDraft(index, { substitute: e.target.value, quantity: e.target.value ? Math.max(draft.quantity, 1) : item.quantity })}
+                      className={`${inputClass} w-full max-w-[220px]`}
+                    >
+                      <option value="">Keep as ordered</option>
+                      {substituteOptions.map(o => (
+                        <option key={o.value} value={o.value}>{o.label} · {money(o.price)} · {o.stock} left</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-center">
+                    <input
+                      type="number"
+                      min={option ? 1 : 0}
+                      max={maxQuantity}
+                      value={draft.quantity}
+                      onChange={(e) => updateDraft(index, { quantity: Math.min(Math.max(Number(e.target.value) || 0, 0), maxQuantity) })}
+                      className={`${inputClass} w-16 text-center`}
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-900">{money((option?.price ?? item.price) * draft.quantity)}</td>
+                  <td className="px-4 py-3 text-right">
+                    {isRemoved || option || draft.quantity !== item.quantity ? (
+                      <button onClick={() => updateDraft(index, { quantity: item.quantity, substitute: '' })} className="p-1.5 text-gray-400 hover:text-gray-600 rounded hover:bg-gray-100" title="Undo changes to this item">
+                        <Undo2 size={16} />
+                      </button>
+                    ) : (
+                      <button onClick={() => updateDraft(index, { quantity: 0 })} className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-red-50" title="Remove item">
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="bg-gray-50">
+            <tr>
+              <td colSpan={3} className="px-4 py-3 text-right text-gray-500 font-medium">New Total</td>
+              <td className="px-4 py-3 text-right font-bold text-lg text-gray-900">{money(newTotal)}</td>
+              <td className="px-4 py-3 text-right text-xs text-gray-400 line-through">{newTotal !== details.totalAmount && money(details.totalAmount)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Note for the customer <span className="text-gray-400 font-normal">(optional)</span></label>
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="e.g. Sorry, we ran out of 1 L packs"
+          className={`${inputClass} w-full px-3 py-2`}
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {problem && edits.length > 0 && <p className="text-sm text-red-600 mr-auto">{problem}</p>}
+        <button onClick={onDone} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">Discard</button>
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={!!problem || saveMutation.isPending}
+          className="px-5 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saveMutation.isPending && <Loader2 size={16} className="animate-spin" />}
+          Save Changes
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OrderItemsEditor;
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Check, Minus, Plus, ScanBarcode, AlertTriangle, X } from 'lucide-react';
+import type { OrderItem } from '../../types/orders';
+import type { ScanToPack } from '../../hooks/useScanToPack';
+
+interface ScanToPackPanelProps {
+  items: OrderItem[];
+  packing: ScanToPack;
+}
+
+// Checklist for packing an order by scanning each unit into the box. Scans are
+// picked up anywhere in the modal; the field below is for typing a code by hand.
+const ScanToPackPanel = ({ items, packing }: ScanToPackPanelProps) => {
+  const [manualCode, setManualCode] = useState('');
+  const { lastScan } = packing;
+  const packedUnits = items.reduce((sum, item, index) => sum + Math.min(item.quantity, packing.countOf(index)), 0);
+  const totalUnits = items.reduce((sum, item) => sum + item.quantity, 0);
+
+  const handleManualScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    packing.scan(manualCode);
+    setManualCode('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Scan to Pack</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {packedUnits} of {totalUnits} units packed
+            {lastScan && (
+              <span className={`ml-2 font-medium ${lastScan.ok ? 'text-green-600' : 'text-red-600'}`}>
+                {lastScan.ok ? `✓ ${items[lastScan.itemIndex].productName}` : `✗ ${lastScan.flag.code}`}
+              </span>
+            )}
+          </p>
+        </div>
+        <form onSubmit={handleManualScan} className="relative w-full md:w-64">
+          <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+          <input
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="Scan or type SKU / barcode"
+            className="w-full pl-9 pr-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:border-blue-500"
+          />
+        </form>
+      </div>
+
+      <div className="border border-gray-100 rounded-xl overflow-hidden divide-y divide-gray-100">
+        {items.map((item, index) => {
+          const count = packing.countOf(index);
+          const isDone = count >= item.quantity;
+          const isLast = lastScan?.ok && lastScan.itemIndex === index;
+          return (
+            <div
+              key={index}
+              className={`flex items-center gap-4 px-5 py-3 text-sm transition-colors ${isDone ? 'bg-green-50' : count > 0 ? 'bg-amber-50' : ''} ${isLast ? 'ring-2 ring-inset ring-green-400' : ''}`}
+            >
+              <div className={`w-7 h-7 rounded-full flex items-center justify-center shrink-0 ${isDone ? 'bg-green-600 text-white' : 'border-2 border-gray-200'}`}>
+                {isDone && <Check size={14} strokeWidth={3} />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">{item.productName}{item.unit && <span className="text-gray-500 font-normal"> · {item.unit}</span>}</p>
+                <p className="text-xs text-gray-500 font-mono">
+                  {[item.sku, item.barcode].filter(Boolean).join(' · ') || 'No code; check off by hand'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => packing.unpackItem(index)}
+                  disabled={count === 0}
+                  className="p-1 rounded border border-gray-200 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                  title="Take one out"
+                >
+                  <Minus size={14} />
+                </button>
+                <span className={`w-14 text-center font-semibold ${isDone ? 'text-green-700' : 'text-gray-700'}`}>{count} / {item.quantity}</span>
+                <button
+                  type="button"
+                  onClick={() => packing.packItem(index)}
+                  disabled={isDone}
+                  className="p-1 rounded border border-gray-200 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                  title="Check one off without scanning"
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {packing.flags.length > 0 && (
+        <div className="border border-red-200 bg-red-50 rounded-xl p-4 space-y-2">
+          <p className="flex items-center gap-2 text-sm font-semibold text-red-700">
+            <AlertTriangle size={16} /> Take these out of the box
+          </p>
+          {packing.flags.map(flag => (
+            <div key={flag.key} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-red-700">
+                <span className="font-mono">{flag.code}</span>
+                {' '}{flag.problem === 'too-many' ? `is one more ${flag.itemName} than ordered` : 'is not in this order'}
+              </span>
+              <button
+                type="button"
+                onClick={() => packing.dismissFlag(flag.key)}
+                className="flex items-center gap-1 text-xs font-medium text-red-700 hover:text-red-800 px-2 py-1 rounded hover:bg-red-100"
+              >
+                <X size={12} /> Removed
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanToPackPanel;
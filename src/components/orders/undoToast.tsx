@@ -0,0 +1,19 @@
+import toast from 'react-hot-toast';
+import { ORDER_UNDO_WINDOW_MS } from '../../utils/orderStateMachine';
+
+// Success toast with an Undo button that stays up for as long as the backend allows undoing
+export const showUndoToast = (message: string, onUndo: () => void) =>
+  toast.success(t => (
+    <span className="flex items-center gap-3">
+      {message}
+      <button
+        onClick={() => {
+          toast.dismiss(t.id);
+          onUndo();
+        }}
+        className="text-sm font-semibold text-blue-600 hover:text-blue-700"
+      >
+        Undo
+      </button>
+    </span>
+  ), { duration: ORDER_UNDO_WINDOW_MS });
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Check, Loader2, X } from 'lucide-react';
+import { decodeToken, getToken } from '../../api/session';
+import { useFormatters } from '../../hooks/useFormatters';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useRefundDecision } from '../../hooks/useRefunds';
+import { NO_PERMISSION_HINT } from '../../utils/permissions';
+import { REFUND_APPROVE_PERMISSION, REFUND_STATUS_STYLES, refundMethodLabel, refundReasonLabel } from '../../utils/refunds';
+import type { Refund } from '../../types/refunds';
+
+interface RefundListProps {
+  refunds: Refund[];
+  showOrder?: boolean;        // For lists that span orders, e.g. the approval queue
+}
+
+// Refunds with their approval state; approvers can decide pending ones here
+const RefundList = ({ refunds, showOrder = false }: RefundListProps) => {
+  const { money, dateTime } = useFormatters();
+  const { can } = usePermissions();
+  const canApprove = can(REFUND_APPROVE_PERMISSION);
+  const currentUser = decodeToken(getToken())?.sub;
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+  const decision = useRefundDecision(() => {
+    setRejectingId(null);
+    setRejectNote('');
+  });
+
+  return (
+    <div className="border border-gray-100 rounded-xl divide-y divide-gray-100">
+      {refunds.map(refund => {
+        const style = REFUND_STATUS_STYLES[refund.status];
+        const isOwn = refund.requestedBy === currentUser;
+        const approveHint = !canApprove ? NO_PERMISSION_HINT : isOwn ? 'Someone else has to approve a refund you requested' : undefined;
+        const isDeciding = decision.isPending && decision.variables?.refund.id === refund.id;
+        return (
+          <div key={refund.id} className="p-4 space-y-2 text-sm">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="font-semibold text-gray-900">
+                  {money(refund.amount)} · {refundMethodLabel(refund.method)}
+                  {showOrder && <span className="ml-2 text-xs font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded">#{refund.orderId}</span>}
+                </p>
+                <p className="text-gray-600">{refundReasonLabel(refund.reason)}{refund.note && ` · ${refund.note}`}</p>
+              </div>
+              <span className={`px-2.5 py-1 rounded-full text-xs font-bold border whitespace-nowrap ${style.className}`}>{style.label}</span>
+            </div>
+            {refund.items.length > 0 && (
+              <p className="text-xs text-gray-500">
+                {refund.items.map(item => `${item.quantity} × ${item.productName}${item.unit ? ` (${item.unit})` : ''}`).join(', ')}
+              </p>
+            )}
+            <p className="text-xs text-gray-400">
+              Requested by {refund.requestedBy} · {dateTime(refund.requestedAt)}
+              {refund.decidedAt && ` · ${refund.status === 'APPROVED' ? 'Approved' : 'Rejected'} by ${refund.decidedBy} · ${dateTime(refund.decidedAt)}`}
+              {refund.decisionNote && ` · "${refund.decisionNote}"`}
+              {refund.issueId && ` · Ticket #${refund.issueId}`}
+            </p>
+
+            {refund.status === 'PENDING_APPROVAL' && (
+              rejectingId === refund.id ? (
+                <div className="flex items-center gap-2 pt-1">
+                  <input
+                    autoFocus
+                    value={rejectNote}
+                    onChange={(e) => setRejectNote(e.target.value)}
+                    placeholder="Why is it rejected?"
+                    className="flex-1 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm outline-none focus:border-blue-500"
+                  />
+                  <button
+                    onClick={() => decision.mutate({ refund, approve: false, note: rejectNote.trim() })}
+                    disabled={!rejectNote.trim() || isDeciding}
+                    className="px-3 py-1.5 bg-red-600 text-white rounded-lg text-xs font-bold hover:bg-red-700 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    {isDeciding && <Loader2 size={12} className="animate-spin" />} Reject
+                  </button>
+                  <button onClick={() => setRejectingId(null)} className="p-1.5 text-gray-400 hover:text-gray-600"><X size={16} /></button>
+                </div>
+              ) : (
+                <div className="flex gap-2 pt-1">
+                  <button
+                    onClick={() => decision.mutate({ refund, approve: true })}
+                    disabled={!!approveHint || isDeciding}
+                    title={approveHint}
+                    className="px-3 py-1.5 bg-green-600 text-white rounded-lg text-xs font-bold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                  >
+                    {isDeciding ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />} Approve
+                  </button>
+                  <button
+                    onClick={() => setRejectingId(refund.id)}
+                    disabled={!!approveHint || isDeciding}
+                    title={approveHint}
+                    className="px-3 py-1.5 bg-white border border-gray-200 text-gray-700 rounded-lg text-xs font-bold hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Reject
+                  </button>
+                </div>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RefundList;
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { X, Loader2, RotateCcw } from 'lucide-react';
+import { ordersApi } from '../../api/orders';
+import { refundsApi } from '../../api/refunds';
+import { useFormatters } from '../../hooks/useFormatters';
+import { useRequestRefund } from '../../hooks/useRefunds';
+import { REFUND_METHODS, REFUND_REASONS, refundableAmount, refundedQuantity, refundProblem } from '../../utils/refunds';
+import type { RefundMethod, RefundReason } from '../../types/refunds';
+
+interface RefundModalProps {
+  orderId: number;
+  issueId?: number;           // When refunding from a support ticket
+  defaultReason?: RefundReason;
+  onClose: () => void;
+}
+
+// Asks for a refund on a delivered order: pick the items (or just an amount),
+// why, and how the money goes back. It waits for a second person to approve it.
+const RefundModal = ({ orderId, issueId, defaultReason, onClose }: RefundModalProps) => {
+  const { money } = useFormatters();
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [customAmount, setCustomAmount] = useState('');
+  const [reason, setReason] = useState<RefundReason | ''>(defaultReason ?? '');
+  const [method, setMethod] = useState<RefundMethod>('UPI');
+  const [note, setNote] = useState('');
+
+  const { data: details, isLoading: isLoadingDetails } = useQuery({
+    queryKey: ['order-details', orderId],
+    queryFn: () => ordersApi.getDetails(orderId),
+  });
+  const { data: refunds, isLoading: isLoadingRefunds } = useQuery({
+    queryKey: ['refunds', 'order', orderId],
+    queryFn: () => refundsApi.forOrder(orderId),
+  });
+
+  const requestMutation = useRequestRefund(() => onClose());
+
+  if (isLoadingDetails || isLoadingRefunds || !details || !refunds) {
+    return (
+      <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+        <div className="bg-white p-8 rounded-2xl"><Loader2 className="animate-spin text-blue-600" size={32} /></div>
+      </div>
+    );
+  }
+
+  const items = details.items
+    .map((item, index) => ({ ...item, index, left: item.quantity - refundedQuantity(refunds, item) }))
+    .filter(item => item.left > 0 || (quantities[item.index] ?? 0) > 0);
+  const selected = items.filter(item => (quantities[item.index] ?? 0) > 0);
+  const itemsValue = selected.reduce((sum, item) => sum + item.price * quantities[item.index], 0);
+  const left = refundableAmount(details.totalAmount, refunds);
+  // The amount follows the items until it's typed in, e.g. to add a delivery fee or refund less
+  const amount = customAmount !== '' ? Number(customAmount) : Math.min(itemsValue, left);
+  const dto = {
+    issueId,
+    items: selected.map(item => ({ productId: item.productId, variantId: item.variantId, quantity: quantities[item.index] })),
+    amount,
+    method,
+    reason: reason as RefundReason,
+    note: note.trim() || undefined,
+  };
+  const problem = refundProblem(dto, details, refunds);
+
+  const inputClass = 'px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-xl overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Refund Order #{orderId}</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {money(left)} of {money(details.totalAmount)} can still be refunded{issueId && ` · Ticket #${issueId}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Items <span className="text-gray-400 font-normal">(leave empty to refund an amount only)</span></label>
+            <div className="border border-gray-100 rounded-xl divide-y divide-gray-100">
+              {items.length === 0 && <p className="px-4 py-3 text-sm text-gray-500">Every item has already been refunded.</p>}
+              {items.map(item => (
+                <div key={item.index} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{item.productName}{item.unit && <span className="text-gray-500 font-normal"> · {item.unit}</span>}</p>
+                    <p className="text-xs text-gray-500">{money(item.price)} each · {item.left} of {item.quantity} refundable</p>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={item.left}
+                    value={quantities[item.index] ?? 0}
+                    onChange={(e) => setQuantities(prev => ({ ...prev, [item.index]: Math.min(Math.max(Number(e.target.value) || 0, 0), item.left) }))}
+                    className={`${inputClass} w-16 text-center px-2 py-1.5`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={customAmount !== '' ? customAmount : amount || ''}
+                  onChange={(e) => setCustomAmount(e.target.value)}
+                  placeholder="0"
+                  className={`${inputClass} w-full`}
+                />
+                {customAmount !== '' && selected.length > 0 && (
+                  <button onClick={() => setCustomAmount('')} className="p-2 text-gray-400 hover:text-gray-600" title="Match the items again">
+                    <RotateCcw size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Pay Back By</label>
+              <select value={method} onChange={(e) => setMethod(e.target.value as RefundMethod)} className={`${inputClass} w-full`}>
+                {REFUND_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <select value={reason} onChange={(e) => setReason(e.target.value as RefundReason)} className={`${inputClass} w-full`}>
+              <option value="" disabled>Choose a reason…</option>
+              {REFUND_REASONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note {reason !== 'OTHER' && <span className="text-gray-400 font-normal">(optional)</span>}</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              className={`${inputClass} w-full resize-none`}
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex items-center justify-end gap-3">
+          {problem && <p className="text-xs text-red-600 mr-auto">{problem}</p>}
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">Close</button>
+          <button
+            onClick={() => requestMutation.mutate({ orderId, ...dto })}
+            disabled={!!problem || requestMutation.isPending}
+            className="px-5 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {requestMutation.isPending && <Loader2 size={16} className="animate-spin" />}
+            Request {amount > 0 ? money(amount) : ''} Refund
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RefundModal;
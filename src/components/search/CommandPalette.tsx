@@ -0,0 +1,221 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ArrowRight, CornerDownLeft, LifeBuoy, Loader2, MessageSquare, Package, Search, ShoppingCart, type LucideIcon
+} from 'lucide-react';
+import { searchApi } from '../../api/search';
+import { getErrorMessage } from '../../api/errors';
+import { usePermissions } from '../../hooks/usePermissions';
+import { formatEnum } from '../../utils/helpers';
+
+interface PaletteEntry {
+  key: string;
+  group: string;
+  icon: LucideIcon;
+  title: string;
+  subtitle: string;
+  link: string;
+}
+
+interface CommandPaletteProps {
+  // Pages the current role can open, offered as "Go to" commands
+  pages: { icon: LucideIcon; label: string; path: string }[];
+}
+
+const MIN_QUERY_LENGTH = 2;
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const CommandPalette = ({ pages }: CommandPaletteProps) => {
+  const navigate = useNavigate();
+  const { can } = usePermissions();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Ctrl/Cmd+K opens the palette from anywhere in the dashboard
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    const handler = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(handler);
+  }, [query]);
+
+  const canSearch = debouncedQuery.length >= MIN_QUERY_LENGTH;
+  const { data: results, isFetching, isError, error } = useQuery({
+    queryKey: ['global-search', debouncedQuery],
+    queryFn: () => searchApi.search(debouncedQuery),
+    enabled: isOpen && canSearch,
+    staleTime: 30 * 1000,
+  });
+
+  // Flattened so arrow keys can move across groups
+  const entries = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const list: PaletteEntry[] = pages
+      .filter(page => !needle || page.label.toLowerCase().includes(needle))
+      .map(page => ({ key: `page-${page.path}`, group: 'Go to', icon: page.icon, title: page.label, subtitle: page.path, link: page.path }));
+    if (!canSearch || !results) return list;
+
+    if (can('orders:view')) {
+      results.orders.forEach(order => list.push({
+        key: `order-${order.id}`,
+        group: 'Orders',
+        icon: ShoppingCart,
+        title: `Order #${order.id}${order.customerName ? ` · ${order.customerName}` : ''}`,
+        subtitle: [order.customerPhone, order.receiptNumber, formatEnum(order.status)].filter(Boolean).join(' · '),
+        link: `/orders?order=${order.id}`,
+      }));
+    }
+    if (can('inventory:view')) {
+      results.products.forEach(product => list.push({
+        key: `product-${product.id}`,
+        group: 'Products',
+        icon: Package,
+        title: product.name,
+        subtitle: `${product.category} · ${product.unit} · ${product.stock} in stock`,
+        link: can('inventory:edit') ? `/inventory?edit=${product.id}` : '/inventory',
+      }));
+    }
+    if (can('support:view')) {
+      results.issues.forEach(issue => list.push({
+        key: `issue-${issue.id}`,
+        group: 'Support Tickets',
+        icon: LifeBuoy,
+        title: `Ticket #${issue.id} · ${formatEnum(issue.issueType)}`,
+        subtitle: `Order #${issue.orderId} · ${issue.customerPhone} · ${formatEnum(issue.status)}`,
+        link: `/support?search=${issue.id}`,
+      }));
+    }
+    if (can('feedback:view')) {
+      results.suggestions.forEach(suggestion => list.push({
+        key: `suggestion-${suggestion.id}`,
+        group: 'Customer Feedback',
+        icon: MessageSquare,
+        title: suggestion.userPhone,
+        subtitle: suggestion.message,
+        link: `/feedback?phone=${suggestion.userPhone}`,
+      }));
+    }
+    return list;
+  }, [pages, query, canSearch, results, can]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const open = (entry: PaletteEntry) => {
+    close();
+    navigate(entry.link);
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, entries.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && entries[activeIndex]) {
+      e.preventDefault();
+      open(entries[activeIndex]);
+    } else if (e.key === 'Escape') {
+      close();
+    }
+  };
+
+  const trimmedLength = query.trim().length;
+  const showEmpty = canSearch && !isFetching && !isError && entries.length === 0;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="relative hidden md:flex items-center pl-9 pr-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-400 hover:border-gray-300 w-64 text-left"
+      >
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+        <span className="flex-1">Search...</span>
+        <kbd className="text-[10px] font-medium text-gray-400 border border-gray-200 rounded px-1.5 py-0.5 bg-white">
+          {isMac ? '⌘K' : 'Ctrl K'}
+        </kbd>
+      </button>
+      <button onClick={() => setIsOpen(true)} className="md:hidden p-2 text-gray-600 hover:bg-gray-100 rounded-lg" aria-label="Search">
+        <Search size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-[100] flex items-start justify-center p-4 pt-[12vh] bg-black/40 backdrop-blur-sm" onClick={close}>
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center gap-3 px-4 border-b border-gray-100">
+              {isFetching ? <Loader2 className="animate-spin text-blue-600" size={18} /> : <Search className="text-gray-400" size={18} />}
+              <input
+                ref={inputRef}
+                type="text"
+                value={query}
+                onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+                onKeyDown={handleInputKeyDown}
+                placeholder="Search orders, products, tickets or phone numbers..."
+                className="flex-1 py-4 text-sm focus:outline-none"
+              />
+              <kbd className="text-[10px] font-medium text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Esc</kbd>
+            </div>
+
+            <div className="max-h-[60vh] overflow-y-auto py-2">
+              {isError && (
+                <p className="px-4 py-6 text-center text-sm text-red-600">{getErrorMessage(error, 'Search failed')}</p>
+              )}
+              {showEmpty && (
+                <p className="px-4 py-6 text-center text-sm text-gray-400">No results for "{debouncedQuery}"</p>
+              )}
+              {trimmedLength > 0 && trimmedLength < MIN_QUERY_LENGTH && (
+                <p className="px-4 py-2 text-xs text-gray-400">Type at least {MIN_QUERY_LENGTH} characters to search records</p>
+              )}
+              {entries.map((entry, index) => {
+                const Icon = entry.icon;
+                const isActive = index === activeIndex;
+                const startsGroup = index === 0 || entries[index - 1].group !== entry.group;
+                return (
+                  <div key={entry.key}>
+                    {startsGroup && (
+                      <p className="px-4 pt-3 pb-1 text-[11px] font-semibold text-gray-400 uppercase tracking-wider">{entry.group}</p>
+                    )}
+                    <button
+                      onClick={() => open(entry)}
+                      onMouseMove={() => setActiveIndex(index)}
+                      className={`w-full text-left px-4 py-2 flex items-center gap-3 ${isActive ? 'bg-blue-50' : ''}`}
+                    >
+                      <Icon size={16} className={isActive ? 'text-blue-600' : 'text-gray-400'} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-900 truncate">{entry.title}</p>
+                        <p className="text-xs text-gray-500 truncate">{entry.subtitle}</p>
+                      </div>
+                      {isActive ? <CornerDownLeft size={14} className="text-blue-600" /> : <ArrowRight size={14} className="text-gray-300" />}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Loader2, Send, PackageCheck, Ban, Lock, Pencil } from 'lucide-react';
+import { purchaseOrdersApi } from '../../api/purchaseOrders';
+import { getErrorMessage } from '../../api/errors';
+import type { PurchaseOrder, PurchaseOrderLine } from '../../types/suppliers';
+import { PURCHASE_ORDER_STATUS_INFO } from '../../utils/purchasing-constants';
+import { StatusBadge } from '../StatusBadge';
+import { useFormatters } from '../../hooks/useFormatters';
+
+interface PurchaseOrderDetailsModalProps {
+  orderId: number;
+  canManage: boolean;
+  onEdit: (order: PurchaseOrder) => void;
+  onClose: () => void;
+}
+
+type OrderAction = 'send' | 'close' | 'cancel';
+
+const ACTION_MESSAGES: Record<OrderAction, string> = {
+  send: 'marked as sent',
+  close: 'closed',
+  cancel: 'cancelled',
+};
+
+// Lines are one size of one product
+const lineKey = (line: Pick<PurchaseOrderLine, 'productId' | 'variantId'>) => `${line.productId}:${line.variantId}`;
+
+// Order lines with what has arrived so far; receiving adds to product stock
+const PurchaseOrderDetailsModal = ({ orderId, canManage, onEdit, onClose }: PurchaseOrderDetailsModalProps) => {
+  const { money, date } = useFormatters();
+  const queryClient = useQueryClient();
+  const [received, setReceived] = useState<Record<string, number>>({}); // By lineKey
+  const [receiptNote, setReceiptNote] = useState('');
+
+  const { data: order, isLoading, isError, error } = useQuery({
+    queryKey: ['purchase-orders', 'detail', orderId],
+    queryFn: () => purchaseOrdersApi.get(orderId),
+  });
+
+  const onOrderChanged = (updated: PurchaseOrder) => {
+    queryClient.setQueryData(['purchase-orders', 'detail', orderId], updated);
+    queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: (action: OrderAction) => purchaseOrdersApi[action](orderId),
+    onSuccess: (updated, action) => {
+      onOrderChanged(updated);
+      toast.success(`PO #${updated.id} ${ACTION_MESSAGES[action]}`);
+    },
+    onError: (mutationError) => toast.error(getErrorMessage(mutationError, 'Failed to update purchase order')),
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: () => purchaseOrdersApi.receive(orderId, {
+      lines: (order?.lines ?? [])
+        .filter(line => received[lineKey(line)] > 0)
+        .map(({ productId, variantId }) => ({ productId, variantId, quantity: received[lineKey({ productId, variantId })] })),
+      note: receiptNote.trim() || undefined,
+    }),
+    onSuccess: (updated) => {
+      onOrderChanged(updated);
+      // Receiving moved stock
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['reorder-suggestions'] });
+      setReceived({});
+      setReceiptNote('');
+      toast.success(updated.status === 'CLOSED' ? `PO #${updated.id} fully received` : 'Delivery received into stock');
+    },
+    onError: (mutationError) => toast.error(getErrorMessage(mutationError, 'Failed to receive delivery')),
+  });
+
+  const canReceive = canManage && (order?.status === 'SENT' || order?.status === 'PARTIALLY_RECEIVED');
+  const nothingReceived = !!order && order.lines.every(line => line.receivedQuantity === 0);
+  const receivingCount = Object.values(received).filter(quantity => quantity > 0).length;
+  const receiptValid = receivingCount > 0 && !!order && order.lines.every(line => {
+    const quantity = received[lineKey(line)];
+    return quantity === undefined || Number.isNaN(quantity) || quantity === 0
+      || (Number.isInteger(quantity) && quantity > 0 && quantity <= line.quantity - line.receivedQuantity);
+  });
+  const receiveEverything = () => {
+    if (!order) return;
+    setReceived(Object.fromEntries(order.lines.map(line => [lineKey(line), line.quantity - line.receivedQuantity])));
+  };
+
+  const isBusy = actionMutation.isPending || receiveMutation.isPending;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <div className="flex items-center gap-3">
+              <h3 className="text-lg font-bold text-gray-900">Purchase Order #{orderId}</h3>
+              {order && <StatusBadge className={PURCHASE_ORDER_STATUS_INFO[order.status].color}>{PURCHASE_ORDER_STATUS_INFO[order.status].label}</StatusBadge>}
+            </div>
+            {order && (
+              <p className="text-xs text-gray-500 mt-1">
+                {order.supplierName} · Created {date(order.createdAt)}
+                {order.createdBy && ` by ${order.createdBy}`}
+                {order.sentAt && ` · Sent ${date(order.sentAt)}`}
+                {order.expectedAt && ` · Expected ${date(order.expectedAt)}`}
+                {order.closedAt && ` · ${order.status === 'CANCELLED' ? 'Cancelled' : 'Closed'} ${date(order.closedAt)}`}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-16 text-gray-500"><Loader2 className="animate-spin" size={24} /></div>
+          ) : isError || !order ? (
+            <p className="text-center text-sm text-red-600 py-16">{getErrorMessage(error, 'Failed to load purchase order')}</p>
+          ) : (
+            <>
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+                      <th className="px-4 py-2">Product</th>
+                      <th className="px-4 py-2 text-right">Ordered</th>
+                      <th className="px-4 py-2 text-right">Received</th>
+                      <th className="px-4 py-2 text-right">Unit Cost</th>
+                      <th className="px-4 py-2 text-right">Line Total</th>
+                      {canReceive && <th className="px-4 py-2 w-28">Receive Now</th>}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {order.lines.map(line => {
+                      const remaining = line.quantity - line.receivedQuantity;
+                      return (
+                        <tr key={lineKey(line)}>
+                          <td className="px-4 py-2">
+                            <p className="font-medium text-gray-900">{line.productName}</p>
+                            <p className="text-xs text-gray-500">{line.unit}</p>
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-900">{line.quantity}</td>
+                          <td className={`px-4 py-2 text-right font-medium ${remaining === 0 ? 'text-green-600' : 'text-gray-600'}`}>
+                            {line.receivedQuantity}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-600">{money(line.costPrice)}</td>
+                          <td className="px-4 py-2 text-right font-medium text-gray-900">{money(line.quantity * line.costPrice)}</td>
+                          {canReceive && (
+                            <td className="px-4 py-2">
+                              <input
+                                type="number"
+                                min={0}
+                                max={remaining}
+                                disabled={remaining === 0}
+                                value={received[lineKey(line)] === undefined || Number.isNaN(received[lineKey(line)]) ? '' : received[lineKey(line)]}
+                                onChange={(e) => setReceived(current => ({ ...current, [lineKey(line)]: e.target.valueAsNumber }))}
+                                placeholder={remaining ? `≤ ${remaining}` : 'Done'}
+                                className="w-full px-2 py-1 border border-gray-200 rounded-md outline-none focus:border-blue-500 disabled:bg-gray-50"
+                              />
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                  <tfoot>
+                    <tr className="bg-gray-50 font-semibold text-gray-900">
+                      <td className="px-4 py-2" colSpan={4}>Total</td>
+                      <td className="px-4 py-2 text-right">{money(order.total)}</td>
+                      {canReceive && <td />}
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              {order.notes && <p className="text-sm text-gray-600 bg-gray-50 rounded-lg px-4 py-3">{order.notes}</p>}
+
+              {canReceive && (
+                <div className="flex flex-col md:flex-row gap-3 md:items-center">
+                  <input
+                    value={receiptNote}
+                    onChange={(e) => setReceiptNote(e.target.value)}
+                    placeholder="Delivery note (optional), e.g. invoice number"
+                    className="flex-1 px-3 py-2 border border-gray-200 rounded-lg outline-none focus:border-blue-500 text-sm"
+                  />
+                  <button onClick={receiveEverything} className="px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium text-sm">
+                    Fill Remaining
+                  </button>
+                  <button
+                    onClick={() => receiveMutation.mutate()}
+                    disabled={!receiptValid || isBusy}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium flex items-center justify-center gap-1.5 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {receiveMutation.isPending ? <Loader2 className="animate-spin" size={16} /> : <PackageCheck size={16} />}
+                    Receive into Stock
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {order && canManage && (
+          <div className="px-6 py-4 border-t border-gray-100 flex flex-wrap justify-end gap-3">
+            {(order.status === 'DRAFT' || (order.status === 'SENT' && nothingReceived)) && (
+              <button
+                onClick={() => { if (confirm(`Cancel PO #${order.id}?`)) actionMutation.mutate('cancel'); }}
+                disabled={isBusy}
+                className="px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 font-medium flex items-center gap-1.5 text-sm disabled:opacity-50"
+              >
+                <Ban size={16} /> Cancel Order
+              </button>
+            )}
+            {canReceive && (
+              <button
+                onClick={() => { if (confirm('Close this order? Anything not yet received will no longer be expected.')) actionMutation.mutate('close'); }}
+                disabled={isBusy}
+                className="px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium flex items-center gap-1.5 text-sm disabled:opacity-50"
+              >
+                <Lock size={16} /> Close Order
+              </button>
+            )}
+            {order.status === 'DRAFT' && (
+              <>
+                <button
+                  onClick={() => onEdit(order)}
+                  disabled={isBusy}
+                  className="px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium flex items-center gap-1.5 text-sm disabled:opacity-50"
+                >
+                  <Pencil size={16} /> Edit
+                </button>
+                <button
+                  onClick={() => actionMutation.mutate('send')}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-1.5 text-sm disabled:opacity-50"
+                >
+                  {actionMutation.isPending ? <Loader2 className="animate-spin" size={16} /> : <Send size={16} />}
+                  Mark as Sent
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderDetailsModal;
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Loader2, Plus, Trash2, ChevronDown, PackageSearch } from 'lucide-react';
+import { suppliersApi } from '../../api/suppliers';
+import { purchaseOrdersApi } from '../../api/purchaseOrders';
+import { reorderApi } from '../../api/reorder';
+import { productsApi } from '../../api/products';
+import { getErrorMessage } from '../../api/errors';
+import type { PurchaseOrder, PurchaseOrderLineDTO, Supplier } from '../../types/suppliers';
+import { useFormatters } from '../../hooks/useFormatters';
+
+interface PurchaseOrderModalProps {
+  order: PurchaseOrder | null; // null creates a new draft
+  suppliers: Supplier[];
+  onClose: () => void;
+}
+
+// Sales window and cover used when pulling in low-stock items
+const LOW_STOCK_QUERY = { days: 14, coverDays: 7 };
+
+// A product can be on the order once per size
+type LineKey = Pick<PurchaseOrderLineDTO, 'productId' | 'variantId'>;
+const isSameLine = (a: LineKey, b: LineKey) =>
+  a.productId === b.productId && a.variantId === b.variantId;
+
+// Creates a draft purchase order, or edits one that hasn't been sent yet
+const PurchaseOrderModal = ({ order, suppliers, onClose }: PurchaseOrderModalProps) => {
+  const { money } = useFormatters();
+  const queryClient = useQueryClient();
+  const [supplierId, setSupplierId] = useState(order ? String(order.supplierId) : '');
+  const [lines, setLines] = useState<PurchaseOrderLineDTO[]>(() =>
+    (order?.lines || []).map(({ productId, variantId, quantity, costPrice }) => ({ productId, variantId, quantity, costPrice }))
+  );
+  const [notes, setNotes] = useState(order?.notes ?? '');
+  const [expectedAt, setExpectedAt] = useState(order?.expectedAt ?? '');
+  const [productToAdd, setProductToAdd] = useState('');
+
+  const { data: catalog, isLoading: isLoadingCatalog } = useQuery({
+    queryKey: ['suppliers', Number(supplierId), 'products'],
+    queryFn: () => suppliersApi.listProducts(Number(supplierId)),
+    enabled: !!supplierId,
+  });
+
+  // For the sizes; supplier links are per product
+  const { data: products } = useQuery({
+    queryKey: ['products'],
+    queryFn: productsApi.list,
+  });
+  const sizesOf = (productId: number) => products?.find(p => p.id === productId)?.variants ?? [];
+  // The first size of the product not already on the order
+  const nextSize = (productId: number, current: PurchaseOrderLineDTO[]) =>
+    sizesOf(productId).find(v => !current.some(line => isSameLine(line, { productId, variantId: v.id })))?.id;
+
+  const lowStockMutation = useMutation({
+    mutationFn: () => reorderApi.suggestions(LOW_STOCK_QUERY),
+    onSuccess: (suggestions) => {
+      // Suggestions are per product; they're ordered in the default size
+      const onOrder = new Set(lines.map(l => l.productId));
+      const added = suggestions
+        .filter(s => !onOrder.has(s.productId))
+        .flatMap(s => {
+          const link = catalog?.find(l => l.productId === s.productId);
+          const variantId = sizesOf(s.productId)[0]?.id;
+          return link && variantId !== undefined ? [{ productId: s.productId, variantId, quantity: s.suggestedQuantity, costPrice: link.costPrice }] : [];
+        });
+      if (added.length === 0) {
+        toast('No other low-stock products come from this supplier');
+        return;
+      }
+      setLines(current => [...current, ...added]);
+      toast.success(`Added ${added.length} low-stock products`);
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to load low-stock products')),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = { supplierId: Number(supplierId), lines, notes: notes.trim() || undefined, expectedAt: expectedAt || undefined };
+      return order ? purchaseOrdersApi.update(order.id, payload) : purchaseOrdersApi.create(payload);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      toast.success(order ? `PO #${saved.id} updated` : `Draft PO #${saved.id} created`);
+      onClose();
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to save purchase order')),
+  });
+
+  // Lines are priced from the supplier's catalog, so switching supplier starts over
+  const changeSupplier = (value: string) => {
+    setSupplierId(value);
+    setLines([]);
+    setProductToAdd('');
+  };
+
+  const addLine = () => {
+    const link = catalog?.find(l => l.productId === Number(productToAdd));
+    const variantId = link && nextSize(link.productId, lines);
+    if (!link || variantId === undefined) return;
+    setLines(current => [...current, { productId: link.productId, variantId, quantity: 1, costPrice: link.costPrice }]);
+    setProductToAdd('');
+  };
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderLineDTO>) =>
+    setLines(current => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  const removeLine = (index: number) => setLines(current => current.filter((_, i) => i !== index));
+
+  const productOf = (productId: number) =>
+    catalog?.find(l => l.productId === productId) ?? order?.lines.find(l => l.productId === productId);
+  const available = (catalog || []).filter(l => nextSize(l.productId, lines) !== undefined);
+  const total = lines.reduce((sum, line) => sum + (line.quantity || 0) * (line.costPrice || 0), 0);
+  const isValid = !!supplierId && lines.length > 0 && lines.every(line =>
+    Number.isInteger(line.quantity) && line.quantity >= 1 && Number.isFinite(line.costPrice) && line.costPrice >= 0
+    && (line.variantId !== null || sizesOf(line.productId).length <= 1)
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-900">{order ? `Edit Draft PO #${order.id}` : 'New Purchase Order'}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+              <div className="relative">
+                <select
+                  value={supplierId}
+                  onChange={(e) => changeSupplier(e.target.value)}
+                  className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg appearance-none outline-none focus:border-blue-500"
+                >
+                  <option value="">Select supplier</option>
+                  {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expected Delivery</label>
+              <input
+                type="date"
+                value={expectedAt}
+                onChange={(e) => setExpectedAt(e.target.value)}
+                className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          {supplierId && (
+            <div className="flex flex-col md:flex-row gap-3">
+              <div className="relative flex-1">
+                <select
+                  value={productToAdd}
+                  onChange={(e) => setProductToAdd(e.target.value)}
+                  disabled={isLoadingCatalog}
+                  className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg appearance-none outline-none focus:border-blue-500 text-sm"
+                >
+                  <option value="">{available.length ? 'Add a product from this supplier' : 'All linked products are on the order'}</option>
+                  {available.map(l => <option key={l.productId} value={l.productId}>{l.productName} ({l.unit}) · {money(l.costPrice)}</option>)}
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+              </div>
+              <button
+                onClick={addLine}
+                disabled={!productToAdd}
+                className="px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium flex items-center justify-center gap-1.5 text-sm disabled:opacity-50"
+              >
+                <Plus size={16} /> Add
+              </button>
+              <button
+                onClick={() => lowStockMutation.mutate()}
+                disabled={!catalog || lowStockMutation.isPending}
+                className="px-4 py-2 border border-blue-200 text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 font-medium flex items-center justify-center gap-1.5 text-sm disabled:opacity-50"
+              >
+                {lowStockMutation.isPending ? <Loader2 className="animate-spin" size={16} /> : <PackageSearch size={16} />}
+                Add Low-Stock Items
+              </button>
+            </div>
+          )}
+
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            {lines.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-10">
+                {supplierId ? 'Add the products to order.' : 'Choose a supplier to start.'}
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+                    <th className="px-4 py-2">Product</th>
+                    <th className="px-4 py-2 w-28">Quantity</th>
+                    <th className="px-4 py-2 w-32">Unit Cost</th>
+                    <th className="px-4 py-2 text-right">Line Total</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {lines.map((line, index) => {
+                    const product = productOf(line.productId);
+                    const sizes = sizesOf(line.productId);
+                    return (
+                      <tr key={`${line.productId}:${line.variantId}`}>
+                        <td className="px-4 py-2">
+                          <p className="font-medium text-gray-900">{product?.productName ?? `Product #${line.productId}`}</p>
+                          {sizes.length > 1 ? (
+                            <select
+                              value={line.variantId ?? ''}
+                              onChange={(e) => updateLine(index, { variantId: Number(e.target.value) })}
+                              className="mt-0.5 text-xs text-gray-600 bg-white border border-gray-200 rounded px-1 py-0.5 outline-none focus:border-blue-500"
+                            >
+                              {line.variantId === null && <option value="" disabled>Choose a size</option>}
+                              {sizes
+                                .filter(v => v.id === line.variantId || !lines.some(other => isSameLine(other, { productId: line.productId, variantId: v.id })))
+                                .map(v => <option key={v.id} value={v.id}>{v.unit}</option>)}
+                            </select>
+                          ) : (
+                            <p className="text-xs text-gray-500">{sizes[0]?.unit ?? product?.unit}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={1}
+                            value={Number.isNaN(line.quantity) ? '' : line.quantity}
+                            onChange={(e) => updateLine(index, { quantity: e.target.valueAsNumber })}
+                            className="w-full px-2 py-1 border border-gray-200 rounded-md outline-none focus:border-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={Number.isNaN(line.costPrice) ? '' : line.costPrice}
+                            onChange={(e) => updateLine(index, { costPrice: e.target.valueAsNumber })}
+                            className="w-full px-2 py-1 border border-gray-200 rounded-md outline-none focus:border-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right font-medium text-gray-900">
+                          {money((line.quantity || 0) * (line.costPrice || 0))}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button onClick={() => removeLine(index)} className="p-1 text-gray-400 hover:text-red-600" title="Remove line">
+                            <Trash2 size={16} />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="Instructions for the supplier..."
+              className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500 resize-none"
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">Total <span className="font-semibold text-gray-900">{money(total)}</span></p>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Cancel</button>
+            <button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isValid || saveMutation.isPending}
+              className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveMutation.isPending && <Loader2 className="animate-spin" size={16} />}
+              {order ? 'Save Draft' : 'Create Draft'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderModal;
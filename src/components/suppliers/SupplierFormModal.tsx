@@ -0,0 +1,97 @@
+import { useForm } from 'react-hook-form';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Loader2 } from 'lucide-react';
+import { suppliersApi } from '../../api/suppliers';
+import { getErrorMessage } from '../../api/errors';
+import type { Supplier, SupplierDTO } from '../../types/suppliers';
+
+interface SupplierFormModalProps {
+  supplier: Supplier | null; // null creates a new supplier
+  onClose: () => void;
+}
+
+type SupplierFormValues = Required<SupplierDTO>;
+
+const SupplierFormModal = ({ supplier, onClose }: SupplierFormModalProps) => {
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, formState: { errors } } = useForm<SupplierFormValues>({
+    defaultValues: {
+      name: supplier?.name ?? '',
+      contactName: supplier?.contactName ?? '',
+      phone: supplier?.phone ?? '',
+      email: supplier?.email ?? '',
+      address: supplier?.address ?? '',
+      notes: supplier?.notes ?? '',
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SupplierDTO) => (supplier ? suppliersApi.update(supplier.id, data) : suppliersApi.create(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      toast.success(supplier ? 'Supplier updated' : 'Supplier added');
+      onClose();
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to save supplier')),
+  });
+
+  const inputClass = 'w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500 transition-all';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-900">{supplier ? 'Edit Supplier' : 'Add Supplier'}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        <form onSubmit={handleSubmit(data => saveMutation.mutate(data))} className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Company Name</label>
+            <input {...register('name', { required: 'Name is required', validate: v => !!v.trim() || 'Name is required' })} placeholder="e.g. Green Valley Farms" className={inputClass} />
+            {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name.message}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Contact Person</label>
+              <input {...register('contactName')} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input {...register('phone', { pattern: { value: /^[0-9+\s-]{6,}$/, message: 'Enter a valid phone number' } })} className={inputClass} />
+              {errors.phone && <p className="text-red-500 text-xs mt-1">{errors.phone.message}</p>}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input type="email" {...register('email', { pattern: { value: /^\S+@\S+\.\S+$/, message: 'Enter a valid email' } })} className={inputClass} />
+            {errors.email && <p className="text-red-500 text-xs mt-1">{errors.email.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+            <input {...register('address')} className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea {...register('notes')} rows={2} placeholder="Delivery days, minimum order..." className={`${inputClass} resize-none`} />
+          </div>
+
+          <div className="pt-4 border-t border-gray-100 flex justify-end gap-3">
+            <button type="button" onClick={onClose} className="px-5 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium">Cancel</button>
+            <button type="submit" disabled={saveMutation.isPending} className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-70">
+              {saveMutation.isPending && <Loader2 className="animate-spin" size={16} />}
+              {supplier ? 'Save Changes' : 'Add Supplier'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierFormModal;
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Loader2, Plus, Trash2, ChevronDown } from 'lucide-react';
+import { suppliersApi } from '../../api/suppliers';
+import { productsApi } from '../../api/products';
+import { getErrorMessage } from '../../api/errors';
+import type { Supplier } from '../../types/suppliers';
+import { useFormatters } from '../../hooks/useFormatters';
+
+interface SupplierProductsModalProps {
+  supplier: Supplier;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+// Products a supplier delivers and what each costs us from them
+const SupplierProductsModal = ({ supplier, canManage, onClose }: SupplierProductsModalProps) => {
+  const { money } = useFormatters();
+  const queryClient = useQueryClient();
+  const [productId, setProductId] = useState('');
+  const [costPrice, setCostPrice] = useState('');
+  const [supplierSku, setSupplierSku] = useState('');
+
+  const { data: links, isLoading } = useQuery({
+    queryKey: ['suppliers', supplier.id, 'products'],
+    queryFn: () => suppliersApi.listProducts(supplier.id),
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ['products'],
+    queryFn: productsApi.list,
+    enabled: canManage,
+  });
+
+  const onLinksChanged = () => queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+
+  const linkMutation = useMutation({
+    mutationFn: () => suppliersApi.linkProduct(supplier.id, {
+      productId: Number(productId),
+      costPrice: Number(costPrice),
+      supplierSku: supplierSku.trim() || undefined,
+    }),
+    onSuccess: (link) => {
+      onLinksChanged();
+      toast.success(`${link.productName} linked`);
+      setProductId('');
+      setCostPrice('');
+      setSupplierSku('');
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to link product')),
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: (id: number) => suppliersApi.unlinkProduct(supplier.id, id),
+    onSuccess: () => {
+      onLinksChanged();
+      toast.success('Product unlinked');
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to unlink product')),
+  });
+
+  // Picking a product that is already linked edits its cost instead
+  const selectProduct = (value: string) => {
+    setProductId(value);
+    const existing = links?.find(l => l.productId === Number(value));
+    setCostPrice(existing ? String(existing.costPrice) : '');
+    setSupplierSku(existing?.supplierSku ?? '');
+  };
+
+  const selectedProduct = products?.find(p => p.id === Number(productId));
+  const canLink = !!productId && costPrice !== '' && Number(costPrice) >= 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Products from {supplier.name}</h3>
+            <p className="text-xs text-gray-500 mt-0.5">Cost prices are used when drafting purchase orders.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+        </div>
+
+        {canManage && (
+          <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex flex-col md:flex-row gap-3 md:items-end">
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Product</label>
+              <div className="relative">
+                <select
+                  value={productId}
+                  onChange={(e) => selectProduct(e.target.value)}
+                  className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg appearance-none outline-none focus:border-blue-500 text-sm"
+                >
+                  <option value="">Select product</option>
+                  {products?.map(p => <option key={p.id} value={p.id}>{p.name} ({p.unit})</option>)}
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+              </div>
+            </div>
+            <div className="md:w-28">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Cost Price</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={costPrice}
+                onChange={(e) => setCostPrice(e.target.value)}
+                placeholder={money(selectedProduct ? selectedProduct.price : 0)}
+                className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500 text-sm"
+              />
+            </div>
+            <div className="md:w-32">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Supplier SKU</label>
+              <input
+                value={supplierSku}
+                onChange={(e) => setSupplierSku(e.target.value)}
+                placeholder="Optional"
+                className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500 text-sm"
+              />
+            </div>
+            <button
+              onClick={() => linkMutation.mutate()}
+              disabled={!canLink || linkMutation.isPending}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center justify-center gap-1.5 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {linkMutation.isPending ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+              {links?.some(l => l.productId === Number(productId)) ? 'Update' : 'Link'}
+            </button>
+          </div>
+        )}
+
+        <div className="overflow-y-auto flex-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-16 text-gray-500"><Loader2 className="animate-spin" size={24} /></div>
+          ) : !links?.length ? (
+            <p className="text-center text-sm text-gray-500 py-16">No products linked to this supplier yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+                  <th className="px-6 py-2">Product</th>
+                  <th className="px-6 py-2">Supplier SKU</th>
+                  <th className="px-6 py-2 text-right">Cost Price</th>
+                  {canManage && <th className="px-6 py-2" />}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {links.map(link => (
+                  <tr key={link.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-2.5">
+                      <p className="font-medium text-gray-900">{link.productName}</p>
+                      <p className="text-xs text-gray-500">{link.unit}</p>
+                    </td>
+                    <td className="px-6 py-2.5 text-gray-600 font-mono text-xs">{link.supplierSku || '—'}</td>
+                    <td className="px-6 py-2.5 text-right font-medium text-gray-900">{money(link.costPrice)}</td>
+                    {canManage && (
+                      <td className="px-6 py-2.5 text-right">
+                        <button
+                          onClick={() => unlinkMutation.mutate(link.productId)}
+                          disabled={unlinkMutation.isPending}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                          title="Unlink product"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierProductsModal;
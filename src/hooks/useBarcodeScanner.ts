@@ -0,0 +1,40 @@
+import { useEffect, useEffectEvent } from 'react';
+
+// Keyboard-wedge scanners "type" the code far faster than a person and finish with Enter
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Calls onScan with each code read by a barcode scanner. Keystrokes aimed at a
+// text field are left alone, so typing (or scanning into a field) works as usual.
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled = true) => {
+  const handleScan = useEffectEvent(onScan);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextField(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      const now = e.timeStamp;
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          handleScan(buffer);
+        }
+        buffer = '';
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
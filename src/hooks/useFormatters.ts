@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getFormatters, subscribeFormatters } from '../utils/format';
+
+// Money and date formatters for the store's currency, locale and time zone.
+// Components re-render when the settings change.
+export const useFormatters = () =>
+  useSyncExternalStore(subscribeFormatters, getFormatters);
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getNotificationPreferences, getNotifications, subscribeNotifications } from '../notifications/store';
+
+export const useNotifications = () => {
+  const notifications = useSyncExternalStore(subscribeNotifications, getNotifications);
+  const preferences = useSyncExternalStore(subscribeNotifications, getNotificationPreferences);
+  const unreadCount = notifications.filter(n => !n.read).length;
+  return { notifications, preferences, unreadCount };
+};
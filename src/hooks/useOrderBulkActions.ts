@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { ordersApi } from '../api/orders';
+import { getErrorMessage } from '../api/errors';
+import { showUndoToast } from '../components/orders/undoToast';
+import { refreshOrderQueries, undoOrderTransitions } from './useOrderTransition';
+import { idsWithOutcome, mergeBulkResults, runBulk, skippedResult, type BulkResult } from '../utils/bulk';
+import { downloadBlob } from '../utils/helpers';
+import { findTransition, transitionProblem } from '../utils/orderStateMachine';
+import type { CancelOrderDTO, Order, OrderStatus } from '../types/orders';
+
+export type OrderBulkAction = 'pack' | 'cancel' | 'invoices';
+
+export interface OrderBulkRequest {
+  action: OrderBulkAction;
+  orders: Order[];
+  cancellation?: CancelOrderDTO; // Required for 'cancel'; the same reason goes on every order
+}
+
+export interface OrderBulkRun {
+  request: OrderBulkRequest;
+  results: BulkResult[];
+}
+
+export const ORDER_BULK_TITLES: Record<OrderBulkAction, string> = {
+  pack: 'Mark as Packed',
+  cancel: 'Cancel Orders',
+  invoices: 'Print Invoices',
+};
+
+// Status each action moves orders to; invoices don't change anything
+export const ORDER_BULK_TARGETS: Partial<Record<OrderBulkAction, OrderStatus>> = {
+  pack: 'PACKED',
+  cancel: 'CANCELLED',
+};
+
+const plural = (count: number, word: string) => `${count} ${count === 1 ? word : `${word}s`}`;
+
+// Invoices come back as one PDF, so they succeed or fail together
+const downloadInvoices = async (ids: number[]): Promise<BulkResult[]> => {
+  try {
+    const pdf = await ordersApi.downloadReceipts(ids);
+    downloadBlob(pdf, ids.length === 1 ? `Invoice-${ids[0]}.pdf` : `Invoices-${new Date().toISOString().slice(0, 10)}.pdf`);
+    return ids.map(id => ({ id, outcome: 'succeeded', message: null }));
+  } catch (error) {
+    const message = getErrorMessage(error);
+    return ids.map(id => ({ id, outcome: 'failed', message }));
+  }
+};
+
+// Orders that can't make the move are skipped up front rather than sent to be rejected
+const runOrderBulk = async ({ action, orders, cancellation }: OrderBulkRequest) => {
+  const to = ORDER_BULK_TARGETS[action];
+  if (!to) return downloadInvoices(orders.map(o => o.id));
+  const eligible = orders.filter(o => findTransition(o.status, to)).map(o => o.id);
+  const sent = await runBulk(eligible, id => (to === 'CANCELLED' ? ordersApi.cancel(id, cancellation!) : ordersApi.updateStatus(id, to)));
+  const byId = new Map(sent.map(result => [result.id, result]));
+  return orders.map(o => byId.get(o.id) ?? skippedResult(o.id, transitionProblem(o.status, to)!));
+};
+
+// Runs an action over many orders. Everything that went through gets one
+// undoable toast; anything that didn't is kept in `run` to show and retry.
+export const useOrderBulkActions = (onComplete?: (results: BulkResult[]) => void) => {
+  const queryClient = useQueryClient();
+  const [run, setRun] = useState<OrderBulkRun | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: runOrderBulk,
+    onSuccess: (results, { action, orders }) => {
+      const succeeded = idsWithOutcome(results, 'succeeded');
+      const to = ORDER_BULK_TARGETS[action];
+      if (succeeded.length > 0) {
+        if (to) {
+          succeeded.forEach(id => refreshOrderQueries(queryClient, id));
+          const applied = orders.filter(o => succeeded.includes(o.id)).map(o => ({ orderId: o.id, from: o.status, to }));
+          const message = action === 'cancel' ? `${plural(succeeded.length, 'order')} cancelled` : `${plural(succeeded.length, 'order')} marked as Packed`;
+          showUndoToast(message, () => undoOrderTransitions(queryClient, applied));
+        } else {
+          toast.success(`${plural(succeeded.length, 'invoice')} downloaded`);
+        }
+      }
+      onComplete?.(results);
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Bulk action failed')),
+  });
+
+  const start = (request: OrderBulkRequest) => mutation.mutate(request, {
+    onSuccess: (results) => setRun(results.every(r => r.outcome === 'succeeded') ? null : { request, results }),
+  });
+
+  // Sends only the failed orders again and folds their new outcome into the results
+  const retry = (failedIds: number[]) => {
+    if (!run) return;
+    const request = { ...run.request, orders: run.request.orders.filter(o => failedIds.includes(o.id)) };
+    mutation.mutate(request, {
+      onSuccess: (results) => setRun(prev => prev && { ...prev, results: mergeBulkResults(prev.results, results) }),
+    });
+  };
+
+  return { run, start, retry, dismiss: () => setRun(null), isPending: mutation.isPending, pendingAction: mutation.isPending ? mutation.variables?.action : undefined };
+};
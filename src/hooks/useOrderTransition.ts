@@ -0,0 +1,68 @@
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { ordersApi } from '../api/orders';
+import { getErrorMessage } from '../api/errors';
+import { showUndoToast } from '../components/orders/undoToast';
+import { ORDER_STATUS_LABELS } from '../utils/orderStateMachine';
+import { idsWithOutcome, runBulk } from '../utils/bulk';
+import type { CancelOrderDTO, Order, OrderStatus } from '../types/orders';
+
+export interface OrderTransitionRequest {
+  orderId: number;
+  from: OrderStatus;             // The status the user saw, so the undo takes back only this move
+  to: OrderStatus;
+  cancellation?: CancelOrderDTO; // Required when `to` is CANCELLED
+}
+
+// A move that went through, as offered for undo
+export interface AppliedTransition {
+  orderId: number;
+  from: OrderStatus;
+  to: OrderStatus;
+}
+
+export const refreshOrderQueries = (client: QueryClient, orderId: number) => {
+  client.invalidateQueries({ queryKey: ['orders'] });
+  client.invalidateQueries({ queryKey: ['order-details', orderId] });
+  client.invalidateQueries({ queryKey: ['order-timeline', orderId] });
+  client.invalidateQueries({ queryKey: ['dashboard-summary'] });
+};
+
+export const undoOrderTransition = async (client: QueryClient, { orderId, from, to }: AppliedTransition) => {
+  try {
+    const order = await ordersApi.undo(orderId, { from, to });
+    refreshOrderQueries(client, orderId);
+    toast.success(`Order #${orderId} is back to ${ORDER_STATUS_LABELS[order.status]}`);
+  } catch (error) {
+    toast.error(getErrorMessage(error, 'Failed to undo the change'));
+  }
+};
+
+// Takes back the change on several orders at once, e.g. after a bulk action.
+// Orders someone has moved on since are left alone and counted as failed.
+export const undoOrderTransitions = async (client: QueryClient, transitions: AppliedTransition[]) => {
+  const byId = new Map(transitions.map(t => [t.orderId, t]));
+  const results = await runBulk([...byId.keys()], id => ordersApi.undo(id, { from: byId.get(id)!.from, to: byId.get(id)!.to }));
+  byId.forEach((_, id) => refreshOrderQueries(client, id));
+  const failed = idsWithOutcome(results, 'failed').length;
+  if (failed) toast.error(`${failed} of ${transitions.length} changes could not be undone: ${results.find(r => r.outcome === 'failed')!.message}`);
+  else toast.success(`Undone for ${transitions.length} ${transitions.length === 1 ? 'order' : 'orders'}`);
+};
+
+export const transitionMessage = (order: Order) =>
+  order.status === 'CANCELLED' ? `Order #${order.id} cancelled` : `Order #${order.id} is now ${ORDER_STATUS_LABELS[order.status]}`;
+
+// Moves one order along ORDER_TRANSITIONS and offers to undo it
+export const useOrderTransition = (onSuccess?: (order: Order) => void) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ orderId, to, cancellation }: OrderTransitionRequest) =>
+      to === 'CANCELLED' ? ordersApi.cancel(orderId, cancellation!) : ordersApi.updateStatus(orderId, to),
+    onSuccess: (order, { from }) => {
+      refreshOrderQueries(queryClient, order.id);
+      showUndoToast(transitionMessage(order), () => undoOrderTransition(queryClient, { orderId: order.id, from, to: order.status }));
+      onSuccess?.(order);
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to update the order')),
+  });
+};
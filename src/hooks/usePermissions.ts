@@ -0,0 +1,11 @@
+import { useCallback } from 'react';
+import { decodeToken, getRole, getToken } from '../api/session';
+import { hasPermission, normalizeRole } from '../utils/permissions';
+import type { Permission } from '../types/auth';
+
+// Role comes from the login response; the token claim is a fallback for older sessions
+export const usePermissions = () => {
+  const role = normalizeRole(getRole() || decodeToken(getToken())?.role);
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+  return { role, can };
+};
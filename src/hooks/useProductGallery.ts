@@ -0,0 +1,163 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { productsApi } from '../api/products';
+import { getErrorMessage } from '../api/errors';
+import type { ProductImage } from '../types/inventory';
+
+export interface GalleryItem {
+  key: string;
+  url: string;              // Server URL, or a local preview until uploaded
+  imageId: number | null;   // null until uploaded
+  file: File | null;        // The processed image waiting to upload; kept for retries
+  status: 'saved' | 'pending' | 'uploading' | 'failed';
+  progress: number;         // 0-100 while uploading
+  error: string | null;
+}
+
+let uploadCount = 0;
+
+const fromImage = (image: ProductImage): GalleryItem => ({
+  key: `image-${image.id}`,
+  url: image.url,
+  imageId: image.id,
+  file: null,
+  status: 'saved',
+  progress: 100,
+  error: null,
+});
+
+// Image gallery of one product. With a productId, added images upload straight away
+// and reordering or removing is saved immediately. Without one (the product isn't
+// created yet) images wait until uploadPending() is given the new id.
+export const useProductGallery = (productId: number | null, initial: ProductImage[] = []) => {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<GalleryItem[]>(() => initial.map(fromImage));
+  // Latest items and the order the server last confirmed, for use between awaits
+  const itemsRef = useRef(items);
+  const serverOrder = useRef(initial.map(image => image.id));
+  // Requests run one at a time so a reorder never races an upload it doesn't know about
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+
+  const update = (change: (current: GalleryItem[]) => GalleryItem[]) => {
+    itemsRef.current = change(itemsRef.current);
+    setItems(itemsRef.current);
+  };
+
+  const patch = (key: string, changes: Partial<GalleryItem>) =>
+    update(current => current.map(item => (item.key === key ? { ...item, ...changes } : item)));
+
+  const enqueue = <T>(task: () => Promise<T>) => {
+    const next = queue.current.then(task);
+    queue.current = next;
+    return next;
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['products'] });
+
+  // Uploads are appended server-side, so send the local order whenever it has drifted
+  const syncOrder = async (id: number) => {
+    const ids = itemsRef.current.flatMap(item => (item.imageId === null ? [] : [item.imageId]));
+    if (ids.join() === serverOrder.current.join()) return;
+    try {
+      await productsApi.reorderImages(id, ids);
+      serverOrder.current = ids;
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to save the image order'));
+    }
+  };
+
+  const upload = async (key: string, id: number) => {
+    const item = itemsRef.current.find(i => i.key === key);
+    if (!item?.file) return true;
+    patch(key, { status: 'uploading', progress: 0, error: null });
+    try {
+      const image = await productsApi.uploadImage(id, item.file, progress => patch(key, { progress }));
+      serverOrder.current = [...serverOrder.current, image.id];
+      URL.revokeObjectURL(item.url);
+      patch(key, { url: image.url, imageId: image.id, file: null, status: 'saved', progress: 100 });
+      await syncOrder(id);
+      refresh();
+      return true;
+    } catch (error) {
+      patch(key, { status: 'failed', error: getErrorMessage(error, 'Upload failed') });
+      return false;
+    }
+  };
+
+  // Files should already be cropped and compressed (see utils/images)
+  const add = (files: File[]) => {
+    const added = files.map((file): GalleryItem => ({
+      key: `upload-${++uploadCount}`,
+      url: URL.createObjectURL(file),
+      imageId: null,
+      file,
+      status: 'pending',
+      progress: 0,
+      error: null,
+    }));
+    update(current => [...current, ...added]);
+    if (productId !== null) added.forEach(item => enqueue(() => upload(item.key, productId)));
+  };
+
+  const retry = (key: string) => {
+    if (productId !== null) enqueue(() => upload(key, productId));
+  };
+
+  // Index 0 makes the image the primary one
+  const move = (key: string, index: number) => {
+    update(current => {
+      const item = current.find(i => i.key === key);
+      if (!item) return current;
+      const rest = current.filter(i => i.key !== key);
+      rest.splice(index, 0, item);
+      return rest;
+    });
+    if (productId !== null) enqueue(() => syncOrder(productId).then(refresh));
+  };
+
+  const remove = (key: string) => {
+    const item = itemsRef.current.find(i => i.key === key);
+    if (!item) return;
+    if (item.imageId === null) {
+      URL.revokeObjectURL(item.url);
+      update(current => current.filter(i => i.key !== key));
+      return;
+    }
+    if (productId === null) return;
+    const imageId = item.imageId;
+    enqueue(async () => {
+      try {
+        await productsApi.removeImage(productId, imageId);
+        serverOrder.current = serverOrder.current.filter(id => id !== imageId);
+        update(current => current.filter(i => i.key !== key));
+        refresh();
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'Failed to remove the image'));
+      }
+    });
+  };
+
+  // Uploads everything still waiting, in gallery order; resolves to the number that failed
+  const uploadPending = async (id: number) => {
+    const keys = itemsRef.current.filter(item => item.imageId === null).map(item => item.key);
+    let failed = 0;
+    for (const key of keys) {
+      if (!(await enqueue(() => upload(key, id)))) failed++;
+    }
+    return failed;
+  };
+
+  return {
+    items,
+    add,
+    retry,
+    move,
+    remove,
+    uploadPending,
+    canRetry: productId !== null,
+    isUploading: items.some(item => item.status === 'uploading'),
+  };
+};
+
+export type ProductGallery = ReturnType<typeof useProductGallery>;
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getConnectionState, subscribeConnectionState } from '../realtime/connection';
+
+export const useRealtimeStatus = () =>
+  useSyncExternalStore(subscribeConnectionState, getConnectionState);
+
+// Polling is only a fallback: switch it off while the push stream is connected
+export const usePollingInterval = (intervalMs: number) => {
+  const status = useRealtimeStatus();
+  return status === 'connected' ? false : intervalMs;
+};
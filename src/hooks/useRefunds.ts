@@ -0,0 +1,50 @@
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { refundsApi } from '../api/refunds';
+import { getErrorMessage } from '../api/errors';
+import type { Refund, RefundRequestDTO } from '../types/refunds';
+
+// A refund touches the order, its timeline, the ticket it settles and the cash totals
+export const refreshRefundQueries = (client: QueryClient, refund: Refund) => {
+  client.invalidateQueries({ queryKey: ['refunds'] });
+  client.invalidateQueries({ queryKey: ['orders'] });
+  client.invalidateQueries({ queryKey: ['order-details', refund.orderId] });
+  client.invalidateQueries({ queryKey: ['order-timeline', refund.orderId] });
+  client.invalidateQueries({ queryKey: ['issues'] });
+  client.invalidateQueries({ queryKey: ['dashboard-summary'] });
+  client.invalidateQueries({ queryKey: ['sales-trend'] });
+  client.invalidateQueries({ queryKey: ['sales-comparison'] });
+};
+
+export const useRequestRefund = (onSuccess?: (refund: Refund) => void) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: RefundRequestDTO) => refundsApi.request(data),
+    onSuccess: (refund) => {
+      refreshRefundQueries(queryClient, refund);
+      toast.success(`Refund for order #${refund.orderId} sent for approval`);
+      onSuccess?.(refund);
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to request the refund')),
+  });
+};
+
+export interface RefundDecision {
+  refund: Refund;
+  approve: boolean;
+  note?: string; // Required when rejecting
+}
+
+export const useRefundDecision = (onSuccess?: (refund: Refund) => void) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ refund, approve, note }: RefundDecision) =>
+      approve ? refundsApi.approve(refund.id, { note }) : refundsApi.reject(refund.id, { note }),
+    onSuccess: (refund) => {
+      refreshRefundQueries(queryClient, refund);
+      toast.success(refund.status === 'APPROVED' ? `Refund #${refund.id} approved` : `Refund #${refund.id} rejected`);
+      onSuccess?.(refund);
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to update the refund')),
+  });
+};
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import type { OrderItem } from '../types/orders';
+import { normalizeCode } from '../utils/barcodes';
+import { useBarcodeScanner } from './useBarcodeScanner';
+
+// A scan that doesn't belong in the box: a code that isn't on the order, or one
+// more of an item than was ordered. Cleared once the packer takes it out again.
+export interface PackingFlag {
+  key: number;
+  code: string;
+  problem: 'not-in-order' | 'too-many';
+  itemName: string | null;
+}
+
+export type ScanResult = { ok: true; itemIndex: number } | { ok: false; flag: PackingFlag };
+
+let flagCount = 0;
+
+// Checks order items off as they're scanned. Items are matched by the SKU or
+// barcode of their size; items without any code can be checked off by hand.
+export const useScanToPack = (items: OrderItem[], enabled: boolean) => {
+  const [packed, setPacked] = useState<Record<number, number>>({});  // Item index -> units scanned
+  const [flags, setFlags] = useState<PackingFlag[]>([]);
+  const [lastScan, setLastScan] = useState<ScanResult | null>(null);
+
+  const countOf = (index: number) => packed[index] ?? 0;
+
+  const packItem = (index: number) => {
+    setPacked(current => ({ ...current, [index]: (current[index] ?? 0) + 1 }));
+    setLastScan({ ok: true, itemIndex: index });
+  };
+
+  const scan = (raw: string) => {
+    const code = normalizeCode(raw);
+    if (!code) return;
+    const matches = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => [item.sku, item.barcode].some(c => c !== null && normalizeCode(c) === code));
+    const open = matches.find(({ item, index }) => countOf(index) < item.quantity);
+    if (open) {
+      packItem(open.index);
+      return;
+    }
+    const flag: PackingFlag = {
+      key: ++flagCount,
+      code: raw.trim(),
+      problem: matches.length > 0 ? 'too-many' : 'not-in-order',
+      itemName: matches[0] ? `${matches[0].item.productName}${matches[0].item.unit ? ` (${matches[0].item.unit})` : ''}` : null,
+    };
+    setFlags(current => [...current, flag]);
+    setLastScan({ ok: false, flag });
+  };
+
+  const unpackItem = (index: number) =>
+    setPacked(current => ({ ...current, [index]: Math.max(0, (current[index] ?? 0) - 1) }));
+
+  const dismissFlag = (key: number) => setFlags(current => current.filter(f => f.key !== key));
+
+  const reset = () => {
+    setPacked({});
+    setFlags([]);
+    setLastScan(null);
+  };
+
+  useBarcodeScanner(scan, enabled);
+
+  const missing = items
+    .map((item, index) => ({ item, index, remaining: item.quantity - countOf(index) }))
+    .filter(row => row.remaining > 0);
+
+  return {
+    countOf,
+    scan,
+    packItem,
+    unpackItem,
+    dismissFlag,
+    reset,
+    flags,
+    lastScan,
+    missing,
+    isComplete: missing.length === 0 && flags.length === 0,
+  };
+};
+
+export type ScanToPack = ReturnType<typeof useScanToPack>;
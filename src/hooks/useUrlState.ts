@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+type UrlValue = string | number;
+type UrlStateUpdate<T> = Partial<T> | ((current: T) => Partial<T>);
+
+// List-page state (filters, page, sort, open record) kept in the query string,
+// so reloads, shared links and the back button all restore the same view.
+// Values equal to their default are left out of the URL to keep links short;
+// numeric defaults make the matching param parse back into a number.
+export const useUrlState = <T extends Record<string, UrlValue>>(defaults: T) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Callers pass a fresh object literal every render, so compare by content
+  const defaultsKey = JSON.stringify(defaults);
+  const stableDefaults = useMemo(() => JSON.parse(defaultsKey) as T, [defaultsKey]);
+
+  const state = useMemo(() => {
+    const result = { ...stableDefaults };
+    (Object.keys(stableDefaults) as (keyof T & string)[]).forEach(key => {
+      const raw = searchParams.get(key);
+      if (raw === null) return;
+      if (typeof stableDefaults[key] === 'number') {
+        const parsed = Number(raw);
+        if (Number.isFinite(parsed)) result[key] = parsed as T[typeof key];
+      } else {
+        result[key] = raw as T[typeof key];
+      }
+    });
+    return result;
+  }, [searchParams, stableDefaults]);
+
+  // Pushes a history entry by default; pass { replace: true } for keystroke-level updates
+  const setState = useCallback((update: UrlStateUpdate<T>, options?: { replace?: boolean }) => {
+    setSearchParams(params => {
+      const patch = typeof update === 'function' ? update(state) : update;
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value === undefined || value === '' || value === stableDefaults[key]) params.delete(key);
+        else params.set(key, String(value));
+      });
+      return params;
+    }, options);
+  }, [setSearchParams, state, stableDefaults]);
+
+  return [state, setState] as const;
+};
+
+// Local text for a search box bound to URL state: edits show immediately and are
+// committed after `delay`, while back/forward or a new link resets the box.
+export const useDebouncedInput = (value: string, onCommit: (value: string) => void, delay = 500) => {
+  const [input, setInput] = useState(value);
+  const [prevValue, setPrevValue] = useState(value);
+  if (value !== prevValue) {
+    setPrevValue(value);
+    setInput(value);
+  }
+
+  const commitRef = useRef(onCommit);
+  useEffect(() => { commitRef.current = onCommit; });
+
+  useEffect(() => {
+    if (input === value) return;
+    const handler = setTimeout(() => commitRef.current(input), delay);
+    return () => clearTimeout(handler);
+  }, [input, value, delay]);
+
+  return [input, setInput] as const;
+};
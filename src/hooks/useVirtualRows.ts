@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  rowHeight: number;  // Fixed px height of every row
+  overscan?: number;  // Extra rows rendered above and below the viewport
+}
+
+// Minimal windowing for fixed-height table rows: only the rows in view (plus
+// overscan) are rendered, and spacer heights keep the scrollbar accurate.
+// Pass `setContainer` as the scrolling element's ref (a callback ref, so the element
+// may mount after the hook) and attach `onScroll` to it.
+export const useVirtualRows = ({ count, rowHeight, overscan = 6 }: VirtualRowsOptions) => {
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const onScroll = useCallback((e: React.UIEvent<HTMLElement>) => setScrollTop(e.currentTarget.scrollTop), []);
+
+  // Jump back to the top when the rows are replaced (new page, sort or filter)
+  const scrollToTop = useCallback(() => {
+    container?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [container]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    setContainer,
+    onScroll,
+    scrollToTop,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+  };
+};
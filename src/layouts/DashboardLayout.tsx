@@ -1,17 +1,44 @@
 import { useState } from 'react';
 import { Outlet, useLocation, useNavigate } from 'react-router-dom';
 import {
-    LayoutDashboard, Package, ShoppingCart, LogOut, Bell, Search, Menu, MessageSquare, LifeBuoy, X, Truck
+    LayoutDashboard, Package, ShoppingCart, LogOut, Menu, MessageSquare, LifeBuoy, X, Truck, Building2, Settings,
+    type LucideIcon
 } from 'lucide-react';
 import { SidebarItem } from '../components/SidebarItem';
+import { SessionExpiryWarning } from '../components/SessionExpiryWarning';
+import { RealtimeSync } from '../components/RealtimeSync';
+import { StoreSettingsSync } from '../components/StoreSettingsSync';
+import { CommandPalette } from '../components/search/CommandPalette';
+import { NotificationCenter } from '../components/notifications/NotificationCenter';
+import { NotificationWatcher } from '../components/notifications/NotificationWatcher';
+import { clearSession } from '../api/session';
+import { clearNotifications } from '../notifications/store';
+import { usePermissions } from '../hooks/usePermissions';
+import { ROLE_LABELS } from '../utils/permissions';
+import type { Permission } from '../types/auth';
+
+const NAV_ITEMS: { icon: LucideIcon; label: string; path: string; permission: Permission }[] = [
+    { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard', permission: 'dashboard:view' },
+    { icon: Package, label: 'Inventory', path: '/inventory', permission: 'inventory:view' },
+    { icon: Building2, label: 'Suppliers', path: '/suppliers', permission: 'purchasing:view' },
+    { icon: ShoppingCart, label: 'Orders', path: '/orders', permission: 'orders:view' },
+    { icon: MessageSquare, label: 'Feedback', path: '/feedback', permission: 'feedback:view' },
+    { icon: LifeBuoy, label: 'Support', path: '/support', permission: 'support:view' },
+    { icon: Truck, label: 'Delivery', path: '/delivery', permission: 'delivery:assign' },
+    { icon: Settings, label: 'Settings', path: '/settings', permission: 'settings:manage' },
+];
 
 const DashboardLayout = () => {
     const location = useLocation();
     const navigate = useNavigate();
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+    const { role, can } = usePermissions();
+    const roleLabel = role ? ROLE_LABELS[role] : 'No Access';
+    const navItems = NAV_ITEMS.filter(item => can(item.permission));
 
     const handleLogout = () => {
-        localStorage.removeItem('token');
+        clearSession();
+        clearNotifications(); // They may link to pages the next user cannot open
         navigate('/login');
     };
 
@@ -55,42 +82,16 @@ const DashboardLayout = () => {
 
                 {/* Navigation */}
                 <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
-                    <SidebarItem
-                        icon={LayoutDashboard}
-                        label="Dashboard"
-                        path="/dashboard"
-                        active={location.pathname === '/dashboard'}
-                        onClick={closeMobileMenu}
-                    />
-                    <SidebarItem
-                        icon={Package}
-                        label="Inventory"
-                        path="/inventory"
-                        active={location.pathname === '/inventory'}
-                        onClick={closeMobileMenu}
-                    />
-                    <SidebarItem
-                        icon={ShoppingCart}
-                        label="Orders"
-                        path="/orders"
-                        active={location.pathname === '/orders'}
-                        onClick={closeMobileMenu}
-                    />
-                    <SidebarItem
-                        icon={MessageSquare}
-                        label="Feedback"
-                        path="/feedback"
-                        active={location.pathname === '/feedback'}
-                        onClick={closeMobileMenu}
-                    />
-                    <SidebarItem
-                        icon={LifeBuoy}
-                        label="Support"
-                        path="/support"
-                        active={location.pathname === '/support'}
-                        onClick={closeMobileMenu}
-                    />
-                    <SidebarItem icon={Truck} label="Delivery" path="/delivery" active={location.pathname === '/delivery'} />
+                    {navItems.map(item => (
+                        <SidebarItem
+                            key={item.path}
+                            icon={item.icon}
+                            label={item.label}
+                            path={item.path}
+                            active={location.pathname === item.path || location.pathname.startsWith(`${item.path}/`)}
+                            onClick={closeMobileMenu}
+                        />
+                    ))}
                 </nav>
 
                 {/* Bottom Section */}
@@ -105,13 +106,13 @@ const DashboardLayout = () => {
 
                     <div className="flex items-center gap-3 px-3 py-2">
                         <img
-                            src="https://ui-avatars.com/api/?name=Admin&background=3b82f6&color=fff"
+                            src={`https://ui-avatars.com/api/?name=${encodeURIComponent(roleLabel)}&background=3b82f6&color=fff`}
                             className="w-9 h-9 rounded-full"
                             alt="Profile"
                         />
                         <div className="flex-1 min-w-0">
                             <p className="text-sm font-medium text-gray-900 truncate">Admin User</p>
-                            <p className="text-xs text-gray-500">Manager</p>
+                            <p className="text-xs text-gray-500">{roleLabel}</p>
                         </div>
                     </div>
                 </div>
@@ -133,18 +134,8 @@ const DashboardLayout = () => {
                     </div>
 
                     <div className="flex items-center gap-3">
-                        <div className="relative hidden md:block">
-                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
-                            <input
-                                type="text"
-                                placeholder="Search..."
-                                className="pl-9 pr-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-gray-300 w-64"
-                            />
-                        </div>
-                        <button className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg relative">
-                            <Bell size={18} />
-                            <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-red-500 rounded-full"></span>
-                        </button>
+                        <CommandPalette pages={navItems} />
+                        <NotificationCenter />
                     </div>
                 </header>
 
@@ -152,6 +143,10 @@ const DashboardLayout = () => {
                 <main className="p-4 md:p-8 overflow-x-hidden flex-1">
                     <Outlet />
                 </main>
+                <SessionExpiryWarning />
+                <RealtimeSync />
+                <StoreSettingsSync />
+                <NotificationWatcher />
             </div>
         </div>
     );
@@ -16,12 +16,24 @@ const queryClient = new QueryClient({
   },
 });
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <BrowserRouter>
-        <App />
-      </BrowserRouter>
-    </QueryClientProvider>
-  </React.StrictMode>,
-)
\ No newline at end of file
+// Swap in the in-browser mock backend before the first request goes out
+const enableMocking = async () => {
+  if (import.meta.env.VITE_USE_MOCK_API !== 'true') return
+  const [{ enableMockApi }, { default: api }] = await Promise.all([
+    import('./mocks'),
+    import('./api/axios'),
+  ])
+  enableMockApi(api)
+}
+
+enableMocking().then(() => {
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <App />
+        </BrowserRouter>
+      </QueryClientProvider>
+    </React.StrictMode>,
+  )
+})
\ No newline at end of file
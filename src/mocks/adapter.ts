@@ -0,0 +1,125 @@
+import { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { createRouter, MockHttpError, type MockResult } from './router';
+import { registerAuthRoutes } from './handlers/auth';
+import { registerOrderRoutes } from './handlers/orders';
+import { registerProductRoutes } from './handlers/products';
+import { registerIssueRoutes } from './handlers/issues';
+import { registerSuggestionRoutes } from './handlers/suggestions';
+import { registerAnalyticsRoutes } from './handlers/analytics';
+import { registerSearchRoutes } from './handlers/search';
+import { registerStockRoutes } from './handlers/stock';
+import { registerReorderRoutes } from './handlers/reorder';
+import { registerSupplierRoutes } from './handlers/suppliers';
+import { registerPurchaseOrderRoutes } from './handlers/purchaseOrders';
+import { registerCategoryRoutes } from './handlers/categories';
+import { registerSettingsRoutes } from './handlers/settings';
+import { registerRefundRoutes } from './handlers/refunds';
+
+const LATENCY_MS = { min: 150, max: 450 };
+
+export const router = createRouter();
+registerAuthRoutes(router);
+registerOrderRoutes(router);
+registerProductRoutes(router);
+registerIssueRoutes(router);
+registerSuggestionRoutes(router);
+registerAnalyticsRoutes(router);
+registerSearchRoutes(router);
+registerStockRoutes(router);
+registerReorderRoutes(router);
+registerSupplierRoutes(router);
+registerPurchaseOrderRoutes(router);
+registerCategoryRoutes(router);
+registerSettingsRoutes(router);
+registerRefundRoutes(router);
+
+const delay = () => new Promise(resolve =>
+  setTimeout(resolve, LATENCY_MS.min + Math.random() * (LATENCY_MS.max - LATENCY_MS.min))
+);
+
+// Multipart bodies report upload progress the way a browser would, at a
+// pretend 2 MB/s, so progress bars can be exercised without a network
+const UPLOAD_BYTES_PER_SECOND = 2 * 1024 * 1024;
+const UPLOAD_STEPS = 10;
+
+const simulateUpload = async (config: InternalAxiosRequestConfig) => {
+  if (!(config.data instanceof FormData) || !config.onUploadProgress) return;
+  const total = [...config.data.values()].reduce((sum, value) => sum + (value instanceof Blob ? value.size : value.length), 0);
+  const stepMs = (total / UPLOAD_BYTES_PER_SECOND) * 1000 / UPLOAD_STEPS;
+  for (let step = 1; step <= UPLOAD_STEPS; step++) {
+    await new Promise(resolve => setTimeout(resolve, stepMs));
+    const loaded = Math.round((total * step) / UPLOAD_STEPS);
+    config.onUploadProgress({ loaded, total, progress: loaded / total, bytes: total / UPLOAD_STEPS, lengthComputable: true, upload: true });
+  }
+};
+
+const toPath = (config: InternalAxiosRequestConfig) => {
+  const url = config.url || '';
+  const base = config.baseURL || '';
+  const relative = url.startsWith(base) ? url.slice(base.length) : url;
+  return relative.split('?')[0];
+};
+
+const toQuery = (config: InternalAxiosRequestConfig) => {
+  const query: Record<string, string> = {};
+  const [, search] = (config.url || '').split('?');
+  new URLSearchParams(search).forEach((value, key) => { query[key] = value; });
+  Object.entries(config.params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query[key] = String(value);
+  });
+  return query;
+};
+
+const toBody = (data: unknown) => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+// Axios adapter that answers requests from the in-browser mock database
+// instead of the network. Non-2xx results are rejected as AxiosErrors so the
+// interceptors and toApiError() behave exactly as they do against the real API.
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await simulateUpload(config);
+  await delay();
+  const method = (config.method || 'get').toUpperCase();
+  const path = toPath(config);
+
+  let result: MockResult;
+  const match = router.match(method, path);
+  if (!match) {
+    result = { status: 404, data: { success: false, message: `Mock API has no route for ${method} ${path}`, data: null } };
+  } else {
+    try {
+      result = match.handler({
+        params: match.params,
+        query: toQuery(config),
+        body: toBody(config.data),
+        headers: config.headers.toJSON() as Record<string, string>,
+      });
+    } catch (error) {
+      const status = error instanceof MockHttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : 'Mock handler failed';
+      result = { status, data: { success: false, message, data: null } };
+    }
+  }
+
+  const status = result.status ?? 200;
+  const response: AxiosResponse = {
+    data: result.data,
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+    request: null,
+  };
+
+  if (status >= 400) {
+    const code = status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    throw new AxiosError(`Request failed with status code ${status}`, code, config, null, response);
+  }
+  return response;
+};
@@ -0,0 +1,84 @@
+import type { Category, CategoryReorderDefault, Product } from '../types/inventory';
+import type { Order, OrderItem, OrderStatus, TimelineEvent } from '../types/orders';
+import type { Issue } from '../types/support';
+import type { Suggestion } from '../types/feedback';
+import type { StockMovement } from '../types/stock';
+import type { PurchaseOrder, Supplier, SupplierProduct } from '../types/suppliers';
+import type { StoreSettings } from '../types/settings';
+import type { Refund } from '../types/refunds';
+import { seedDatabase } from './seed';
+
+export interface MockUser {
+  phone: string;
+  password: string;
+  role: string;
+}
+
+export interface MockOrder extends Order {
+  items: MockOrderItem[];
+  lastTransition: MockOrderTransition | null;
+}
+
+// What the latest status change overwrote, so it can be undone for a short while
+export interface MockOrderTransition {
+  from: OrderStatus;
+  at: string;
+  timelineId: number;
+  previous: Pick<Order, 'deliveryPhone' | 'assignedAt' | 'packedAt' | 'cancellationReason' | 'cancellationNote'>;
+}
+
+// Counts, names and codes are filled in when responding
+export type MockOrderItem = Omit<OrderItem, 'sku' | 'barcode'>;
+export type MockCategory = Omit<Category, 'productCount'>;
+export type MockSupplier = Omit<Supplier, 'productCount'>;
+export type MockSupplierProduct = Omit<SupplierProduct, 'supplierName' | 'productName' | 'unit'>;
+
+export interface MockDatabase {
+  users: MockUser[];
+  categories: MockCategory[];
+  products: Product[];
+  orders: MockOrder[];
+  timeline: TimelineEvent[];
+  issues: Issue[];
+  suggestions: Suggestion[];
+  stockMovements: StockMovement[];
+  reorderDefaults: CategoryReorderDefault[];
+  suppliers: MockSupplier[];
+  supplierProducts: MockSupplierProduct[];
+  purchaseOrders: PurchaseOrder[];
+  refunds: Refund[];
+  settings: StoreSettings;
+}
+
+// Versioned so sessions saved before a schema change start from a fresh seed
+const STORAGE_KEY = 'mock-api-db-v14';
+
+const load = (): MockDatabase => {
+  const saved = sessionStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      return JSON.parse(saved) as MockDatabase;
+    } catch {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  }
+  return seedDatabase(new Date());
+};
+
+// Single in-memory database for the browser session. Handlers mutate it
+// directly and call persist() so edits survive a page reload.
+export const db: MockDatabase = load();
+
+export const persist = () => {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+};
+
+export const resetDatabase = () => {
+  Object.assign(db, seedDatabase(new Date()));
+  persist();
+};
+
+export const nextId = (rows: { id: number }[]) =>
+  rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+
+export const nowIso = () => new Date().toISOString();
@@ -0,0 +1,16 @@
+import type { RealtimeEvent } from '../types/realtime';
+
+// In-browser stand-in for the backend's event bus. Handlers publish after
+// every mutation; the mock realtime transport forwards events to the app.
+type Listener = (event: RealtimeEvent) => void;
+
+const listeners = new Set<Listener>();
+
+export const publish = (event: RealtimeEvent) => {
+  listeners.forEach(listener => listener(event));
+};
+
+export const subscribe = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,71 @@
+import { format, subDays } from 'date-fns';
+import { db } from '../db';
+import { ok, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { isCashRefund } from '../../utils/refunds';
+import type { DailySalesData, DashboardSummary, SalesComparison } from '../../types/dashboard';
+
+const localDay = (iso: string) => format(new Date(iso), 'yyyy-MM-dd');
+
+// Refunds leave the till on the day they're approved, whenever the order was placed
+const refundsPaidOn = (day: string) => db.refunds
+  .filter(r => r.status === 'APPROVED' && isCashRefund(r.method) && localDay(r.decidedAt!) === day)
+  .reduce((sum, r) => sum + r.amount, 0);
+
+const salesForDay = (day: string): DailySalesData => {
+  const orders = db.orders.filter(o => localDay(o.createdAt) === day);
+  const delivered = orders.filter(o => o.status === 'DELIVERED');
+  const refundsPaid = refundsPaidOn(day);
+  return {
+    date: day,
+    totalOrders: orders.length,
+    deliveredOrders: delivered.length,
+    cancelledOrders: orders.filter(o => o.status === 'CANCELLED').length,
+    totalCashCollected: delivered.reduce((sum, o) => sum + o.totalAmount, 0) - refundsPaid,
+    refundsPaid,
+  };
+};
+
+const percentChange = (today: number, yesterday: number) =>
+  yesterday === 0 ? (today === 0 ? 0 : 100) : Math.round(((today - yesterday) / yesterday) * 1000) / 10;
+
+export const registerAnalyticsRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/dashboard/summary', (req) => {
+    requireAuth(req);
+    const day = format(new Date(), 'yyyy-MM-dd');
+    const today = db.orders.filter(o => localDay(o.createdAt) === day);
+    const refundsPaid = refundsPaidOn(day);
+    const count = (status: string) => today.filter(o => o.status === status).length;
+    return ok<DashboardSummary>({
+      totalOrders: today.length,
+      packedOrders: count('PACKED'),
+      outForDelivery: count('OUT_FOR_DELIVERY'),
+      deliveredOrders: count('DELIVERED'),
+      cancelledOrders: count('CANCELLED'),
+      totalCashCollected: today.filter(o => o.status === 'DELIVERED').reduce((sum, o) => sum + o.totalAmount, 0) - refundsPaid,
+      refundsPaid,
+    });
+  });
+
+  router.on('GET', '/admin/analytics/sales/7-days', (req) => {
+    requireAuth(req);
+    const days = Array.from({ length: 7 }, (_, i) => format(subDays(new Date(), 6 - i), 'yyyy-MM-dd'));
+    return ok(days.map(salesForDay));
+  });
+
+  router.on('GET', '/admin/analytics/sales/today-vs-yesterday', (req) => {
+    requireAuth(req);
+    const today = salesForDay(format(new Date(), 'yyyy-MM-dd'));
+    const yesterday = salesForDay(format(subDays(new Date(), 1), 'yyyy-MM-dd'));
+    const revenuePercent = percentChange(today.totalCashCollected, yesterday.totalCashCollected);
+    return ok<SalesComparison>({
+      today,
+      yesterday,
+      change: {
+        ordersPercent: percentChange(today.totalOrders, yesterday.totalOrders),
+        revenuePercent,
+        trend: revenuePercent > 0 ? 'UP' : revenuePercent < 0 ? 'DOWN' : 'FLAT',
+      },
+    });
+  });
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { MockHttpError, ok, type MockRouter } from '../router';
+import { issueRefreshToken, issueToken, verifyRefreshToken } from '../token';
+import type { LoginRequest, LoginResult, RefreshRequest } from '../../types/auth';
+
+export const registerAuthRoutes = (router: MockRouter) => {
+  router.on('POST', '/auth/login', ({ body }) => {
+    const { phone, password } = body as LoginRequest;
+    const user = db.users.find(u => u.phone === phone && u.password === password);
+    if (!user) throw new MockHttpError(400, 'Invalid phone number or password');
+    return ok<LoginResult>({
+      token: issueToken(user.phone, user.role),
+      refreshToken: issueRefreshToken(user.phone, user.role),
+      role: user.role,
+    }, 'Login successful');
+  });
+
+  router.on('POST', '/auth/refresh', ({ body }) => {
+    const { sub, role } = verifyRefreshToken((body as RefreshRequest)?.refreshToken || '');
+    return ok<LoginResult>({
+      token: issueToken(sub, role),
+      refreshToken: issueRefreshToken(sub, role),
+      role,
+    }, 'Token refreshed');
+  });
+};
@@ -0,0 +1,151 @@
+import { db, nextId, persist, type MockCategory } from '../db';
+import { MockHttpError, ok, parseId, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import type { Category, CategoryDTO } from '../../types/inventory';
+
+export const findCategory = (rawId: string | number) => {
+  const category = db.categories.find(c => c.id === parseId(String(rawId)));
+  if (!category) throw new MockHttpError(404, `Category ${rawId} not found`);
+  return category;
+};
+
+const toCategory = (category: MockCategory): Category => ({
+  ...category,
+  productCount: db.products.filter(p => p.category === category.name).length,
+});
+
+const byPosition = (a: MockCategory, b: MockCategory) => a.position - b.position;
+
+const siblingsOf = (parentId: number | null) => db.categories.filter(c => c.parentId === parentId).sort(byPosition);
+
+const renumber = (parentId: number | null) => siblingsOf(parentId).forEach((c, i) => { c.position = i; });
+
+// Parents in display order, each followed by its subcategories
+const treeOrder = () => siblingsOf(null).flatMap(parent => [parent, ...siblingsOf(parent.id)]);
+
+// Products can only be filed under an existing, active category
+export const requireActiveCategory = (name: string | undefined) => {
+  const category = db.categories.find(c => c.name === name);
+  if (!category) throw new MockHttpError(400, `Unknown category "${name ?? ''}"`);
+  if (!category.active) throw new MockHttpError(400, `Category "${category.name}" is inactive`);
+  return category;
+};
+
+// Products, the stock ledger and reorder defaults all refer to categories by name
+const renameEverywhere = (from: string, to: string) => {
+  db.products.forEach(p => { if (p.category === from) p.category = to; });
+  db.stockMovements.forEach(m => { if (m.category === from) m.category = to; });
+  db.reorderDefaults = db.reorderDefaults.some(d => d.category === to)
+    ? db.reorderDefaults.filter(d => d.category !== from)
+    : db.reorderDefaults.map(d => (d.category === from ? { ...d, category: to } : d));
+};
+
+const cleanCategory = (dto: Partial<CategoryDTO>, existing: MockCategory | null) => {
+  const name = (dto.name ?? existing?.name ?? '').trim();
+  if (!name) throw new MockHttpError(400, 'Category name is required');
+  if (db.categories.some(c => c.id !== existing?.id && c.name.toLowerCase() === name.toLowerCase())) {
+    throw new MockHttpError(400, `A category named "${name}" already exists`);
+  }
+  const parentId = dto.parentId !== undefined ? dto.parentId : existing?.parentId ?? null;
+  if (parentId !== null) {
+    const parent = db.categories.find(c => c.id === parentId);
+    if (!parent) throw new MockHttpError(400, `Parent category ${parentId} not found`);
+    if (parent.id === existing?.id) throw new MockHttpError(400, 'A category cannot be its own parent');
+    if (parent.parentId !== null) throw new MockHttpError(400, 'Subcategories cannot have subcategories of their own');
+    if (existing && siblingsOf(existing.id).length > 0) {
+      throw new MockHttpError(400, `${existing.name} has subcategories, so it has to stay top-level`);
+    }
+  }
+  const icon = dto.icon ?? existing?.icon ?? '';
+  if (!icon) throw new MockHttpError(400, 'Choose an icon');
+  const active = dto.active ?? existing?.active ?? true;
+  if (typeof active !== 'boolean') throw new MockHttpError(400, 'Active must be true or false');
+  return { name, parentId, icon, active };
+};
+
+const remove = (category: MockCategory) => {
+  db.categories = db.categories.filter(c => c.id !== category.id);
+  renumber(category.parentId);
+};
+
+export const registerCategoryRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/categories', (req) => {
+    requireAuth(req);
+    return ok(treeOrder().map(toCategory));
+  });
+
+  router.on('POST', '/admin/categories', (req) => {
+    requireAuth(req);
+    const fields = cleanCategory((req.body || {}) as CategoryDTO, null);
+    const category: MockCategory = { ...fields, id: nextId(db.categories), position: siblingsOf(fields.parentId).length };
+    db.categories.push(category);
+    persist();
+    return ok(toCategory(category), 'Category created', 201);
+  });
+
+  // Registered before /:id so "order" isn't taken for an id
+  router.on('PATCH', '/admin/categories/order', (req) => {
+    requireAuth(req);
+    const { parentId = null, categoryIds } = (req.body || {}) as { parentId?: number | null; categoryIds?: number[] };
+    const siblings = siblingsOf(parentId);
+    if (!Array.isArray(categoryIds) || categoryIds.length !== siblings.length || !siblings.every(c => categoryIds.includes(c.id))) {
+      throw new MockHttpError(400, 'categoryIds must list every category on that level exactly once');
+    }
+    categoryIds.forEach((id, i) => { siblings.find(c => c.id === id)!.position = i; });
+    persist();
+    return ok(null, 'Categories reordered');
+  });
+
+  router.on('PATCH', '/admin/categories/:id', (req) => {
+    requireAuth(req);
+    const category = findCategory(req.params.id);
+    const fields = cleanCategory((req.body || {}) as Partial<CategoryDTO>, category);
+    const previousParent = category.parentId;
+    if (fields.parentId !== previousParent) category.position = siblingsOf(fields.parentId).length;
+    if (fields.name !== category.name) renameEverywhere(category.name, fields.name);
+    Object.assign(category, fields);
+    if (fields.parentId !== previousParent) renumber(previousParent);
+    persist();
+    return ok(toCategory(category), 'Category updated');
+  });
+
+  router.on('POST', '/admin/categories/:id/merge', (req) => {
+    requireAuth(req);
+    const source = findCategory(req.params.id);
+    const { targetId } = (req.body || {}) as { targetId?: number };
+    const target = findCategory(String(targetId));
+    if (target.id === source.id) throw new MockHttpError(400, 'Choose a different category to merge into');
+    if (target.parentId === source.id) throw new MockHttpError(400, `${target.name} is inside ${source.name}; merge it the other way round`);
+    const children = siblingsOf(source.id);
+    if (children.length > 0 && target.parentId !== null) {
+      throw new MockHttpError(400, `${source.name} has subcategories, so it can only be merged into a top-level category`);
+    }
+    children.forEach(child => {
+      child.position = siblingsOf(target.id).length;
+      child.parentId = target.id;
+    });
+    renameEverywhere(source.name, target.name);
+    remove(source);
+    persist();
+    return ok(null, `${source.name} merged into ${target.name}`);
+  });
+
+  router.on('DELETE', '/admin/categories/:id', (req) => {
+    requireAuth(req);
+    const category = findCategory(req.params.id);
+    if (siblingsOf(category.id).length > 0) throw new MockHttpError(400, 'Move or delete its subcategories first');
+    const productCount = db.products.filter(p => p.category === category.name).length;
+    if (req.query.reassignTo) {
+      const target = findCategory(req.query.reassignTo);
+      if (target.id === category.id) throw new MockHttpError(400, 'Choose a different category for its products');
+      renameEverywhere(category.name, target.name);
+    } else if (productCount > 0) {
+      throw new MockHttpError(400, `${productCount} products are in ${category.name}; choose a category to move them to`);
+    } else {
+      db.reorderDefaults = db.reorderDefaults.filter(d => d.category !== category.name);
+    }
+    remove(category);
+    persist();
+    return ok(null, 'Category deleted');
+  });
+};
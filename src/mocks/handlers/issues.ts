@@ -0,0 +1,52 @@
+import { db, nowIso, persist } from '../db';
+import { MockHttpError, ok, paginate, parseId, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { publish } from '../events';
+
+const findIssue = (rawId: string) => {
+  const issue = db.issues.find(i => i.id === parseId(rawId));
+  if (!issue) throw new MockHttpError(404, `Issue ${rawId} not found`);
+  return issue;
+};
+
+export const registerIssueRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/issues', (req) => {
+    requireAuth(req);
+    const { status, severity } = req.query;
+    const search = (req.query.search || '').trim().toLowerCase();
+    const rows = db.issues
+      .filter(i => !status || i.status === status)
+      .filter(i => !severity || i.severity === severity)
+      .filter(i => !search ||
+        String(i.id).includes(search) ||
+        String(i.orderId).includes(search) ||
+        i.customerPhone.includes(search) ||
+        i.description.toLowerCase().includes(search))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return ok(paginate(rows, req.query));
+  });
+
+  router.on('PATCH', '/admin/issues/:id/acknowledge', (req) => {
+    const { sub } = requireAuth(req);
+    const issue = findIssue(req.params.id);
+    if (issue.status !== 'OPEN') throw new MockHttpError(400, 'Only open tickets can be acknowledged');
+    issue.status = 'IN_PROGRESS';
+    issue.acknowledgedAt = nowIso();
+    issue.adminNote = `Acknowledged by ${sub}`;
+    persist();
+    publish({ type: 'issue.updated', issue });
+    return ok(issue, 'Issue acknowledged');
+  });
+
+  router.on('PATCH', '/admin/issues/:id/resolve', (req) => {
+    const { sub } = requireAuth(req);
+    const issue = findIssue(req.params.id);
+    if (issue.status === 'RESOLVED') throw new MockHttpError(400, 'Ticket is already resolved');
+    issue.status = 'RESOLVED';
+    issue.resolvedAt = nowIso();
+    issue.resolvedBy = sub;
+    persist();
+    publish({ type: 'issue.updated', issue });
+    return ok(issue, 'Issue resolved');
+  });
+};
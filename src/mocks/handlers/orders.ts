@@ -0,0 +1,235 @@
+import { db, nowIso, persist, type MockOrder, type MockOrderItem } from '../db';
+import { MockHttpError, ok, paginate, parseId, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { buildReceiptPdf } from '../receipt';
+import { publish } from '../events';
+import { recordStockMovement } from './products';
+import { ORDER_STATUSES } from '../../api/orders';
+import { cancellationProblem, ORDER_STATUS_LABELS, ORDER_UNDO_WINDOW_MS, transitionProblem } from '../../utils/orderStateMachine';
+import { isEditableOrder, isSameLine, orderEditProblem } from '../../utils/orderEdits';
+import { createFormatters } from '../../utils/format';
+import type {
+  CancelOrderDTO, EditOrderItemsDTO, Order, OrderDetails, OrderItem, OrderStatus, TimelineEventKind, UndoTransitionDTO,
+} from '../../types/orders';
+import type { Product } from '../../types/inventory';
+
+export const findOrder = (rawId: string) => {
+  const order = db.orders.find(o => o.id === parseId(rawId));
+  if (!order) throw new MockHttpError(404, `Order ${rawId} not found`);
+  return order;
+};
+
+export const recordTimeline = (order: MockOrder, status: OrderStatus, kind: TimelineEventKind = 'STATUS_CHANGE', note: string | null = null) => {
+  const id = db.timeline.reduce((max, e) => Math.max(max, e.id), 0) + 1;
+  db.timeline.push({ id, orderId: order.id, status, kind, note, timestamp: nowIso() });
+  return id;
+};
+
+// Every status change goes through here, so only moves in ORDER_TRANSITIONS
+// happen and the latest one can be undone
+const transitionOrder = (order: MockOrder, to: OrderStatus, changes: Partial<Order> = {}) => {
+  const problem = transitionProblem(order.status, to);
+  if (problem) throw new MockHttpError(409, problem);
+  const { deliveryPhone, assignedAt, packedAt, cancellationReason, cancellationNote } = order;
+  const from = order.status;
+  Object.assign(order, changes, { status: to }, to === 'PACKED' && { packedAt: nowIso() });
+  order.lastTransition = {
+    from,
+    at: nowIso(),
+    timelineId: recordTimeline(order, to),
+    previous: { deliveryPhone, assignedAt, packedAt, cancellationReason, cancellationNote },
+  };
+  persist();
+  publish({ type: 'order.updated', order: toSummary(order) });
+  return toSummary(order);
+};
+
+// The list endpoint returns the summary shape without line items
+export const toSummary = (order: MockOrder): Order => {
+  const summary: Partial<MockOrder> = { ...order };
+  delete summary.items;
+  delete summary.lastTransition;
+  return summary as Order;
+};
+
+// The size a line was taken from; lines placed before variants use the first size
+const lineVariant = (product: Product | undefined, item: MockOrderItem) =>
+  product?.variants.find(v => v.id === item.variantId) ?? (item.variantId === null ? product?.variants[0] : undefined);
+
+// Codes come from the size as it is now, since that's what's on the shelf
+const withCodes = (item: MockOrderItem): OrderItem => {
+  const variant = lineVariant(db.products.find(p => p.id === item.productId), item);
+  return { ...item, sku: variant?.sku ?? null, barcode: variant?.barcode ?? null };
+};
+
+const lineName = (name: string, unit: string | null) => (unit ? `${name} (${unit})` : name);
+
+const toDetails = (order: MockOrder): OrderDetails => ({
+  orderId: order.id,
+  status: order.status,
+  createdAt: order.createdAt,
+  customerName: order.customerName,
+  customerPhone: order.customerPhone || '',
+  address: order.address,
+  deliveryPhone: order.deliveryPhone,
+  totalAmount: order.totalAmount,
+  cancellationReason: order.cancellationReason,
+  cancellationNote: order.cancellationNote,
+  refundedAmount: order.refundedAmount,
+  items: order.items.map(withCodes),
+});
+
+export const registerOrderRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/orders', (req) => {
+    requireAuth(req);
+    const { status, phone, from, to } = req.query;
+    const rows = db.orders
+      .filter(o => !status || o.status === status)
+      .filter(o => !phone || (o.customerPhone || '').includes(phone))
+      .filter(o => !from || o.createdAt.slice(0, 10) >= from)
+      .filter(o => !to || o.createdAt.slice(0, 10) <= to)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(toSummary);
+    return ok(paginate(rows, req.query));
+  });
+
+  router.on('GET', '/admin/orders/getdetails/:id', (req) => {
+    requireAuth(req);
+    return ok(toDetails(findOrder(req.params.id)));
+  });
+
+  router.on('GET', '/admin/orders/:id/timeline', (req) => {
+    requireAuth(req);
+    const order = findOrder(req.params.id);
+    return ok(db.timeline.filter(e => e.orderId === order.id));
+  });
+
+  router.on('GET', '/admin/orders/:id/receipt', (req) => {
+    requireAuth(req);
+    return { data: buildReceiptPdf([findOrder(req.params.id)]) };
+  });
+
+  // Several receipts in one PDF, a page each, in the order asked for
+  router.on('GET', '/admin/orders/receipts', (req) => {
+    requireAuth(req);
+    const ids = (req.query.ids || '').split(',').filter(Boolean);
+    if (ids.length === 0) throw new MockHttpError(400, 'ids is required');
+    return { data: buildReceiptPdf(ids.map(findOrder)) };
+  });
+
+  router.on('PATCH', '/admin/orders/:id/status', (req) => {
+    requireAuth(req);
+    const order = findOrder(req.params.id);
+    const { status } = (req.body || {}) as { status?: OrderStatus };
+    if (!status || !ORDER_STATUSES.includes(status)) throw new MockHttpError(400, 'Invalid status');
+    if (status === 'CANCELLED') throw new MockHttpError(400, 'Cancel orders through /cancel with a reason');
+    return ok(transitionOrder(order, status), 'Order status updated');
+  });
+
+  router.on('PATCH', '/admin/orders/:id/cancel', (req) => {
+    requireAuth(req);
+    const order = findOrder(req.params.id);
+    const { reason, note } = (req.body || {}) as Partial<CancelOrderDTO>;
+    const problem = cancellationProblem(reason, note);
+    if (problem) throw new MockHttpError(400, problem);
+    return ok(transitionOrder(order, 'CANCELLED', { cancellationReason: reason, cancellationNote: note?.trim() || null }), 'Order cancelled');
+  });
+
+  router.on('POST', '/admin/orders/:id/undo', (req) => {
+    requireAuth(req);
+    const order = findOrder(req.params.id);
+    const { from, to } = (req.body || {}) as Partial<UndoTransitionDTO>;
+    const last = order.lastTransition;
+    if (!last || Date.now() - new Date(last.at).getTime() > ORDER_UNDO_WINDOW_MS) {
+      throw new MockHttpError(409, 'There is no recent status change to undo');
+    }
+    if (last.from !== from || order.status !== to) {
+      throw new MockHttpError(409, `Order #${order.id} has changed since; it is now ${ORDER_STATUS_LABELS[order.status]}`);
+    }
+    Object.assign(order, last.previous, { status: last.from, lastTransition: null });
+    db.timeline = db.timeline.filter(e => e.id !== last.timelineId);
+    persist();
+    publish({ type: 'order.updated', order: toSummary(order) });
+    return ok(toSummary(order), 'Status change undone');
+  });
+
+  router.on('PATCH', '/admin/orders/:id/items', (req) => {
+    const { sub } = requireAuth(req);
+    const order = findOrder(req.params.id);
+    const { edits, note } = (req.body || {}) as Partial<EditOrderItemsDTO>;
+    if (!isEditableOrder(order.status)) {
+      throw new MockHttpError(409, `Only pending orders can be edited; this one is ${ORDER_STATUS_LABELS[order.status]}`);
+    }
+    if (!Array.isArray(edits)) throw new MockHttpError(400, 'edits must be a list');
+    const problem = orderEditProblem(order.status, order.items, edits);
+    if (problem) throw new MockHttpError(400, problem);
+
+    // Substitutes are checked before anything changes, so a bad one leaves the order as it was
+    const substitutes = edits.map(({ substitute, quantity }) => {
+      if (!substitute) return null;
+      const product = db.products.find(p => p.id === substitute.productId && p.active);
+      if (!product) throw new MockHttpError(400, `Product ${substitute.productId} is not available`);
+      const variant = product.variants.find(v => v.id === substitute.variantId);
+      if (!variant) throw new MockHttpError(400, `Size ${substitute.variantId} does not belong to ${product.name}`);
+      if (variant.stock < quantity) {
+        throw new MockHttpError(409, `Only ${variant.stock} of ${lineName(product.name, variant.unit)} left in stock`);
+      }
+      return { product, variant };
+    });
+
+    // Whatever leaves the order goes back on the shelf and substitutes come off it
+    const { money } = createFormatters(db.settings);
+    const stockNote = `Order #${order.id} edited`;
+    const touched = new Set<Product>();
+    const changes: string[] = [];
+    const previousTotal = order.totalAmount;
+    edits.forEach((edit, index) => {
+      const line = order.items.find(item => isSameLine(item, edit))!;
+      const name = lineName(line.productName, line.unit);
+      const product = db.products.find(p => p.id === line.productId);
+      const variant = lineVariant(product, line);
+      const substitute = substitutes[index];
+      if (product && variant) {
+        recordStockMovement(product, variant, substitute ? line.quantity : line.quantity - edit.quantity, 'ORDER_EDIT', stockNote, sub);
+        touched.add(product);
+      }
+      if (substitute) {
+        recordStockMovement(substitute.product, substitute.variant, -edit.quantity, 'ORDER_EDIT', stockNote, sub);
+        touched.add(substitute.product);
+        Object.assign(line, {
+          productId: substitute.product.id,
+          productName: substitute.product.name,
+          variantId: substitute.variant.id,
+          unit: substitute.variant.unit,
+          price: substitute.variant.price,
+        });
+        changes.push(`${name} replaced with ${edit.quantity} × ${lineName(line.productName, line.unit)}`);
+      } else if (edit.quantity === 0) {
+        changes.push(`${name} removed`);
+      } else {
+        changes.push(`${name} reduced from ${line.quantity} to ${edit.quantity}`);
+      }
+      line.quantity = edit.quantity;
+      line.total = line.price * edit.quantity;
+    });
+    order.items = order.items.filter(item => item.quantity > 0);
+    order.totalAmount = order.items.reduce((sum, item) => sum + item.total, 0);
+    changes.push(`New total ${money(order.totalAmount)} (was ${money(previousTotal)})`);
+    if (note?.trim()) changes.push(note.trim());
+    recordTimeline(order, order.status, 'ITEMS_EDITED', changes.join('; '));
+
+    persist();
+    publish({ type: 'order.updated', order: toSummary(order) });
+    touched.forEach(product => publish({ type: 'product.updated', product: { ...product } }));
+    return ok(toDetails(order), 'Order items updated');
+  });
+
+  router.on('PATCH', '/admin/orders/:id/assign', (req) => {
+    requireAuth(req);
+    const order = findOrder(req.params.id);
+    const { deliveryPhone } = req.query;
+    if (!deliveryPhone) throw new MockHttpError(400, 'deliveryPhone is required');
+    if (order.status !== 'PACKED') throw new MockHttpError(409, 'Only packed orders can be assigned');
+    return ok(transitionOrder(order, 'OUT_FOR_DELIVERY', { deliveryPhone, assignedAt: nowIso() }), 'Delivery assigned');
+  });
+};
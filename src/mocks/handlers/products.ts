@@ -0,0 +1,336 @@
+import { db, nextId, nowIso, persist } from '../db';
+import { MockHttpError, ok, paginate, parseId, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { publish } from '../events';
+import { toSummary } from './orders';
+import { requireActiveCategory } from './categories';
+import { stockLevelOf } from '../../utils/reorder';
+import { categoryBranch } from '../../utils/categories';
+import { MAX_PRODUCT_IMAGES, MAX_UPLOAD_BYTES } from '../../utils/images';
+import { barcodeProblem, normalizeCode } from '../../utils/barcodes';
+import { OPEN_ORDER_STATUSES } from '../../api/orders';
+import type {
+  CreateProductDTO, Product, ProductImage, ProductSortField, ProductStats, ProductVariant, ProductVariantDTO, UpdateProductDTO,
+} from '../../types/inventory';
+import type { StockMovement, StockMovementReason } from '../../types/stock';
+
+export const findProduct = (rawId: string) => {
+  const product = db.products.find(p => p.id === parseId(rawId));
+  if (!product) throw new MockHttpError(404, `Product ${rawId} not found`);
+  return product;
+};
+
+// Product-level unit/price follow the default variant and stock is the total
+export const syncFromVariants = (product: Product) => {
+  const [first] = product.variants;
+  product.unit = first.unit;
+  product.price = first.price;
+  product.stock = product.variants.reduce((sum, v) => sum + v.stock, 0);
+};
+
+// The variant a stock change applies to; products with several sizes must name one
+export const findVariant = (product: Product, variantId?: number | null) => {
+  if (variantId == null) {
+    if (product.variants.length > 1) throw new MockHttpError(400, `Choose which size of ${product.name} this applies to`);
+    return product.variants[0];
+  }
+  const variant = product.variants.find(v => v.id === variantId);
+  if (!variant) throw new MockHttpError(400, `Size ${variantId} does not belong to ${product.name}`);
+  return variant;
+};
+
+// The only place product stock changes: applies the signed quantity to one variant
+// and records it. Callers persist and publish.
+export const recordStockMovement = (
+  product: Product,
+  variant: ProductVariant,
+  quantity: number,
+  reason: StockMovementReason,
+  note: string | null,
+  createdBy: string | null
+) => {
+  const timestamp = nowIso();
+  variant.stock += quantity;
+  syncFromVariants(product);
+  product.updatedAt = timestamp;
+  const movement: StockMovement = {
+    id: nextId(db.stockMovements),
+    productId: product.id,
+    productName: product.name,
+    category: product.category,
+    variantId: variant.id,
+    unit: variant.unit,
+    quantity,
+    balanceAfter: variant.stock,
+    reason,
+    note,
+    createdBy,
+    createdAt: timestamp,
+  };
+  db.stockMovements.push(movement);
+  return movement;
+};
+
+const nextImageId = () => Math.max(0, ...db.products.flatMap(p => p.images.map(i => i.id))) + 1;
+
+// imageUrl mirrors the primary image so lists don't need the whole gallery
+const syncPrimaryImage = (product: Product) => {
+  product.imageUrl = product.images[0]?.url ?? null;
+  product.updatedAt = nowIso();
+};
+
+const nextVariantId = () => Math.max(0, ...db.products.flatMap(p => p.variants.map(v => v.id))) + 1;
+
+const optional = (value?: string | null) => value?.trim() || null;
+
+// Validates a full variant list for `product` (null when creating) and returns it
+// with ids assigned. Stock is carried over for existing variants and starts at 0
+// for new ones.
+const buildVariants = (product: Product | null, dtos: ProductVariantDTO[] | undefined) => {
+  if (!Array.isArray(dtos) || dtos.length === 0) throw new MockHttpError(400, 'A product needs at least one size');
+  const others = db.products.filter(p => p.id !== product?.id).flatMap(p => p.variants);
+  const units = new Set<string>();
+  const codes = new Set<string>();
+  let id = nextVariantId();
+  const variants = dtos.map((dto): ProductVariant => {
+    const unit = dto.unit?.trim();
+    if (!unit) throw new MockHttpError(400, 'Every size needs a unit');
+    if (units.has(unit.toLowerCase())) throw new MockHttpError(400, `Size "${unit}" is listed twice`);
+    units.add(unit.toLowerCase());
+    if (typeof dto.price !== 'number' || !(dto.price >= 0)) throw new MockHttpError(400, `Price for ${unit} cannot be negative`);
+    const sku = optional(dto.sku);
+    const barcode = optional(dto.barcode);
+    const barcodeError = barcode ? barcodeProblem(barcode) : null;
+    if (barcodeError) throw new MockHttpError(400, barcodeError);
+    for (const [label, code] of [['SKU', sku], ['Barcode', barcode]] as const) {
+      if (!code) continue;
+      const key = `${label}:${code.toLowerCase()}`;
+      const field = label === 'SKU' ? 'sku' : 'barcode';
+      if (codes.has(key) || others.some(v => v[field]?.toLowerCase() === code.toLowerCase())) {
+        throw new MockHttpError(400, `${label} ${code} is already in use`);
+      }
+      codes.add(key);
+    }
+    if (dto.id != null) {
+      const existing = product?.variants.find(v => v.id === dto.id);
+      if (!existing) throw new MockHttpError(400, `Size ${dto.id} does not belong to this product`);
+      return { ...existing, unit, price: dto.price, sku, barcode };
+    }
+    return { id: id++, unit, price: dto.price, stock: 0, sku, barcode };
+  });
+  const removed = product?.variants.filter(v => !variants.some(kept => kept.id === v.id)) ?? [];
+  const stocked = removed.find(v => v.stock > 0);
+  if (stocked) throw new MockHttpError(400, `${stocked.unit} still has ${stocked.stock} in stock; write it off before removing the size`);
+  return variants;
+};
+
+// The product and size whose SKU or barcode is `code`
+const findByCode = (code: string) => {
+  const wanted = normalizeCode(code);
+  for (const product of db.products) {
+    const variant = product.variants.find(v => [v.sku, v.barcode].some(c => c !== null && normalizeCode(c) === wanted));
+    if (variant) return { product, variant };
+  }
+  return null;
+};
+
+const levelOf = (product: Product) => stockLevelOf(product, db.reorderDefaults);
+
+const SORT_FIELDS: ProductSortField[] = ['name', 'category', 'price', 'stock', 'updatedAt'];
+
+// Spring-style "field,direction"; unknown fields fall back to name
+const compareBy = (sort = '') => {
+  const [rawField, direction] = sort.split(',');
+  const field = SORT_FIELDS.includes(rawField as ProductSortField) ? (rawField as ProductSortField) : 'name';
+  const sign = direction === 'desc' ? -1 : 1;
+  return (a: Product, b: Product) => {
+    const x = a[field];
+    const y = b[field];
+    const result = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+    return (result || a.id - b.id) * sign;
+  };
+};
+
+export const registerProductRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/products', (req) => {
+    requireAuth(req);
+    return ok(db.products);
+  });
+
+  router.on('GET', '/admin/products/search', (req) => {
+    requireAuth(req);
+    const { category, stockLevel, active, sort } = req.query;
+    const search = (req.query.search || '').trim().toLowerCase();
+    const minPrice = req.query.minPrice ? Number(req.query.minPrice) : null;
+    const maxPrice = req.query.maxPrice ? Number(req.query.maxPrice) : null;
+    const categories = category ? categoryBranch(db.categories, category) : null;
+    const rows = db.products
+      .filter(p => !search || p.name.toLowerCase().includes(search) || p.description.toLowerCase().includes(search)
+        || p.variants.some(v => [v.sku, v.barcode].some(c => c !== null && normalizeCode(c) === search)))
+      .filter(p => !categories || categories.has(p.category))
+      .filter(p => minPrice === null || p.price >= minPrice)
+      .filter(p => maxPrice === null || p.price <= maxPrice)
+      .filter(p => !stockLevel || levelOf(p) === stockLevel)
+      .filter(p => !active || String(p.active) === active)
+      .sort(compareBy(sort));
+    return ok(paginate(rows, req.query));
+  });
+
+  router.on('GET', '/admin/products/lookup', (req) => {
+    requireAuth(req);
+    const match = findByCode(req.query.code || '');
+    if (!match) throw new MockHttpError(404, `No product has the code ${req.query.code ?? ''}`);
+    return ok({ product: match.product, variantId: match.variant.id });
+  });
+
+  router.on('GET', '/admin/products/stats', (req) => {
+    requireAuth(req);
+    const active = db.products.filter(p => p.active);
+    return ok<ProductStats>({
+      totalProducts: active.length,
+      lowStock: active.filter(p => levelOf(p) === 'LOW_STOCK').length,
+      outOfStock: active.filter(p => levelOf(p) === 'OUT_OF_STOCK').length,
+      archived: db.products.length - active.length,
+    });
+  });
+
+  router.on('GET', '/admin/products/:id/open-orders', (req) => {
+    requireAuth(req);
+    const product = findProduct(req.params.id);
+    return ok(db.orders
+      .filter(o => OPEN_ORDER_STATUSES.includes(o.status) && o.items.some(item => item.productId === product.id))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(toSummary));
+  });
+
+  router.on('GET', '/admin/products/:id', (req) => {
+    requireAuth(req);
+    return ok(findProduct(req.params.id));
+  });
+
+  router.on('POST', '/admin/products', (req) => {
+    const { sub } = requireAuth(req);
+    const dto = req.body as CreateProductDTO;
+    if (!dto?.name?.trim()) throw new MockHttpError(400, 'Product name is required');
+    if (db.products.some(p => p.name.toLowerCase() === dto.name.trim().toLowerCase())) {
+      throw new MockHttpError(400, `A product named "${dto.name}" already exists`);
+    }
+    requireActiveCategory(dto.category);
+    const openingStock = (dto.variants ?? []).map(v => v.stock);
+    if (openingStock.some(stock => !Number.isInteger(stock) || stock < 0)) {
+      throw new MockHttpError(400, 'Stock must be a whole number of at least 0');
+    }
+    const variants = buildVariants(null, dto.variants);
+    const timestamp = nowIso();
+    const product: Product = {
+      id: nextId(db.products),
+      name: dto.name.trim(),
+      category: dto.category,
+      description: dto.description,
+      unit: '',
+      price: 0,
+      stock: 0,
+      imageUrl: null,
+      images: [],
+      active: true,
+      reorderPoint: null,
+      reorderQuantity: null,
+      variants,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    syncFromVariants(product);
+    db.products.push(product);
+    variants.forEach((variant, i) => {
+      if (openingStock[i] > 0) recordStockMovement(product, variant, openingStock[i], 'DELIVERY', 'Initial stock', sub);
+    });
+    persist();
+    return ok(product, 'Product created', 201);
+  });
+
+  router.on('PATCH', '/admin/products/:id', (req) => {
+    requireAuth(req);
+    const product = findProduct(req.params.id);
+    const changes = (req.body || {}) as UpdateProductDTO;
+    if ('stock' in changes) throw new MockHttpError(400, 'Stock changes must be recorded as stock movements');
+    if (changes.name !== undefined) {
+      const name = changes.name.trim();
+      if (!name) throw new MockHttpError(400, 'Product name is required');
+      if (db.products.some(p => p.id !== product.id && p.name.toLowerCase() === name.toLowerCase())) {
+        throw new MockHttpError(400, `A product named "${name}" already exists`);
+      }
+      changes.name = name;
+    }
+    if (changes.category !== undefined && changes.category !== product.category) requireActiveCategory(changes.category);
+    if (changes.active !== undefined && typeof changes.active !== 'boolean') throw new MockHttpError(400, 'Active must be true or false');
+    if (changes.reorderPoint != null && (!Number.isInteger(changes.reorderPoint) || changes.reorderPoint < 0)) {
+      throw new MockHttpError(400, 'Reorder point must be a whole number of at least 0');
+    }
+    if (changes.reorderQuantity != null && (!Number.isInteger(changes.reorderQuantity) || changes.reorderQuantity < 1)) {
+      throw new MockHttpError(400, 'Reorder quantity must be a whole number of at least 1');
+    }
+    // Sizes are checked before anything is written, so a bad one leaves the product as it was
+    const { variants, ...fields } = changes;
+    const nextVariants = variants === undefined ? undefined : buildVariants(product, variants);
+    Object.assign(product, fields, { updatedAt: nowIso() });
+    if (nextVariants) {
+      product.variants = nextVariants;
+      syncFromVariants(product);
+    }
+    persist();
+    publish({ type: 'product.updated', product });
+    return ok(product, 'Product updated');
+  });
+
+  router.on('DELETE', '/admin/products/:id', (req) => {
+    requireAuth(req);
+    const product = findProduct(req.params.id);
+    db.products = db.products.filter(p => p.id !== product.id);
+    db.supplierProducts = db.supplierProducts.filter(l => l.productId !== product.id);
+    persist();
+    return ok(null, 'Product deleted');
+  });
+
+  router.on('POST', '/admin/products/:id/images', (req) => {
+    requireAuth(req);
+    const product = findProduct(req.params.id);
+    const file = req.body instanceof FormData ? req.body.get('image') : null;
+    if (!(file instanceof File)) throw new MockHttpError(400, 'Image file is required');
+    if (!file.type.startsWith('image/')) throw new MockHttpError(400, 'Only image files can be uploaded');
+    if (file.size > MAX_UPLOAD_BYTES) throw new MockHttpError(413, 'Image is too large');
+    if (product.images.length >= MAX_PRODUCT_IMAGES) {
+      throw new MockHttpError(400, `A product can have at most ${MAX_PRODUCT_IMAGES} images`);
+    }
+    // Object URLs only live as long as the page; good enough for a dev session
+    const image: ProductImage = { id: nextImageId(), url: URL.createObjectURL(file) };
+    product.images.push(image);
+    syncPrimaryImage(product);
+    persist();
+    return ok(image, 'Image uploaded', 201);
+  });
+
+  router.on('PATCH', '/admin/products/:id/images', (req) => {
+    requireAuth(req);
+    const product = findProduct(req.params.id);
+    const { imageIds } = (req.body || {}) as { imageIds?: number[] };
+    const current = product.images.map(i => i.id);
+    if (!Array.isArray(imageIds) || imageIds.length !== current.length || !current.every(id => imageIds.includes(id))) {
+      throw new MockHttpError(400, 'imageIds must list every image of the product exactly once');
+    }
+    product.images = imageIds.map(id => product.images.find(i => i.id === id)!);
+    syncPrimaryImage(product);
+    persist();
+    return ok(product.images, 'Images reordered');
+  });
+
+  router.on('DELETE', '/admin/products/:id/images/:imageId', (req) => {
+    requireAuth(req);
+    const product = findProduct(req.params.id);
+    const image = product.images.find(i => i.id === parseId(req.params.imageId));
+    if (!image) throw new MockHttpError(404, `Image ${req.params.imageId} not found`);
+    product.images = product.images.filter(i => i !== image);
+    syncPrimaryImage(product);
+    persist();
+    return ok(null, 'Image removed');
+  });
+};
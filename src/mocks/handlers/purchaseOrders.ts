@@ -0,0 +1,199 @@
+import { db, nextId, nowIso, persist } from '../db';
+import { MockHttpError, ok, paginate, parseId, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { publish } from '../events';
+import { findProduct, findVariant, recordStockMovement } from './products';
+import { findSupplier } from './suppliers';
+import type { Product } from '../../types/inventory';
+import type {
+  DraftPurchaseOrdersResult, PurchaseOrder, PurchaseOrderDTO, PurchaseOrderLine, PurchaseOrderStatus, ReceivePurchaseOrderDTO
+} from '../../types/suppliers';
+
+const findPurchaseOrder = (rawId: string) => {
+  const order = db.purchaseOrders.find(o => o.id === parseId(rawId));
+  if (!order) throw new MockHttpError(404, `Purchase order ${rawId} not found`);
+  return order;
+};
+
+const requireStatus = (order: PurchaseOrder, allowed: PurchaseOrderStatus[], action: string) => {
+  if (!allowed.includes(order.status)) {
+    throw new MockHttpError(409, `Cannot ${action} purchase order #${order.id} while it is ${order.status}`);
+  }
+};
+
+const totalOf = (lines: PurchaseOrderLine[]) =>
+  Math.round(lines.reduce((sum, line) => sum + line.quantity * line.costPrice, 0) * 100) / 100;
+
+const toLines = (dto: PurchaseOrderDTO): PurchaseOrderLine[] => {
+  if (!Array.isArray(dto?.lines) || dto.lines.length === 0) throw new MockHttpError(400, 'A purchase order needs at least one line');
+  const seen = new Set<string>();
+  return dto.lines.map(({ productId, variantId, quantity, costPrice }) => {
+    const product = findProduct(String(productId));
+    const variant = findVariant(product, variantId);
+    const key = `${product.id}:${variant.id}`;
+    if (seen.has(key)) throw new MockHttpError(400, `${product.name} (${variant.unit}) appears twice`);
+    seen.add(key);
+    if (!Number.isInteger(quantity) || quantity < 1) throw new MockHttpError(400, `Invalid quantity for ${product.name}`);
+    if (!Number.isFinite(costPrice) || costPrice < 0) throw new MockHttpError(400, `Invalid cost price for ${product.name}`);
+    return { productId: product.id, variantId: variant.id, productName: product.name, unit: variant.unit, quantity, receivedQuantity: 0, costPrice };
+  });
+};
+
+const createDraft = (supplierId: number, lines: PurchaseOrderLine[], createdBy: string, notes?: string, expectedAt?: string) => {
+  const supplier = findSupplier(supplierId);
+  const order: PurchaseOrder = {
+    id: nextId(db.purchaseOrders),
+    supplierId: supplier.id,
+    supplierName: supplier.name,
+    status: 'DRAFT',
+    lines,
+    total: totalOf(lines),
+    notes: notes?.trim() || null,
+    expectedAt: expectedAt || null,
+    createdBy,
+    createdAt: nowIso(),
+    sentAt: null,
+    closedAt: null,
+  };
+  db.purchaseOrders.push(order);
+  return order;
+};
+
+export const registerPurchaseOrderRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/purchase-orders', (req) => {
+    requireAuth(req);
+    const { status, supplierId } = req.query;
+    const rows = db.purchaseOrders
+      .filter(o => !status || o.status === status)
+      .filter(o => !supplierId || o.supplierId === Number(supplierId))
+      .sort((a, b) => b.id - a.id);
+    return ok(paginate(rows, req.query));
+  });
+
+  router.on('POST', '/admin/purchase-orders/drafts', (req) => {
+    const { sub } = requireAuth(req);
+    const { lines } = (req.body || {}) as { lines: { productId: number; quantity: number }[] };
+    if (!Array.isArray(lines) || lines.length === 0) throw new MockHttpError(400, 'No products to order');
+
+    // Each product goes to its cheapest linked supplier
+    const bySupplier = new Map<number, PurchaseOrderLine[]>();
+    const unassignedProductIds: number[] = [];
+    lines.forEach(({ productId, quantity }) => {
+      const product = findProduct(String(productId));
+      const link = db.supplierProducts
+        .filter(l => l.productId === product.id)
+        .sort((a, b) => a.costPrice - b.costPrice)[0];
+      if (!link || !Number.isInteger(quantity) || quantity < 1) {
+        unassignedProductIds.push(product.id);
+        return;
+      }
+      // Suggestions are per product, so drafts start on the default size; it can be changed while drafted
+      const variant = product.variants[0];
+      const supplierLines = bySupplier.get(link.supplierId) ?? [];
+      supplierLines.push({ productId: product.id, variantId: variant.id, productName: product.name, unit: variant.unit, quantity, receivedQuantity: 0, costPrice: link.costPrice });
+      bySupplier.set(link.supplierId, supplierLines);
+    });
+
+    const orders = [...bySupplier].map(([supplierId, supplierLines]) =>
+      createDraft(supplierId, supplierLines, sub, 'Drafted from reorder suggestions'));
+    persist();
+    return ok<DraftPurchaseOrdersResult>({ orders, unassignedProductIds }, `${orders.length} draft purchase orders created`, 201);
+  });
+
+  router.on('GET', '/admin/purchase-orders/:id', (req) => {
+    requireAuth(req);
+    return ok(findPurchaseOrder(req.params.id));
+  });
+
+  router.on('POST', '/admin/purchase-orders', (req) => {
+    const { sub } = requireAuth(req);
+    const dto = req.body as PurchaseOrderDTO;
+    const order = createDraft(dto?.supplierId, toLines(dto), sub, dto.notes, dto.expectedAt);
+    persist();
+    return ok(order, 'Purchase order created', 201);
+  });
+
+  router.on('PATCH', '/admin/purchase-orders/:id/send', (req) => {
+    requireAuth(req);
+    const order = findPurchaseOrder(req.params.id);
+    requireStatus(order, ['DRAFT'], 'send');
+    Object.assign(order, { status: 'SENT', sentAt: nowIso() });
+    persist();
+    return ok(order, 'Purchase order sent');
+  });
+
+  router.on('PATCH', '/admin/purchase-orders/:id/close', (req) => {
+    requireAuth(req);
+    const order = findPurchaseOrder(req.params.id);
+    requireStatus(order, ['SENT', 'PARTIALLY_RECEIVED'], 'close');
+    Object.assign(order, { status: 'CLOSED', closedAt: nowIso() });
+    persist();
+    return ok(order, 'Purchase order closed');
+  });
+
+  router.on('PATCH', '/admin/purchase-orders/:id/cancel', (req) => {
+    requireAuth(req);
+    const order = findPurchaseOrder(req.params.id);
+    requireStatus(order, ['DRAFT', 'SENT'], 'cancel');
+    Object.assign(order, { status: 'CANCELLED', closedAt: nowIso() });
+    persist();
+    return ok(order, 'Purchase order cancelled');
+  });
+
+  router.on('PATCH', '/admin/purchase-orders/:id', (req) => {
+    requireAuth(req);
+    const order = findPurchaseOrder(req.params.id);
+    requireStatus(order, ['DRAFT'], 'edit');
+    const dto = req.body as PurchaseOrderDTO;
+    const supplier = findSupplier(dto?.supplierId);
+    const lines = toLines(dto);
+    Object.assign(order, {
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      lines,
+      total: totalOf(lines),
+      notes: dto.notes?.trim() || null,
+      expectedAt: dto.expectedAt || null,
+    });
+    persist();
+    return ok(order, 'Purchase order updated');
+  });
+
+  // Receiving books each quantity into stock as a delivery movement
+  router.on('POST', '/admin/purchase-orders/:id/receipts', (req) => {
+    const { sub } = requireAuth(req);
+    const order = findPurchaseOrder(req.params.id);
+    requireStatus(order, ['SENT', 'PARTIALLY_RECEIVED'], 'receive');
+    const { lines, note } = (req.body || {}) as ReceivePurchaseOrderDTO;
+    const received = (lines || []).filter(l => l.quantity !== 0);
+    if (received.length === 0) throw new MockHttpError(400, 'Enter at least one received quantity');
+
+    // Validate everything before touching stock so a bad line changes nothing
+    const updates = received.map(({ productId, variantId, quantity }) => {
+      const line = order.lines.find(l => l.productId === productId && l.variantId === (variantId ?? null));
+      if (!line) throw new MockHttpError(400, `Product ${productId}${variantId != null ? ` size ${variantId}` : ''} is not on this order`);
+      const remaining = line.quantity - line.receivedQuantity;
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > remaining) {
+        throw new MockHttpError(400, `Received quantity for ${line.productName} must be between 1 and ${remaining}`);
+      }
+      const product = findProduct(String(productId));
+      return { line, quantity, product, variant: findVariant(product, line.variantId) };
+    });
+
+    const touched: Product[] = [];
+    updates.forEach(({ line, quantity, product, variant }) => {
+      line.receivedQuantity += quantity;
+      const text = [`PO #${order.id} from ${order.supplierName}`, note?.trim()].filter(Boolean).join(' · ');
+      recordStockMovement(product, variant, quantity, 'DELIVERY', text, sub);
+      touched.push(product);
+    });
+
+    const complete = order.lines.every(l => l.receivedQuantity >= l.quantity);
+    Object.assign(order, complete
+      ? { status: 'CLOSED', closedAt: nowIso() }
+      : { status: 'PARTIALLY_RECEIVED' });
+    persist();
+    touched.forEach(product => publish({ type: 'product.updated', product: { ...product } }));
+    return ok(order, complete ? 'Purchase order fully received' : 'Delivery received');
+  });
+};
@@ -0,0 +1,121 @@
+import { db, nextId, nowIso, persist, type MockOrder } from '../db';
+import { MockHttpError, ok, paginate, parseId, type MockRouter, type MockRequest } from '../router';
+import { requireAuth } from '../token';
+import { publish } from '../events';
+import { findOrder, recordTimeline, toSummary } from './orders';
+import { createFormatters } from '../../utils/format';
+import { isSameLine } from '../../utils/orderEdits';
+import { hasPermission, normalizeRole } from '../../utils/permissions';
+import { refundMethodLabel, refundProblem, REFUND_APPROVE_PERMISSION } from '../../utils/refunds';
+import type { Refund, RefundDecisionDTO, RefundRequestDTO } from '../../types/refunds';
+
+const findRefund = (rawId: string) => {
+  const refund = db.refunds.find(r => r.id === parseId(rawId));
+  if (!refund) throw new MockHttpError(404, `Refund ${rawId} not found`);
+  return refund;
+};
+
+const refundsOf = (orderId: number) => db.refunds.filter(r => r.orderId === orderId);
+
+const byNewest = (a: Refund, b: Refund) => b.requestedAt.localeCompare(a.requestedAt);
+
+// Approving or rejecting needs the permission and, unlike requesting, a second person.
+// The caller is checked before the refund is looked up, so ids aren't probed anonymously.
+const requireApprover = (req: MockRequest) => {
+  const { sub, role } = requireAuth(req);
+  if (!hasPermission(normalizeRole(role), REFUND_APPROVE_PERMISSION)) throw new MockHttpError(403, 'Your role cannot approve refunds');
+  const refund = findRefund(req.params.id);
+  if (refund.status !== 'PENDING_APPROVAL') throw new MockHttpError(409, 'This refund has already been decided');
+  if (refund.requestedBy === sub) throw new MockHttpError(409, 'A refund must be approved by someone other than who requested it');
+  return { sub, refund };
+};
+
+const logRefund = (order: MockOrder, note: string) => {
+  recordTimeline(order, order.status, 'REFUND', note);
+  persist();
+  publish({ type: 'order.updated', order: toSummary(order) });
+};
+
+export const registerRefundRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/refunds', (req) => {
+    requireAuth(req);
+    const { status, orderId, issueId } = req.query;
+    const rows = db.refunds
+      .filter(r => !status || r.status === status)
+      .filter(r => !orderId || r.orderId === Number(orderId))
+      .filter(r => !issueId || r.issueId === Number(issueId))
+      .sort(byNewest);
+    return ok(paginate(rows, req.query));
+  });
+
+  router.on('GET', '/admin/orders/:id/refunds', (req) => {
+    requireAuth(req);
+    const order = findOrder(req.params.id);
+    return ok(refundsOf(order.id).sort(byNewest));
+  });
+
+  router.on('POST', '/admin/refunds', (req) => {
+    const { sub } = requireAuth(req);
+    const body = (req.body || {}) as Partial<RefundRequestDTO>;
+    const order = findOrder(String(body.orderId));
+    const dto = { ...body, items: Array.isArray(body.items) ? body.items : [] } as RefundRequestDTO;
+    const problem = refundProblem(dto, order, refundsOf(order.id));
+    if (problem) throw new MockHttpError(400, problem);
+    if (dto.issueId != null && !db.issues.some(i => i.id === dto.issueId && i.orderId === order.id)) {
+      throw new MockHttpError(400, `Ticket ${dto.issueId} is not about order #${order.id}`);
+    }
+
+    const refund: Refund = {
+      id: nextId(db.refunds),
+      orderId: order.id,
+      issueId: dto.issueId ?? null,
+      amount: Math.round(dto.amount * 100) / 100,
+      method: dto.method,
+      reason: dto.reason,
+      note: dto.note?.trim() || null,
+      status: 'PENDING_APPROVAL',
+      items: dto.items.map(item => {
+        const line = order.items.find(i => isSameLine(i, item))!;
+        return { productId: line.productId, variantId: line.variantId, productName: line.productName, unit: line.unit, quantity: item.quantity, amount: line.price * item.quantity };
+      }),
+      requestedBy: sub,
+      requestedAt: nowIso(),
+      decidedBy: null,
+      decidedAt: null,
+      decisionNote: null,
+    };
+    db.refunds.push(refund);
+    const { money } = createFormatters(db.settings);
+    logRefund(order, `Refund of ${money(refund.amount)} requested (${refundMethodLabel(refund.method)})`);
+    return ok(refund, 'Refund requested');
+  });
+
+  router.on('PATCH', '/admin/refunds/:id/approve', (req) => {
+    const { sub, refund } = requireApprover(req);
+    const { note } = (req.body || {}) as RefundDecisionDTO;
+    const order = findOrder(String(refund.orderId));
+    Object.assign(refund, { status: 'APPROVED', decidedBy: sub, decidedAt: nowIso(), decisionNote: note?.trim() || null });
+    order.refundedAmount = Math.round((order.refundedAmount + refund.amount) * 100) / 100;
+
+    // The ticket the refund came from is settled by it
+    const issue = db.issues.find(i => i.id === refund.issueId);
+    const { money } = createFormatters(db.settings);
+    if (issue && issue.status !== 'RESOLVED') {
+      Object.assign(issue, { status: 'RESOLVED', resolvedAt: nowIso(), resolvedBy: sub, adminNote: `Refunded ${money(refund.amount)}` });
+      publish({ type: 'issue.updated', issue });
+    }
+    logRefund(order, `Refund of ${money(refund.amount)} approved; paid back by ${refundMethodLabel(refund.method)}`);
+    return ok(refund, 'Refund approved');
+  });
+
+  router.on('PATCH', '/admin/refunds/:id/reject', (req) => {
+    const { sub, refund } = requireApprover(req);
+    const { note } = (req.body || {}) as RefundDecisionDTO;
+    if (!note?.trim()) throw new MockHttpError(400, 'Say why the refund is rejected');
+    const order = findOrder(String(refund.orderId));
+    Object.assign(refund, { status: 'REJECTED', decidedBy: sub, decidedAt: nowIso(), decisionNote: note.trim() });
+    const { money } = createFormatters(db.settings);
+    logRefund(order, `Refund of ${money(refund.amount)} declined: ${note.trim()}`);
+    return ok(refund, 'Refund rejected');
+  });
+};
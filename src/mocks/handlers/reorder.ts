@@ -0,0 +1,93 @@
+import { subDays } from 'date-fns';
+import { db, persist } from '../db';
+import { MockHttpError, ok, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { resolveReorder } from '../../utils/reorder';
+import type { CategoryReorderDefault, ReorderSuggestion, ReorderUrgency } from '../../types/inventory';
+
+const URGENCY_ORDER: ReorderUrgency[] = ['OUT_OF_STOCK', 'BELOW_REORDER_POINT', 'PROJECTED'];
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Units sold per product over the window, from orders that weren't cancelled
+const unitsSoldSince = (since: Date) => {
+  const sold = new Map<number, number>();
+  db.orders
+    .filter(order => order.status !== 'CANCELLED' && new Date(order.createdAt) >= since)
+    .forEach(order => order.items.forEach(item => {
+      sold.set(item.productId, (sold.get(item.productId) ?? 0) + item.quantity);
+    }));
+  return sold;
+};
+
+export const registerReorderRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/inventory/reorder-defaults', (req) => {
+    requireAuth(req);
+    return ok(db.reorderDefaults);
+  });
+
+  router.on('PATCH', '/admin/inventory/reorder-defaults', (req) => {
+    requireAuth(req);
+    const updates = req.body as CategoryReorderDefault[];
+    if (!Array.isArray(updates)) throw new MockHttpError(400, 'Expected a list of category defaults');
+    updates.forEach(({ category, reorderPoint, reorderQuantity }) => {
+      if (!category?.trim()) throw new MockHttpError(400, 'Category is required');
+      if (!db.categories.some(c => c.name === category)) throw new MockHttpError(400, `Unknown category "${category}"`);
+      if (!Number.isInteger(reorderPoint) || reorderPoint < 0) throw new MockHttpError(400, `Invalid reorder point for ${category}`);
+      if (!Number.isInteger(reorderQuantity) || reorderQuantity < 1) throw new MockHttpError(400, `Invalid reorder quantity for ${category}`);
+      db.reorderDefaults = [
+        ...db.reorderDefaults.filter(d => d.category !== category),
+        { category, reorderPoint, reorderQuantity },
+      ];
+    });
+    persist();
+    return ok(db.reorderDefaults, 'Reorder defaults updated');
+  });
+
+  // A purchase should bring stock back above the reorder point and cover
+  // `coverDays` of sales, and is never smaller than the reorder quantity.
+  router.on('GET', '/admin/inventory/reorder-suggestions', (req) => {
+    requireAuth(req);
+    const days = Math.max(1, Number(req.query.days) || 14);
+    // 0 is a valid cover; only a missing, unreadable or negative value falls back
+    const requestedCover = req.query.coverDays ? Number(req.query.coverDays) : NaN;
+    const coverDays = Number.isNaN(requestedCover) || requestedCover < 0 ? 7 : requestedCover;
+    const sold = unitsSoldSince(subDays(new Date(), days));
+
+    const suggestions: ReorderSuggestion[] = [];
+    db.products.filter(p => p.active).forEach(product => {
+      const { reorderPoint, reorderQuantity } = resolveReorder(product, db.reorderDefaults);
+      const unitsSold = sold.get(product.id) ?? 0;
+      const dailyVelocity = unitsSold / days;
+      const urgency: ReorderUrgency | null =
+        product.stock === 0 ? 'OUT_OF_STOCK' :
+          product.stock <= reorderPoint ? 'BELOW_REORDER_POINT' :
+            product.stock - dailyVelocity * coverDays <= reorderPoint ? 'PROJECTED' :
+              null;
+      if (!urgency) return;
+
+      suggestions.push({
+        productId: product.id,
+        productName: product.name,
+        category: product.category,
+        unit: product.unit,
+        price: product.price,
+        stock: product.stock,
+        reorderPoint,
+        reorderQuantity,
+        unitsSold,
+        dailyVelocity: round(dailyVelocity, 2),
+        daysOfCover: dailyVelocity > 0 ? round(product.stock / dailyVelocity, 1) : null,
+        suggestedQuantity: Math.max(reorderQuantity, Math.ceil(reorderPoint + dailyVelocity * coverDays - product.stock)),
+        urgency,
+      });
+    });
+
+    suggestions.sort((a, b) =>
+      URGENCY_ORDER.indexOf(a.urgency) - URGENCY_ORDER.indexOf(b.urgency)
+      || (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity)
+      || a.productName.localeCompare(b.productName)
+    );
+    return ok(suggestions);
+  });
+};
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { ok, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { toSummary } from './orders';
+import type { SearchResults } from '../../types/search';
+
+const byNewest = (a: { createdAt: string }, b: { createdAt: string }) => b.createdAt.localeCompare(a.createdAt);
+
+export const registerSearchRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/search', (req) => {
+    requireAuth(req);
+    const q = (req.query.q || '').trim().toLowerCase();
+    const limit = Math.max(1, Number(req.query.limit) || 5);
+    if (!q) return ok<SearchResults>({ orders: [], products: [], issues: [], suggestions: [] });
+
+    // Ids match on prefix so "10" finds #1001..#1099; text fields match anywhere
+    const idMatches = (id: number) => String(id).startsWith(q);
+    const contains = (value: string | null) => !!value && value.toLowerCase().includes(q);
+
+    return ok<SearchResults>({
+      orders: db.orders
+        .filter(o => idMatches(o.id) || contains(o.customerPhone) || contains(o.receiptNumber) || contains(o.customerName))
+        .sort(byNewest)
+        .slice(0, limit)
+        .map(toSummary),
+      products: db.products
+        .filter(p => contains(p.name) || contains(p.category))
+        .slice(0, limit),
+      issues: db.issues
+        .filter(i => idMatches(i.id) || idMatches(i.orderId) || contains(i.customerPhone))
+        .sort(byNewest)
+        .slice(0, limit),
+      suggestions: db.suggestions
+        .filter(s => contains(s.userPhone))
+        .sort(byNewest)
+        .slice(0, limit),
+    });
+  });
+};
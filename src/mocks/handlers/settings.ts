@@ -0,0 +1,32 @@
+import { db, persist } from '../db';
+import { MockHttpError, ok, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { storeSettingsProblem } from '../../utils/format';
+import type { StoreSettings, StoreSettingsDTO } from '../../types/settings';
+
+const CURRENCY_DISPLAYS: StoreSettings['currencyDisplay'][] = ['symbol', 'narrowSymbol', 'code'];
+
+export const registerSettingsRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/settings/store', (req) => {
+    requireAuth(req);
+    return ok(db.settings);
+  });
+
+  router.on('PATCH', '/admin/settings/store', (req) => {
+    requireAuth(req);
+    const body = (req.body || {}) as StoreSettingsDTO;
+    const next: StoreSettings = {
+      ...db.settings,
+      ...body,
+      currency: (body.currency ?? db.settings.currency).trim().toUpperCase(),
+      locale: (body.locale ?? db.settings.locale).trim(),
+      timeZone: (body.timeZone ?? db.settings.timeZone).trim(),
+    };
+    if (!CURRENCY_DISPLAYS.includes(next.currencyDisplay)) throw new MockHttpError(400, 'Invalid currency display');
+    const problem = storeSettingsProblem(next);
+    if (problem) throw new MockHttpError(400, problem);
+    db.settings = next;
+    persist();
+    return ok(db.settings, 'Store settings updated');
+  });
+};
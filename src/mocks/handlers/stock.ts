@@ -0,0 +1,72 @@
+import { format, parseISO } from 'date-fns';
+import { db, persist } from '../db';
+import { MockHttpError, ok, paginate, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { publish } from '../events';
+import { findProduct, findVariant, recordStockMovement } from './products';
+import { STOCK_REASONS } from '../../utils/inventory-constants';
+import { categoryBranch } from '../../utils/categories';
+import type { StockAdjustmentDTO, StockMovement, StockMovementReason, StockMovementSummary } from '../../types/stock';
+
+const byNewest = (a: StockMovement, b: StockMovement) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id;
+
+// Report filters; dates are compared as local calendar days like the pickers send them
+const filterMovements = (query: Record<string, string>) => {
+  const { from, to, category, reason } = query;
+  const categories = category ? categoryBranch(db.categories, category) : null;
+  return db.stockMovements.filter(m => {
+    const day = format(parseISO(m.createdAt), 'yyyy-MM-dd');
+    return (!from || day >= from)
+      && (!to || day <= to)
+      && (!categories || categories.has(m.category))
+      && (!reason || m.reason === reason);
+  });
+};
+
+export const registerStockRoutes = (router: MockRouter) => {
+  router.on('POST', '/admin/products/:id/stock-movements', (req) => {
+    const { sub } = requireAuth(req);
+    const product = findProduct(req.params.id);
+    const { variantId, quantity, reason, note } = (req.body || {}) as StockAdjustmentDTO;
+    const variant = findVariant(product, variantId);
+
+    const rule = STOCK_REASONS.find(r => r.value === reason);
+    if (!rule || !rule.manual) throw new MockHttpError(400, `Invalid adjustment reason: ${reason}`);
+    if (!Number.isInteger(quantity) || quantity === 0) throw new MockHttpError(400, 'Quantity must be a non-zero whole number');
+    if (rule.direction !== 0 && Math.sign(quantity) !== rule.direction) {
+      throw new MockHttpError(400, `${rule.label} must ${rule.direction > 0 ? 'add' : 'remove'} stock`);
+    }
+    if (variant.stock + quantity < 0) {
+      throw new MockHttpError(400, `Only ${variant.stock} of ${variant.unit} in stock; cannot remove ${-quantity}`);
+    }
+
+    const movement = recordStockMovement(product, variant, quantity, reason, note?.trim() || null, sub);
+    persist();
+    publish({ type: 'product.updated', product: { ...product } });
+    return ok(movement, 'Stock adjusted', 201);
+  });
+
+  router.on('GET', '/admin/products/:id/stock-movements', (req) => {
+    requireAuth(req);
+    const product = findProduct(req.params.id);
+    const rows = db.stockMovements.filter(m => m.productId === product.id).sort(byNewest);
+    return ok(paginate(rows, req.query));
+  });
+
+  router.on('GET', '/admin/stock-movements/summary', (req) => {
+    requireAuth(req);
+    const totals = new Map<StockMovementReason, StockMovementSummary>();
+    filterMovements(req.query).forEach(m => {
+      const row = totals.get(m.reason) ?? { reason: m.reason, count: 0, quantity: 0 };
+      row.count += 1;
+      row.quantity += m.quantity;
+      totals.set(m.reason, row);
+    });
+    return ok([...totals.values()]);
+  });
+
+  router.on('GET', '/admin/stock-movements', (req) => {
+    requireAuth(req);
+    return ok(paginate(filterMovements(req.query).sort(byNewest), req.query));
+  });
+};
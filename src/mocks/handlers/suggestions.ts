@@ -0,0 +1,14 @@
+import { db } from '../db';
+import { ok, paginate, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+
+export const registerSuggestionRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/suggestions', (req) => {
+    requireAuth(req);
+    const { phone } = req.query;
+    const rows = db.suggestions
+      .filter(s => !phone || s.userPhone.includes(phone))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return ok(paginate(rows, req.query));
+  });
+};
@@ -0,0 +1,122 @@
+import { db, nextId, nowIso, persist, type MockSupplier, type MockSupplierProduct } from '../db';
+import { MockHttpError, ok, parseId, type MockRouter } from '../router';
+import { requireAuth } from '../token';
+import { findProduct } from './products';
+import type { Supplier, SupplierDTO, SupplierProduct, SupplierProductDTO } from '../../types/suppliers';
+
+const OPEN_ORDER_STATUSES = ['DRAFT', 'SENT', 'PARTIALLY_RECEIVED'];
+
+export const findSupplier = (rawId: string | number) => {
+  const supplier = db.suppliers.find(s => s.id === parseId(String(rawId)));
+  if (!supplier) throw new MockHttpError(404, `Supplier ${rawId} not found`);
+  return supplier;
+};
+
+const toSupplier = (supplier: MockSupplier): Supplier => ({
+  ...supplier,
+  productCount: db.supplierProducts.filter(l => l.supplierId === supplier.id).length,
+});
+
+export const toSupplierProduct = (link: MockSupplierProduct): SupplierProduct => {
+  const product = db.products.find(p => p.id === link.productId);
+  return {
+    ...link,
+    supplierName: db.suppliers.find(s => s.id === link.supplierId)?.name ?? 'Unknown supplier',
+    productName: product?.name ?? `Product #${link.productId}`,
+    unit: product?.unit ?? '',
+  };
+};
+
+// Blank optional fields are stored as null
+const cleanSupplier = (dto: SupplierDTO) => {
+  if (!dto?.name?.trim()) throw new MockHttpError(400, 'Supplier name is required');
+  const optional = (value?: string) => value?.trim() || null;
+  return {
+    name: dto.name.trim(),
+    contactName: optional(dto.contactName),
+    phone: optional(dto.phone),
+    email: optional(dto.email),
+    address: optional(dto.address),
+    notes: optional(dto.notes),
+  };
+};
+
+export const registerSupplierRoutes = (router: MockRouter) => {
+  router.on('GET', '/admin/suppliers', (req) => {
+    requireAuth(req);
+    return ok([...db.suppliers].sort((a, b) => a.name.localeCompare(b.name)).map(toSupplier));
+  });
+
+  router.on('POST', '/admin/suppliers', (req) => {
+    requireAuth(req);
+    const fields = cleanSupplier(req.body as SupplierDTO);
+    if (db.suppliers.some(s => s.name.toLowerCase() === fields.name.toLowerCase())) {
+      throw new MockHttpError(400, `A supplier named "${fields.name}" already exists`);
+    }
+    const supplier: MockSupplier = { ...fields, id: nextId(db.suppliers), createdAt: nowIso() };
+    db.suppliers.push(supplier);
+    persist();
+    return ok(toSupplier(supplier), 'Supplier created', 201);
+  });
+
+  router.on('PATCH', '/admin/suppliers/:id', (req) => {
+    requireAuth(req);
+    const supplier = findSupplier(req.params.id);
+    Object.assign(supplier, cleanSupplier(req.body as SupplierDTO));
+    persist();
+    return ok(toSupplier(supplier), 'Supplier updated');
+  });
+
+  router.on('DELETE', '/admin/suppliers/:id', (req) => {
+    requireAuth(req);
+    const supplier = findSupplier(req.params.id);
+    if (db.purchaseOrders.some(o => o.supplierId === supplier.id && OPEN_ORDER_STATUSES.includes(o.status))) {
+      throw new MockHttpError(400, 'Close or cancel this supplier\'s open purchase orders first');
+    }
+    db.suppliers = db.suppliers.filter(s => s.id !== supplier.id);
+    db.supplierProducts = db.supplierProducts.filter(l => l.supplierId !== supplier.id);
+    persist();
+    return ok(null, 'Supplier deleted');
+  });
+
+  router.on('GET', '/admin/suppliers/:id/products', (req) => {
+    requireAuth(req);
+    const supplier = findSupplier(req.params.id);
+    const links = db.supplierProducts.filter(l => l.supplierId === supplier.id).map(toSupplierProduct);
+    return ok(links.sort((a, b) => a.productName.localeCompare(b.productName)));
+  });
+
+  router.on('POST', '/admin/suppliers/:id/products', (req) => {
+    requireAuth(req);
+    const supplier = findSupplier(req.params.id);
+    const { productId, costPrice, supplierSku } = (req.body || {}) as SupplierProductDTO;
+    const product = findProduct(String(productId));
+    if (!Number.isFinite(costPrice) || costPrice < 0) throw new MockHttpError(400, 'Cost price cannot be negative');
+
+    let link = db.supplierProducts.find(l => l.supplierId === supplier.id && l.productId === product.id);
+    if (link) {
+      Object.assign(link, { costPrice, supplierSku: supplierSku?.trim() || null });
+    } else {
+      link = { id: nextId(db.supplierProducts), supplierId: supplier.id, productId: product.id, costPrice, supplierSku: supplierSku?.trim() || null };
+      db.supplierProducts.push(link);
+    }
+    persist();
+    return ok(toSupplierProduct(link), 'Product linked');
+  });
+
+  router.on('DELETE', '/admin/suppliers/:id/products/:productId', (req) => {
+    requireAuth(req);
+    const supplier = findSupplier(req.params.id);
+    const productId = parseId(req.params.productId);
+    db.supplierProducts = db.supplierProducts.filter(l => !(l.supplierId === supplier.id && l.productId === productId));
+    persist();
+    return ok(null, 'Product unlinked');
+  });
+
+  router.on('GET', '/admin/products/:id/suppliers', (req) => {
+    requireAuth(req);
+    const product = findProduct(req.params.id);
+    const links = db.supplierProducts.filter(l => l.productId === product.id).map(toSupplierProduct);
+    return ok(links.sort((a, b) => a.costPrice - b.costPrice));
+  });
+};
@@ -0,0 +1,16 @@
+import type { AxiosInstance } from 'axios';
+import { mockAdapter } from './adapter';
+import { resetDatabase } from './db';
+import { mockRealtimeTransport } from './realtime';
+import { setRealtimeTransport } from '../realtime/transport';
+
+// Routes every request of the given axios instance (and the live event stream)
+// to the in-browser mock backend.
+// Enabled from main.tsx when VITE_USE_MOCK_API=true.
+export const enableMockApi = (instance: AxiosInstance) => {
+  instance.defaults.adapter = mockAdapter;
+  setRealtimeTransport(mockRealtimeTransport);
+  // Handy from the devtools console when a session's data gets messy
+  Object.assign(window, { resetMockApi: resetDatabase });
+  console.info('[mock-api] Enabled. Sign in with 9999999999 / admin123 (…991 manager, …992 support, …993 dispatcher). Call resetMockApi() to reseed.');
+};
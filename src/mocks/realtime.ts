@@ -0,0 +1,123 @@
+import { format } from 'date-fns';
+import { db, nextId, nowIso, persist, type MockOrder } from './db';
+import { publish, subscribe } from './events';
+import { recordTimeline, toSummary } from './handlers/orders';
+import { recordStockMovement } from './handlers/products';
+import type { RealtimeTransport } from '../realtime/transport';
+import type { Issue, IssueSeverity } from '../types/support';
+
+// How often the stand-in server invents activity while someone is connected
+const ACTIVITY_INTERVAL_MS = 30 * 1000;
+
+const pick = <T,>(items: readonly T[]) => items[Math.floor(Math.random() * items.length)];
+const randomPhone = () => `98${Math.floor(10000000 + Math.random() * 89999999)}`;
+
+const simulateNewOrder = () => {
+  const products = db.products.filter(p => p.active && p.stock > 0);
+  if (products.length === 0) return;
+  const items = Array.from(new Set(Array.from({ length: 1 + Math.floor(Math.random() * 3) }, () => pick(products))))
+    .map(p => {
+      const variant = pick(p.variants.filter(v => v.stock > 0));
+      const quantity = 1 + Math.floor(Math.random() * 3);
+      return {
+        productId: p.id,
+        productName: p.name,
+        variantId: variant.id,
+        unit: variant.unit,
+        quantity,
+        price: variant.price,
+        total: variant.price * quantity,
+      };
+    });
+  const id = nextId(db.orders);
+  const phone = randomPhone();
+  const order: MockOrder = {
+    id,
+    customerName: null,
+    phone,
+    customerPhone: phone,
+    address: `${1 + Math.floor(Math.random() * 200)}, MG Road, Bengaluru`,
+    totalAmount: items.reduce((sum, item) => sum + item.total, 0),
+    status: 'ORDER_PLACED',
+    deliveryPhone: null,
+    assignedAt: null,
+    packedAt: null,
+    createdAt: nowIso(),
+    receiptNumber: `RCPT-${id}`,
+    receiptGeneratedAt: nowIso(),
+    cancellationReason: null,
+    cancellationNote: null,
+    refundedAmount: 0,
+    lastTransition: null,
+    items,
+  };
+  db.orders.push(order);
+  recordTimeline(order, 'ORDER_PLACED');
+
+  // Orders draw down stock, so low-stock items eventually sell out
+  const touched = items.map(item => {
+    const product = products.find(p => p.id === item.productId)!;
+    const variant = product.variants.find(v => v.id === item.variantId)!;
+    recordStockMovement(product, variant, -Math.min(variant.stock, item.quantity), 'SALE', `Order #${id}`, null);
+    return product;
+  });
+  persist();
+  publish({ type: 'order.created', order: toSummary(order) });
+  touched.forEach(product => publish({ type: 'product.updated', product: { ...product } }));
+};
+
+const simulateNewIssue = () => {
+  const order = pick(db.orders);
+  const severity: IssueSeverity = pick(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW']);
+  const issue: Issue = {
+    id: nextId(db.issues),
+    orderId: order.id,
+    customerPhone: order.customerPhone || randomPhone(),
+    issueType: pick(['NOT_RECEIVED', 'DAMAGED_ITEM', 'WRONG_ITEM']),
+    severity,
+    status: 'OPEN',
+    description: 'Reported just now from the customer app.',
+    createdAt: nowIso(),
+    resolvedAt: null,
+    acknowledgedAt: null,
+    resolvedBy: null,
+    adminNote: null,
+  };
+  db.issues.push(issue);
+  persist();
+  publish({ type: 'issue.created', issue });
+};
+
+const simulateNewSuggestion = () => {
+  const suggestion = {
+    id: nextId(db.suggestions),
+    userPhone: randomPhone(),
+    message: 'Loving the quick deliveries lately!',
+    status: 'OPEN' as const,
+    createdDate: format(new Date(), 'yyyy-MM-dd'),
+    createdAt: nowIso(),
+  };
+  db.suggestions.push(suggestion);
+  persist();
+  publish({ type: 'suggestion.created', suggestion });
+};
+
+const simulateActivity = () => {
+  const roll = Math.random();
+  if (roll < 0.6) simulateNewOrder();
+  else if (roll < 0.85) simulateNewIssue();
+  else simulateNewSuggestion();
+};
+
+// Stand-in for the SSE stream: relays mock mutations and invents new activity
+export const mockRealtimeTransport: RealtimeTransport = ({ onOpen, onEvent }) => {
+  const openTimer = setTimeout(onOpen, 300);
+  const unsubscribe = subscribe(onEvent);
+  const activityTimer = setInterval(simulateActivity, ACTIVITY_INTERVAL_MS);
+
+  return () => {
+    clearTimeout(openTimer);
+    clearInterval(activityTimer);
+    unsubscribe();
+  };
+};
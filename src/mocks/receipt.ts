@@ -0,0 +1,54 @@
+import { db, type MockOrder } from './db';
+import { createFormatters } from '../utils/format';
+import { refundMethodLabel } from '../utils/refunds';
+
+// Builds the PDF by hand so receipt downloads work offline, one page per order.
+// Only Helvetica text is used, which keeps the object layout trivial. Its
+// encoding lacks most currency symbols, so amounts carry the ISO code instead.
+export const buildReceiptPdf = (orders: MockOrder[]): Blob => {
+  const { money, dateTime } = createFormatters({ ...db.settings, currencyDisplay: 'code' });
+  // Some locales group digits with narrow no-break spaces
+  const escape = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ').replace(/[\\()]/g, c => `\\${c}`);
+  const receiptLines = (order: MockOrder) => [
+    `FreshCart Receipt ${order.receiptNumber || ''}`,
+    `Order #${order.id} - ${dateTime(order.createdAt)}`,
+    `Customer: ${order.customerName || 'Guest'} (${order.customerPhone || 'N/A'})`,
+    `Address: ${order.address}`,
+    '',
+    ...order.items.map(i => `${i.productName}${i.unit ? ` (${i.unit})` : ''}  x${i.quantity}  @ ${money(i.price)}  = ${money(i.total)}`),
+    '',
+    `Total: ${money(order.totalAmount)}`,
+    ...db.refunds
+      .filter(r => r.orderId === order.id && r.status === 'APPROVED')
+      .map(r => `Refunded ${dateTime(r.decidedAt!)}: -${money(r.amount)} (${refundMethodLabel(r.method)})`),
+  ];
+  const stream = (lines: string[]) => ['BT', '/F1 11 Tf', '50 780 Td', '16 TL', ...lines.map(l => `(${escape(l)}) Tj T*`), 'ET'].join('\n');
+
+  // Objects 1-3 are shared; each order adds a page (4 + 2i) and its contents (5 + 2i)
+  const pageIds = orders.map((_, i) => 4 + 2 * i);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${orders.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...orders.flatMap((order, i) => {
+      const contents = stream(receiptLines(order));
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents ${pageIds[i] + 1} 0 R /Resources << /Font << /F1 3 0 R >> >> >>`,
+        `<< /Length ${contents.length} >>\nstream\n${contents}\nendstream`,
+      ];
+    }),
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+};
@@ -0,0 +1,96 @@
+import type { ApiResponse, Page } from '../types/api';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+export interface MockRequest {
+  params: Record<string, string>; // Path params, e.g. :id
+  query: Record<string, string>;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+export interface MockResult {
+  status?: number;
+  data: unknown;
+}
+
+export type MockHandler = (req: MockRequest) => MockResult;
+
+// Thrown from handlers to produce a non-2xx response
+export class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+  }
+}
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+}
+
+export interface MockRouter {
+  on: (method: HttpMethod, path: string, handler: MockHandler) => void;
+  match: (method: string, url: string) => { handler: MockHandler; params: Record<string, string> } | null;
+}
+
+export const createRouter = (): MockRouter => {
+  const routes: Route[] = [];
+
+  return {
+    on: (method, path, handler) => {
+      const keys: string[] = [];
+      const source = path.replace(/:(\w+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+      });
+      routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+    },
+
+    match: (method, url) => {
+      for (const route of routes) {
+        if (route.method !== method.toUpperCase()) continue;
+        const result = route.pattern.exec(url);
+        if (!result) continue;
+        const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(result[i + 1])]));
+        return { handler: route.handler, params };
+      }
+      return null;
+    },
+  };
+};
+
+// --- Response helpers shared by the handlers ---
+
+export const ok = <T>(data: T, message = 'Success', status = 200): MockResult => ({
+  status,
+  data: { success: true, message, data } satisfies ApiResponse<T>,
+});
+
+export const paginate = <T>(items: T[], query: Record<string, string>): Page<T> => {
+  const size = Math.max(1, Number(query.size) || 10);
+  const number = Math.max(0, Number(query.page) || 0);
+  const totalPages = Math.ceil(items.length / size);
+  const content = items.slice(number * size, number * size + size);
+  return {
+    content,
+    totalPages,
+    totalElements: items.length,
+    size,
+    number,
+    first: number === 0,
+    last: number >= totalPages - 1,
+    empty: content.length === 0,
+  };
+};
+
+export const parseId = (raw: string) => {
+  const id = Number(raw);
+  if (!Number.isInteger(id)) throw new MockHttpError(400, `Invalid id: ${raw}`);
+  return id;
+};
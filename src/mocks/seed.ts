@@ -0,0 +1,434 @@
+import { format, subDays, subMinutes, addMinutes } from 'date-fns';
+import { gtinCheckDigit } from '../utils/barcodes';
+import { createFormatters, DEFAULT_STORE_SETTINGS } from '../utils/format';
+import { CANCELLATION_REASONS } from '../utils/orderStateMachine';
+import type { CategoryReorderDefault, Product, ProductVariant } from '../types/inventory';
+import type { OrderStatus, TimelineEvent } from '../types/orders';
+import type { Issue, IssueSeverity, IssueStatus, IssueType } from '../types/support';
+import type { FeedbackStatus, Suggestion } from '../types/feedback';
+import type { StockMovement } from '../types/stock';
+import type { PurchaseOrder } from '../types/suppliers';
+import type { Refund, RefundReason } from '../types/refunds';
+import type { MockCategory, MockDatabase, MockOrder, MockOrderItem, MockSupplier, MockSupplierProduct } from './db';
+
+// Small deterministic PRNG so every fresh session starts from the same data
+const createRandom = (seed: number) => {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min,
+    pick: <T,>(items: readonly T[]) => items[Math.floor(next() * items.length)],
+  };
+};
+
+const CATALOG: { category: string; items: [name: string, unit: string, price: number][] }[] = [
+  { category: 'Produce', items: [['Organic Bananas', '1kg', 60], ['Red Apples', '1kg', 180], ['Tomatoes', '500g', 30], ['Onions', '1kg', 40], ['Baby Spinach', '250g', 45], ['Carrots', '500g', 35]] },
+  { category: 'Dairy', items: [['Full Cream Milk', '1L', 68], ['Greek Yogurt', '400g', 95], ['Paneer', '200g', 90], ['Salted Butter', '100g', 56], ['Cheddar Slices', '200g', 140]] },
+  { category: 'Bakery', items: [['Whole Wheat Bread', '400g', 45], ['Butter Croissant', '2pcs', 80], ['Multigrain Buns', '6pcs', 60], ['Rusk', '300g', 55]] },
+  { category: 'Meat', items: [['Chicken Breast', '500g', 240], ['Mutton Curry Cut', '500g', 420], ['Farm Eggs', '12pcs', 96], ['Fish Fillet', '500g', 310]] },
+  { category: 'Beverages', items: [['Orange Juice', '1L', 120], ['Green Tea', '25pcs', 150], ['Filter Coffee', '200g', 210], ['Coconut Water', '1L', 90], ['Sparkling Water', '750ml', 70]] },
+  { category: 'Snacks', items: [['Salted Peanuts', '200g', 50], ['Potato Chips', '150g', 40], ['Dark Chocolate', '100g', 120], ['Roasted Makhana', '100g', 110]] },
+  { category: 'Pantry', items: [['Basmati Rice', '5kg', 650], ['Toor Dal', '1kg', 160], ['Sunflower Oil', '1L', 155], ['Atta', '5kg', 280], ['Rock Salt', '1kg', 30], ['Saffron', '1g', 350]] },
+];
+
+// Icons of the top-level categories above (keys of CATEGORY_ICONS)
+const CATEGORY_ICONS: Record<string, string> = {
+  Produce: 'carrot', Dairy: 'milk', Bakery: 'croissant', Meat: 'beef', Beverages: 'cup-soda', Snacks: 'cookie', Pantry: 'shopping-basket',
+};
+
+// Subcategories and the catalog products filed under them
+const SUBCATEGORIES: { name: string; parent: string; icon: string; active: boolean; products: string[] }[] = [
+  { name: 'Paneer & Cheese', parent: 'Dairy', icon: 'milk', active: true, products: ['Paneer', 'Cheddar Slices'] },
+  { name: 'Tea & Coffee', parent: 'Beverages', icon: 'coffee', active: true, products: ['Green Tea', 'Filter Coffee'] },
+  { name: 'Rice & Flour', parent: 'Pantry', icon: 'wheat', active: true, products: ['Basmati Rice', 'Atta'] },
+  { name: 'Frozen Desserts', parent: 'Snacks', icon: 'ice-cream-cone', active: false, products: [] },
+];
+
+const STREETS = ['MG Road', 'Park Street', 'Lake View Colony', 'Sector 21', 'Station Road', 'Civil Lines', 'Green Park'];
+const CITIES = ['Bengaluru', 'Pune', 'Hyderabad', 'Jaipur', 'Kochi'];
+const NAMES = ['Aarav Sharma', 'Diya Patel', 'Kabir Singh', 'Meera Iyer', 'Rohan Gupta', 'Ananya Rao', 'Vikram Nair', 'Isha Verma', 'Arjun Menon', 'Sara Khan'];
+const RIDERS = ['9876500001', '9876500002', '9876500003'];
+
+const ISSUE_TYPES: IssueType[] = ['NOT_RECEIVED', 'DAMAGED_ITEM', 'WRONG_ITEM', 'REFUND_REQUEST', 'OTHER'];
+const SEVERITIES: IssueSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+const ISSUE_STATUSES: IssueStatus[] = ['OPEN', 'OPEN', 'IN_PROGRESS', 'RESOLVED'];
+const ISSUE_TEXT: Record<IssueType, string> = {
+  NOT_RECEIVED: 'Order shows delivered but nothing arrived at my door.',
+  DAMAGED_ITEM: 'The eggs were cracked and the milk packet was leaking.',
+  WRONG_ITEM: 'Received brown bread instead of whole wheat.',
+  REFUND_REQUEST: 'Please refund the amount for the missing items.',
+  OTHER: 'Delivery person could not find the address, please call before coming.',
+};
+
+const FEEDBACK = [
+  'Please add more organic vegetables.',
+  'Delivery was super quick, thank you!',
+  'Can you stock lactose-free milk?',
+  'The app keeps logging me out.',
+  'Would love an evening delivery slot.',
+  'Packaging could use less plastic.',
+];
+const FEEDBACK_STATUSES: FeedbackStatus[] = ['OPEN', 'IN_REVIEW', 'RESOLVED', 'CLOSED'];
+
+// Extra pack sizes sold alongside the catalog size, which stays the default
+const EXTRA_SIZES: Record<string, [unit: string, price: number][]> = {
+  'Full Cream Milk': [['500ml', 36]],
+  'Farm Eggs': [['6pcs', 50], ['30pcs', 230]],
+  'Basmati Rice': [['1kg', 140]],
+  Atta: [['10kg', 540]],
+  'Sunflower Oil': [['5L', 740]],
+  'Coconut Water': [['200ml', 25]],
+};
+
+const REORDER_DEFAULTS: Record<string, Pick<CategoryReorderDefault, 'reorderPoint' | 'reorderQuantity'>> = {
+  Produce: { reorderPoint: 15, reorderQuantity: 40 },
+  Dairy: { reorderPoint: 12, reorderQuantity: 30 },
+  Bakery: { reorderPoint: 8, reorderQuantity: 20 },
+  Meat: { reorderPoint: 6, reorderQuantity: 15 },
+  Beverages: { reorderPoint: 10, reorderQuantity: 24 },
+  Snacks: { reorderPoint: 10, reorderQuantity: 30 },
+  Pantry: { reorderPoint: 8, reorderQuantity: 20 },
+  'Paneer & Cheese': { reorderPoint: 8, reorderQuantity: 20 },
+  'Tea & Coffee': { reorderPoint: 6, reorderQuantity: 15 },
+  'Rice & Flour': { reorderPoint: 6, reorderQuantity: 15 },
+};
+
+const REORDER_OVERRIDES: Record<string, Pick<Product, 'reorderPoint' | 'reorderQuantity'>> = {
+  'Full Cream Milk': { reorderPoint: 30, reorderQuantity: 60 },
+  'Farm Eggs': { reorderPoint: 20, reorderQuantity: 48 },
+  'Whole Wheat Bread': { reorderPoint: 15, reorderQuantity: 30 },
+  Saffron: { reorderPoint: 2, reorderQuantity: 5 },
+};
+
+const SUPPLIERS: (Omit<MockSupplier, 'id' | 'createdAt'> & { categories: string[] })[] = [
+  { name: 'Green Valley Farms', contactName: 'Ramesh Kumar', phone: '9845012345', email: 'orders@greenvalley.example', address: 'Hoskote, Bengaluru Rural', notes: 'Delivers Mon/Wed/Fri before 8am', categories: ['Produce', 'Dairy'] },
+  { name: 'Daily Bake Co.', contactName: 'Anita Fernandes', phone: '9845023456', email: 'supply@dailybake.example', address: 'Indiranagar, Bengaluru', notes: null, categories: ['Bakery'] },
+  { name: 'Coastal Meats & Seafood', contactName: 'Imran Shaikh', phone: '9845034567', email: null, address: 'Russell Market, Bengaluru', notes: 'Cold chain; receive within 30 minutes', categories: ['Meat'] },
+  { name: 'Spice Route Traders', contactName: 'Lakshmi Iyer', phone: '9845045678', email: 'sales@spiceroute.example', address: 'APMC Yard, Yeshwanthpur', notes: null, categories: ['Pantry', 'Beverages', 'Snacks'] },
+  { name: 'Metro Wholesale', contactName: null, phone: '18004253030', email: 'b2b@metro.example', address: 'Yeshwanthpur, Bengaluru', notes: 'Backup for everything; pricier', categories: [] },
+];
+
+// Specialists sell at ~62% of shelf price, the generalist wholesaler at ~72%
+const SPECIALIST_COST = 0.62;
+const WHOLESALE_COST = 0.72;
+
+// Loose produce is weighed at the counter; everything else carries an EAN-13
+const ean13 = (variantId: number) => {
+  const body = `8901234${String(variantId).padStart(5, '0')}`;
+  return body + gtinCheckDigit(body);
+};
+
+// Statuses an order passes through, in order, up to its final one
+const PROGRESSION: OrderStatus[] = ['ORDER_PLACED', 'PACKED', 'OUT_FOR_DELIVERY', 'DELIVERED'];
+
+export const seedDatabase = (now: Date): MockDatabase => {
+  const random = createRandom(20240601);
+  const phone = () => `98${random.int(10000000, 99999999)}`;
+
+  // --- Categories ---
+  const categories: MockCategory[] = CATALOG.map(({ category }, i) => ({
+    id: i + 1, name: category, parentId: null, position: i, icon: CATEGORY_ICONS[category], active: true,
+  }));
+  SUBCATEGORIES.forEach(({ name, parent, icon, active }) => {
+    const parentId = categories.find(c => c.name === parent)!.id;
+    const position = categories.filter(c => c.parentId === parentId).length;
+    categories.push({ id: categories.length + 1, name, parentId, position, icon, active });
+  });
+  const subcategoryOf = new Map(SUBCATEGORIES.flatMap(sub => sub.products.map(name => [name, sub.name] as const)));
+  const parentOf = new Map(SUBCATEGORIES.map(sub => [sub.name, sub.parent]));
+
+  // --- Products ---
+  const products: Product[] = [];
+  let variantId = 0;
+  CATALOG.forEach(({ category, items }) => {
+    items.forEach(([name, unit, price]) => {
+      const created = subDays(now, random.int(20, 90)).toISOString();
+      const id = products.length + 1;
+      const variants: ProductVariant[] = [[unit, price] as const, ...(EXTRA_SIZES[name] ?? [])].map(([size, sizePrice], i) => ({
+        id: ++variantId,
+        unit: size,
+        price: sizePrice,
+        stock: random.pick([0, 3, 8, 15, 24, 40, 60, 120]),
+        sku: `FC-${String(id).padStart(4, '0')}-${i + 1}`,
+        barcode: category === 'Produce' ? null : ean13(variantId),
+      }));
+      products.push({
+        id,
+        name,
+        category: subcategoryOf.get(name) ?? category,
+        unit,
+        price,
+        stock: variants.reduce((sum, v) => sum + v.stock, 0),
+        description: `${name} (${unit})`,
+        imageUrl: null,
+        images: [],
+        active: true,
+        reorderPoint: null,
+        reorderQuantity: null,
+        variants,
+        createdAt: created,
+        updatedAt: created,
+      });
+    });
+  });
+
+  // --- Orders & Timeline ---
+  const orders: MockOrder[] = [];
+  const timeline: TimelineEvent[] = [];
+
+  for (let id = 1001; id <= 1140; id++) {
+    const createdAt = subMinutes(now, random.int(5, 60 * 24 * 10));
+    const ageHours = (now.getTime() - createdAt.getTime()) / 36e5;
+
+    // Older orders are further along; a few get cancelled
+    const reachable = ageHours > 24 ? 3 : ageHours > 6 ? random.int(1, 3) : ageHours > 1 ? random.int(0, 2) : 0;
+    const cancelled = random.next() < 0.08;
+    const finalIndex = cancelled ? random.int(0, Math.min(1, reachable)) : reachable;
+    const status: OrderStatus = cancelled ? 'CANCELLED' : PROGRESSION[finalIndex];
+
+    const items: MockOrderItem[] = [];
+    const lineCount = random.int(1, 5);
+    for (let i = 0; i < lineCount; i++) {
+      const product = random.pick(products);
+      if (items.some(item => item.productId === product.id)) continue;
+      const variant = random.pick(product.variants);
+      const quantity = random.int(1, 4);
+      items.push({
+        productId: product.id,
+        productName: product.name,
+        variantId: variant.id,
+        unit: variant.unit,
+        quantity,
+        price: variant.price,
+        total: variant.price * quantity,
+      });
+    }
+    const totalAmount = items.reduce((sum, item) => sum + item.total, 0);
+
+    let stepTime = createdAt;
+    PROGRESSION.slice(0, finalIndex + 1).forEach(step => {
+      timeline.push({ id: timeline.length + 1, orderId: id, status: step, kind: 'STATUS_CHANGE', note: null, timestamp: stepTime.toISOString() });
+      stepTime = addMinutes(stepTime, random.int(15, 90));
+    });
+    if (cancelled) {
+      timeline.push({ id: timeline.length + 1, orderId: id, status: 'CANCELLED', kind: 'STATUS_CHANGE', note: null, timestamp: stepTime.toISOString() });
+    }
+
+    const customerPhone = phone();
+    const isAssigned = finalIndex >= 2 && !cancelled;
+    orders.push({
+      id,
+      customerName: random.next() < 0.9 ? random.pick(NAMES) : null,
+      phone: customerPhone,
+      customerPhone,
+      address: `${random.int(1, 240)}, ${random.pick(STREETS)}, ${random.pick(CITIES)}`,
+      totalAmount,
+      status,
+      deliveryPhone: isAssigned ? random.pick(RIDERS) : null,
+      assignedAt: isAssigned ? timeline[timeline.length - 1].timestamp : null,
+      packedAt: timeline.find(e => e.orderId === id && e.status === 'PACKED')?.timestamp ?? null,
+      createdAt: createdAt.toISOString(),
+      receiptNumber: `RCPT-${id}`,
+      receiptGeneratedAt: createdAt.toISOString(),
+      // Seeded cancellations skip OTHER, which needs a note
+      cancellationReason: cancelled ? CANCELLATION_REASONS[id % (CANCELLATION_REASONS.length - 1)].value : null,
+      cancellationNote: null,
+      refundedAmount: 0,
+      lastTransition: null,
+      items,
+    });
+  }
+
+  // --- Issues ---
+  const issues: Issue[] = Array.from({ length: 24 }, (_, i) => {
+    const order = random.pick(orders);
+    const issueType = random.pick(ISSUE_TYPES);
+    const status = random.pick(ISSUE_STATUSES);
+    const createdAt = addMinutes(new Date(order.createdAt), random.int(60, 600));
+    return {
+      id: i + 1,
+      orderId: order.id,
+      customerPhone: order.customerPhone || phone(),
+      issueType,
+      severity: random.pick(SEVERITIES),
+      status,
+      description: ISSUE_TEXT[issueType],
+      createdAt: createdAt.toISOString(),
+      acknowledgedAt: status !== 'OPEN' ? addMinutes(createdAt, 30).toISOString() : null,
+      resolvedAt: status === 'RESOLVED' ? addMinutes(createdAt, 240).toISOString() : null,
+      resolvedBy: status === 'RESOLVED' ? 'admin' : null,
+      adminNote: null,
+    };
+  });
+
+  // --- Refunds ---
+  // Open item complaints on delivered orders come with a refund the support
+  // agent has already asked for, so there's something waiting for approval
+  const REFUND_REASON_FOR: Partial<Record<IssueType, RefundReason>> = {
+    DAMAGED_ITEM: 'DAMAGED_ITEM', WRONG_ITEM: 'WRONG_ITEM', REFUND_REQUEST: 'MISSING_ITEM',
+  };
+  const refunds: Refund[] = [];
+  issues.forEach(issue => {
+    const reason = REFUND_REASON_FOR[issue.issueType as IssueType];
+    const order = orders.find(o => o.id === issue.orderId)!;
+    if (!reason || issue.status === 'RESOLVED' || order.status !== 'DELIVERED') return;
+    const [line] = order.items;
+    const requestedAt = addMinutes(new Date(issue.createdAt), 45).toISOString();
+    refunds.push({
+      id: refunds.length + 1,
+      orderId: order.id,
+      issueId: issue.id,
+      amount: line.price,
+      method: 'UPI',
+      reason,
+      note: null,
+      status: 'PENDING_APPROVAL',
+      items: [{ productId: line.productId, variantId: line.variantId, productName: line.productName, unit: line.unit, quantity: 1, amount: line.price }],
+      requestedBy: '9999999992',
+      requestedAt,
+      decidedBy: null,
+      decidedAt: null,
+      decisionNote: null,
+    });
+    timeline.push({ id: timeline.length + 1, orderId: order.id, status: order.status, kind: 'REFUND', note: `Refund of ${createFormatters(DEFAULT_STORE_SETTINGS).money(line.price)} requested (UPI)`, timestamp: requestedAt });
+  });
+
+  // --- Suggestions ---
+  const suggestions: Suggestion[] = Array.from({ length: 32 }, (_, i) => {
+    const createdAt = subMinutes(now, random.int(30, 60 * 24 * 20));
+    return {
+      id: i + 1,
+      userPhone: phone(),
+      message: random.pick(FEEDBACK),
+      status: random.pick(FEEDBACK_STATUSES),
+      createdDate: format(createdAt, 'yyyy-MM-dd'),
+      createdAt: createdAt.toISOString(),
+    };
+  });
+
+  // --- Stock movements ---
+  // Each size opens with one delivery, then sells through the seeded orders
+  // (and sometimes spoils) down to its current stock, so the ledger balances.
+  const stockMovements: StockMovement[] = [];
+  products.forEach(product => product.variants.forEach(variant => {
+    const entries: Omit<StockMovement, 'id' | 'balanceAfter'>[] = [];
+    const base = {
+      productId: product.id, productName: product.name, category: product.category, variantId: variant.id, unit: variant.unit,
+    };
+    orders
+      .filter(order => order.status !== 'CANCELLED')
+      .forEach(order => order.items
+        .filter(item => item.variantId === variant.id)
+        .forEach(item => entries.push({
+          ...base, quantity: -item.quantity, reason: 'SALE', note: `Order #${order.id}`, createdBy: null, createdAt: order.createdAt,
+        })));
+    if (random.next() < 0.25) {
+      entries.push({
+        ...base, quantity: -random.int(1, 4), reason: 'SPOILAGE', note: 'Past expiry', createdBy: '9999999991',
+        createdAt: subMinutes(now, random.int(60, 60 * 24 * 5)).toISOString(),
+      });
+    }
+    const opening = variant.stock - entries.reduce((sum, entry) => sum + entry.quantity, 0);
+    entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    entries.unshift({ ...base, quantity: opening, reason: 'DELIVERY', note: 'Opening stock', createdBy: null, createdAt: product.createdAt });
+
+    let balance = 0;
+    entries.forEach(entry => {
+      balance += entry.quantity;
+      stockMovements.push({ ...entry, id: 0, balanceAfter: balance });
+    });
+  }));
+  stockMovements
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach((movement, i) => { movement.id = i + 1; });
+
+  // --- Reorder settings ---
+  // Fast movers reorder earlier than their category; the rest inherit it
+  const reorderDefaults: CategoryReorderDefault[] = Object.entries(REORDER_DEFAULTS).map(([category, defaults]) => ({
+    category, ...defaults,
+  }));
+  Object.entries(REORDER_OVERRIDES).forEach(([name, override]) => {
+    Object.assign(products.find(p => p.name === name)!, override);
+  });
+
+  // --- Suppliers & purchase orders ---
+  const suppliers: MockSupplier[] = SUPPLIERS.map(({ name, contactName, phone, email, address, notes }, i) => ({
+    id: i + 1,
+    name, contactName, phone, email, address, notes,
+    createdAt: subDays(now, 120 - i).toISOString(),
+  }));
+  const supplierProducts: MockSupplierProduct[] = [];
+  products.forEach(product => {
+    const topLevel = parentOf.get(product.category) ?? product.category;
+    const specialist = SUPPLIERS.findIndex(s => s.categories.includes(topLevel));
+    const links = [
+      ...(specialist >= 0 ? [{ supplierId: specialist + 1, factor: SPECIALIST_COST }] : []),
+      { supplierId: SUPPLIERS.length, factor: WHOLESALE_COST },
+    ];
+    links.forEach(({ supplierId, factor }) => supplierProducts.push({
+      id: supplierProducts.length + 1,
+      supplierId,
+      productId: product.id,
+      costPrice: Math.round(product.price * factor * 100) / 100,
+      supplierSku: `${suppliers[supplierId - 1].name.slice(0, 3).toUpperCase()}-${String(product.id).padStart(4, '0')}`,
+    }));
+  });
+
+  const purchaseOrderFor = (id: number, supplierId: number, productNames: string[], quantity: number, createdAt: Date): PurchaseOrder => {
+    const lines = productNames.map(name => {
+      const product = products.find(p => p.name === name)!;
+      const link = supplierProducts.find(l => l.supplierId === supplierId && l.productId === product.id)!;
+      const variant = product.variants[0];
+      return { productId: product.id, variantId: variant.id, productName: product.name, unit: variant.unit, quantity, receivedQuantity: 0, costPrice: link.costPrice };
+    });
+    return {
+      id,
+      supplierId,
+      supplierName: suppliers[supplierId - 1].name,
+      status: 'DRAFT',
+      lines,
+      total: lines.reduce((sum, line) => sum + line.quantity * line.costPrice, 0),
+      notes: null,
+      expectedAt: null,
+      createdBy: '9999999991',
+      createdAt: createdAt.toISOString(),
+      sentAt: null,
+      closedAt: null,
+    };
+  };
+  const sentOrder = purchaseOrderFor(1, 1, ['Full Cream Milk', 'Paneer', 'Tomatoes'], 30, subDays(now, 1));
+  Object.assign(sentOrder, {
+    status: 'SENT',
+    sentAt: addMinutes(subDays(now, 1), 20).toISOString(),
+    expectedAt: format(addMinutes(now, 60 * 24), 'yyyy-MM-dd'),
+  });
+  const purchaseOrders = [sentOrder, purchaseOrderFor(2, 4, ['Basmati Rice', 'Toor Dal'], 10, subMinutes(now, 90))];
+
+  return {
+    users: [
+      { phone: '9999999999', password: 'admin123', role: 'ADMIN' },
+      { phone: '9999999991', password: 'admin123', role: 'STORE_MANAGER' },
+      { phone: '9999999992', password: 'admin123', role: 'SUPPORT_AGENT' },
+      { phone: '9999999993', password: 'admin123', role: 'DISPATCHER' },
+    ],
+    categories,
+    products,
+    orders,
+    timeline,
+    issues,
+    suggestions,
+    stockMovements,
+    reorderDefaults,
+    suppliers,
+    supplierProducts,
+    purchaseOrders,
+    refunds,
+    settings: { ...DEFAULT_STORE_SETTINGS },
+  };
+};
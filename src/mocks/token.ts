@@ -0,0 +1,54 @@
+import { MockHttpError, type MockRequest } from './router';
+
+// Unsigned JWT-shaped tokens so the app can decode `exp` and `role`
+// exactly like it would with the real backend.
+const TOKEN_TTL_SECONDS = 60 * 60;
+const REFRESH_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+export interface MockTokenPayload {
+  sub: string;
+  role: string;
+  exp: number; // Seconds since epoch
+  typ?: 'refresh';
+}
+
+const sign = (payload: MockTokenPayload) =>
+  `${base64Url({ alg: 'none', typ: 'JWT' })}.${base64Url(payload)}.mock`;
+
+const expiresIn = (seconds: number) => Math.floor(Date.now() / 1000) + seconds;
+
+export const issueToken = (phone: string, role: string) =>
+  sign({ sub: phone, role, exp: expiresIn(TOKEN_TTL_SECONDS) });
+
+export const issueRefreshToken = (phone: string, role: string) =>
+  sign({ sub: phone, role, exp: expiresIn(REFRESH_TTL_SECONDS), typ: 'refresh' });
+
+const decode = (token: string): MockTokenPayload | null => {
+  try {
+    const [, payload] = token.split('.');
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))) as MockTokenPayload;
+  } catch {
+    return null;
+  }
+};
+
+// Mirrors the backend: every /admin route needs a valid, unexpired bearer token
+export const requireAuth = (req: MockRequest): MockTokenPayload => {
+  const header = req.headers.authorization || req.headers.Authorization || '';
+  const payload = decode(header.replace(/^Bearer\s+/i, ''));
+  if (!payload || payload.typ === 'refresh' || payload.exp * 1000 < Date.now()) {
+    throw new MockHttpError(401, 'Session expired. Please log in again.');
+  }
+  return payload;
+};
+
+export const verifyRefreshToken = (token: string): MockTokenPayload => {
+  const payload = decode(token);
+  if (!payload || payload.typ !== 'refresh' || payload.exp * 1000 < Date.now()) {
+    throw new MockHttpError(401, 'Refresh token is invalid or expired');
+  }
+  return payload;
+};
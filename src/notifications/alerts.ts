@@ -0,0 +1,41 @@
+import type { AppNotification } from '../types/notifications';
+
+export const desktopNotificationsSupported = () => typeof Notification !== 'undefined';
+
+export const requestDesktopPermission = async () => {
+  if (!desktopNotificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showDesktopNotification = (notification: Pick<AppNotification, 'id' | 'title' | 'message'>, onClick: () => void) => {
+  if (!desktopNotificationsSupported() || Notification.permission !== 'granted') return;
+  const desktop = new Notification(notification.title, { body: notification.message, tag: notification.id });
+  desktop.onclick = () => {
+    window.focus();
+    onClick();
+    desktop.close();
+  };
+};
+
+// Short two-tone chime generated with Web Audio, so no sound asset is needed
+export const playAlertSound = () => {
+  try {
+    const context = new AudioContext();
+    [880, 660].forEach((frequency, i) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + i * 0.18;
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.16);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.16);
+    });
+    setTimeout(() => context.close(), 600);
+  } catch {
+    // Autoplay policies can block audio until the user interacts with the page
+  }
+};
@@ -0,0 +1,73 @@
+import type { AppNotification } from '../types/notifications';
+import type { Order } from '../types/orders';
+import type { RealtimeEvent } from '../types/realtime';
+import type { Permission } from '../types/auth';
+import { differenceInMinutes, parseISO } from 'date-fns';
+import { getFormatters } from '../utils/format';
+
+type NewNotification = Omit<AppNotification, 'read' | 'createdAt'>;
+
+// An order still PACKED this long after it was packed is flagged as stuck
+export const STUCK_PACKED_AFTER_MINUTES = 45;
+
+// Maps a pushed event to a notification, or null if it isn't noteworthy.
+// `can` keeps roles from being notified about pages they can't open.
+export const notificationForEvent = (
+  event: RealtimeEvent,
+  can: (permission: Permission) => boolean
+): NewNotification | null => {
+  switch (event.type) {
+    case 'order.created':
+      if (!can('orders:view')) return null;
+      return {
+        id: `order-placed-${event.order.id}`,
+        kind: 'ORDER_PLACED',
+        title: `New order #${event.order.id}`,
+        message: `${event.order.customerName || 'Guest'} · ${getFormatters().money(event.order.totalAmount)}`,
+        link: `/orders?order=${event.order.id}`,
+        critical: false,
+      };
+    case 'issue.created': {
+      const { issue } = event;
+      if (!can('support:view') || (issue.severity !== 'CRITICAL' && issue.severity !== 'HIGH')) return null;
+      return {
+        id: `issue-opened-${issue.id}`,
+        kind: 'ISSUE_OPENED',
+        title: `${issue.severity} ticket #${issue.id}`,
+        message: `Order #${issue.orderId}: ${issue.description}`,
+        link: `/support?search=${issue.id}`,
+        critical: true,
+      };
+    }
+    case 'product.updated': {
+      const { product } = event;
+      // Any size running out counts, not just the product as a whole
+      const soldOut = product.variants.filter(v => v.stock === 0);
+      if (!can('inventory:view') || soldOut.length === 0 || !product.active) return null;
+      return {
+        // Keyed by update time so a product that is restocked and runs out again notifies again
+        id: `out-of-stock-${product.id}-${product.updatedAt}`,
+        kind: 'OUT_OF_STOCK',
+        title: soldOut.length === product.variants.length ? `${product.name} is out of stock` : `${product.name} is out of some sizes`,
+        message: `${product.category} · ${soldOut.map(v => v.unit).join(', ')}`,
+        link: `/inventory?edit=${product.id}`,
+        critical: true,
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// Older backends don't send packedAt, so those orders fall back to when they were placed
+export const isStuckPacked = (order: Order, now: Date) =>
+  order.status === 'PACKED' && differenceInMinutes(now, parseISO(order.packedAt ?? order.createdAt)) >= STUCK_PACKED_AFTER_MINUTES;
+
+export const notificationForStuckOrder = (order: Order): NewNotification => ({
+  id: `order-stuck-${order.id}`,
+  kind: 'ORDER_STUCK',
+  title: `Order #${order.id} waiting for dispatch`,
+  message: `Packed but not out for delivery for over ${STUCK_PACKED_AFTER_MINUTES} minutes`,
+  link: `/orders?order=${order.id}`,
+  critical: false,
+});
@@ -0,0 +1,54 @@
+import type { AppNotification, NotificationPreferences } from '../types/notifications';
+
+const STORAGE_KEY = 'notifications';
+const PREFERENCES_KEY = 'notification-preferences';
+const MAX_ITEMS = 50;
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Module-level store consumed through useSyncExternalStore (see useNotifications)
+let items: AppNotification[] = readJson<AppNotification[]>(STORAGE_KEY, []);
+let preferences: NotificationPreferences = readJson(PREFERENCES_KEY, { desktop: false, sound: false });
+const listeners = new Set<() => void>();
+
+const commit = (next: AppNotification[]) => {
+  items = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  listeners.forEach(listener => listener());
+};
+
+// Returns false when a notification with the same id already exists
+export const addNotification = (notification: Omit<AppNotification, 'read' | 'createdAt'>) => {
+  if (items.some(item => item.id === notification.id)) return false;
+  commit([{ ...notification, read: false, createdAt: new Date().toISOString() }, ...items].slice(0, MAX_ITEMS));
+  return true;
+};
+
+export const markNotificationRead = (id: string) =>
+  commit(items.map(item => (item.id === id ? { ...item, read: true } : item)));
+
+export const markAllNotificationsRead = () =>
+  commit(items.map(item => (item.read ? item : { ...item, read: true })));
+
+export const clearNotifications = () => commit([]);
+
+export const setNotificationPreferences = (next: Partial<NotificationPreferences>) => {
+  preferences = { ...preferences, ...next };
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeNotifications = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getNotifications = () => items;
+export const getNotificationPreferences = () => preferences;
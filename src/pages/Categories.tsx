@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  ArrowLeft, Plus, Loader2, AlertCircle, FolderTree, FolderPlus, Pencil, Merge, Trash2, ChevronUp, ChevronDown
+} from 'lucide-react';
+import { categoriesApi } from '../api/categories';
+import { getErrorMessage } from '../api/errors';
+import type { Category } from '../types/inventory';
+import { categoryIcon } from '../utils/categories';
+import { NO_PERMISSION_HINT } from '../utils/permissions';
+import { StatusBadge } from '../components/StatusBadge';
+import CategoryFormModal from '../components/inventory/CategoryFormModal';
+import RemoveCategoryModal from '../components/inventory/RemoveCategoryModal';
+import { usePermissions } from '../hooks/usePermissions';
+
+type CategoryModal =
+  | { type: 'form'; category: Category | null; parentId?: number }
+  | { type: 'merge' | 'delete'; category: Category };
+
+const Categories = () => {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canEdit = can('inventory:edit');
+  const canDelete = can('inventory:delete');
+  const [modal, setModal] = useState<CategoryModal | null>(null);
+
+  // Each parent is followed by its subcategories, already in display order
+  const { data: categories, isLoading, isError, error } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoriesApi.list,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: ({ parentId, ids }: { parentId: number | null; ids: number[] }) => categoriesApi.reorder(parentId, ids),
+    onMutate: ({ ids }) => {
+      // Show the new order straight away; the list is refetched either way
+      queryClient.setQueryData<Category[]>(['categories'], current => current?.map(c =>
+        ids.includes(c.id) ? { ...c, position: ids.indexOf(c.id) } : c
+      ));
+    },
+    onError: (reorderError) => toast.error(getErrorMessage(reorderError, 'Failed to reorder categories')),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['categories'] }),
+  });
+
+  const all = categories || [];
+  const byPosition = (a: Category, b: Category) => a.position - b.position;
+  const childrenOf = (parentId: number | null) => all.filter(c => c.parentId === parentId).sort(byPosition);
+  const topLevel = childrenOf(null);
+
+  const move = (category: Category, offset: -1 | 1) => {
+    const ids = childrenOf(category.parentId).map(c => c.id);
+    const index = ids.indexOf(category.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate({ parentId: category.parentId, ids });
+  };
+
+  const actionClass = 'p-1.5 text-gray-400 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed';
+
+  const renderRow = (category: Category, index: number, siblings: Category[]) => {
+    const Icon = categoryIcon(category.icon);
+    const isChild = category.parentId !== null;
+    const subcategories = isChild ? [] : childrenOf(category.id);
+    const parentInactive = isChild && all.some(c => c.id === category.parentId && !c.active);
+    return (
+      <div key={category.id} className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 ${isChild ? 'pl-14' : ''}`}>
+        {canEdit && (
+          <div className="flex flex-col shrink-0">
+            <button
+              onClick={() => move(category, -1)}
+              disabled={index === 0 || reorderMutation.isPending}
+              className="text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Move up"
+            >
+              <ChevronUp size={16} />
+            </button>
+            <button
+              onClick={() => move(category, 1)}
+              disabled={index === siblings.length - 1 || reorderMutation.isPending}
+              className="text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Move down"
+            >
+              <ChevronDown size={16} />
+            </button>
+          </div>
+        )}
+        <div className={`w-9 h-9 rounded-lg flex items-center justify-center shrink-0 ${category.active ? 'bg-blue-50 text-blue-600' : 'bg-gray-100 text-gray-400'}`}>
+          <Icon size={18} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className={`font-medium truncate ${category.active ? 'text-gray-900' : 'text-gray-500'}`}>{category.name}</p>
+            {!category.active && <StatusBadge>Inactive</StatusBadge>}
+            {category.active && parentInactive && <StatusBadge>Hidden by parent</StatusBadge>}
+          </div>
+          <p className="text-xs text-gray-500">
+            {category.productCount} {category.productCount === 1 ? 'product' : 'products'}
+            {subcategories.length > 0 && ` · ${subcategories.length} ${subcategories.length === 1 ? 'subcategory' : 'subcategories'}`}
+          </p>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          {!isChild && (
+            <button
+              onClick={() => setModal({ type: 'form', category: null, parentId: category.id })}
+              disabled={!canEdit}
+              className={`${actionClass} hover:text-blue-600 hover:bg-blue-50`}
+              title={canEdit ? 'Add subcategory' : NO_PERMISSION_HINT}
+            >
+              <FolderPlus size={16} />
+            </button>
+          )}
+          <button
+            onClick={() => setModal({ type: 'form', category })}
+            disabled={!canEdit}
+            className={`${actionClass} hover:text-blue-600 hover:bg-blue-50`}
+            title={canEdit ? 'Edit category' : NO_PERMISSION_HINT}
+          >
+            <Pencil size={16} />
+          </button>
+          <button
+            onClick={() => setModal({ type: 'merge', category })}
+            disabled={!canDelete || all.length < 2}
+            className={`${actionClass} hover:text-purple-600 hover:bg-purple-50`}
+            title={canDelete ? 'Merge into another category' : NO_PERMISSION_HINT}
+          >
+            <Merge size={16} />
+          </button>
+          <button
+            onClick={() => setModal({ type: 'delete', category })}
+            disabled={!canDelete}
+            className={`${actionClass} hover:text-red-600 hover:bg-red-50`}
+            title={canDelete ? 'Delete category' : NO_PERMISSION_HINT}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <Link to="/inventory" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft size={14} /> Inventory
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">Categories</h1>
+          <p className="text-gray-500 text-sm mt-1">How products are grouped in pickers, filters and reports, in the order shown here.</p>
+        </div>
+        <button
+          onClick={() => setModal({ type: 'form', category: null })}
+          disabled={!canEdit}
+          title={canEdit ? undefined : NO_PERMISSION_HINT}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus size={18} />
+          <span>Add Category</span>
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-24 text-gray-500">
+          <Loader2 className="animate-spin" size={28} />
+        </div>
+      ) : isError ? (
+        <div className="flex flex-col items-center justify-center py-24">
+          <AlertCircle size={32} className="text-red-500 mb-3" />
+          <p className="text-lg font-semibold text-gray-900">Failed to load categories</p>
+          <p className="text-sm text-gray-500 mt-1">{getErrorMessage(error)}</p>
+        </div>
+      ) : topLevel.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-24 text-gray-500">
+          <FolderTree size={32} className="text-gray-400 mb-3" />
+          <p className="text-lg font-semibold text-gray-900">No categories yet</p>
+          <p className="text-sm text-gray-500 mt-1">Add one before creating products</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {topLevel.map((parent, index) => {
+            const subcategories = childrenOf(parent.id);
+            return (
+              <div key={parent.id} className="divide-y divide-gray-100">
+                {renderRow(parent, index, topLevel)}
+                {subcategories.map((child, childIndex) => renderRow(child, childIndex, subcategories))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {modal?.type === 'form' && (
+        <CategoryFormModal category={modal.category} parentId={modal.parentId} categories={all} onClose={() => setModal(null)} />
+      )}
+      {(modal?.type === 'merge' || modal?.type === 'delete') && (
+        <RemoveCategoryModal category={modal.category} mode={modal.type} categories={all} onClose={() => setModal(null)} />
+      )}
+    </div>
+  );
+};
+
+export default Categories;
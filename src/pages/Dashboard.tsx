@@ -6,9 +6,8 @@ import {
     ShoppingCart, Package, Truck, CheckCircle, XCircle, Banknote,
     TrendingUp, TrendingDown, Calendar, RefreshCw, type LucideIcon
 } from 'lucide-react';
-import { format, parseISO } from 'date-fns';
-import api from '../api/axios';
-import type { ApiResponse, DashboardSummary, DailySalesData, SalesComparison } from '../types/dashboard';
+import { analyticsApi } from '../api/analytics';
+import { useFormatters } from '../hooks/useFormatters';
 
 // --- 1. Top Stat Card Component ---
 interface StatCardProps {
@@ -47,6 +46,7 @@ interface ComparisonCardProps {
 }
 
 const ComparisonCard = ({ title, icon: Icon, today, yesterday, percent, trend, isCurrency = false }: ComparisonCardProps) => {
+    const { money, number } = useFormatters();
     const isPositive = trend === 'UP';
 
     return (
@@ -62,7 +62,7 @@ const ComparisonCard = ({ title, icon: Icon, today, yesterday, percent, trend, i
                 <div>
                     <p className="text-gray-500 text-sm mb-1">Today</p>
                     <p className="text-4xl font-bold text-gray-900 tracking-tight">
-                        {isCurrency ? `₹${today.toLocaleString()}` : today}
+                        {isCurrency ? money(today) : number(today)}
                     </p>
                 </div>
 
@@ -72,7 +72,7 @@ const ComparisonCard = ({ title, icon: Icon, today, yesterday, percent, trend, i
                 <div>
                     <p className="text-gray-400 text-xs mb-1">Yesterday</p>
                     <p className="text-2xl font-semibold text-gray-400">
-                        {isCurrency ? `₹${yesterday.toLocaleString()}` : yesterday}
+                        {isCurrency ? money(yesterday) : number(yesterday)}
                     </p>
                 </div>
 
@@ -90,38 +90,31 @@ const ComparisonCard = ({ title, icon: Icon, today, yesterday, percent, trend, i
 };
 
 const Dashboard = () => {
+    const { money, number, weekday } = useFormatters();
+
     // --- Data Fetching ---
 
     // 1. Summary (Top Cards)
     const { data: summary } = useQuery({
         queryKey: ['dashboard-summary'],
-        queryFn: async () => {
-            const res = await api.get<ApiResponse<DashboardSummary>>('/admin/dashboard/summary');
-            return res.data.data;
-        }
+        queryFn: analyticsApi.getSummary
     });
 
     // 2. Trend (Main Chart)
     const { data: trendData } = useQuery({
         queryKey: ['sales-trend'],
-        queryFn: async () => {
-            const res = await api.get<ApiResponse<DailySalesData[]>>('/admin/analytics/sales/7-days');
-            return res.data.data;
-        }
+        queryFn: analyticsApi.getSevenDaySales
     });
 
     // 3. Comparison (Bottom Cards)
     const { data: comparison } = useQuery({
         queryKey: ['sales-comparison'],
-        queryFn: async () => {
-            const res = await api.get<ApiResponse<SalesComparison>>('/admin/analytics/sales/today-vs-yesterday');
-            return res.data.data;
-        }
+        queryFn: analyticsApi.getTodayVsYesterday
     });
 
     // Prepare Chart Data
     const chartData = trendData?.map(item => ({
-        name: format(parseISO(item.date), 'EEE'),
+        name: weekday(item.date),
         total: item.totalOrders,
         delivered: item.deliveredOrders,
         cancelled: item.cancelledOrders,
@@ -149,43 +142,43 @@ const Dashboard = () => {
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
                 <StatCard
                     label="Total Orders"
-                    value={summary?.totalOrders || 0}
+                    value={number(summary?.totalOrders || 0)}
                     subLabel="Daily count"
                     icon={ShoppingCart}
                     iconBg="bg-blue-50" colorClass="text-blue-600"
                 />
                 <StatCard
                     label="Packed"
-                    value={summary?.packedOrders || 0}
+                    value={number(summary?.packedOrders || 0)}
                     subLabel="Ready for pickup"
                     icon={Package}
                     iconBg="bg-indigo-50" colorClass="text-indigo-600"
                 />
                 <StatCard
                     label="In Transit"
-                    value={summary?.outForDelivery || 0}
+                    value={number(summary?.outForDelivery || 0)}
                     subLabel="On the way"
                     icon={Truck}
                     iconBg="bg-orange-50" colorClass="text-orange-600"
                 />
                 <StatCard
                     label="Delivered"
-                    value={summary?.deliveredOrders || 0}
+                    value={number(summary?.deliveredOrders || 0)}
                     subLabel="Completed today"
                     icon={CheckCircle}
                     iconBg="bg-emerald-50" colorClass="text-emerald-600"
                 />
                 <StatCard
                     label="Cancelled"
-                    value={summary?.cancelledOrders || 0}
+                    value={number(summary?.cancelledOrders || 0)}
                     subLabel="Returned/Failed"
                     icon={XCircle}
                     iconBg="bg-red-50" colorClass="text-red-600"
                 />
                 <StatCard
                     label="Cash"
-                    value={`₹${(summary?.totalCashCollected || 0).toLocaleString()}`}
-                    subLabel="Total revenue"
+                    value={money(summary?.totalCashCollected || 0)}
+                    subLabel={summary?.refundsPaid ? `After ${money(summary.refundsPaid)} refunds` : "Total revenue"}
                     icon={Banknote}
                     iconBg="bg-teal-50" colorClass="text-teal-600"
                 />
@@ -255,13 +248,13 @@ const Dashboard = () => {
                                 axisLine={false}
                                 tickLine={false}
                                 tick={{ fill: '#d8b4fe', fontSize: 12 }}
-                                tickFormatter={(val) => `₹${val}`}
+                                tickFormatter={(val) => money(Number(val), 0)}
                             />
 
                             <Tooltip
                                 contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 20px -2px rgb(0 0 0 / 0.1)' }}
-                                formatter={(value: number | string | Array<number | string>, name: string | number | undefined) => {
-                                    if (name === 'cash') return [`₹${value}`, 'Cash Flow'];
+                                formatter={(value, name) => {
+                                    if (name === 'cash') return [money(Number(value)), 'Cash Flow'];
                                     const nameStr = String(name);
                                     return [value, nameStr.charAt(0).toUpperCase() + nameStr.slice(1)];
                                 }}
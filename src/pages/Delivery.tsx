@@ -3,71 +3,88 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import {
     Search, Filter, Calendar, Package, MapPin,
-    CheckSquare, Square, Truck, Phone, X, Loader2
+    CheckSquare, Square, Phone, X, Loader2
 } from 'lucide-react';
-import { format, parseISO } from 'date-fns';
-import api from '../api/axios';
+import { ordersApi } from '../api/orders';
+import { getErrorMessage } from '../api/errors';
 import { Pagination } from '../components/Pagination';
 import { LiveIndicator } from '../components/LiveIndicator';
-import type { OrdersApiResponse, Order } from '../types/orders';
+import { usePollingInterval } from '../hooks/useRealtimeStatus';
+import { useDebouncedInput, useUrlState } from '../hooks/useUrlState';
+import type { Order } from '../types/orders';
+import { useFormatters } from '../hooks/useFormatters';
+import { usePermissions } from '../hooks/usePermissions';
+import { undoOrderTransitions } from '../hooks/useOrderTransition';
+import { showUndoToast } from '../components/orders/undoToast';
+import { findTransition } from '../utils/orderStateMachine';
+import { NO_PERMISSION_HINT } from '../utils/permissions';
+import { idsWithOutcome, runBulk } from '../utils/bulk';
 
 const ITEMS_PER_PAGE = 8;
 
+// Assigning a rider is the PACKED -> OUT_FOR_DELIVERY move
+const SHIP_MOVE = findTransition('PACKED', 'OUT_FOR_DELIVERY')!;
+
 const Delivery = () => {
     const queryClient = useQueryClient();
+    const { dayMonth, time } = useFormatters();
+    const { can } = usePermissions();
+    const canShip = can(SHIP_MOVE.permission);
 
     // --- State ---
-    const [page, setPage] = useState(0);
-    const [search, setSearch] = useState('');
+    // Page and phone search live in the URL (?phone=98765&page=2)
+    const [filters, setFilters] = useUrlState({ phone: '', page: 1 });
+    const page = Math.max(filters.page - 1, 0);
+    const setPage = (index: number) => setFilters({ page: index + 1 });
+    const [search, setSearch] = useDebouncedInput(filters.phone, (phone) => setFilters({ phone, page: 1 }, { replace: true }));
     const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
     const [deliveryPhone, setDeliveryPhone] = useState('');
 
-    // --- API: Fetch Packed Orders ---
-    const { data: response, isLoading, isFetching } = useQuery({
-        queryKey: ['orders', 'PACKED', page, search], // Unique key for packed orders
-        queryFn: async () => {
-            const params: any = {
-                page: page,
-                size: ITEMS_PER_PAGE,
-                status: 'PACKED', // Hardcoded requirement
-            };
-
-            // Basic client-side search simulation if backend doesn't support search param on this endpoint
-            // If backend supports 'phone' or 'search' param, add it here:
-            if (search) params.phone = search;
-
-            const res = await api.get<OrdersApiResponse>('/admin/orders', { params });
-            return res.data;
-        },
-        refetchInterval: 15000,
+    // --- API: Fetch Packed Orders (polls only while the live stream is down) ---
+    const refetchInterval = usePollingInterval(15000);
+    const { data: ordersPage, isLoading, isFetching } = useQuery({
+        queryKey: ['orders', 'PACKED', page, filters.phone], // Unique key for packed orders
+        queryFn: () => ordersApi.list({
+            page,
+            size: ITEMS_PER_PAGE,
+            status: 'PACKED', // Hardcoded requirement
+            phone: filters.phone,
+        }),
+        refetchInterval,
     });
 
-    const orders = response?.data?.content || [];
-    const totalPages = response?.data?.totalPages || 0;
+    const orders = ordersPage?.content || [];
+    const totalPages = ordersPage?.totalPages || 0;
 
     // --- Mutation: Bulk Assign ---
     const assignMutation = useMutation({
         mutationFn: async () => {
             if (!deliveryPhone) throw new Error("Phone number is required");
 
-            // Create an array of promises to fire requests in parallel
-            const promises = Array.from(selectedIds).map(id =>
-                api.patch(`/admin/orders/${id}/assign`, null, {
-                    params: { deliveryPhone: deliveryPhone }
-                })
-            );
+            // Only orders that can still move to OUT_FOR_DELIVERY; others may have changed since they were picked
+            const ids = orders.filter(o => selectedIds.has(o.id) && findTransition(o.status, SHIP_MOVE.to)).map(o => o.id);
 
-            return Promise.all(promises);
+            // Fire requests in parallel; each order succeeds or fails on its own
+            return runBulk(ids, id => ordersApi.assign(id, deliveryPhone));
         },
-        onSuccess: () => {
-            toast.success(`Successfully assigned ${selectedIds.size} orders!`);
+        onSuccess: (results) => {
             queryClient.invalidateQueries({ queryKey: ['orders'] });
-            setSelectedIds(new Set()); // Clear selection
-            setDeliveryPhone(''); // Clear input
+            const assigned = idsWithOutcome(results, 'succeeded');
+            const failed = results.filter(r => r.outcome === 'failed');
+            if (assigned.length > 0) {
+                showUndoToast(`Assigned ${assigned.length} ${assigned.length === 1 ? 'order' : 'orders'} to ${deliveryPhone}`, () => undoOrderTransitions(queryClient, assigned.map(orderId => ({ orderId, from: 'PACKED', to: SHIP_MOVE.to }))));
+            }
+            if (failed.length > 0) {
+                toast.error(`${failed.length} ${failed.length === 1 ? 'order' : 'orders'} not assigned: ${failed[0].message}`);
+                // Failed orders stay selected so they can be retried
+                setSelectedIds(new Set(failed.map(r => r.id)));
+            } else {
+                setSelectedIds(new Set()); // Clear selection
+                setDeliveryPhone(''); // Clear input
+            }
         },
-        onError: (error: any) => {
-            console.error(error);
-            toast.error("Failed to assign some orders. Check phone number.");
+        onError: (error) => {
+            toast.error(getErrorMessage(error, "Failed to assign orders. Check phone number."));
         }
     });
 
@@ -157,7 +174,8 @@ const Delivery = () => {
                         </div>
                         <button
                             onClick={() => assignMutation.mutate()}
-                            disabled={assignMutation.isPending || !deliveryPhone}
+                            disabled={assignMutation.isPending || !deliveryPhone || !canShip}
+                            title={canShip ? undefined : NO_PERMISSION_HINT}
                             className="bg-white text-blue-600 px-6 py-2 rounded-lg text-sm font-bold hover:bg-blue-50 hover:shadow-lg transition-all duration-200 disabled:opacity-70 disabled:cursor-not-allowed whitespace-nowrap flex items-center gap-2 active:scale-95"
                         >
                             {assignMutation.isPending && <Loader2 size={16} className="animate-spin" />}
@@ -218,7 +236,7 @@ const Delivery = () => {
                                 <div className="pt-4 border-t border-gray-100 flex items-center justify-between text-xs text-gray-500">
                                     <div className="flex items-center gap-1 transition-colors duration-200">
                                         <Calendar size={14} />
-                                        <span>{format(parseISO(order.createdAt), 'MMM dd, HH:mm')}</span>
+                                        <span>{dayMonth(order.createdAt)}, {time(order.createdAt)}</span>
                                     </div>
                                     <div className="flex items-center gap-1 font-medium text-gray-700 transition-colors duration-200">
                                         <Package size={14} />
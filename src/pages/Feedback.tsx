@@ -1,61 +1,52 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import {
   Search, MessageSquare, User, Calendar
 } from 'lucide-react';
-import { format, parseISO } from 'date-fns';
-import api from '../api/axios';
-import type { FeedbackResponse, FeedbackStatus } from '../types/feedback';
+import { suggestionsApi } from '../api/suggestions';
+import type { FeedbackStatus } from '../types/feedback';
 
 // --- NEW IMPORTS ---
 import { Pagination } from '../components/Pagination';
 import { LiveIndicator } from '../components/LiveIndicator';
+import { usePollingInterval } from '../hooks/useRealtimeStatus';
+import { useDebouncedInput, useUrlState } from '../hooks/useUrlState';
+import { FilterPresets } from '../components/FilterPresets';
+import { useFormatters } from '../hooks/useFormatters';
 
 const ITEMS_PER_PAGE = 10;
+const FEEDBACK_FILTER_KEYS = ['phone', 'from', 'to'] as const;
 
 const Feedback = () => {
-  // --- State ---
-  const [page, setPage] = useState(0);
-
-  // Search State
-  const [searchInput, setSearchInput] = useState('');
-  const [debouncedPhone, setDebouncedPhone] = useState('');
+  // --- State (kept in the URL, e.g. ?phone=98765&from=2026-01-01&page=2) ---
+  const [filters, setFilters] = useUrlState({ phone: '', from: '', to: '', page: 1 });
+  const { dateTime } = useFormatters();
+  const page = Math.max(filters.page - 1, 0);
+  const setPage = (index: number) => setFilters({ page: index + 1 });
+  const debouncedPhone = filters.phone;
+
+  // Search State (500ms debounce, resets to the first page)
+  const [searchInput, setSearchInput] = useDebouncedInput(
+    filters.phone,
+    (phone) => setFilters({ phone, page: 1 }, { replace: true })
+  );
 
   // Client-Side Filter State
-  const [startDate, setStartDate] = useState('');
-  const [endDate, setEndDate] = useState('');
-
-  // Debounce Search (500ms delay)
-  useEffect(() => {
-    const handler = setTimeout(() => {
-      setDebouncedPhone(searchInput);
-      setPage(0); // Reset to first page on new search
-    }, 500);
-    return () => clearTimeout(handler);
-  }, [searchInput]);
-
-  // --- API Fetch ---
-  const { data: response, isLoading, isFetching } = useQuery({
+  const { from: startDate, to: endDate } = filters;
+  const setStartDate = (from: string) => setFilters({ from });
+  const setEndDate = (to: string) => setFilters({ to });
+
+  // --- API Fetch (polls only while the live stream is down) ---
+  const refetchInterval = usePollingInterval(60000);
+  const { data: suggestionsPage, isLoading, isFetching } = useQuery({
     queryKey: ['suggestions', page, debouncedPhone],
-    queryFn: async () => {
-      const params: Record<string, string | number> = {
-        page: page,
-        size: ITEMS_PER_PAGE,
-      };
-
-      if (debouncedPhone) {
-        params.phone = debouncedPhone;
-      }
-
-      const res = await api.get<FeedbackResponse>('/admin/suggestions', { params });
-      return res.data;
-    },
+    queryFn: () => suggestionsApi.list({ page, size: ITEMS_PER_PAGE, phone: debouncedPhone }),
     placeholderData: (prev) => prev,
-    refetchInterval: 60000,
+    refetchInterval,
   });
 
-  const rawSuggestions = useMemo(() => response?.data?.content || [], [response]);
-  const totalPages = response?.data?.totalPages || 0;
+  const rawSuggestions = useMemo(() => suggestionsPage?.content || [], [suggestionsPage]);
+  const totalPages = suggestionsPage?.totalPages || 0;
 
   // --- Client-Side Date Filtering ---
   const displayedSuggestions = useMemo(() => {
@@ -96,8 +87,11 @@ const Feedback = () => {
           <h2 className="text-2xl font-bold text-gray-800">Suggestions & Feedback</h2>
           <p className="text-sm text-gray-500 mt-1">View-only archive of customer voices and service requests.</p>
         </div>
-        {/* Live Indicator Added Here */}
-        <LiveIndicator isFetching={isFetching} />
+        <div className="flex items-center gap-3">
+          <FilterPresets scope="feedback" keys={FEEDBACK_FILTER_KEYS} />
+          {/* Live Indicator Added Here */}
+          <LiveIndicator isFetching={isFetching} />
+        </div>
       </div>
 
       {/* Toolbar */}
@@ -135,7 +129,7 @@ const Feedback = () => {
           </div>
           {(startDate || endDate) && (
             <button
-              onClick={() => { setStartDate(''); setEndDate(''); }}
+              onClick={() => setFilters({ from: '', to: '' })}
               className="text-xs text-red-500 hover:text-red-700 font-medium px-2"
             >
               Clear Dates
@@ -174,7 +168,7 @@ const Feedback = () => {
                 <div>
                   <h3 className="font-bold text-gray-900 text-sm">{item.userPhone}</h3>
                   <p className="text-xs text-gray-400 mt-0.5">
-                    {format(parseISO(item.createdAt), 'MMM dd, yyyy • hh:mm a')}
+                    {dateTime(item.createdAt)}
                   </p>
                 </div>
               </div>
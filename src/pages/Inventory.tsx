@@ -1,126 +1,211 @@
-import { useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import {
-  Search, Plus, ChevronDown, Edit3, Package, Trash2, Filter, RefreshCw, AlertCircle, TrendingDown
+  Search, Plus, ChevronDown, Edit3, Package, Archive, ArchiveRestore, Filter, RefreshCw, AlertCircle, TrendingDown,
+  ArrowUp, ArrowDown, ArrowUpDown, Download, Upload, Loader2, History, ClipboardList, FolderTree, ScanBarcode
 } from 'lucide-react';
-import api from '../api/axios';
-import type { InventoryResponse, Product } from '../types/inventory';
-import { CATEGORIES, PRICE_RANGES } from '../utils/inventory-constants';
+import { productsApi } from '../api/products';
+import { reorderApi } from '../api/reorder';
+import { categoriesApi } from '../api/categories';
+import { getErrorMessage } from '../api/errors';
+import type { Product, ProductFilters, ProductSortField, StockLevel } from '../types/inventory';
+import type { SortDirection } from '../types/api';
+import { priceRanges, STOCK_LEVELS } from '../utils/inventory-constants';
+import { categoryOptions } from '../utils/categories';
+import { resolveReorder, stockLevelOf } from '../utils/reorder';
 import { Pagination } from '../components/Pagination';
 import AddProductModal from '../components/inventory/AddProductModal';
+import ArchiveProductModal from '../components/inventory/ArchiveProductModal';
 import EditProductModal from '../components/inventory/EditProductModal';
+import ImportProductsModal from '../components/inventory/ImportProductsModal';
+import StockHistoryModal from '../components/inventory/StockHistoryModal';
 import { StatusBadge } from '../components/StatusBadge';
+import { usePermissions } from '../hooks/usePermissions';
+import { useDebouncedInput, useUrlState } from '../hooks/useUrlState';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { useFormatters } from '../hooks/useFormatters';
+import { FilterPresets } from '../components/FilterPresets';
+import { NO_PERMISSION_HINT } from '../utils/permissions';
+import { downloadCatalog, fetchAllProducts, type ExportFormat } from '../utils/productExport';
 
-const ITEMS_PER_PAGE = 10;
+const PAGE_SIZES = [25, 50, 100, 250];
+// Matches the h-[89px] rows so the virtual window lines up. Cell contents are clamped
+// to single lines inside the 56px thumbnail height, so no row can grow past it.
+const ROW_HEIGHT = 89;
+const INVENTORY_FILTER_KEYS = ['search', 'category', 'price', 'stock', 'view', 'sort', 'size'] as const;
+
+// Archived products are products with `active: false`
+const VIEWS = [
+  { value: 'active', label: 'Active', active: true },
+  { value: 'archived', label: 'Archived', active: false },
+  { value: 'all', label: 'All', active: undefined },
+] as const;
+
+const SORTABLE_COLUMNS: { label: string; field: ProductSortField }[] = [
+  { label: 'Product', field: 'name' },
+  { label: 'Category', field: 'category' },
+  { label: 'Price', field: 'price' },
+  { label: 'Stock Status', field: 'stock' },
+];
 
 const Inventory = () => {
   const queryClient = useQueryClient();
-  const [page, setPage] = useState(0);
-  const [search, setSearch] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('');
-  const [selectedPriceRange, setSelectedPriceRange] = useState('');
+  const { can } = usePermissions();
+  const formatters = useFormatters();
+  const { money } = formatters;
+  const canEdit = can('inventory:edit');
+  const canDelete = can('inventory:delete');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
-
-  // Fetch all products (client-side filtering)
-  const { data, isLoading, isError, error, refetch } = useQuery<InventoryResponse>({
-    queryKey: ['products'],
-    queryFn: async () => {
-      const res = await api.get('/admin/products');
-      return res.data;
-    },
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [archivingProduct, setArchivingProduct] = useState<Product | null>(null);
+  // Filters, sort, page and the product being edited live in the URL (?category=Dairy&sort=price,desc&edit=12)
+  const [filters, setFilters] = useUrlState({
+    search: '', category: '', price: '', stock: '', view: 'active', sort: 'name,asc', page: 1, size: PAGE_SIZES[0], edit: 0, variant: 0, history: 0,
   });
+  const { category: selectedCategory, price: selectedPriceRange } = filters;
+  const view = VIEWS.find(v => v.value === filters.view) ?? VIEWS[0];
+  const page = Math.max(filters.page - 1, 0);
+  const pageSize = PAGE_SIZES.includes(filters.size) ? filters.size : PAGE_SIZES[0];
+  const [sortField, sortDirection] = filters.sort.split(',') as [ProductSortField, SortDirection];
+  const editingId = filters.edit || null;
+  const setEditingProduct = (product: Product | null) => setFilters({ edit: product?.id ?? 0, variant: 0 });
+  const historyId = filters.history || null;
+  const setHistoryProduct = (product: Product | null) => setFilters({ edit: 0, variant: 0, history: product?.id ?? 0 });
 
-  const allProducts = data?.data || [];
+  // Server-side search, filtering, sorting and paging
+  const priceRangeOptions = priceRanges(formatters);
+  const priceRange = priceRangeOptions.find(r => r.value === selectedPriceRange);
+  const searchFilters: Omit<ProductFilters, 'page' | 'size'> = {
+    search: filters.search,
+    category: selectedCategory,
+    minPrice: priceRange?.min,
+    maxPrice: priceRange?.max,
+    stockLevel: filters.stock as StockLevel | '',
+    active: view.active,
+    sort: { field: sortField, direction: sortDirection === 'desc' ? 'desc' : 'asc' },
+  };
+  const { data: productsPage, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ['products', 'search', filters.search, selectedCategory, selectedPriceRange, filters.stock, view.value, filters.sort, page, pageSize],
+    queryFn: () => productsApi.search({ ...searchFilters, page, size: pageSize }),
+    placeholderData: keepPreviousData,
+  });
 
-  // Client-side filtering
-  const filteredProducts = useMemo(() => {
-    let filtered = [...allProducts];
+  // Category reorder points decide which rows show as low
+  const { data: reorderDefaults } = useQuery({
+    queryKey: ['reorder-defaults'],
+    queryFn: reorderApi.getDefaults,
+  });
 
-    // Search filter
-    if (search.trim()) {
-      const searchLower = search.toLowerCase();
-      filtered = filtered.filter(product =>
-        product.name.toLowerCase().includes(searchLower) ||
-        product.description.toLowerCase().includes(searchLower)
-      );
-    }
+  const { data: categories = [] } = useQuery({ queryKey: ['categories'], queryFn: categoriesApi.list });
 
-    // Category filter
-    if (selectedCategory) {
-      filtered = filtered.filter(product => product.category === selectedCategory);
-    }
+  // Whole-catalog counters for the stat cards
+  const { data: stats } = useQuery({
+    queryKey: ['products', 'stats'],
+    queryFn: productsApi.getStats,
+  });
 
-    // Price range filter
-    if (selectedPriceRange) {
-      const priceRange = PRICE_RANGES.find(r => r.label === selectedPriceRange);
-      if (priceRange) {
-        filtered = filtered.filter(product =>
-          product.price >= priceRange.min &&
-          (priceRange.max === Infinity || product.price <= priceRange.max)
-        );
-      }
-    }
+  const products = productsPage?.content || [];
+  const totalPages = productsPage?.totalPages || 0;
+  const {
+    setContainer: setTableContainer, onScroll: onTableScroll, scrollToTop, start, end, paddingTop, paddingBottom,
+  } = useVirtualRows({ count: products.length, rowHeight: ROW_HEIGHT });
 
-    return filtered;
-  }, [allProducts, search, selectedCategory, selectedPriceRange]);
-
-  // Client-side pagination
-  const totalPages = Math.ceil(filteredProducts.length / ITEMS_PER_PAGE);
-  const paginatedProducts = useMemo(() => {
-    const start = page * ITEMS_PER_PAGE;
-    const end = start + ITEMS_PER_PAGE;
-    return filteredProducts.slice(start, end);
-  }, [filteredProducts, page]);
-
-  // Reset to page 0 when filters change
-  const handleSearchChange = (value: string) => {
-    setSearch(value);
-    setPage(0);
-  };
+  // Deep links (?edit=12, ?history=12) may point at a product that isn't on the current page
+  const modalProductId = (canEdit ? editingId : null) ?? historyId;
+  const modalProductFromPage = products.find(p => p.id === modalProductId);
+  const { data: fetchedModalProduct } = useQuery({
+    queryKey: ['products', 'detail', modalProductId],
+    queryFn: () => productsApi.get(modalProductId!),
+    enabled: !!modalProductId && !modalProductFromPage,
+  });
+  const modalProduct = modalProductId ? modalProductFromPage ?? fetchedModalProduct : undefined;
+  const editingProduct = canEdit && editingId ? modalProduct : undefined;
+  const historyProduct = !editingProduct && historyId ? modalProduct : undefined;
 
-  const handleCategoryChange = (value: string) => {
-    setSelectedCategory(value);
-    setPage(0);
+  // Every change to the result set starts again from the top of the table
+  const updateFilters: typeof setFilters = (update, options) => {
+    setFilters(update, options);
+    scrollToTop();
   };
+  const setPage = (index: number) => updateFilters({ page: index + 1 });
+
+  const [search, setSearch] = useDebouncedInput(
+    filters.search,
+    (value) => updateFilters({ search: value, page: 1 }, { replace: true }),
+    300
+  );
 
-  const handlePriceRangeChange = (value: string) => {
-    setSelectedPriceRange(value);
-    setPage(0);
+  const handleSort = (field: ProductSortField) => {
+    const direction = sortField === field && sortDirection === 'asc' ? 'desc' : 'asc';
+    updateFilters({ sort: `${field},${direction}`, page: 1 });
   };
 
-  // Delete Mutation
-  const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await api.delete(`/admin/products/${id}`);
+  // Reset to the first page when filters change
+  const handleSearchChange = (value: string) => setSearch(value);
+
+  const handleCategoryChange = (value: string) => updateFilters({ category: value, page: 1 });
+
+  const handlePriceRangeChange = (value: string) => updateFilters({ price: value, page: 1 });
+
+  // A scanned SKU or barcode opens its product with that size ready for a stock
+  // adjustment (or its history, for roles that can't edit). Codes typed into the
+  // search box only jump when they match exactly; otherwise it stays a search.
+  const lookupMutation = useMutation({
+    mutationFn: ({ code }: { code: string; fromSearch?: boolean }) => productsApi.lookup(code),
+    onSuccess: ({ product, variantId }) => {
+      queryClient.setQueryData(['products', 'detail', product.id], product);
+      setFilters(canEdit ? { edit: product.id, variant: variantId, history: 0 } : { edit: 0, variant: 0, history: product.id });
     },
-    onSuccess: () => {
-      toast.success('Product deleted successfully');
+    onError: (error, { code, fromSearch }) => {
+      if (!fromSearch) toast.error(getErrorMessage(error, `No product found for ${code}`));
+    },
+  });
+
+  const isModalOpen = !!(editingProduct || historyProduct || archivingProduct || isAddModalOpen || isImportModalOpen);
+  useBarcodeScanner(code => lookupMutation.mutate({ code }), !isModalOpen);
+
+  // Archiving goes through ArchiveProductModal; restoring needs no confirmation
+  const restoreMutation = useMutation({
+    mutationFn: (product: Product) => productsApi.restore(product.id),
+    onSuccess: (_, product) => {
+      toast.success(`${product.name} restored`);
       queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['reorder-suggestions'] });
     },
-    onError: () => {
-      toast.error('Failed to delete product');
+    onError: (error) => {
+      toast.error(getErrorMessage(error, 'Failed to restore product'));
     }
   });
 
-  const handleDelete = (id: number) => {
-    if (confirm('Are you sure you want to delete this product? This action cannot be undone.')) {
-      deleteMutation.mutate(id);
+  // Export every product matching the current filters and sort, not just this page
+  const [isExporting, setIsExporting] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const handleExport = async (format: ExportFormat) => {
+    setIsExportMenuOpen(false);
+    setIsExporting(true);
+    try {
+      const products = await fetchAllProducts(searchFilters);
+      downloadCatalog(products, format);
+      toast.success(`Exported ${products.length} products`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to export products'));
+    } finally {
+      setIsExporting(false);
     }
   };
 
-  const handleClearFilters = () => {
-    setSearch('');
-    setSelectedCategory('');
-    setSelectedPriceRange('');
-    setPage(0);
-  };
+  const hasFilters = !!(filters.search || selectedCategory || selectedPriceRange || filters.stock);
+  const handleClearFilters = () => updateFilters({ search: '', category: '', price: '', stock: '', page: 1 });
 
   // Calculate stats
-  const totalProducts = allProducts.length;
-  const lowStockCount = allProducts.filter(p => p.stock > 0 && p.stock < 10).length;
-  const outOfStockCount = allProducts.filter(p => p.stock === 0).length;
+  const totalProducts = stats?.totalProducts ?? 0;
+  const lowStockCount = stats?.lowStock ?? 0;
+  const outOfStockCount = stats?.outOfStock ?? 0;
+  const viewCount = (value: typeof view.value) =>
+    value === 'active' ? totalProducts : value === 'archived' ? stats?.archived ?? 0 : totalProducts + (stats?.archived ?? 0);
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -130,13 +215,60 @@ const Inventory = () => {
           <h1 className="text-2xl font-semibold text-gray-900">Inventory Management</h1>
           <p className="text-gray-500 text-sm mt-1">Manage your products, stock levels, and prices.</p>
         </div>
-        <button
-          onClick={() => setIsAddModalOpen(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-        >
-          <Plus size={18} />
-          <span>Add Product</span>
-        </button>
+        <div className="flex items-center gap-2">
+          <Link
+            to="/inventory/stock-audit"
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            <ClipboardList size={18} />
+            <span>Stock Audit</span>
+          </Link>
+          <Link
+            to="/inventory/categories"
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            <FolderTree size={18} />
+            <span>Categories</span>
+          </Link>
+          <div className="relative">
+            <button
+              onClick={() => setIsExportMenuOpen(open => !open)}
+              disabled={isExporting}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+            >
+              {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+              <span>Export</span>
+              <ChevronDown size={14} />
+            </button>
+            {isExportMenuOpen && (
+              <>
+                <div className="fixed inset-0 z-20" onClick={() => setIsExportMenuOpen(false)}></div>
+                <div className="absolute right-0 mt-2 w-44 bg-white border border-gray-200 rounded-lg shadow-lg z-30 py-1">
+                  <button onClick={() => handleExport('csv')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">CSV (.csv)</button>
+                  <button onClick={() => handleExport('xlsx')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">Excel (.xlsx)</button>
+                </div>
+              </>
+            )}
+          </div>
+          <button
+            onClick={() => setIsImportModalOpen(true)}
+            disabled={!canEdit}
+            title={canEdit ? undefined : NO_PERMISSION_HINT}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload size={18} />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={() => setIsAddModalOpen(true)}
+            disabled={!canEdit}
+            title={canEdit ? undefined : NO_PERMISSION_HINT}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={18} />
+            <span>Add Product</span>
+          </button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -153,17 +285,18 @@ const Inventory = () => {
           </div>
         </div>
 
-        <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <Link to="/inventory/reorder" className="bg-white border border-gray-200 rounded-lg p-4 hover:border-amber-300 transition-colors">
           <div className="flex items-center justify-between">
             <div>
               <p className="text-xs font-medium text-gray-600 uppercase">Low Stock</p>
               <p className="text-2xl font-semibold text-gray-900 mt-1">{lowStockCount}</p>
+              <p className="text-xs text-amber-600 font-medium mt-1">View reorder list →</p>
             </div>
             <div className="w-10 h-10 bg-amber-50 rounded-lg flex items-center justify-center">
               <TrendingDown className="text-amber-600" size={20} />
             </div>
           </div>
-        </div>
+        </Link>
 
         <div className="bg-white border border-gray-200 rounded-lg p-4">
           <div className="flex items-center justify-between">
@@ -178,6 +311,20 @@ const Inventory = () => {
         </div>
       </div>
 
+      {/* Active / Archived */}
+      <div className="flex border-b border-gray-200">
+        {VIEWS.map(v => (
+          <button
+            key={v.value}
+            onClick={() => updateFilters({ view: v.value, page: 1 })}
+            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${view.value === v.value ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            {v.label}
+            <span className="ml-1.5 text-xs text-gray-400">{viewCount(v.value)}</span>
+          </button>
+        ))}
+      </div>
+
       {/* Filters Bar */}
       <div className="bg-white rounded-lg border border-gray-200">
         <div className="px-4 py-3 border-b border-gray-200">
@@ -185,21 +332,26 @@ const Inventory = () => {
             <Filter className="text-gray-600" size={16} />
             <h3 className="font-medium text-gray-900">Filters</h3>
             <span className="ml-auto text-xs text-gray-500">
-              {filteredProducts.length} of {totalProducts} products
+              {productsPage?.totalElements ?? 0} of {viewCount(view.value)} products
             </span>
+            <FilterPresets scope="inventory" keys={INVENTORY_FILTER_KEYS} />
           </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4 p-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
             <input
               type="text"
-              placeholder="Search products..."
+              placeholder="Search name, SKU or barcode..."
               value={search}
               onChange={(e) => handleSearchChange(e.target.value)}
-              className="w-full pl-9 pr-4 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300"
+              onKeyDown={(e) => { if (e.key === 'Enter' && search.trim()) lookupMutation.mutate({ code: search.trim(), fromSearch: true }); }}
+              className="w-full pl-9 pr-9 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300"
             />
+            <span title="Scan a barcode anywhere on this page to open its product" className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">
+              {lookupMutation.isPending ? <Loader2 size={16} className="animate-spin" /> : <ScanBarcode size={16} />}
+            </span>
           </div>
 
           <div className="relative">
@@ -209,7 +361,7 @@ const Inventory = () => {
               className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300 appearance-none cursor-pointer text-gray-700"
             >
               <option value="">All Categories</option>
-              {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+              {categoryOptions(categories, { includeInactive: true }).map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
             </select>
             <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
           </div>
@@ -221,7 +373,19 @@ const Inventory = () => {
               className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300 appearance-none cursor-pointer text-gray-700"
             >
               <option value="">Any Price</option>
-              {PRICE_RANGES.map(r => <option key={r.label} value={r.label}>{r.label}</option>)}
+              {priceRangeOptions.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+          </div>
+
+          <div className="relative">
+            <select
+              value={filters.stock}
+              onChange={(e) => updateFilters({ stock: e.target.value, page: 1 })}
+              className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300 appearance-none cursor-pointer text-gray-700"
+            >
+              <option value="">Any Stock Level</option>
+              {STOCK_LEVELS.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
             </select>
             <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
           </div>
@@ -230,7 +394,7 @@ const Inventory = () => {
             onClick={handleClearFilters}
             className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
           >
-            <RefreshCw size={14} />
+            <RefreshCw size={14} className={isFetching ? 'animate-spin' : ''} />
             <span>Reset</span>
           </button>
         </div>
@@ -252,7 +416,7 @@ const Inventory = () => {
               <AlertCircle size={32} className="text-red-500" />
             </div>
             <p className="text-lg font-semibold text-gray-900">Failed to load inventory</p>
-            <p className="text-sm text-gray-500 mt-1 mb-4">{(error as any)?.response?.data?.message || error.message}</p>
+            <p className="text-sm text-gray-500 mt-1 mb-4">{getErrorMessage(error)}</p>
             <button
               onClick={() => refetch()}
               className="px-5 py-2.5 bg-white border-2 border-red-200 text-red-600 rounded-lg hover:bg-red-50 font-medium transition-colors"
@@ -260,14 +424,16 @@ const Inventory = () => {
               Try Again
             </button>
           </div>
-        ) : filteredProducts.length === 0 ? (
+        ) : products.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-24 text-gray-500">
             <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
               <Package size={32} className="text-gray-400" />
             </div>
-            <p className="text-lg font-semibold text-gray-900">No products found</p>
-            <p className="text-sm text-gray-500 mt-1">Try adjusting your search or filters</p>
-            {(search || selectedCategory || selectedPriceRange) && (
+            <p className="text-lg font-semibold text-gray-900">{view.value === 'archived' && !hasFilters ? 'No archived products' : 'No products found'}</p>
+            <p className="text-sm text-gray-500 mt-1">
+              {view.value === 'archived' && !hasFilters ? 'Archived products show up here and can be restored' : 'Try adjusting your search or filters'}
+            </p>
+            {hasFilters && (
               <button
                 onClick={handleClearFilters}
                 className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -278,98 +444,177 @@ const Inventory = () => {
           </div>
         ) : (
           <>
-            <div className="overflow-x-auto">
+            {/* Only the rows in view are rendered, so large page sizes stay fast */}
+            <div ref={setTableContainer} onScroll={onTableScroll} className="overflow-auto max-h-[70vh]">
               <table className="w-full text-left border-collapse">
-                <thead>
-                  <tr className="bg-gradient-to-r from-gray-50 to-gray-100/50 border-b-2 border-gray-200 text-xs uppercase tracking-wider text-gray-600 font-bold">
-                    <th className="px-6 py-4">Product</th>
-                    <th className="px-6 py-4">Category</th>
-                    <th className="px-6 py-4">Price</th>
-                    <th className="px-6 py-4">Stock Status</th>
+                <thead className="sticky top-0 z-10">
+                  <tr className="bg-gradient-to-r from-gray-50 to-gray-100 border-b-2 border-gray-200 text-xs uppercase tracking-wider text-gray-600 font-bold">
+                    {SORTABLE_COLUMNS.map(column => {
+                      const isSorted = sortField === column.field;
+                      const SortIcon = !isSorted ? ArrowUpDown : sortDirection === 'desc' ? ArrowDown : ArrowUp;
+                      return (
+                        <th key={column.field} className="px-6 py-4" aria-sort={isSorted ? (sortDirection === 'desc' ? 'descending' : 'ascending') : 'none'}>
+                          <button
+                            onClick={() => handleSort(column.field)}
+                            className={`flex items-center gap-1.5 uppercase tracking-wider font-bold hover:text-gray-900 ${isSorted ? 'text-gray-900' : ''}`}
+                          >
+                            {column.label}
+                            <SortIcon size={12} className={isSorted ? 'text-blue-600' : 'text-gray-400'} />
+                          </button>
+                        </th>
+                      );
+                    })}
                     <th className="px-6 py-4 text-right">Actions</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
-                  {paginatedProducts.map((product) => (
-                    <tr
-                      key={product.id}
-                      className="group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-transparent transition-all duration-200 hover:shadow-sm"
-                    >
-                      <td className="px-6 py-4">
-                        <div className="flex items-center gap-4">
-                          <div className="relative w-14 h-14 rounded-xl bg-gradient-to-br from-gray-100 to-gray-200 border-2 border-gray-200 overflow-hidden flex-shrink-0 shadow-sm group-hover:shadow-md transition-shadow">
-                            {product.imageUrl ? (
-                              <img src={product.imageUrl} alt={product.name} className="w-full h-full object-cover" />
-                            ) : (
-                              <Package className="w-7 h-7 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-gray-400" />
-                            )}
+                  {paddingTop > 0 && <tr style={{ height: paddingTop }} aria-hidden />}
+                  {products.slice(start, end).map((product) => {
+                    const { reorderPoint } = resolveReorder(product, reorderDefaults || []);
+                    const level = stockLevelOf(product, reorderDefaults || []);
+                    return (
+                      <tr
+                        key={product.id}
+                        className={`h-[89px] group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-transparent transition-all duration-200 hover:shadow-sm ${product.active ? '' : 'opacity-60'}`}
+                      >
+                        <td className="px-6 py-4">
+                          <div className="flex items-center gap-4">
+                            <div className="relative w-14 h-14 rounded-xl bg-gradient-to-br from-gray-100 to-gray-200 border-2 border-gray-200 overflow-hidden flex-shrink-0 shadow-sm group-hover:shadow-md transition-shadow">
+                              {product.imageUrl ? (
+                                <img src={product.imageUrl} alt={product.name} loading="lazy" className="w-full h-full object-cover" />
+                              ) : (
+                                <Package className="w-7 h-7 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-gray-400" />
+                              )}
+                            </div>
+                            <div className="min-w-0 max-h-14 overflow-hidden">
+                              <p className="font-semibold leading-5 text-gray-900 line-clamp-1 group-hover:text-blue-600 transition-colors">
+                                {product.name}
+                                {!product.active && <span className="ml-2 text-[10px] font-bold uppercase text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded">Archived</span>}
+                              </p>
+                              <p className="text-xs text-gray-500 mt-0.5 line-clamp-1">{product.description}</p>
+                              {product.variants[0]?.sku && <p className="text-[11px] leading-4 text-gray-400 font-mono truncate">{product.variants[0].sku}</p>}
+                            </div>
                           </div>
-                          <div className="min-w-0">
-                            <p className="font-semibold text-gray-900 line-clamp-1 group-hover:text-blue-600 transition-colors">{product.name}</p>
-                            <p className="text-xs text-gray-500 mt-0.5 line-clamp-1">{product.description}</p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold whitespace-nowrap bg-gradient-to-r from-gray-100 to-gray-200 text-gray-800 border border-gray-300">
+                            {product.category}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="text-sm whitespace-nowrap">
+                            <span className="font-bold text-gray-900 text-base">{money(product.price)}</span>
+                            <span className="text-gray-500 text-xs ml-1.5">/ {product.unit}</span>
                           </div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-gradient-to-r from-gray-100 to-gray-200 text-gray-800 border border-gray-300">
-                          {product.category}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="text-sm">
-                          <span className="font-bold text-gray-900 text-base">${product.price.toFixed(2)}</span>
-                          <span className="text-gray-500 text-xs ml-1.5">/ {product.unit}</span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <StatusBadge
-                          className={
-                            product.stock === 0 ? 'bg-red-100 text-red-700 border-red-300' :
-                              product.stock < 10 ? 'bg-amber-100 text-amber-700 border-amber-300' :
-                                'bg-green-100 text-green-700 border-green-300'
-                          }
-                        >
-                          {product.stock === 0 ? 'Out of Stock' : product.stock < 10 ? `Low (${product.stock})` : `In Stock (${product.stock})`}
-                        </StatusBadge>
-                      </td>
-                      <td className="px-6 py-4 text-right">
-                        <div className="flex items-center justify-end gap-2 md:opacity-0 md:group-hover:opacity-100 transition-opacity duration-200">
-                          <button
-                            onClick={() => setEditingProduct(product)}
-                            className="p-2.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 hover:scale-110 border border-transparent hover:border-blue-200"
-                            title="Edit"
+                          {product.variants.length > 1 && (
+                            <p
+                              className="text-[11px] font-medium text-blue-600 mt-1 line-clamp-1"
+                              title={product.variants.map(v => `${v.unit}: ${money(v.price)}`).join('\n')}
+                            >
+                              +{product.variants.length - 1} more {product.variants.length === 2 ? 'size' : 'sizes'}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <StatusBadge
+                            className={
+                              level === 'OUT_OF_STOCK' ? 'bg-red-100 text-red-700 border-red-300' :
+                                level === 'LOW_STOCK' ? 'bg-amber-100 text-amber-700 border-amber-300' :
+                                  'bg-green-100 text-green-700 border-green-300'
+                            }
                           >
-                            <Edit3 size={18} />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(product.id)}
-                            className="p-2.5 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 hover:scale-110 border border-transparent hover:border-red-200"
-                            title="Delete"
+                            {level === 'OUT_OF_STOCK' ? 'Out of Stock' : level === 'LOW_STOCK' ? `Low (${product.stock})` : `In Stock (${product.stock})`}
+                          </StatusBadge>
+                          <p
+                            className="text-[11px] text-gray-400 mt-1 line-clamp-1"
+                            title={product.variants.length > 1 ? product.variants.map(v => `${v.unit}: ${v.stock} in stock`).join('\n') : undefined}
                           >
-                            <Trash2 size={18} />
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
+                            Reorder at {reorderPoint}
+                            {product.variants.length > 1 && ` · ${product.variants.map(v => `${v.unit} ${v.stock}`).join(', ')}`}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <div className="flex items-center justify-end gap-2 md:opacity-0 md:group-hover:opacity-100 transition-opacity duration-200">
+                            <button
+                              onClick={() => setHistoryProduct(product)}
+                              className="p-2.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200 hover:scale-110 border border-transparent hover:border-gray-200"
+                              title="Stock history"
+                            >
+                              <History size={18} />
+                            </button>
+                            <button
+                              onClick={() => setEditingProduct(product)}
+                              disabled={!canEdit}
+                              className="p-2.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 hover:scale-110 border border-transparent hover:border-blue-200 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:scale-100"
+                              title={canEdit ? 'Edit' : NO_PERMISSION_HINT}
+                            >
+                              <Edit3 size={18} />
+                            </button>
+                            {product.active ? (
+                              <button
+                                onClick={() => setArchivingProduct(product)}
+                                disabled={!canDelete}
+                                className="p-2.5 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 hover:scale-110 border border-transparent hover:border-red-200 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:scale-100"
+                                title={canDelete ? 'Archive' : NO_PERMISSION_HINT}
+                              >
+                                <Archive size={18} />
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => restoreMutation.mutate(product)}
+                                disabled={!canDelete || restoreMutation.isPending}
+                                className="p-2.5 text-green-600 hover:bg-green-50 rounded-lg transition-all duration-200 hover:scale-110 border border-transparent hover:border-green-200 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:scale-100"
+                                title={canDelete ? 'Restore' : NO_PERMISSION_HINT}
+                              >
+                                <ArchiveRestore size={18} />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {paddingBottom > 0 && <tr style={{ height: paddingBottom }} aria-hidden />}
                 </tbody>
               </table>
             </div>
 
-            {totalPages > 1 && (
-              <Pagination
-                currentPage={page}
-                totalPages={totalPages}
-                onPageChange={setPage}
-              />
-            )}
+            <div className="flex flex-col md:flex-row items-center justify-between gap-3 px-4 border-t border-gray-100">
+              <label className="flex items-center gap-2 text-sm text-gray-500 py-3">
+                Rows per page
+                <select
+                  value={pageSize}
+                  onChange={(e) => updateFilters({ size: Number(e.target.value), page: 1 })}
+                  className="px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg outline-none text-gray-700 cursor-pointer"
+                >
+                  {PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+              </label>
+              {totalPages > 1 && (
+                <Pagination
+                  currentPage={page}
+                  totalPages={totalPages}
+                  onPageChange={setPage}
+                />
+              )}
+            </div>
           </>
         )}
       </div>
 
       {/* Modals */}
       {isAddModalOpen && <AddProductModal onClose={() => setIsAddModalOpen(false)} />}
-      {editingProduct && <EditProductModal product={editingProduct} onClose={() => setEditingProduct(null)} />}
+      {isImportModalOpen && <ImportProductsModal onClose={() => setIsImportModalOpen(false)} />}
+      {editingProduct && (
+        <EditProductModal
+          product={editingProduct}
+          variantId={filters.variant || undefined}
+          onClose={() => setEditingProduct(null)}
+          onViewHistory={() => setHistoryProduct(editingProduct)}
+        />
+      )}
+      {archivingProduct && <ArchiveProductModal product={archivingProduct} onClose={() => setArchivingProduct(null)} />}
+      {historyProduct && <StockHistoryModal product={historyProduct} onClose={() => setHistoryProduct(null)} />}
     </div>
   );
 };
@@ -1,14 +1,17 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { useMutation } from '@tanstack/react-query';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { ShoppingBag, Lock, Phone, ArrowRight, Eye, EyeOff } from 'lucide-react';
-import { AxiosError } from 'axios';
-import api from '../api/axios';
-import type { LoginRequest, LoginResponse } from '../types/auth';
+import { authApi } from '../api/auth';
+import { getErrorMessage } from '../api/errors';
+import { safeReturnTo, saveSession } from '../api/session';
+import type { LoginRequest } from '../types/auth';
 
 const Login = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnTo = safeReturnTo(searchParams.get('returnTo'));
   const [showPassword, setShowPassword] = useState(false);
 
   // 1. Setup Form Handling
@@ -17,24 +20,15 @@ const Login = () => {
 
   // 2. Setup API Mutation
   const loginMutation = useMutation({
-    mutationFn: async (data: LoginRequest) => {
-      // We post to /auth/login as per your requirement
-      const response = await api.post<LoginResponse>('/auth/login', data);
-      return response.data;
+    mutationFn: authApi.login,
+    onSuccess: (result) => {
+      // Save session and send the admin back to where their session expired
+      saveSession(result);
+      navigate(returnTo || '/dashboard', { replace: true });
     },
-    onSuccess: (response) => {
-      if (response.success) {
-        // Save token and redirect
-        localStorage.setItem('token', response.data.token);
-        localStorage.setItem('role', response.data.role);
-        navigate('/dashboard'); // We will build this page next
-      } else {
-        setErrorMessage(response.message || 'Login failed');
-      }
-    },
-    onError: (error: AxiosError<{ message: string }>) => {
-      const msg = error.response?.data?.message || 'Something went wrong. Please try again.';
-      setErrorMessage(msg);
+    onError: (error) => {
+      // A `success: false` body arrives here as a REJECTED ApiError carrying the backend message
+      setErrorMessage(getErrorMessage(error, 'Login failed'));
     }
   });
 
@@ -60,6 +54,13 @@ const Login = () => {
         <div className="p-8">
           <h2 className="text-xl font-semibold text-gray-800 mb-6">Sign In</h2>
 
+          {/* Session Expired Notice */}
+          {returnTo && !errorMessage && (
+            <div className="mb-4 p-3 rounded bg-amber-50 text-amber-700 text-sm border border-amber-100">
+              Your session expired. Sign in again to continue where you left off.
+            </div>
+          )}
+
           {/* Error Alert */}
           {errorMessage && (
             <div className="mb-4 p-3 rounded bg-red-50 text-red-600 text-sm border border-red-100">
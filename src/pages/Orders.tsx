@@ -1,20 +1,45 @@
-import { useState, useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import {
-  Search, Calendar, MoreHorizontal, Phone, MapPin, Clock, Loader2, X,
-  Check, Package, Truck, Home, AlertCircle, FileText, ChevronDown
+  Search, Calendar, Phone, MapPin, Clock, Loader2, X,
+  Check, Package, Truck, Home, AlertCircle, FileText, ScanBarcode,
+  CheckSquare, Square, Ban, Download, Pencil, Undo2, ClipboardList
 } from 'lucide-react';
-import { format, parseISO } from 'date-fns';
-import api from '../api/axios';
+import { ordersApi } from '../api/orders';
+import { refundsApi } from '../api/refunds';
+import { getErrorMessage } from '../api/errors';
 
 // --- Components ---
 import { LiveIndicator } from '../components/LiveIndicator';
+import ScanToPackPanel from '../components/orders/ScanToPackPanel';
+import CancelOrderModal from '../components/orders/CancelOrderModal';
+import BulkResultsModal from '../components/orders/BulkResultsModal';
+import OrderItemsEditor from '../components/orders/OrderItemsEditor';
+import RefundModal from '../components/refunds/RefundModal';
+import RefundList from '../components/refunds/RefundList';
 import { Pagination } from '../components/Pagination';
-import type { OrdersApiResponse, OrderStatus, OrderDetailsResponse, TimelineResponse } from '../types/orders';
+import { usePermissions } from '../hooks/usePermissions';
+import { usePollingInterval } from '../hooks/useRealtimeStatus';
+import { useDebouncedInput, useUrlState } from '../hooks/useUrlState';
+import { useScanToPack } from '../hooks/useScanToPack';
+import { useFormatters } from '../hooks/useFormatters';
+import { useOrderTransition } from '../hooks/useOrderTransition';
+import { ORDER_BULK_TITLES, useOrderBulkActions, type OrderBulkAction } from '../hooks/useOrderBulkActions';
+import { FilterPresets } from '../components/FilterPresets';
+import { NO_PERMISSION_HINT } from '../utils/permissions';
+import { downloadBlob } from '../utils/helpers';
+import { downloadOrdersCsv } from '../utils/orderExport';
+import { idsWithOutcome } from '../utils/bulk';
+import { isEditableOrder, ORDER_EDIT_PERMISSION } from '../utils/orderEdits';
+import { isRefundableOrder, REFUND_REQUEST_PERMISSION } from '../utils/refunds';
+import { CANCELLATION_REASONS, findTransition, ORDER_STATUS_LABELS, transitionsFrom } from '../utils/orderStateMachine';
+import type { Order, OrderStatus } from '../types/orders';
 
 // --- Config ---
 const ITEMS_PER_PAGE = 9;
+const ORDER_FILTER_KEYS = ['status', 'phone', 'from', 'to'] as const;
 
 const TABS: { label: string; value: OrderStatus | '' }[] = [
   { label: 'All', value: '' },
@@ -25,6 +50,10 @@ const TABS: { label: string; value: OrderStatus | '' }[] = [
   { label: 'Cancelled', value: 'CANCELLED' },
 ];
 
+// Permissions for the bulk moves come from the state machine
+const PACK_MOVE = findTransition('ORDER_PLACED', 'PACKED')!;
+const CANCEL_MOVE = findTransition('ORDER_PLACED', 'CANCELLED')!;
+
 const ORDER_STEPS: { label: string; status: OrderStatus; icon: React.ElementType }[] = [
   { label: 'Pending', status: 'ORDER_PLACED', icon: Clock },
   { label: 'Packed', status: 'PACKED', icon: Package },
@@ -36,86 +65,67 @@ const ORDER_STEPS: { label: string; status: OrderStatus; icon: React.ElementType
 // SUB-COMPONENT: ORDER DETAILS MODAL
 // ==========================================
 const OrderDetailsModal = ({ orderId, onClose }: { orderId: number; onClose: () => void }) => {
-  const queryClient = useQueryClient();
-  const [isStatusDropdownOpen, setIsStatusDropdownOpen] = useState(false);
+  const { can } = usePermissions();
+  const { money, dateTime, time, dayMonth } = useFormatters();
+  const canUpdate = can('orders:update');
+  const [isPacking, setIsPacking] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
 
   // 1. Fetch Order Details
   const { data: detailsRes, isLoading: isLoadingDetails } = useQuery({
     queryKey: ['order-details', orderId],
-    queryFn: async () => {
-      const res = await api.get<OrderDetailsResponse>(`/admin/orders/getdetails/${orderId}`);
-      return res.data.data;
-    }
+    queryFn: () => ordersApi.getDetails(orderId)
   });
 
   // 2. Fetch Timeline
   const { data: timelineRes, isLoading: isLoadingTimeline } = useQuery({
     queryKey: ['order-timeline', orderId],
-    queryFn: async () => {
-      const res = await api.get<TimelineResponse>(`/admin/orders/${orderId}/timeline`);
-      return res.data.data;
-    }
+    queryFn: () => ordersApi.getTimeline(orderId)
+  });
+
+  // 3. Refunds asked for or paid on this order
+  const { data: refunds = [] } = useQuery({
+    queryKey: ['refunds', 'order', orderId],
+    queryFn: () => refundsApi.forOrder(orderId)
   });
 
-  // 3. Invoice Download
+  // 4. Invoice Download
   const downloadInvoiceMutation = useMutation({
-    mutationFn: async () => {
-      const res = await api.get(`/admin/orders/${orderId}/receipt`, { responseType: 'blob' });
-      return res.data;
-    },
+    mutationFn: () => ordersApi.downloadReceipt(orderId),
     onSuccess: (data) => {
-      const url = window.URL.createObjectURL(new Blob([data]));
-      const link = document.createElement('a');
-      link.href = url;
-      link.setAttribute('download', `Invoice-${orderId}.pdf`);
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
+      downloadBlob(data, `Invoice-${orderId}.pdf`);
       toast.success('Invoice downloaded');
     },
-    onError: () => toast.error('Failed to download invoice')
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to download invoice'))
   });
 
-  // 4. Update Status
-  const updateStatusMutation = useMutation({
-    mutationFn: async (newStatus: OrderStatus) => {
-      return await api.patch(`/admin/orders/${orderId}/status`, { status: newStatus });
-    },
-    onSuccess: (_, newStatus) => {
-      queryClient.invalidateQueries({ queryKey: ['orders'] });
-      queryClient.invalidateQueries({ queryKey: ['order-details', orderId] });
-      queryClient.invalidateQueries({ queryKey: ['order-timeline', orderId] });
-      toast.success(`Order status updated to ${newStatus}`);
-      setIsStatusDropdownOpen(false);
-      // Auto-close modal after successful update
-      setTimeout(() => onClose(), 500);
-    },
-    onError: () => toast.error('Failed to update status')
+  // 5. Status changes (including cancelling) follow ORDER_TRANSITIONS and can be undone from the toast
+  const transitionMutation = useOrderTransition(() => {
+    setIsCancelling(false);
+    // Auto-close modal after successful update
+    setTimeout(() => onClose(), 500);
   });
 
-  // 5. Cancel Order
-  const cancelOrderMutation = useMutation({
-    mutationFn: async () => {
-      return await api.patch(`/admin/orders/${orderId}/cancel`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['orders'] });
-      queryClient.invalidateQueries({ queryKey: ['order-details', orderId] });
-      queryClient.invalidateQueries({ queryKey: ['order-timeline', orderId] });
-      toast.success('Order cancelled successfully');
-      // Auto-close modal after successful cancellation
-      setTimeout(() => onClose(), 500);
-    },
-    onError: () => toast.error('Failed to cancel order')
-  });
-
-  const getNextAction = (currentStatus: OrderStatus) => {
-    switch (currentStatus) {
-      case 'ORDER_PLACED': return { label: 'Ready to Pack', next: 'PACKED' as OrderStatus };
-      case 'PACKED': return { label: 'Ship Order', next: 'OUT_FOR_DELIVERY' as OrderStatus };
-      case 'OUT_FOR_DELIVERY': return { label: 'Mark Delivered', next: 'DELIVERED' as OrderStatus };
-      default: return null;
+  // 6. Scan to Pack: while it's on, PACKED needs every item scanned and nothing extra in the box
+  const packing = useScanToPack(detailsRes?.items ?? [], isPacking);
+  const packingProblem = !isPacking || packing.isComplete ? null : [
+    packing.missing.length > 0 && `${packing.missing.length} ${packing.missing.length === 1 ? 'item is' : 'items are'} not fully packed`,
+    packing.flags.length > 0 && `${packing.flags.length} wrong ${packing.flags.length === 1 ? 'scan needs' : 'scans need'} taking out`,
+  ].filter(Boolean).join('; ');
+
+  const changeStatus = (status: OrderStatus) => {
+    if (status === 'PACKED' && packingProblem) {
+      toast.error(`Can't mark as packed: ${packingProblem}`);
+      return;
     }
+    transitionMutation.mutate({ orderId, from: detailsRes!.status, to: status });
+  };
+
+  const stopPacking = () => {
+    setIsPacking(false);
+    packing.reset();
   };
 
   if (isLoadingDetails || isLoadingTimeline) {
@@ -131,8 +141,16 @@ const OrderDetailsModal = ({ orderId, onClose }: { orderId: number; onClose: ()
 
   const details = detailsRes!;
   const timeline = timelineRes || [];
-  const nextAction = getNextAction(details.status);
+  // The journey follows status changes; item edits and refunds are listed separately for the customer
+  const statusEvents = timeline.filter(t => t.kind === 'STATUS_CHANGE');
+  const orderUpdates = timeline.filter(t => t.kind !== 'STATUS_CHANGE');
+  const canEditItems = isEditableOrder(details.status);
   const isCancelled = details.status === 'CANCELLED';
+  // Buttons come straight from the state machine: the forward moves, then cancel if still possible
+  const forwardMoves = transitionsFrom(details.status).filter(t => !t.requiresReason);
+  const cancelMove = findTransition(details.status, 'CANCELLED');
+  const canPack = !!findTransition(details.status, 'PACKED');
+  const cancellationLabel = CANCELLATION_REASONS.find(r => r.value === details.cancellationReason)?.label;
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm overflow-y-auto">
@@ -152,36 +170,15 @@ const OrderDetailsModal = ({ orderId, onClose }: { orderId: number; onClose: ()
                 {details.status.replace(/_/g, ' ')}
               </span>
             </div>
-            <p className="text-gray-500 text-sm mt-1">Placed on {format(parseISO(details.createdAt), 'MMM dd, yyyy at hh:mm a')}</p>
+            <p className="text-gray-500 text-sm mt-1">Placed on {dateTime(details.createdAt)}</p>
+            {isCancelled && (
+              <p className="text-red-600 text-sm mt-1">
+                Cancelled: {cancellationLabel ?? 'No reason recorded'}{details.cancellationNote && ` · ${details.cancellationNote}`}
+              </p>
+            )}
           </div>
 
           <div className="flex items-center gap-3">
-            {!isCancelled && details.status !== 'DELIVERED' && (
-              <div className="relative">
-                <button
-                  onClick={() => setIsStatusDropdownOpen(!isStatusDropdownOpen)}
-                  className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
-                >
-                  Update Status <ChevronDown size={16} />
-                </button>
-                {isStatusDropdownOpen && (
-                  <>
-                    <div className="fixed inset-0 z-10" onClick={() => setIsStatusDropdownOpen(false)}></div>
-                    <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-100 rounded-xl shadow-lg overflow-hidden py-1 z-20">
-                      {ORDER_STEPS.map(step => (
-                        <button
-                          key={step.status}
-                          onClick={() => updateStatusMutation.mutate(step.status)}
-                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 hover:text-blue-600"
-                        >
-                          Mark as {step.label}
-                        </button>
-                      ))}
-                    </div>
-                  </>
-                )}
-              </div>
-            )}
             <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors">
               <X size={24} />
             </button>
@@ -198,8 +195,8 @@ const OrderDetailsModal = ({ orderId, onClose }: { orderId: number; onClose: ()
                 style={{ width: isCancelled ? '0%' : details.status === 'DELIVERED' ? '100%' : details.status === 'OUT_FOR_DELIVERY' ? '66%' : details.status === 'PACKED' ? '33%' : '0%' }}>
               </div>
               {ORDER_STEPS.map((step) => {
-                const isCompleted = timeline.some(t => t.status === step.status);
-                const eventData = timeline.find(t => t.status === step.status);
+                const isCompleted = statusEvents.some(t => t.status === step.status);
+                const eventData = statusEvents.find(t => t.status === step.status);
                 const isCurrent = details.status === step.status;
                 return (
                   <div key={step.status} className="flex flex-col items-center relative z-10">
@@ -212,7 +209,7 @@ const OrderDetailsModal = ({ orderId, onClose }: { orderId: number; onClose: ()
                     </p>
                     {eventData && (
                       <p className="text-[10px] text-gray-400 font-medium mt-0.5">
-                        {format(parseISO(eventData.timestamp), 'hh:mm a, MMM dd')}
+                        {time(eventData.timestamp)}, {dayMonth(eventData.timestamp)}
                       </p>
                     )}
                   </div>
@@ -247,64 +244,153 @@ const OrderDetailsModal = ({ orderId, onClose }: { orderId: number; onClose: ()
           </div>
 
           {/* Items */}
-          <div>
-            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">Ordered Items</h3>
-            <div className="border border-gray-100 rounded-xl overflow-hidden">
-              <table className="w-full text-left text-sm">
-                <thead className="bg-gray-50 text-gray-500 font-medium border-b border-gray-100">
-                  <tr>
-                    <th className="px-6 py-3">Product</th>
-                    <th className="px-6 py-3 text-center">Qty</th>
-                    <th className="px-6 py-3 text-right">Price</th>
-                    <th className="px-6 py-3 text-right">Total</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-100">
-                  {details.items.map((item, idx) => (
-                    <tr key={idx}>
-                      <td className="px-6 py-4 font-medium text-gray-900 flex items-center gap-3">
-                        <div className="w-8 h-8 rounded bg-gray-100 flex items-center justify-center text-gray-400"><Package size={14} /></div>
-                        {item.productName}
-                      </td>
-                      <td className="px-6 py-4 text-center text-gray-600">{item.quantity}</td>
-                      <td className="px-6 py-4 text-right text-gray-600">₹{item.price.toFixed(2)}</td>
-                      <td className="px-6 py-4 text-right font-bold text-gray-900">₹{item.total.toFixed(2)}</td>
+          {isEditing ? (
+            <OrderItemsEditor details={details} onDone={() => setIsEditing(false)} />
+          ) : isPacking ? (
+            <ScanToPackPanel items={details.items} packing={packing} />
+          ) : (
+            <div>
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">Ordered Items</h3>
+              <div className="border border-gray-100 rounded-xl overflow-hidden">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-50 text-gray-500 font-medium border-b border-gray-100">
+                    <tr>
+                      <th className="px-6 py-3">Product</th>
+                      <th className="px-6 py-3 text-center">Qty</th>
+                      <th className="px-6 py-3 text-right">Price</th>
+                      <th className="px-6 py-3 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {details.items.map((item, idx) => (
+                      <tr key={idx}>
+                        <td className="px-6 py-4 font-medium text-gray-900 flex items-center gap-3">
+                          <div className="w-8 h-8 rounded bg-gray-100 flex items-center justify-center text-gray-400"><Package size={14} /></div>
+                          <div>
+                            {item.productName}
+                            {item.unit && <p className="text-xs font-normal text-gray-500">{item.unit}</p>}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-center text-gray-600">{item.quantity}</td>
+                        <td className="px-6 py-4 text-right text-gray-600">{money(item.price)}</td>
+                        <td className="px-6 py-4 text-right font-bold text-gray-900">{money(item.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50">
+                    <tr>
+                      <td colSpan={3} className="px-6 py-4 text-right text-gray-500 font-medium">Subtotal</td>
+                      <td className="px-6 py-4 text-right font-bold text-lg text-gray-900">{money(details.totalAmount)}</td>
                     </tr>
-                  ))}
-                </tbody>
-                <tfoot className="bg-gray-50">
-                  <tr>
-                    <td colSpan={3} className="px-6 py-4 text-right text-gray-500 font-medium">Subtotal</td>
-                    <td className="px-6 py-4 text-right font-bold text-lg text-gray-900">₹{details.totalAmount.toFixed(2)}</td>
-                  </tr>
-                </tfoot>
-              </table>
+                    {details.refundedAmount > 0 && (
+                      <tr>
+                        <td colSpan={3} className="px-6 pb-4 text-right text-gray-500 font-medium">Refunded</td>
+                        <td className="px-6 pb-4 text-right font-bold text-red-600">−{money(details.refundedAmount)}</td>
+                      </tr>
+                    )}
+                  </tfoot>
+                </table>
+              </div>
             </div>
-          </div>
+          )}
+
+          {refunds.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">Refunds</h3>
+              <RefundList refunds={refunds} />
+            </div>
+          )}
+
+          {/* Customer-facing log of item changes and refunds */}
+          {orderUpdates.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">Changes to This Order</h3>
+              <ul className="space-y-3">
+                {orderUpdates.map(event => (
+                  <li key={event.id} className="flex gap-3 text-sm">
+                    {event.kind === 'REFUND'
+                      ? <Undo2 size={14} className="text-red-500 mt-1 shrink-0" />
+                      : <Pencil size={14} className="text-amber-500 mt-1 shrink-0" />}
+                    <div>
+                      <p className="text-gray-900">{event.note}</p>
+                      <p className="text-xs text-gray-400 mt-0.5">{dateTime(event.timestamp)}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
         <div className="px-8 py-5 bg-gray-50 border-t border-gray-200 rounded-b-xl flex justify-between items-center">
           <div className="flex gap-4">
-            {!isCancelled && details.status !== 'DELIVERED' && (
-              <button onClick={() => { if (confirm('Are you sure you want to cancel this order?')) cancelOrderMutation.mutate() }} className="flex items-center gap-2 text-red-600 hover:text-red-700 hover:bg-red-50 px-4 py-2 rounded-lg text-sm font-medium transition-colors">
-                <AlertCircle size={16} /> Cancel Order
+            {cancelMove && (
+              <button onClick={() => setIsCancelling(true)} disabled={!can(cancelMove.permission)} title={can(cancelMove.permission) ? undefined : NO_PERMISSION_HINT} className="flex items-center gap-2 text-red-600 hover:text-red-700 hover:bg-red-50 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent">
+                <AlertCircle size={16} /> {cancelMove.label}
               </button>
             )}
           </div>
           <div className="flex gap-3">
+            {isRefundableOrder(details.status) && (
+              <button
+                onClick={() => setIsRefunding(true)}
+                disabled={!can(REFUND_REQUEST_PERMISSION)}
+                title={can(REFUND_REQUEST_PERMISSION) ? undefined : NO_PERMISSION_HINT}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Undo2 size={16} /> Refund
+              </button>
+            )}
+            {canEditItems && !isEditing && (
+              <button
+                onClick={() => {
+                  stopPacking();
+                  setIsEditing(true);
+                }}
+                disabled={!can(ORDER_EDIT_PERMISSION)}
+                title={can(ORDER_EDIT_PERMISSION) ? undefined : NO_PERMISSION_HINT}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Pencil size={16} /> Edit Items
+              </button>
+            )}
+            {canPack && (
+              <button
+                onClick={() => (isPacking ? stopPacking() : setIsPacking(true))}
+                disabled={!canUpdate || isEditing}
+                title={canUpdate ? undefined : NO_PERMISSION_HINT}
+                className={`px-4 py-2 border rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${isPacking ? 'bg-blue-50 border-blue-300 text-blue-700 hover:bg-blue-100' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              >
+                <ScanBarcode size={16} /> {isPacking ? 'Stop Scanning' : 'Scan to Pack'}
+              </button>
+            )}
             <button onClick={() => downloadInvoiceMutation.mutate()} disabled={downloadInvoiceMutation.isPending} className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 flex items-center gap-2">
               {downloadInvoiceMutation.isPending ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />} Print Invoice
             </button>
-            {nextAction && !isCancelled && (
-              <button onClick={() => updateStatusMutation.mutate(nextAction.next)} disabled={updateStatusMutation.isPending} className="px-6 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 shadow-md shadow-blue-200 transition-all flex items-center gap-2">
-                {updateStatusMutation.isPending && <Loader2 size={16} className="animate-spin" />}
-                {nextAction.label}
-              </button>
-            )}
+            {forwardMoves.map(move => {
+              const allowed = can(move.permission);
+              const blocker = move.to === 'PACKED' ? packingProblem : null;
+              return (
+                <button key={move.to} onClick={() => changeStatus(move.to)} disabled={transitionMutation.isPending || isEditing || !allowed || !!blocker} title={allowed ? blocker || undefined : NO_PERMISSION_HINT} className="px-6 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 shadow-md shadow-blue-200 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed">
+                  {transitionMutation.isPending && transitionMutation.variables?.to === move.to && <Loader2 size={16} className="animate-spin" />}
+                  {move.label}
+                </button>
+              );
+            })}
           </div>
         </div>
       </div>
+
+      {isCancelling && (
+        <CancelOrderModal
+          title={`Cancel Order #${details.orderId}`}
+          isPending={transitionMutation.isPending}
+          onConfirm={(cancellation) => transitionMutation.mutate({ orderId, from: details.status, to: 'CANCELLED', cancellation })}
+          onClose={() => setIsCancelling(false)}
+        />
+      )}
+      {isRefunding && <RefundModal orderId={orderId} onClose={() => setIsRefunding(false)} />}
     </div>
   );
 };
@@ -313,77 +399,86 @@ const OrderDetailsModal = ({ orderId, onClose }: { orderId: number; onClose: ()
 // MAIN ORDERS COMPONENT
 // ==========================================
 const Orders = () => {
-  const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
-  const [activeTab, setActiveTab] = useState<OrderStatus | ''>('');
-  const [page, setPage] = useState(0);
+  // Filters, page and the open order live in the URL (?status=PACKED&page=2&order=123)
+  const [filters, setFilters] = useUrlState({ status: '', phone: '', from: '', to: '', page: 1, order: 0 });
+  const { money, dateTime } = useFormatters();
+  const { can } = usePermissions();
+  const activeTab = TABS.find(tab => tab.value === filters.status)?.value ?? '';
+  const page = Math.max(filters.page - 1, 0);
+  const selectedOrderId = filters.order || null;
+  const setSelectedOrderId = (id: number | null) => setFilters({ order: id ?? 0 });
+  const setPage = (index: number) => setFilters({ page: index + 1 });
 
   // Search & Dates
-  const [searchPhoneInput, setSearchPhoneInput] = useState('');
-  const [startDateInput, setStartDateInput] = useState('');
-  const [endDateInput, setEndDateInput] = useState('');
-
-  // Computed Query Keys
-  const [debouncedPhone, setDebouncedPhone] = useState('');
-  const [queryDates, setQueryDates] = useState<{ from: string, to: string } | null>(null);
-
-  useEffect(() => {
-    const handler = setTimeout(() => { setDebouncedPhone(searchPhoneInput); setPage(0); }, 500);
-    return () => clearTimeout(handler);
-  }, [searchPhoneInput]);
-
-  const handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    setStartDateInput(val);
-    if (val && endDateInput) {
-      setQueryDates({ from: val, to: endDateInput });
-      setPage(0);
-    } else if (!val && !endDateInput) {
-      setQueryDates(null);
-      setPage(0);
-    }
-  };
+  const [searchPhoneInput, setSearchPhoneInput] = useDebouncedInput(
+    filters.phone,
+    (phone) => setFilters({ phone, page: 1 }, { replace: true })
+  );
+  // The range only applies once both ends are picked
+  const queryDates = filters.from && filters.to ? { from: filters.from, to: filters.to } : null;
+
+  const handleClearDates = () => setFilters({ from: '', to: '', page: 1 });
+
+  // --- API Fetch (polls only while the live stream is down) ---
+  const refetchInterval = usePollingInterval(15000);
+  const { data: ordersPage, isLoading, isFetching } = useQuery({
+    queryKey: ['orders', page, activeTab, filters.phone, queryDates],
+    queryFn: () => ordersApi.list({
+      page,
+      size: ITEMS_PER_PAGE,
+      status: activeTab,
+      phone: filters.phone,
+      startDate: queryDates?.from,
+      endDate: queryDates?.to,
+    }),
+    // Removed placeholderData to allow immediate updates
+    refetchInterval,
+  });
 
-  const handleEndDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    setEndDateInput(val);
-    if (startDateInput && val) {
-      setQueryDates({ from: startDateInput, to: val });
-      setPage(0);
-    } else if (!startDateInput && !val) {
-      setQueryDates(null);
-      setPage(0);
-    }
+  const orders = ordersPage?.content || [];
+  const totalPages = ordersPage?.totalPages || 0;
+
+  // --- Selection (kept across pages and filters until cleared) ---
+  const [selected, setSelected] = useState<Map<number, Order>>(new Map());
+  // Prefer the freshest copy so eligibility follows live status changes
+  const selectedOrders = [...selected.values()].map(o => orders.find(current => current.id === o.id) ?? o);
+  const isPageSelected = orders.length > 0 && orders.every(o => selected.has(o.id));
+  const [isCancellingSelected, setIsCancellingSelected] = useState(false);
+
+  const toggleSelection = (order: Order) => {
+    const next = new Map(selected);
+    if (next.has(order.id)) next.delete(order.id);
+    else next.set(order.id, order);
+    setSelected(next);
   };
 
-  const handleClearDates = () => {
-    setStartDateInput('');
-    setEndDateInput('');
-    setQueryDates(null);
-    setPage(0);
+  const toggleSelectPage = () => {
+    const next = new Map(selected);
+    orders.forEach(o => (isPageSelected ? next.delete(o.id) : next.set(o.id, o)));
+    setSelected(next);
   };
 
-  // --- API Fetch ---
-  const { data: response, isLoading, isFetching, error } = useQuery({
-    queryKey: ['orders', page, activeTab, debouncedPhone, queryDates],
-    queryFn: async () => {
-      console.log('Fetching orders with params:', { page, activeTab, debouncedPhone, queryDates });
-      const params: Record<string, string | number> = { page: page, size: ITEMS_PER_PAGE };
-      if (activeTab) params.status = activeTab;
-      if (debouncedPhone) params.phone = debouncedPhone;
-      if (queryDates) { params.from = queryDates.from; params.to = queryDates.to; }
-
-      const res = await api.get<OrdersApiResponse>('/admin/orders', { params });
-      console.log('Orders API Response:', res.data);
-      return res.data;
-    },
-    // Removed placeholderData to allow immediate updates
-    refetchInterval: 15000,
+  // --- Bulk actions: orders that went through leave the selection, failures stay for a retry ---
+  const bulk = useOrderBulkActions((results) => {
+    const done = new Set(idsWithOutcome(results, 'succeeded'));
+    setSelected(prev => new Map([...prev].filter(([id]) => !done.has(id))));
+    setIsCancellingSelected(false);
   });
-
-  console.log('Render State:', { isLoading, isFetching, error, response });
-
-  const orders = response?.data?.content || [];
-  const totalPages = response?.data?.totalPages || 0;
+  const packable = selectedOrders.filter(o => findTransition(o.status, 'PACKED')).length;
+  const cancellable = selectedOrders.filter(o => findTransition(o.status, 'CANCELLED')).length;
+
+  const bulkButton = (action: OrderBulkAction, icon: React.ReactNode, label: string, onClick: () => void, blocker: string | null) => (
+    <button
+      key={action}
+      onClick={onClick}
+      disabled={bulk.isPending || !!blocker}
+      title={blocker ?? undefined}
+      className="bg-white text-blue-600 px-4 py-2 rounded-lg text-sm font-bold hover:bg-blue-50 transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed whitespace-nowrap flex items-center gap-2 active:scale-95"
+    >
+      {bulk.pendingAction === action ? <Loader2 size={16} className="animate-spin" /> : icon}
+      {label}
+    </button>
+  );
 
   const getStatusColor = (status: OrderStatus) => {
     switch (status) {
@@ -396,28 +491,102 @@ const Orders = () => {
     }
   };
 
-  const formatStatus = (status: OrderStatus) => {
-    if (!status) return 'Unknown';
-    if (status === 'ORDER_PLACED') return 'Pending';
-    if (status === 'OUT_FOR_DELIVERY') return 'On The Way';
-    return status.charAt(0) + status.slice(1).toLowerCase();
-  };
-
   return (
-    <div className="space-y-6 max-w-[1600px] mx-auto font-sans">
+    <div className={`space-y-6 max-w-[1600px] mx-auto font-sans ${selected.size > 0 ? 'pb-28' : ''}`}>
 
       {selectedOrderId && (
         <OrderDetailsModal orderId={selectedOrderId} onClose={() => setSelectedOrderId(null)} />
       )}
 
+      {isCancellingSelected && (
+        <CancelOrderModal
+          title={`Cancel ${cancellable} ${cancellable === 1 ? 'Order' : 'Orders'}`}
+          isPending={bulk.isPending}
+          onConfirm={(cancellation) => bulk.start({ action: 'cancel', orders: selectedOrders, cancellation })}
+          onClose={() => setIsCancellingSelected(false)}
+        />
+      )}
+
+      {bulk.run && (
+        <BulkResultsModal
+          title={ORDER_BULK_TITLES[bulk.run.request.action]}
+          results={bulk.run.results}
+          describe={(id) => {
+            const order = bulk.run!.request.orders.find(o => o.id === id);
+            return `#${id} · ${order?.customerName || 'Guest Customer'}`;
+          }}
+          isRetrying={bulk.isPending}
+          onRetry={bulk.retry}
+          onClose={bulk.dismiss}
+        />
+      )}
+
+      {/* Floating bulk action bar */}
+      {selected.size > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 w-[90%] max-w-5xl bg-blue-600 text-white p-3 rounded-xl shadow-2xl z-30 animate-slide-up-bounce flex flex-col md:flex-row items-center justify-between gap-4 border border-blue-500/50 backdrop-blur-sm">
+          <div className="flex items-center gap-4 pl-4">
+            <div className="w-10 h-10 rounded-full bg-blue-500 flex items-center justify-center">
+              <CheckSquare size={20} className="text-white" />
+            </div>
+            <div>
+              <p className="font-bold">{selected.size} {selected.size === 1 ? 'Order' : 'Orders'} Selected</p>
+              <p className="text-xs text-blue-100">{packable} can be packed · {cancellable} can be cancelled</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {bulkButton('pack', <Package size={16} />, 'Mark Packed', () => bulk.start({ action: 'pack', orders: selectedOrders }),
+              !can(PACK_MOVE.permission) ? NO_PERMISSION_HINT : packable === 0 ? 'None of the selected orders can be packed' : null)}
+            {bulkButton('cancel', <Ban size={16} />, 'Cancel…', () => setIsCancellingSelected(true),
+              !can(CANCEL_MOVE.permission) ? NO_PERMISSION_HINT : cancellable === 0 ? 'None of the selected orders can be cancelled' : null)}
+            {bulkButton('invoices', <FileText size={16} />, 'Print Invoices', () => bulk.start({ action: 'invoices', orders: selectedOrders }), null)}
+            <Link
+              to={`/orders/print?ids=${selectedOrders.map(o => o.id).join(',')}`}
+              target="_blank"
+              className="bg-white text-blue-600 px-4 py-2 rounded-lg text-sm font-bold hover:bg-blue-50 transition-all duration-200 whitespace-nowrap flex items-center gap-2 active:scale-95"
+            >
+              <ClipboardList size={16} /> Pick & Pack Sheets
+            </Link>
+            <button
+              onClick={() => downloadOrdersCsv(selectedOrders)}
+              className="bg-white text-blue-600 px-4 py-2 rounded-lg text-sm font-bold hover:bg-blue-50 transition-all duration-200 whitespace-nowrap flex items-center gap-2 active:scale-95"
+            >
+              <Download size={16} /> Export CSV
+            </button>
+            <button onClick={() => setSelected(new Map())} className="p-2 hover:bg-blue-700 rounded-full transition-all duration-200" title="Clear selection">
+              <X size={20} className="text-blue-200 hover:text-white" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
           <h2 className="text-2xl font-bold text-gray-800">Orders Management</h2>
           <p className="text-sm text-gray-500 mt-1">Track and manage customer orders.</p>
         </div>
-        {/* Live Indicator Added Here */}
-        <LiveIndicator isFetching={isFetching} />
+        <div className="flex items-center gap-3">
+          <button
+            onClick={toggleSelectPage}
+            disabled={orders.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isPageSelected ? <CheckSquare size={18} className="text-blue-600" /> : <Square size={18} />}
+            Select Page
+          </button>
+          {/* Opens in a new tab so the grid and selection stay put while printing */}
+          <Link
+            to="/orders/print?view=pick"
+            target="_blank"
+            title="Pick list for every order waiting to be packed"
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50"
+          >
+            <ClipboardList size={18} /> Pick List
+          </Link>
+          <FilterPresets scope="orders" keys={ORDER_FILTER_KEYS} />
+          {/* Live Indicator Added Here */}
+          <LiveIndicator isFetching={isFetching} />
+        </div>
       </div>
 
       {/* Filters */}
@@ -430,17 +599,17 @@ const Orders = () => {
           <div className="flex items-center gap-2 w-full md:w-auto overflow-x-auto">
             <div className="flex items-center gap-2 border border-gray-200 rounded-lg px-3 py-2 bg-gray-50">
               <Calendar size={16} className="text-gray-500" />
-              <input type="date" value={startDateInput} onChange={handleStartDateChange} className="bg-transparent text-sm text-gray-700 outline-none w-32 cursor-pointer" />
+              <input type="date" value={filters.from} onChange={(e) => setFilters({ from: e.target.value, page: 1 })} className="bg-transparent text-sm text-gray-700 outline-none w-32 cursor-pointer" />
               <span className="text-gray-400">-</span>
-              <input type="date" value={endDateInput} onChange={handleEndDateChange} className="bg-transparent text-sm text-gray-700 outline-none w-32 cursor-pointer" />
+              <input type="date" value={filters.to} onChange={(e) => setFilters({ to: e.target.value, page: 1 })} className="bg-transparent text-sm text-gray-700 outline-none w-32 cursor-pointer" />
             </div>
-            {(startDateInput || endDateInput) && <button onClick={handleClearDates} className="text-xs text-red-500 hover:text-red-700 font-medium px-2">Clear</button>}
+            {(filters.from || filters.to) && <button onClick={handleClearDates} className="text-xs text-red-500 hover:text-red-700 font-medium px-2">Clear</button>}
           </div>
         </div>
         <div className="border-t border-gray-100 pt-4 overflow-x-auto">
           <div className="flex gap-2">
             {TABS.map((tab) => (
-              <button key={tab.label} onClick={() => { setActiveTab(tab.value); setPage(0); }} className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${activeTab === tab.value ? 'bg-blue-600 text-white shadow-sm' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'}`}>{tab.label}</button>
+              <button key={tab.label} onClick={() => setFilters({ status: tab.value, page: 1 })} className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${activeTab === tab.value ? 'bg-blue-600 text-white shadow-sm' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'}`}>{tab.label}</button>
             ))}
           </div>
         </div>
@@ -460,20 +629,30 @@ const Orders = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-fade-in">
           {orders.map((order) => {
             if (!order) return null;
+            const isSelected = selected.has(order.id);
             return (
-              <div key={order.id} onClick={() => setSelectedOrderId(order.id)} className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm hover:shadow-lg transition-all duration-300 cursor-pointer ring-2 ring-transparent hover:ring-blue-500/20 hover:-translate-y-1">
+              <div key={order.id} onClick={() => setSelectedOrderId(order.id)} className={`bg-white rounded-xl p-6 border shadow-sm hover:shadow-lg transition-all duration-300 cursor-pointer ring-2 hover:-translate-y-1 ${isSelected ? 'border-blue-500 ring-blue-500' : 'border-gray-200 ring-transparent hover:ring-blue-500/20'}`}>
                 <div className="flex justify-between items-start mb-4">
                   <div><span className="text-xs font-bold text-blue-600 bg-blue-50 px-2.5 py-1 rounded transition-all duration-200 hover:bg-blue-100">#{order.id}</span><h3 className="font-bold text-gray-900 text-lg mt-2 line-clamp-1">{order.customerName || 'Guest Customer'}</h3></div>
-                  <MoreHorizontal className="text-gray-400 transition-colors duration-200 hover:text-gray-600" size={20} />
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleSelection(order);
+                    }}
+                    className="text-blue-600 hover:scale-110 transition-transform duration-200"
+                    title={isSelected ? 'Deselect' : 'Select'}
+                  >
+                    {isSelected ? <CheckSquare size={22} /> : <Square size={22} className="text-gray-300 hover:text-gray-400" />}
+                  </button>
                 </div>
                 <div className="space-y-3 mb-6">
-                  <div className="flex items-center gap-3 text-sm text-gray-600"><Clock size={16} className="text-gray-400" /><span>{order.createdAt ? format(parseISO(order.createdAt), 'MMM dd, yyyy • hh:mm a') : 'N/A'}</span></div>
+                  <div className="flex items-center gap-3 text-sm text-gray-600"><Clock size={16} className="text-gray-400" /><span>{order.createdAt ? dateTime(order.createdAt) : 'N/A'}</span></div>
                   <div className="flex items-center gap-3 text-sm text-gray-600"><Phone size={16} className="text-gray-400" /><span className="font-mono">{order.customerPhone || 'No Phone'}</span></div>
                   <div className="flex items-start gap-3 text-sm text-gray-600"><MapPin size={16} className="text-gray-400 mt-0.5" /><span className="line-clamp-2">{order.address || 'No address provided'}</span></div>
                 </div>
                 <div className="flex items-center justify-between pt-4 border-t border-gray-100">
-                  <div><p className="text-xs text-gray-500 font-medium">Total Amount</p><p className="text-xl font-bold text-gray-900">₹{order.totalAmount?.toFixed(2) || '0.00'}</p></div>
-                  <span className={`px-3 py-1.5 rounded-full text-xs font-bold border ${getStatusColor(order.status)}`}>{formatStatus(order.status || 'ORDER_PLACED')}</span>
+                  <div><p className="text-xs text-gray-500 font-medium">Total Amount</p><p className="text-xl font-bold text-gray-900">{money(order.totalAmount || 0)}</p></div>
+                  <span className={`px-3 py-1.5 rounded-full text-xs font-bold border ${getStatusColor(order.status)}`}>{ORDER_STATUS_LABELS[order.status] ?? 'Unknown'}</span>
                 </div>
               </div>
             );
@@ -0,0 +1,248 @@
+import { useEffect } from 'react';
+import { useQuery, useQueries } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Loader2, MapPin, Phone, Printer } from 'lucide-react';
+import { ordersApi } from '../api/orders';
+import { productsApi } from '../api/products';
+import { categoriesApi } from '../api/categories';
+import { StoreSettingsSync } from '../components/StoreSettingsSync';
+import { useFormatters } from '../hooks/useFormatters';
+import { useUrlState } from '../hooks/useUrlState';
+import { buildPickList, pickListUnits } from '../utils/pickList';
+import type { Order, OrderDetails } from '../types/orders';
+
+const PAGE_SIZE = 100;
+
+const VIEWS = [
+  { value: 'all', label: 'Pick List + Slips' },
+  { value: 'pick', label: 'Pick List' },
+  { value: 'slips', label: 'Packing Slips' },
+] as const;
+
+type PrintView = typeof VIEWS[number]['value'];
+
+const Checkbox = () => <span className="inline-block w-4 h-4 border-2 border-gray-400 rounded-sm align-middle" />;
+
+// Each sheet is a page on screen and starts a new page when printed
+const Sheet = ({ children }: { children: React.ReactNode }) => (
+  <section className="bg-white max-w-[210mm] mx-auto p-10 shadow-sm border border-gray-200 rounded-lg break-after-page last:break-after-auto print:max-w-none print:p-0 print:shadow-none print:border-0 print:rounded-none">
+    {children}
+  </section>
+);
+
+// Without ?ids= the sheets cover every order waiting to be packed. The list
+// endpoint is newest first, so walk all of it and put the oldest (most urgent) first.
+const fetchWaitingOrders = async () => {
+  const orders: Order[] = [];
+  for (let page = 0; ; page++) {
+    const result = await ordersApi.list({ page, size: PAGE_SIZE, status: 'ORDER_PLACED' });
+    orders.push(...result.content);
+    if (result.last || result.content.length === 0) break;
+  }
+  return orders.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+};
+
+// ==========================================
+// SUB-COMPONENT: PICK LIST
+// ==========================================
+const PickListSheet = ({ orders }: { orders: OrderDetails[] }) => {
+  const { dateTime } = useFormatters();
+  const { data: products = [] } = useQuery({ queryKey: ['products'], queryFn: productsApi.list });
+  const { data: categories = [] } = useQuery({ queryKey: ['categories'], queryFn: categoriesApi.list });
+  const aisles = buildPickList(orders, products, categories);
+
+  return (
+    <Sheet>
+      <div className="flex justify-between items-end border-b-2 border-gray-900 pb-3 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Pick List</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {orders.length} {orders.length === 1 ? 'order' : 'orders'} · {pickListUnits(aisles)} units · {aisles.length} {aisles.length === 1 ? 'aisle' : 'aisles'}
+          </p>
+        </div>
+        <p className="text-xs text-gray-500">Printed {dateTime(new Date().toISOString())}</p>
+      </div>
+
+      <div className="space-y-6">
+        {aisles.map(aisle => (
+          <div key={aisle.category} className="break-inside-avoid">
+            <h2 className="text-sm font-bold uppercase tracking-wider text-gray-700 bg-gray-100 px-3 py-1.5 print:bg-transparent print:border-b print:border-gray-400 print:px-0">{aisle.category}</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="w-8 py-2"></th>
+                  <th className="py-2">Product</th>
+                  <th className="py-2">Code</th>
+                  <th className="py-2 text-right">Qty</th>
+                  <th className="py-2 pl-6">Orders</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {aisle.lines.map(line => (
+                  <tr key={`${line.productId}:${line.variantId}`} className="break-inside-avoid">
+                    <td className="py-2"><Checkbox /></td>
+                    <td className="py-2 font-medium text-gray-900">
+                      {line.productName}
+                      {line.unit && <span className="text-gray-500 font-normal"> · {line.unit}</span>}
+                    </td>
+                    <td className="py-2 font-mono text-xs text-gray-500">{line.sku || line.barcode || '—'}</td>
+                    <td className="py-2 text-right text-lg font-bold text-gray-900">{line.quantity}</td>
+                    <td className="py-2 pl-6 text-xs text-gray-500">{line.orderIds.map(id => `#${id}`).join(', ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </Sheet>
+  );
+};
+
+// ==========================================
+// SUB-COMPONENT: PACKING SLIP
+// ==========================================
+const PackingSlip = ({ order }: { order: OrderDetails }) => {
+  const { dateTime } = useFormatters();
+  const units = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <Sheet>
+      <div className="flex justify-between items-start border-b-2 border-gray-900 pb-3 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Order #{order.orderId}</h1>
+          <p className="text-sm text-gray-600 mt-1">Placed {dateTime(order.createdAt)}</p>
+        </div>
+        <p className="text-sm font-bold uppercase tracking-wider text-gray-500">Packing Slip</p>
+      </div>
+
+      <div className="mb-6 space-y-1.5">
+        <p className="text-lg font-bold text-gray-900">{order.customerName || 'Guest Customer'}</p>
+        <p className="flex items-start gap-2 text-sm text-gray-700"><MapPin size={14} className="mt-0.5 shrink-0" /> {order.address}</p>
+        <p className="flex items-center gap-2 text-sm text-gray-700"><Phone size={14} className="shrink-0" /> {order.customerPhone}</p>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-300">
+            <th className="w-8 py-2"></th>
+            <th className="py-2">Item</th>
+            <th className="py-2">Code</th>
+            <th className="py-2 text-right">Qty</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {order.items.map(item => (
+            <tr key={`${item.productId}:${item.variantId}`} className="break-inside-avoid">
+              <td className="py-2.5"><Checkbox /></td>
+              <td className="py-2.5 font-medium text-gray-900">
+                {item.productName}
+                {item.unit && <span className="text-gray-500 font-normal"> · {item.unit}</span>}
+              </td>
+              <td className="py-2.5 font-mono text-xs text-gray-500">{item.sku || item.barcode || '—'}</td>
+              <td className="py-2.5 text-right text-lg font-bold text-gray-900">{item.quantity}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t-2 border-gray-900">
+            <td colSpan={3} className="py-2.5 text-right font-medium text-gray-600">{order.items.length} {order.items.length === 1 ? 'line' : 'lines'} · Units</td>
+            <td className="py-2.5 text-right text-lg font-bold text-gray-900">{units}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <div className="mt-10 grid grid-cols-2 gap-8 text-xs text-gray-500">
+        <p className="border-t border-gray-400 pt-2">Packed by</p>
+        <p className="border-t border-gray-400 pt-2">Checked by</p>
+      </div>
+    </Sheet>
+  );
+};
+
+// ==========================================
+// MAIN PRINT COMPONENT
+// ==========================================
+// Pick list and packing slips for ?ids=1,2,3 (or every order waiting to be packed),
+// laid out for the browser's print dialog, which can also save them as a PDF.
+// Lives outside the dashboard layout so only the sheets are printed.
+const PrintOrders = () => {
+  const [params, setParams] = useUrlState({ ids: '', view: 'all' });
+  const view: PrintView = VIEWS.some(v => v.value === params.view) ? params.view as PrintView : 'all';
+  const selectedIds = params.ids.split(',').map(Number).filter(id => Number.isInteger(id) && id > 0);
+
+  const { data: waiting, isLoading: isLoadingPlaced } = useQuery({
+    queryKey: ['orders', 'print', 'ORDER_PLACED'],
+    queryFn: fetchWaitingOrders,
+    enabled: selectedIds.length === 0,
+  });
+  const orderIds = selectedIds.length > 0 ? selectedIds : (waiting ?? []).map(o => o.id);
+
+  const detailQueries = useQueries({
+    queries: orderIds.map(id => ({
+      queryKey: ['order-details', id],
+      queryFn: () => ordersApi.getDetails(id),
+    })),
+  });
+  const orders = detailQueries.flatMap(q => (q.data ? [q.data] : []));
+  const failed = detailQueries.filter(q => q.isError).length;
+  const isLoading = isLoadingPlaced || detailQueries.some(q => q.isLoading);
+
+  // The title becomes the file name when saving as PDF
+  useEffect(() => {
+    const previous = document.title;
+    document.title = `${VIEWS.find(v => v.value === view)!.label} - ${new Date().toISOString().slice(0, 10)}`;
+    return () => { document.title = previous; };
+  }, [view]);
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <StoreSettingsSync />
+
+      {/* Toolbar (not printed) */}
+      <div className="sticky top-0 z-10 bg-white border-b border-gray-200 px-6 py-3 flex flex-wrap items-center gap-4 print:hidden">
+        <Link to="/orders" className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={16} /> Orders
+        </Link>
+        <div className="flex bg-gray-100 p-1 rounded-lg">
+          {VIEWS.map(v => (
+            <button
+              key={v.value}
+              onClick={() => setParams({ view: v.value }, { replace: true })}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${view === v.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-500">
+          {selectedIds.length > 0
+            ? `${selectedIds.length} selected ${selectedIds.length === 1 ? 'order' : 'orders'}`
+            : `All ${orderIds.length} ${orderIds.length === 1 ? 'order' : 'orders'} waiting to be packed, oldest first`}
+          {failed > 0 && <span className="text-red-600"> · {failed} could not be loaded</span>}
+        </p>
+        <button
+          onClick={() => window.print()}
+          disabled={isLoading || orders.length === 0}
+          title="Choose “Save as PDF” in the print dialog to keep a copy"
+          className="ml-auto px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Printer size={16} /> Print
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-24"><Loader2 className="animate-spin text-blue-600" size={32} /></div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-24 text-gray-500">No orders to print.</div>
+      ) : (
+        <div className="p-8 space-y-8 print:p-0 print:space-y-0">
+          {view !== 'slips' && <PickListSheet orders={orders} />}
+          {view !== 'pick' && orders.map(order => <PackingSlip key={order.orderId} order={order} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrintOrders;
@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { ArrowLeft, ChevronDown, Download, FilePlus2, Loader2, AlertCircle, PackageCheck, Settings2 } from 'lucide-react';
+import { reorderApi } from '../api/reorder';
+import { purchaseOrdersApi } from '../api/purchaseOrders';
+import { categoriesApi } from '../api/categories';
+import { getErrorMessage } from '../api/errors';
+import type { ReorderSuggestion, ReorderUrgency } from '../types/inventory';
+import { categoryBranch, categoryOptions } from '../utils/categories';
+import { toCsv, type CellValue } from '../utils/csv';
+import { buildXlsx } from '../utils/xlsx';
+import { downloadBlob } from '../utils/helpers';
+import { NO_PERMISSION_HINT } from '../utils/permissions';
+import { StatusBadge } from '../components/StatusBadge';
+import ReorderDefaultsModal from '../components/inventory/ReorderDefaultsModal';
+import { usePermissions } from '../hooks/usePermissions';
+import { useUrlState } from '../hooks/useUrlState';
+import { useFormatters } from '../hooks/useFormatters';
+
+const SALES_WINDOWS = [7, 14, 30];
+const COVER_OPTIONS = [3, 7, 14, 30];
+
+const URGENCY: Record<ReorderUrgency, { label: string; color: string }> = {
+  OUT_OF_STOCK: { label: 'Out of Stock', color: 'bg-red-100 text-red-700 border-red-300' },
+  BELOW_REORDER_POINT: { label: 'Below Reorder Point', color: 'bg-amber-100 text-amber-700 border-amber-300' },
+  PROJECTED: { label: 'Running Low', color: 'bg-blue-100 text-blue-700 border-blue-300' },
+};
+
+const Reorder = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { money } = useFormatters();
+  const { can } = usePermissions();
+  const canEdit = can('inventory:edit');
+  const canPurchase = can('purchasing:manage');
+  const [isDefaultsOpen, setIsDefaultsOpen] = useState(false);
+  // Sales window, cover and filters live in the URL (?days=30&cover=14&category=Dairy)
+  const [filters, setFilters] = useUrlState({ days: 14, cover: 7, category: '', urgency: '' });
+  // Per-row edits to the purchase list; untouched rows use the suggestion
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [excluded, setExcluded] = useState<Set<number>>(() => new Set());
+
+  const { data: suggestions, isLoading, isError, error } = useQuery({
+    queryKey: ['reorder-suggestions', filters.days, filters.cover],
+    queryFn: () => reorderApi.suggestions({ days: filters.days, coverDays: filters.cover }),
+  });
+
+  const { data: reorderDefaults } = useQuery({
+    queryKey: ['reorder-defaults'],
+    queryFn: reorderApi.getDefaults,
+  });
+
+  const { data: categories = [] } = useQuery({ queryKey: ['categories'], queryFn: categoriesApi.list });
+
+  const branch = categoryBranch(categories, filters.category);
+  const rows = (suggestions || [])
+    .filter(s => !filters.category || branch.has(s.category))
+    .filter(s => !filters.urgency || s.urgency === filters.urgency);
+
+  const quantityOf = (row: ReorderSuggestion) => quantities[row.productId] ?? row.suggestedQuantity;
+  const selectedRows = rows.filter(row => !excluded.has(row.productId) && quantityOf(row) > 0);
+  const estimatedCost = selectedRows.reduce((sum, row) => sum + quantityOf(row) * row.price, 0);
+
+  const toggleRow = (productId: number) =>
+    setExcluded(current => {
+      const next = new Set(current);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  const allSelected = rows.length > 0 && rows.every(row => !excluded.has(row.productId));
+  const toggleAll = () => setExcluded(allSelected ? new Set(rows.map(row => row.productId)) : new Set());
+
+  // Purchase list of the selected rows with the (possibly edited) order quantities
+  const exportPurchaseList = (fileFormat: 'csv' | 'xlsx') => {
+    const table: CellValue[][] = [
+      ['Product ID', 'Product', 'Category', 'Unit', 'In Stock', 'Reorder Point', 'Order Qty', 'Unit Price', 'Line Total'],
+      ...selectedRows.map(row => [
+        row.productId, row.productName, row.category, row.unit, row.stock, row.reorderPoint,
+        quantityOf(row), row.price, quantityOf(row) * row.price,
+      ]),
+    ];
+    const filename = `purchase-list-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}`;
+    downloadBlob(
+      fileFormat === 'xlsx' ? buildXlsx(table, 'Purchase List') : new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' }),
+      filename
+    );
+  };
+
+  // One draft per cheapest supplier; products without a supplier are reported back
+  const draftMutation = useMutation({
+    mutationFn: () => purchaseOrdersApi.draftFromProducts(
+      selectedRows.map(row => ({ productId: row.productId, quantity: quantityOf(row) }))
+    ),
+    onSuccess: ({ orders, unassignedProductIds }) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      if (orders.length > 0) toast.success(`Drafted ${orders.length} purchase ${orders.length === 1 ? 'order' : 'orders'}`);
+      if (unassignedProductIds.length > 0) {
+        const names = selectedRows.filter(row => unassignedProductIds.includes(row.productId)).map(row => row.productName);
+        toast.error(`No supplier linked for: ${names.join(', ')}`, { duration: 6000 });
+      }
+      if (orders.length > 0) navigate('/suppliers?tab=orders&status=DRAFT');
+    },
+    onError: (draftError) => toast.error(getErrorMessage(draftError, 'Failed to draft purchase orders')),
+  });
+
+  const countOf = (urgency: ReorderUrgency) => (suggestions || []).filter(s => s.urgency === urgency).length;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <Link to="/inventory" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft size={14} /> Inventory
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">Needs Reorder</h1>
+          <p className="text-gray-500 text-sm mt-1">Products at or near their reorder point, sized from recent sales.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsDefaultsOpen(true)}
+            disabled={!canEdit || !reorderDefaults}
+            title={canEdit ? undefined : NO_PERMISSION_HINT}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Settings2 size={18} />
+            <span>Category Defaults</span>
+          </button>
+          <button
+            onClick={() => exportPurchaseList('csv')}
+            disabled={selectedRows.length === 0}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+          >
+            <Download size={18} />
+            <span>CSV</span>
+          </button>
+          <button
+            onClick={() => exportPurchaseList('xlsx')}
+            disabled={selectedRows.length === 0}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+          >
+            <Download size={18} />
+            <span>Purchase List (.xlsx)</span>
+          </button>
+          <button
+            onClick={() => draftMutation.mutate()}
+            disabled={!canPurchase || selectedRows.length === 0 || draftMutation.isPending}
+            title={canPurchase ? undefined : NO_PERMISSION_HINT}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {draftMutation.isPending ? <Loader2 size={18} className="animate-spin" /> : <FilePlus2 size={18} />}
+            <span>Draft Purchase Orders</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(Object.keys(URGENCY) as ReorderUrgency[]).map(urgency => (
+          <button
+            key={urgency}
+            onClick={() => setFilters({ urgency: filters.urgency === urgency ? '' : urgency })}
+            className={`text-left bg-white border rounded-lg p-4 transition-colors hover:border-gray-300 ${filters.urgency === urgency ? 'border-blue-500 ring-2 ring-blue-500/20' : 'border-gray-200'}`}
+          >
+            <p className="text-xs font-medium text-gray-600 uppercase">{URGENCY[urgency].label}</p>
+            <p className="text-2xl font-semibold text-gray-900 mt-1">{countOf(urgency)}</p>
+          </button>
+        ))}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <p className="text-xs font-medium text-gray-600 uppercase">Selected Purchase</p>
+          <p className="text-2xl font-semibold text-gray-900 mt-1">{money(estimatedCost)}</p>
+          <p className="text-xs text-gray-500">{selectedRows.length} products</p>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="bg-white p-4 rounded-lg border border-gray-200 flex flex-col md:flex-row gap-4 md:items-center">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Sales from the last
+          <select
+            value={filters.days}
+            onChange={(e) => setFilters({ days: Number(e.target.value) })}
+            className="px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg outline-none"
+          >
+            {SALES_WINDOWS.map(d => <option key={d} value={d}>{d} days</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Order enough for
+          <select
+            value={filters.cover}
+            onChange={(e) => setFilters({ cover: Number(e.target.value) })}
+            className="px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg outline-none"
+          >
+            {COVER_OPTIONS.map(d => <option key={d} value={d}>{d} days</option>)}
+          </select>
+        </label>
+        <div className="relative md:w-48 md:ml-auto">
+          <select
+            value={filters.category}
+            onChange={(e) => setFilters({ category: e.target.value })}
+            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300 appearance-none cursor-pointer text-gray-700"
+          >
+            <option value="">All Categories</option>
+            {categoryOptions(categories, { includeInactive: true }).map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+        </div>
+      </div>
+
+      {/* Suggestions */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-md overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24 text-gray-500">
+            <Loader2 className="animate-spin" size={28} />
+          </div>
+        ) : isError ? (
+          <div className="flex flex-col items-center justify-center py-24">
+            <AlertCircle size={32} className="text-red-500 mb-3" />
+            <p className="text-lg font-semibold text-gray-900">Failed to load reorder suggestions</p>
+            <p className="text-sm text-gray-500 mt-1">{getErrorMessage(error)}</p>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-24 text-gray-500">
+            <PackageCheck size={32} className="text-green-500 mb-3" />
+            <p className="text-lg font-semibold text-gray-900">Nothing needs reordering</p>
+            <p className="text-sm text-gray-500 mt-1">Every product is above its reorder point for the chosen period</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-200 text-xs uppercase tracking-wider text-gray-600 font-bold">
+                  <th className="px-4 py-3">
+                    <input type="checkbox" checked={allSelected} onChange={toggleAll} className="accent-blue-600" aria-label="Select all" />
+                  </th>
+                  <th className="px-4 py-3">Product</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3 text-right">Stock</th>
+                  <th className="px-4 py-3 text-right">Reorder At</th>
+                  <th className="px-4 py-3 text-right">Sold ({filters.days}d)</th>
+                  <th className="px-4 py-3 text-right">Per Day</th>
+                  <th className="px-4 py-3 text-right">Days Left</th>
+                  <th className="px-4 py-3 text-right">Order Qty</th>
+                  <th className="px-4 py-3 text-right">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map(row => {
+                  const isSelected = !excluded.has(row.productId);
+                  return (
+                    <tr key={row.productId} className={isSelected ? 'hover:bg-gray-50' : 'opacity-50'}>
+                      <td className="px-4 py-3">
+                        <input type="checkbox" checked={isSelected} onChange={() => toggleRow(row.productId)} className="accent-blue-600" />
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link to={`/inventory?history=${row.productId}`} className="font-medium text-gray-900 hover:text-blue-600">
+                          {row.productName}
+                        </Link>
+                        <p className="text-xs text-gray-500">{row.category} · {row.unit}</p>
+                      </td>
+                      <td className="px-4 py-3"><StatusBadge className={URGENCY[row.urgency].color}>{URGENCY[row.urgency].label}</StatusBadge></td>
+                      <td className="px-4 py-3 text-right font-semibold text-gray-900">{row.stock}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{row.reorderPoint}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{row.unitsSold}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{row.dailyVelocity}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{row.daysOfCover ?? '—'}</td>
+                      <td className="px-4 py-3 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          value={quantityOf(row)}
+                          onChange={(e) => setQuantities(current => ({ ...current, [row.productId]: Math.max(0, e.target.valueAsNumber || 0) }))}
+                          disabled={!isSelected}
+                          className="w-20 px-2 py-1 text-right border border-gray-200 rounded-lg outline-none focus:border-blue-500"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-right font-medium text-gray-900">{money(quantityOf(row) * row.price)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {isDefaultsOpen && reorderDefaults && (
+        <ReorderDefaultsModal defaults={reorderDefaults} categories={categories} onClose={() => setIsDefaultsOpen(false)} />
+      )}
+    </div>
+  );
+};
+
+export default Reorder;
@@ -0,0 +1,155 @@
+import { useForm, useWatch } from 'react-hook-form';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Loader2, AlertCircle, Save } from 'lucide-react';
+import { settingsApi } from '../api/settings';
+import { getErrorMessage } from '../api/errors';
+import type { StoreSettings } from '../types/settings';
+import { createFormatters, setStoreSettings, storeSettingsProblem } from '../utils/format';
+import { priceRanges } from '../utils/inventory-constants';
+import { CURRENCY_DISPLAY_OPTIONS, CURRENCY_OPTIONS, LOCALE_OPTIONS } from '../utils/settings-constants';
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+// Shows what the settings being edited would look like across the dashboard
+const FormatPreview = ({ settings }: { settings: StoreSettings }) => {
+  const problem = storeSettingsProblem(settings);
+  if (problem) {
+    return <p className="text-sm text-red-600">{problem}</p>;
+  }
+  const formatters = createFormatters(settings);
+  const now = new Date();
+  const rows = [
+    ['Order total', formatters.money(123456.5)],
+    ['Unit price', formatters.money(42)],
+    ['Order count', formatters.number(1234567)],
+    ['Placed at', formatters.dateTime(now)],
+    ['Price filters', priceRanges(formatters).map(r => r.label).join(' · ')],
+  ];
+  return (
+    <dl className="divide-y divide-gray-100 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4 py-2">
+          <dt className="text-gray-500">{label}</dt>
+          <dd className="font-medium text-gray-900 text-right">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const SettingsForm = ({ settings }: { settings: StoreSettings }) => {
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, control, reset, formState: { isDirty } } = useForm<StoreSettings>({ defaultValues: settings });
+  const edited = useWatch({ control }) as StoreSettings;
+  const draft: StoreSettings = { ...edited, currency: edited.currency.trim().toUpperCase() };
+
+  const saveMutation = useMutation({
+    mutationFn: settingsApi.updateStore,
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['store-settings'], saved);
+      setStoreSettings(saved);
+      reset(saved);
+      toast.success('Store settings saved');
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to save settings')),
+  });
+
+  const inputClass = 'w-full px-3 py-2 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500 transition-all';
+
+  return (
+    <form
+      onSubmit={handleSubmit(() => saveMutation.mutate(draft))}
+      className="grid grid-cols-1 lg:grid-cols-3 gap-6"
+    >
+      <div className="lg:col-span-2 bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+            <input {...register('currency')} list="currency-options" className={`${inputClass} uppercase`} />
+            <datalist id="currency-options">
+              {CURRENCY_OPTIONS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Show Currency As</label>
+            <select {...register('currencyDisplay')} className={inputClass}>
+              {CURRENCY_DISPLAY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Locale</label>
+            <input {...register('locale')} list="locale-options" className={inputClass} />
+            <datalist id="locale-options">
+              {LOCALE_OPTIONS.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+            </datalist>
+            <p className="text-xs text-gray-500 mt-1">Decides digit grouping, decimal marks and date order</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Decimals on Amounts</label>
+            <select {...register('fractionDigits', { valueAsNumber: true })} className={inputClass}>
+              {[0, 1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+          <input {...register('timeZone')} list="time-zone-options" className={inputClass} />
+          <datalist id="time-zone-options">
+            {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+          <p className="text-xs text-gray-500 mt-1">Order, stock and purchase times are shown in this zone</p>
+        </div>
+
+        <div className="pt-4 border-t border-gray-100 flex justify-end">
+          <button
+            type="submit"
+            disabled={!isDirty || saveMutation.isPending || !!storeSettingsProblem(draft)}
+            className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saveMutation.isPending ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+            Save Settings
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">Preview</h3>
+        <FormatPreview settings={draft} />
+      </div>
+    </form>
+  );
+};
+
+const Settings = () => {
+  const { data: settings, isLoading, isError, error } = useQuery({
+    queryKey: ['store-settings'],
+    queryFn: settingsApi.getStore,
+    staleTime: Infinity,
+  });
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Store Settings</h1>
+        <p className="text-gray-500 text-sm mt-1">Currency, locale and time zone used for prices, totals, dates and receipts.</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-24 text-gray-500">
+          <Loader2 className="animate-spin" size={28} />
+        </div>
+      ) : isError || !settings ? (
+        <div className="flex flex-col items-center justify-center py-24">
+          <AlertCircle size={32} className="text-red-500 mb-3" />
+          <p className="text-lg font-semibold text-gray-900">Failed to load settings</p>
+          <p className="text-sm text-gray-500 mt-1">{getErrorMessage(error)}</p>
+        </div>
+      ) : (
+        <SettingsForm settings={settings} />
+      )}
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Calendar, ChevronDown, ClipboardList, Download, Loader2, AlertCircle } from 'lucide-react';
+import { stockApi } from '../api/stock';
+import { categoriesApi } from '../api/categories';
+import { getErrorMessage } from '../api/errors';
+import type { StockMovement, StockMovementReason } from '../types/stock';
+import { STOCK_REASONS } from '../utils/inventory-constants';
+import { categoryOptions } from '../utils/categories';
+import { toCsv } from '../utils/csv';
+import { downloadBlob } from '../utils/helpers';
+import { Pagination } from '../components/Pagination';
+import { StatusBadge } from '../components/StatusBadge';
+import { FilterPresets } from '../components/FilterPresets';
+import { useUrlState } from '../hooks/useUrlState';
+import { useFormatters } from '../hooks/useFormatters';
+
+const ITEMS_PER_PAGE = 25;
+const EXPORT_PAGE_SIZE = 250;
+const AUDIT_FILTER_KEYS = ['from', 'to', 'category', 'reason'] as const;
+
+const reasonInfo = (reason: StockMovementReason) => STOCK_REASONS.find(r => r.value === reason);
+
+const StockAudit = () => {
+  // Filters live in the URL (?from=2026-01-01&reason=SPOILAGE&page=2)
+  const [filters, setFilters] = useUrlState({ from: '', to: '', category: '', reason: '', page: 1 });
+  const { dateTime } = useFormatters();
+  const page = Math.max(filters.page - 1, 0);
+  const setPage = (index: number) => setFilters({ page: index + 1 });
+  const reportFilters = {
+    from: filters.from,
+    to: filters.to,
+    category: filters.category,
+    reason: filters.reason as StockMovementReason | '',
+  };
+  const hasFilters = !!(filters.from || filters.to || filters.category || filters.reason);
+
+  const { data: movementsPage, isLoading, isError, error, isFetching } = useQuery({
+    queryKey: ['stock-movements', 'report', reportFilters, page],
+    queryFn: () => stockApi.report({ ...reportFilters, page, size: ITEMS_PER_PAGE }),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: summary } = useQuery({
+    queryKey: ['stock-movements', 'summary', reportFilters],
+    queryFn: () => stockApi.summary(reportFilters),
+  });
+
+  const { data: categories = [] } = useQuery({ queryKey: ['categories'], queryFn: categoriesApi.list });
+
+  const movements = movementsPage?.content || [];
+  const netChange = (summary || []).reduce((sum, row) => sum + row.quantity, 0);
+
+  // Export walks every page of the filtered report
+  const [isExporting, setIsExporting] = useState(false);
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows: StockMovement[] = [];
+      for (let index = 0; ; index++) {
+        const result = await stockApi.report({ ...reportFilters, page: index, size: EXPORT_PAGE_SIZE });
+        rows.push(...result.content);
+        if (result.last || result.content.length === 0) break;
+      }
+      const csv = toCsv([
+        ['Date', 'Product ID', 'Product', 'Size', 'Category', 'Reason', 'Change', 'Balance', 'Note', 'By'],
+        ...rows.map(m => [
+          format(parseISO(m.createdAt), 'yyyy-MM-dd HH:mm'), m.productId, m.productName, m.unit, m.category,
+          reasonInfo(m.reason)?.label ?? m.reason, m.quantity, m.balanceAfter, m.note, m.createdBy || 'System',
+        ]),
+      ]);
+      downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `stock-audit-${format(new Date(), 'yyyy-MM-dd')}.csv`);
+    } catch (exportError) {
+      toast.error(getErrorMessage(exportError, 'Failed to export the report'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <Link to="/inventory" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft size={14} /> Inventory
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">Stock Audit</h1>
+          <p className="text-gray-500 text-sm mt-1">Every stock movement with its reason, who made it and the resulting balance.</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting || movements.length === 0}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+        >
+          {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      {/* Totals per reason for the current filters */}
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <p className="text-xs font-medium text-gray-600 uppercase">Net Change</p>
+          <p className={`text-2xl font-semibold mt-1 ${netChange < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {netChange > 0 ? '+' : ''}{netChange}
+          </p>
+        </div>
+        {STOCK_REASONS.map(reason => {
+          const row = summary?.find(s => s.reason === reason.value);
+          return (
+            <button
+              key={reason.value}
+              onClick={() => setFilters({ reason: filters.reason === reason.value ? '' : reason.value, page: 1 })}
+              className={`text-left bg-white border rounded-lg p-4 transition-colors hover:border-gray-300 ${filters.reason === reason.value ? 'border-blue-500 ring-2 ring-blue-500/20' : 'border-gray-200'}`}
+            >
+              <p className="text-xs font-medium text-gray-600 uppercase truncate">{reason.label}</p>
+              <p className="text-2xl font-semibold text-gray-900 mt-1">
+                {row ? `${row.quantity > 0 ? '+' : ''}${row.quantity}` : 0}
+              </p>
+              <p className="text-xs text-gray-500">{row?.count ?? 0} movements</p>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg border border-gray-200 flex flex-col md:flex-row gap-4 md:items-center">
+        <div className="flex items-center gap-2 border border-gray-200 rounded-lg px-3 py-2 bg-white">
+          <Calendar size={16} className="text-gray-500" />
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ from: e.target.value, page: 1 })}
+            className="bg-transparent text-sm text-gray-700 outline-none w-32 cursor-pointer"
+          />
+          <span className="text-gray-400">-</span>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ to: e.target.value, page: 1 })}
+            className="bg-transparent text-sm text-gray-700 outline-none w-32 cursor-pointer"
+          />
+        </div>
+
+        <div className="relative md:w-48">
+          <select
+            value={filters.category}
+            onChange={(e) => setFilters({ category: e.target.value, page: 1 })}
+            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300 appearance-none cursor-pointer text-gray-700"
+          >
+            <option value="">All Categories</option>
+            {categoryOptions(categories, { includeInactive: true }).map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+        </div>
+
+        <div className="relative md:w-48">
+          <select
+            value={filters.reason}
+            onChange={(e) => setFilters({ reason: e.target.value, page: 1 })}
+            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300 appearance-none cursor-pointer text-gray-700"
+          >
+            <option value="">All Reasons</option>
+            {STOCK_REASONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+        </div>
+
+        {hasFilters && (
+          <button
+            onClick={() => setFilters({ from: '', to: '', category: '', reason: '', page: 1 })}
+            className="text-xs text-red-500 hover:text-red-700 font-medium px-2"
+          >
+            Clear Filters
+          </button>
+        )}
+        <div className="md:ml-auto flex items-center gap-3">
+          {isFetching && <Loader2 size={16} className="animate-spin text-gray-400" />}
+          <span className="text-xs text-gray-500">{movementsPage?.totalElements ?? 0} movements</span>
+          <FilterPresets scope="stock-audit" keys={AUDIT_FILTER_KEYS} />
+        </div>
+      </div>
+
+      {/* Ledger */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-md overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24 text-gray-500">
+            <Loader2 className="animate-spin" size={28} />
+          </div>
+        ) : isError ? (
+          <div className="flex flex-col items-center justify-center py-24">
+            <AlertCircle size={32} className="text-red-500 mb-3" />
+            <p className="text-lg font-semibold text-gray-900">Failed to load stock movements</p>
+            <p className="text-sm text-gray-500 mt-1">{getErrorMessage(error)}</p>
+          </div>
+        ) : movements.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-24 text-gray-500">
+            <ClipboardList size={32} className="text-gray-400 mb-3" />
+            <p className="text-lg font-semibold text-gray-900">No stock movements found</p>
+            <p className="text-sm text-gray-500 mt-1">Try a wider date range or fewer filters</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-200 text-xs uppercase tracking-wider text-gray-600 font-bold">
+                  <th className="px-6 py-3">Date</th>
+                  <th className="px-6 py-3">Product</th>
+                  <th className="px-6 py-3">Reason</th>
+                  <th className="px-6 py-3 text-right">Change</th>
+                  <th className="px-6 py-3 text-right">Balance</th>
+                  <th className="px-6 py-3">Note</th>
+                  <th className="px-6 py-3">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {movements.map(movement => {
+                  const reason = reasonInfo(movement.reason);
+                  return (
+                    <tr key={movement.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-3 text-gray-600 whitespace-nowrap">{dateTime(movement.createdAt)}</td>
+                      <td className="px-6 py-3">
+                        <Link to={`/inventory?history=${movement.productId}`} className="font-medium text-gray-900 hover:text-blue-600">
+                          {movement.productName}
+                        </Link>
+                        <p className="text-xs text-gray-500">{movement.unit} · {movement.category}</p>
+                      </td>
+                      <td className="px-6 py-3"><StatusBadge className={reason?.color}>{reason?.label ?? movement.reason}</StatusBadge></td>
+                      <td className={`px-6 py-3 text-right font-semibold ${movement.quantity > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                      </td>
+                      <td className="px-6 py-3 text-right text-gray-900">{movement.balanceAfter}</td>
+                      <td className="px-6 py-3 text-gray-600">{movement.note || '—'}</td>
+                      <td className="px-6 py-3 text-gray-500">{movement.createdBy || 'System'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {(movementsPage?.totalPages ?? 0) > 1 && (
+          <div className="px-6 py-4 border-t border-gray-100">
+            <Pagination currentPage={page} totalPages={movementsPage!.totalPages} onPageChange={setPage} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockAudit;
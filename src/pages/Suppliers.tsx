@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  Plus, Loader2, AlertCircle, Building2, Phone, Mail, MapPin, Package, Pencil, Trash2, ClipboardList, ChevronDown, FilePlus2
+} from 'lucide-react';
+import { suppliersApi } from '../api/suppliers';
+import { purchaseOrdersApi, PURCHASE_ORDER_STATUSES } from '../api/purchaseOrders';
+import { getErrorMessage } from '../api/errors';
+import type { PurchaseOrder, PurchaseOrderStatus, Supplier } from '../types/suppliers';
+import { PURCHASE_ORDER_STATUS_INFO } from '../utils/purchasing-constants';
+import { NO_PERMISSION_HINT } from '../utils/permissions';
+import { Pagination } from '../components/Pagination';
+import { StatusBadge } from '../components/StatusBadge';
+import SupplierFormModal from '../components/suppliers/SupplierFormModal';
+import SupplierProductsModal from '../components/suppliers/SupplierProductsModal';
+import PurchaseOrderModal from '../components/suppliers/PurchaseOrderModal';
+import PurchaseOrderDetailsModal from '../components/suppliers/PurchaseOrderDetailsModal';
+import { usePermissions } from '../hooks/usePermissions';
+import { useUrlState } from '../hooks/useUrlState';
+import { useFormatters } from '../hooks/useFormatters';
+
+const ITEMS_PER_PAGE = 15;
+
+type SupplierModal = { type: 'form'; supplier: Supplier | null } | { type: 'products'; supplier: Supplier };
+// `undefined` = closed, `null` = new draft
+type OrderFormState = { order: PurchaseOrder | null } | undefined;
+
+const Suppliers = () => {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const { money, date } = useFormatters();
+  const canManage = can('purchasing:manage');
+  // Tab, order filters and the open order live in the URL (?tab=orders&status=SENT&po=4)
+  const [filters, setFilters] = useUrlState({ tab: 'suppliers', status: '', supplier: 0, page: 1, po: 0 });
+  const page = Math.max(filters.page - 1, 0);
+  const [supplierModal, setSupplierModal] = useState<SupplierModal | null>(null);
+  const [orderForm, setOrderForm] = useState<OrderFormState>(undefined);
+
+  const { data: suppliers, isLoading: isLoadingSuppliers, isError: isSuppliersError, error: suppliersError } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: suppliersApi.list,
+  });
+
+  const orderFilters = { status: filters.status as PurchaseOrderStatus | '', supplierId: filters.supplier || undefined };
+  const { data: ordersPage, isLoading: isLoadingOrders, isError: isOrdersError, error: ordersError, isFetching } = useQuery({
+    queryKey: ['purchase-orders', 'list', orderFilters, page],
+    queryFn: () => purchaseOrdersApi.list({ ...orderFilters, page, size: ITEMS_PER_PAGE }),
+    placeholderData: keepPreviousData,
+    enabled: filters.tab === 'orders',
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: suppliersApi.remove,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      toast.success('Supplier deleted');
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to delete supplier')),
+  });
+
+  const orders = ordersPage?.content || [];
+  const showOrdersOf = (supplier: Supplier) => setFilters({ tab: 'orders', supplier: supplier.id, status: '', page: 1 });
+  const openOrderForm = (order: PurchaseOrder | null) => {
+    setFilters({ po: 0 });
+    setOrderForm({ order });
+  };
+
+  const tabClass = (tab: string) =>
+    `px-4 py-2 text-sm font-medium border-b-2 transition-colors ${filters.tab === tab ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Suppliers</h1>
+          <p className="text-gray-500 text-sm mt-1">Who we buy from, what it costs, and purchase orders on the way.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setSupplierModal({ type: 'form', supplier: null })}
+            disabled={!canManage}
+            title={canManage ? undefined : NO_PERMISSION_HINT}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={18} />
+            <span>Add Supplier</span>
+          </button>
+          <button
+            onClick={() => openOrderForm(null)}
+            disabled={!canManage || !suppliers?.length}
+            title={canManage ? undefined : NO_PERMISSION_HINT}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FilePlus2 size={18} />
+            <span>New Purchase Order</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex border-b border-gray-200">
+        <button onClick={() => setFilters({ tab: 'suppliers' })} className={tabClass('suppliers')}>Suppliers</button>
+        <button onClick={() => setFilters({ tab: 'orders' })} className={tabClass('orders')}>Purchase Orders</button>
+      </div>
+
+      {filters.tab === 'suppliers' ? (
+        isLoadingSuppliers ? (
+          <div className="flex items-center justify-center py-24 text-gray-500">
+            <Loader2 className="animate-spin" size={28} />
+          </div>
+        ) : isSuppliersError ? (
+          <div className="flex flex-col items-center justify-center py-24">
+            <AlertCircle size={32} className="text-red-500 mb-3" />
+            <p className="text-lg font-semibold text-gray-900">Failed to load suppliers</p>
+            <p className="text-sm text-gray-500 mt-1">{getErrorMessage(suppliersError)}</p>
+          </div>
+        ) : !suppliers?.length ? (
+          <div className="flex flex-col items-center justify-center py-24 text-gray-500">
+            <Building2 size={32} className="text-gray-400 mb-3" />
+            <p className="text-lg font-semibold text-gray-900">No suppliers yet</p>
+            <p className="text-sm text-gray-500 mt-1">Add the companies you buy stock from</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {suppliers.map(supplier => (
+              <div key={supplier.id} className="bg-white border border-gray-200 rounded-xl p-5 flex flex-col">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-gray-900 truncate">{supplier.name}</h3>
+                    <p className="text-sm text-gray-500">{supplier.contactName || 'No contact person'}</p>
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-1 shrink-0">
+                      <button
+                        onClick={() => setSupplierModal({ type: 'form', supplier })}
+                        className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                        title="Edit supplier"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => { if (confirm(`Delete ${supplier.name}? Its product links are removed too.`)) deleteMutation.mutate(supplier.id); }}
+                        disabled={deleteMutation.isPending}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                        title="Delete supplier"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="mt-4 space-y-1.5 text-sm text-gray-600 flex-1">
+                  {supplier.phone && <p className="flex items-center gap-2"><Phone size={14} className="text-gray-400" /> {supplier.phone}</p>}
+                  {supplier.email && (
+                    <p className="flex items-center gap-2 min-w-0">
+                      <Mail size={14} className="text-gray-400 shrink-0" />
+                      <a href={`mailto:${supplier.email}`} className="truncate hover:text-blue-600">{supplier.email}</a>
+                    </p>
+                  )}
+                  {supplier.address && <p className="flex items-center gap-2"><MapPin size={14} className="text-gray-400 shrink-0" /> {supplier.address}</p>}
+                  {supplier.notes && <p className="text-xs text-gray-500 bg-gray-50 rounded-lg px-3 py-2 mt-2">{supplier.notes}</p>}
+                </div>
+
+                <div className="mt-4 pt-4 border-t border-gray-100 flex gap-2">
+                  <button
+                    onClick={() => setSupplierModal({ type: 'products', supplier })}
+                    className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50"
+                  >
+                    <Package size={16} /> {supplier.productCount} Products
+                  </button>
+                  <button
+                    onClick={() => showOrdersOf(supplier)}
+                    className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50"
+                  >
+                    <ClipboardList size={16} /> Orders
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <>
+          {/* Order filters */}
+          <div className="bg-white p-4 rounded-lg border border-gray-200 flex flex-col md:flex-row gap-4 md:items-center">
+            <div className="flex flex-wrap gap-2">
+              {['', ...PURCHASE_ORDER_STATUSES].map(status => (
+                <button
+                  key={status || 'ALL'}
+                  onClick={() => setFilters({ status, page: 1 })}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${filters.status === status ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                >
+                  {status ? PURCHASE_ORDER_STATUS_INFO[status as PurchaseOrderStatus].label : 'All'}
+                </button>
+              ))}
+            </div>
+            <div className="relative md:w-56 md:ml-auto">
+              <select
+                value={filters.supplier}
+                onChange={(e) => setFilters({ supplier: Number(e.target.value), page: 1 })}
+                className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-gray-300 appearance-none cursor-pointer text-gray-700"
+              >
+                <option value={0}>All Suppliers</option>
+                {suppliers?.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+            </div>
+            {isFetching && <Loader2 size={16} className="animate-spin text-gray-400" />}
+          </div>
+
+          {/* Orders */}
+          <div className="bg-white rounded-xl border border-gray-200 shadow-md overflow-hidden">
+            {isLoadingOrders ? (
+              <div className="flex items-center justify-center py-24 text-gray-500">
+                <Loader2 className="animate-spin" size={28} />
+              </div>
+            ) : isOrdersError ? (
+              <div className="flex flex-col items-center justify-center py-24">
+                <AlertCircle size={32} className="text-red-500 mb-3" />
+                <p className="text-lg font-semibold text-gray-900">Failed to load purchase orders</p>
+                <p className="text-sm text-gray-500 mt-1">{getErrorMessage(ordersError)}</p>
+              </div>
+            ) : orders.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-24 text-gray-500">
+                <ClipboardList size={32} className="text-gray-400 mb-3" />
+                <p className="text-lg font-semibold text-gray-900">No purchase orders found</p>
+                <p className="text-sm text-gray-500 mt-1">Draft one here or from the Needs Reorder list</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200 text-xs uppercase tracking-wider text-gray-600 font-bold">
+                      <th className="px-6 py-3">PO</th>
+                      <th className="px-6 py-3">Supplier</th>
+                      <th className="px-6 py-3">Status</th>
+                      <th className="px-6 py-3 text-right">Items</th>
+                      <th className="px-6 py-3 text-right">Total</th>
+                      <th className="px-6 py-3">Expected</th>
+                      <th className="px-6 py-3">Created</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {orders.map(order => {
+                      const ordered = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+                      const received = order.lines.reduce((sum, line) => sum + line.receivedQuantity, 0);
+                      return (
+                        <tr key={order.id} onClick={() => setFilters({ po: order.id })} className="hover:bg-gray-50 cursor-pointer">
+                          <td className="px-6 py-3 font-medium text-gray-900">#{order.id}</td>
+                          <td className="px-6 py-3 text-gray-900">{order.supplierName}</td>
+                          <td className="px-6 py-3">
+                            <StatusBadge className={PURCHASE_ORDER_STATUS_INFO[order.status].color}>{PURCHASE_ORDER_STATUS_INFO[order.status].label}</StatusBadge>
+                          </td>
+                          <td className="px-6 py-3 text-right text-gray-600">
+                            {order.status === 'PARTIALLY_RECEIVED' ? `${received} / ${ordered}` : ordered}
+                            <span className="text-xs text-gray-400"> · {order.lines.length} lines</span>
+                          </td>
+                          <td className="px-6 py-3 text-right font-medium text-gray-900">{money(order.total)}</td>
+                          <td className="px-6 py-3 text-gray-600">{order.expectedAt ? date(order.expectedAt) : '—'}</td>
+                          <td className="px-6 py-3 text-gray-500 whitespace-nowrap">{date(order.createdAt)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {(ordersPage?.totalPages ?? 0) > 1 && (
+              <div className="px-6 py-4 border-t border-gray-100">
+                <Pagination currentPage={page} totalPages={ordersPage!.totalPages} onPageChange={(index) => setFilters({ page: index + 1 })} />
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {supplierModal?.type === 'form' && <SupplierFormModal supplier={supplierModal.supplier} onClose={() => setSupplierModal(null)} />}
+      {supplierModal?.type === 'products' && (
+        <SupplierProductsModal supplier={supplierModal.supplier} canManage={canManage} onClose={() => setSupplierModal(null)} />
+      )}
+      {filters.po > 0 && (
+        <PurchaseOrderDetailsModal
+          orderId={filters.po}
+          canManage={canManage}
+          onEdit={openOrderForm}
+          onClose={() => setFilters({ po: 0 })}
+        />
+      )}
+      {orderForm && suppliers && (
+        <PurchaseOrderModal order={orderForm.order} suppliers={suppliers} onClose={() => setOrderForm(undefined)} />
+      )}
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -2,11 +2,14 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import {
-  Search, CheckCircle, ChevronDown, Phone, PlayCircle, Check, Package
+  Search, CheckCircle, ChevronDown, Phone, PlayCircle, Check, Package, Undo2
 } from 'lucide-react';
 import { formatDistanceToNow, parseISO } from 'date-fns';
-import api from '../api/axios';
-import type { IssuesResponse, IssueSeverity, IssueStatus, Issue } from '../types/support';
+import { issuesApi } from '../api/issues';
+import { refundsApi } from '../api/refunds';
+import { getErrorMessage } from '../api/errors';
+import type { IssueSeverity, IssueStatus, Issue } from '../types/support';
+import type { RefundReason } from '../types/refunds';
 
 import { SEVERITY_COLORS, STATUS_COLORS } from '../utils/theme';
 
@@ -14,8 +17,17 @@ import { Pagination } from '../components/Pagination';
 import { StatusBadge } from '../components/StatusBadge';
 import { formatEnum } from '../utils/helpers';
 import { LiveIndicator } from '../components/LiveIndicator'; // 1. Import LiveIndicator
+import { usePermissions } from '../hooks/usePermissions';
+import { usePollingInterval } from '../hooks/useRealtimeStatus';
+import { useDebouncedInput, useUrlState } from '../hooks/useUrlState';
+import { FilterPresets } from '../components/FilterPresets';
+import { NO_PERMISSION_HINT } from '../utils/permissions';
+import { REFUND_APPROVE_PERMISSION, REFUND_REQUEST_PERMISSION } from '../utils/refunds';
+import RefundModal from '../components/refunds/RefundModal';
+import RefundList from '../components/refunds/RefundList';
 
 const ITEMS_PER_PAGE = 8;
+const SUPPORT_FILTER_KEYS = ['status', 'severity', 'search'] as const;
 
 // --- Helpers ---
 const getSeverityColor = (severity: IssueSeverity) => {
@@ -26,19 +38,31 @@ const getStatusBtnColor = (status: IssueStatus) => {
   return STATUS_COLORS[status] || STATUS_COLORS.DEFAULT;
 };
 
+// Tickets that map onto a refund reason start the refund form with it picked
+const ISSUE_REFUND_REASONS: Record<string, RefundReason> = {
+  DAMAGED_ITEM: 'DAMAGED_ITEM',
+  WRONG_ITEM: 'WRONG_ITEM',
+  NOT_RECEIVED: 'MISSING_ITEM',
+};
+
 // --- Sub-Component: Issue Card ---
 const IssueCard = ({ issue }: { issue: Issue }) => {
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canManage = can('support:manage');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
 
   const acknowledgeMutation = useMutation({
-    mutationFn: async () => await api.patch(`/admin/issues/${issue.id}/acknowledge`),
-    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ['issues'] }); toast.success('Ticket acknowledged'); setIsDropdownOpen(false); }
+    mutationFn: () => issuesApi.acknowledge(issue.id),
+    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ['issues'] }); toast.success('Ticket acknowledged'); setIsDropdownOpen(false); },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to acknowledge ticket'))
   });
 
   const resolveMutation = useMutation({
-    mutationFn: async () => await api.patch(`/admin/issues/${issue.id}/resolve`),
-    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ['issues'] }); toast.success('Ticket resolved'); setIsDropdownOpen(false); }
+    mutationFn: () => issuesApi.resolve(issue.id),
+    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ['issues'] }); toast.success('Ticket resolved'); setIsDropdownOpen(false); },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to resolve ticket'))
   });
 
   const isLoading = acknowledgeMutation.isPending || resolveMutation.isPending;
@@ -70,9 +94,10 @@ const IssueCard = ({ issue }: { issue: Issue }) => {
         <div className="relative">
           <button
             onClick={() => !isLoading && setIsDropdownOpen(!isDropdownOpen)}
-            disabled={isLoading}
+            disabled={isLoading || !canManage}
+            title={canManage ? undefined : NO_PERMISSION_HINT}
             className={`flex items-center gap-2 px-4 py-2 rounded-lg border text-xs font-bold uppercase transition-all duration-200 
-                    ${getStatusBtnColor(issue.status)} ${isLoading ? 'opacity-50' : 'hover:brightness-95 hover:shadow-md'}`}
+                    ${getStatusBtnColor(issue.status)} ${isLoading ? 'opacity-50' : canManage ? 'hover:brightness-95 hover:shadow-md' : 'cursor-not-allowed'}`}
           >
             <span className={`w-2 h-2 rounded-full ${issue.status === 'RESOLVED' ? 'bg-green-500' : issue.status === 'IN_PROGRESS' ? 'bg-blue-500' : 'bg-amber-500'}`}></span>
             {isLoading ? 'Updating...' : formatEnum(issue.status)}
@@ -102,7 +127,19 @@ const IssueCard = ({ issue }: { issue: Issue }) => {
             </>
           )}
         </div>
-        <span className="text-xs text-gray-400 font-medium">{formatDistanceToNow(parseISO(issue.createdAt), { addSuffix: true })}</span>
+        <div className="flex items-center gap-3">
+          {issue.orderId && issue.status !== 'RESOLVED' && (
+            <button
+              onClick={() => setIsRefunding(true)}
+              disabled={!can(REFUND_REQUEST_PERMISSION)}
+              title={can(REFUND_REQUEST_PERMISSION) ? `Refund order #${issue.orderId}` : NO_PERMISSION_HINT}
+              className="flex items-center gap-1 text-xs font-bold text-gray-500 hover:text-blue-600 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-gray-500"
+            >
+              <Undo2 size={14} /> Refund
+            </button>
+          )}
+          <span className="text-xs text-gray-400 font-medium">{formatDistanceToNow(parseISO(issue.createdAt), { addSuffix: true })}</span>
+        </div>
       </div>
 
       <div className="absolute bottom-5 right-32 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
@@ -110,40 +147,57 @@ const IssueCard = ({ issue }: { issue: Issue }) => {
           <Package size={10} /> #{issue.orderId}
         </span>
       </div>
+
+      {isRefunding && (
+        <RefundModal orderId={issue.orderId} issueId={issue.id} defaultReason={ISSUE_REFUND_REASONS[issue.issueType]} onClose={() => setIsRefunding(false)} />
+      )}
+    </div>
+  );
+};
+
+// --- Sub-Component: Refunds waiting for a second person to approve them ---
+const PendingRefunds = () => {
+  const { data: pending } = useQuery({
+    queryKey: ['refunds', 'pending'],
+    queryFn: () => refundsApi.list({ status: 'PENDING_APPROVAL', page: 0, size: 20 }),
+  });
+
+  if (!pending || pending.content.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-amber-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-gray-900">Refunds Awaiting Approval</h3>
+        <span className="text-xs font-bold text-amber-700 bg-amber-100 px-2.5 py-1 rounded-full">{pending.totalElements}</span>
+      </div>
+      <RefundList refunds={pending.content} showOrder />
     </div>
   );
 };
 
 // --- Main Page ---
 const Support = () => {
-  const [page, setPage] = useState(0);
-  const [statusFilter, setStatusFilter] = useState<IssueStatus | ''>('');
-  const [severityFilter, setSeverityFilter] = useState<IssueSeverity | ''>('');
-  const [search, setSearch] = useState('');
-
-  // 2. Add isFetching and refetchInterval
-  const { data: response, isLoading, isFetching } = useQuery({
-    queryKey: ['issues', page, statusFilter, severityFilter],
-    queryFn: async () => {
-      const params: Record<string, string | number | undefined> = { page, size: ITEMS_PER_PAGE };
-      if (statusFilter) params.status = statusFilter;
-      if (severityFilter) params.severity = severityFilter;
-      const res = await api.get<IssuesResponse>('/admin/issues', { params });
-      return res.data;
-    },
+  // Filters and page live in the URL (?status=OPEN&search=42) so links and the back button restore them
+  const [filters, setFilters] = useUrlState({ status: '', severity: '', search: '', page: 1 });
+  const statusFilter = filters.status as IssueStatus | '';
+  const severityFilter = filters.severity as IssueSeverity | '';
+  const page = Math.max(filters.page - 1, 0);
+  const setPage = (index: number) => setFilters({ page: index + 1 });
+  const [search, setSearch] = useDebouncedInput(filters.search, (value) => setFilters({ search: value, page: 1 }, { replace: true }));
+
+  // 2. Add isFetching and refetchInterval (polling is the fallback when the live stream is down)
+  const refetchInterval = usePollingInterval(10000);
+  const { data: issuesPage, isLoading, isFetching } = useQuery({
+    queryKey: ['issues', page, statusFilter, severityFilter, filters.search],
+    queryFn: () => issuesApi.list({ page, size: ITEMS_PER_PAGE, status: statusFilter, severity: severityFilter, search: filters.search }),
     placeholderData: (prev) => prev,
-    refetchInterval: 10000, // Poll every 10 seconds (High Priority)
+    refetchInterval, // Poll every 10 seconds (High Priority)
   });
 
-  const issues = response?.data?.content || [];
-  const totalPages = response?.data?.totalPages || 0;
+  const issues = issuesPage?.content || [];
+  const totalPages = issuesPage?.totalPages || 0;
+  const { can } = usePermissions();
 
-  const filteredIssues = issues.filter(issue =>
-    search === '' ||
-    issue.customerPhone.includes(search) ||
-    issue.description.toLowerCase().includes(search.toLowerCase()) ||
-    issue.id.toString().includes(search)
-  );
 
   return (
     <div className="space-y-6 max-w-[1600px] mx-auto font-sans">
@@ -158,14 +212,15 @@ const Support = () => {
         {/* 3. Add LiveIndicator to the actions area */}
         <div className="flex items-center gap-3">
           <LiveIndicator isFetching={isFetching} />
+          <FilterPresets scope="support" keys={SUPPORT_FILTER_KEYS} />
 
-          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as IssueStatus | '')} className="bg-white border border-gray-200 text-gray-700 text-sm rounded-lg px-3 py-2 outline-none focus:border-blue-500 hover:bg-gray-50 cursor-pointer">
+          <select value={statusFilter} onChange={(e) => setFilters({ status: e.target.value, page: 1 })} className="bg-white border border-gray-200 text-gray-700 text-sm rounded-lg px-3 py-2 outline-none focus:border-blue-500 hover:bg-gray-50 cursor-pointer">
             <option value="">Status: All</option>
             <option value="OPEN">Open</option>
             <option value="IN_PROGRESS">In Progress</option>
             <option value="RESOLVED">Resolved</option>
           </select>
-          <select value={severityFilter} onChange={(e) => setSeverityFilter(e.target.value as IssueSeverity | '')} className="bg-white border border-gray-200 text-gray-700 text-sm rounded-lg px-3 py-2 outline-none focus:border-blue-500 hover:bg-gray-50 cursor-pointer">
+          <select value={severityFilter} onChange={(e) => setFilters({ severity: e.target.value, page: 1 })} className="bg-white border border-gray-200 text-gray-700 text-sm rounded-lg px-3 py-2 outline-none focus:border-blue-500 hover:bg-gray-50 cursor-pointer">
             <option value="">Severity: All</option>
             <option value="CRITICAL">Critical</option>
             <option value="HIGH">High</option>
@@ -175,26 +230,28 @@ const Support = () => {
         </div>
       </div>
 
+      {can(REFUND_APPROVE_PERMISSION) && <PendingRefunds />}
+
       {/* Search Toolbar */}
       <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex items-center justify-between">
         <div className="relative w-full md:w-96">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
-          <input type="text" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search..." className="w-full pl-10 pr-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-blue-500" />
+          <input type="text" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search by ticket, order or phone..." className="w-full pl-10 pr-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-blue-500" />
         </div>
-        <div className="text-sm text-gray-500 font-medium">{response?.data?.totalElements || 0} Active Tickets</div>
+        <div className="text-sm text-gray-500 font-medium">{issuesPage?.totalElements || 0} Active Tickets</div>
       </div>
 
       {/* Grid Content */}
       {isLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-4 gap-6 animate-pulse">{[1, 2, 3, 4].map(i => <div key={i} className="h-64 bg-gray-200 rounded-xl"></div>)}</div>
-      ) : filteredIssues.length === 0 ? (
+      ) : issues.length === 0 ? (
         <div className="text-center py-20 bg-white rounded-xl border border-gray-200 border-dashed">
           <div className="inline-flex justify-center items-center w-16 h-16 rounded-full bg-gray-50 mb-4"><CheckCircle className="text-gray-400" size={24} /></div>
           <h3 className="text-lg font-medium text-gray-900">No tickets found</h3>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-4 gap-6 animate-fade-in">
-          {filteredIssues.map((issue) => <IssueCard key={issue.id} issue={issue} />)}
+          {issues.map((issue) => <IssueCard key={issue.id} issue={issue} />)}
         </div>
       )}
 
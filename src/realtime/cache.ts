@@ -0,0 +1,96 @@
+import type { QueryClient } from '@tanstack/react-query';
+import type { Page } from '../types/api';
+import type { Order, OrderDetails } from '../types/orders';
+import type { Issue } from '../types/support';
+import type { Product } from '../types/inventory';
+import type { RealtimeEvent } from '../types/realtime';
+
+const isPage = (data: unknown): data is Page<{ id: number }> =>
+  !!data && typeof data === 'object' && Array.isArray((data as Page<unknown>).content);
+
+// Replaces a row in every cached page that already contains it.
+// Returns true if the row's status changed in any of them.
+const patchPages = <T extends { id: number; status: string }>(client: QueryClient, key: string, row: T) => {
+  let statusChanged = false;
+  client.setQueriesData<Page<T>>({ queryKey: [key] }, (page) => {
+    if (!isPage(page)) return page;
+    const index = page.content.findIndex(item => item.id === row.id);
+    if (index === -1) return page;
+    if (page.content[index].status !== row.status) statusChanged = true;
+    const content = [...page.content];
+    content[index] = row;
+    return { ...page, content };
+  });
+  return statusChanged;
+};
+
+const patchOrderDetails = (client: QueryClient, order: Order) => {
+  const cached = client.getQueryData<OrderDetails>(['order-details', order.id]);
+  const itemsEdited = !!cached && cached.totalAmount !== order.totalAmount;
+  client.setQueryData<OrderDetails>(['order-details', order.id], (details) =>
+    details && {
+      ...details,
+      status: order.status,
+      deliveryPhone: order.deliveryPhone,
+      totalAmount: order.totalAmount,
+      cancellationReason: order.cancellationReason,
+      cancellationNote: order.cancellationNote,
+      refundedAmount: order.refundedAmount,
+    }
+  );
+  client.invalidateQueries({ queryKey: ['order-timeline', order.id] });
+  // A new total means the items were edited, which the summary doesn't carry
+  if (itemsEdited) client.invalidateQueries({ queryKey: ['order-details', order.id] });
+};
+
+// Product queries hold a plain list, a search page or a single product; a stock
+// change can move the row in or out of a stock-level filter, so pages refetch,
+// and it comes with a new stock movement for the ledgers.
+const patchProduct = (client: QueryClient, product: Product) => {
+  client.setQueriesData<Product[] | Page<Product> | Product>({ queryKey: ['products'] }, (data) => {
+    if (Array.isArray(data)) return data.map(p => (p.id === product.id ? product : p));
+    if (isPage(data)) return { ...data, content: data.content.map(p => (p.id === product.id ? product : p)) };
+    if (data && 'id' in data && data.id === product.id) return product;
+    return data;
+  });
+  client.invalidateQueries({ queryKey: ['products', 'search'] });
+  client.invalidateQueries({ queryKey: ['products', 'stats'] });
+  client.invalidateQueries({ queryKey: ['stock-movements'] });
+  client.invalidateQueries({ queryKey: ['reorder-suggestions'] });
+};
+
+// Applies a pushed event to the React Query caches. Rows already on screen are
+// patched in place; anything that can change list membership, ordering or
+// paging (new rows, status changes under a status filter) refetches the lists.
+export const applyRealtimeEvent = (client: QueryClient, event: RealtimeEvent) => {
+  switch (event.type) {
+    case 'order.created':
+      client.invalidateQueries({ queryKey: ['orders'] });
+      client.invalidateQueries({ queryKey: ['dashboard-summary'] });
+      break;
+    case 'order.updated': {
+      if (patchPages(client, 'orders', event.order)) {
+        client.invalidateQueries({ queryKey: ['orders'] });
+      }
+      patchOrderDetails(client, event.order);
+      client.invalidateQueries({ queryKey: ['dashboard-summary'] });
+      // Refund requests and decisions arrive as order updates
+      client.invalidateQueries({ queryKey: ['refunds'] });
+      break;
+    }
+    case 'issue.created':
+      client.invalidateQueries({ queryKey: ['issues'] });
+      break;
+    case 'issue.updated':
+      if (patchPages<Issue>(client, 'issues', event.issue)) {
+        client.invalidateQueries({ queryKey: ['issues'] });
+      }
+      break;
+    case 'suggestion.created':
+      client.invalidateQueries({ queryKey: ['suggestions'] });
+      break;
+    case 'product.updated':
+      patchProduct(client, event.product);
+      break;
+  }
+};
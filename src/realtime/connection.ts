@@ -0,0 +1,104 @@
+import { getRealtimeTransport } from './transport';
+import type { ConnectionState, RealtimeEvent } from '../types/realtime';
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 30s
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+// After this many failed attempts in a row the UI reports "offline"
+const OFFLINE_AFTER_ATTEMPTS = 4;
+
+type EventListener = (event: RealtimeEvent) => void;
+
+let state: ConnectionState = 'offline';
+let closeTransport: (() => void) | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let failedAttempts = 0;
+let subscribers = 0;
+
+const stateListeners = new Set<() => void>();
+const eventListeners = new Set<EventListener>();
+
+const setState = (next: ConnectionState) => {
+  if (next === state) return;
+  state = next;
+  stateListeners.forEach(listener => listener());
+};
+
+const open = () => {
+  reconnectTimer = null;
+  if (!navigator.onLine) {
+    setState('offline');
+    return;
+  }
+  setState(failedAttempts === 0 ? 'connecting' : failedAttempts >= OFFLINE_AFTER_ATTEMPTS ? 'offline' : 'reconnecting');
+
+  closeTransport = getRealtimeTransport()({
+    onOpen: () => {
+      failedAttempts = 0;
+      setState('connected');
+    },
+    onEvent: (event) => eventListeners.forEach(listener => listener(event)),
+    onError: () => {
+      closeTransport = null;
+      failedAttempts += 1;
+      setState(failedAttempts >= OFFLINE_AFTER_ATTEMPTS ? 'offline' : 'reconnecting');
+      scheduleReconnect();
+    },
+  });
+};
+
+const scheduleReconnect = () => {
+  if (reconnectTimer || subscribers === 0) return;
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, failedAttempts - 1));
+  reconnectTimer = setTimeout(open, delay);
+};
+
+const disconnect = () => {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  closeTransport?.();
+  closeTransport = null;
+};
+
+const handleOnline = () => {
+  failedAttempts = 0;
+  disconnect();
+  open();
+};
+
+const handleOffline = () => {
+  disconnect();
+  setState('offline');
+};
+
+// Ref-counted: the stream stays open while at least one consumer is mounted
+export const connectRealtime = () => {
+  subscribers += 1;
+  if (subscribers === 1) {
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    failedAttempts = 0;
+    open();
+  }
+  return () => {
+    subscribers -= 1;
+    if (subscribers > 0) return;
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    disconnect();
+    setState('offline');
+  };
+};
+
+export const onRealtimeEvent = (listener: EventListener) => {
+  eventListeners.add(listener);
+  return () => { eventListeners.delete(listener); };
+};
+
+// useSyncExternalStore plumbing
+export const subscribeConnectionState = (listener: () => void) => {
+  stateListeners.add(listener);
+  return () => { stateListeners.delete(listener); };
+};
+
+export const getConnectionState = () => state;
@@ -0,0 +1,36 @@
+import { ApiError } from '../api/errors';
+import { object, str, type Check } from '../api/validate';
+import { orderSchema } from '../api/orders';
+import { issueSchema } from '../api/issues';
+import { suggestionSchema } from '../api/suggestions';
+import { productSchema } from '../api/products';
+import type { RealtimeEvent } from '../types/realtime';
+
+// Validates a pushed message with the same schemas the REST services use
+export const realtimeEventSchema: Check<RealtimeEvent> = (value, path) => {
+  const { type } = object<{ type: string }>({ type: str })(value, path);
+  switch (type) {
+    case 'order.created':
+    case 'order.updated':
+      return { type, order: orderSchema((value as { order: unknown }).order, `${path}.order`) };
+    case 'issue.created':
+    case 'issue.updated':
+      return { type, issue: issueSchema((value as { issue: unknown }).issue, `${path}.issue`) };
+    case 'suggestion.created':
+      return { type, suggestion: suggestionSchema((value as { suggestion: unknown }).suggestion, `${path}.suggestion`) };
+    case 'product.updated':
+      return { type, product: productSchema((value as { product: unknown }).product, `${path}.product`) };
+    default:
+      throw new ApiError('INVALID_RESPONSE', `Unknown realtime event type: ${type}`);
+  }
+};
+
+export const parseRealtimeEvent = (raw: string): RealtimeEvent | null => {
+  try {
+    return realtimeEventSchema(JSON.parse(raw), 'event');
+  } catch (error) {
+    // One malformed message shouldn't drop the stream
+    console.warn('[realtime] Ignoring message:', error);
+    return null;
+  }
+};
@@ -0,0 +1,42 @@
+import { getToken } from '../api/session';
+import { parseRealtimeEvent } from './events';
+import type { RealtimeEvent } from '../types/realtime';
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onEvent: (event: RealtimeEvent) => void;
+  onError: () => void;
+}
+
+// Opens a single connection and returns a function that closes it.
+// Reconnecting is handled by connection.ts, not the transport.
+export type RealtimeTransport = (handlers: TransportHandlers) => () => void;
+
+const BASE_URL = import.meta.env.VITE_API_URL || 'https://api.expertsec.in/api';
+
+// EventSource can't send headers, so the token travels as a query param
+export const sseTransport: RealtimeTransport = ({ onOpen, onEvent, onError }) => {
+  const url = `${BASE_URL}/admin/events/stream?token=${encodeURIComponent(getToken() || '')}`;
+  const source = new EventSource(url);
+
+  source.onopen = onOpen;
+  source.onmessage = (message) => {
+    const event = parseRealtimeEvent(message.data);
+    if (event) onEvent(event);
+  };
+  source.onerror = () => {
+    source.close();
+    onError();
+  };
+
+  return () => source.close();
+};
+
+let activeTransport: RealtimeTransport = sseTransport;
+
+// The mock backend swaps in its own stand-in stream
+export const setRealtimeTransport = (transport: RealtimeTransport) => {
+  activeTransport = transport;
+};
+
+export const getRealtimeTransport = () => activeTransport;
@@ -0,0 +1,31 @@
+// Standard envelope returned by every backend endpoint
+export interface ApiResponse<T> {
+  success: boolean;
+  message: string;
+  data: T;
+}
+
+// Spring-style page used by every paginated list endpoint
+export interface Page<T> {
+  content: T[];
+  totalPages: number;
+  totalElements: number;
+  size: number;
+  number: number; // Current page index (0-based)
+  first: boolean;
+  last: boolean;
+  empty: boolean;
+}
+
+export interface PageRequest {
+  page: number;
+  size: number;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+// Sent as Spring's `sort=field,direction` query param
+export interface SortRequest<F extends string> {
+  field: F;
+  direction: SortDirection;
+}
@@ -3,11 +3,33 @@ export interface LoginRequest {
   password: string;
 }
 
-export interface LoginResponse {
-  success: boolean;
-  message: string;
-  data: {
-    token: string;
-    role: string;
-  };
-}
\ No newline at end of file
+// `data` of the /auth/login response
+export interface LoginResult {
+  token: string;
+  refreshToken?: string | null; // Absent when the backend doesn't issue refresh tokens
+  role: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+export type Role = 'ADMIN' | 'STORE_MANAGER' | 'SUPPORT_AGENT' | 'DISPATCHER';
+
+export type Permission =
+  | 'dashboard:view'
+  | 'inventory:view'
+  | 'inventory:edit'
+  | 'inventory:delete'
+  | 'purchasing:view'
+  | 'purchasing:manage'
+  | 'orders:view'
+  | 'orders:update'
+  | 'orders:cancel'
+  | 'refunds:request'
+  | 'refunds:approve'
+  | 'delivery:assign'
+  | 'support:view'
+  | 'support:manage'
+  | 'feedback:view'
+  | 'settings:manage';
@@ -5,7 +5,8 @@ export interface DashboardSummary {
   outForDelivery: number;
   deliveredOrders: number;
   cancelledOrders: number;
-  totalCashCollected: number;
+  totalCashCollected: number; // Net of refundsPaid
+  refundsPaid: number;        // Cash and UPI refunds approved today; store credit isn't cash
 }
 
 // Response for /admin/analytics/sales/7-days
@@ -14,7 +15,8 @@ export interface DailySalesData {
   totalOrders: number;
   deliveredOrders: number;
   cancelledOrders: number;
-  totalCashCollected: number;
+  totalCashCollected: number; // Net of refundsPaid
+  refundsPaid: number;
 }
 
 // Response for /admin/analytics/sales/today-vs-yesterday
@@ -26,11 +28,4 @@ export interface SalesComparison {
     revenuePercent: number;
     trend: 'UP' | 'DOWN' | 'FLAT';
   };
-}
-
-// Generic Wrapper
-export interface ApiResponse<T> {
-  success: boolean;
-  message: string;
-  data: T;
 }
\ No newline at end of file
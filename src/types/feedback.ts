@@ -9,17 +9,8 @@ export interface Suggestion {
   createdAt: string;   // ISO timestamp
 }
 
-export interface FeedbackResponse {
-  success: boolean;
-  message: string;
-  data: {
-    content: Suggestion[];
-    totalPages: number;
-    totalElements: number;
-    size: number;
-    number: number; // Current page index (0-based)
-    first: boolean;
-    last: boolean;
-    empty: boolean;
-  };
+export interface SuggestionFilters {
+  phone?: string;
+  page: number;
+  size: number;
 }
\ No newline at end of file
@@ -1,34 +1,144 @@
-export interface Product {
+import type { PageRequest, SortRequest } from './api';
+
+// One pack size of a product (e.g. rice in 1kg and 5kg). Stock is held per variant.
+export interface ProductVariant {
   id: number;
-  name: string;
-  category: string;
   unit: string;
   price: number;
   stock: number;
+  sku: string | null;
+  barcode: string | null;  // EAN/UPC
+}
+
+// A gallery photo; stored as uploaded (already cropped and compressed client-side)
+export interface ProductImage {
+  id: number;
+  url: string;
+}
+
+export interface Product {
+  id: number;
+  name: string;
+  category: string;
+  unit: string;     // Of the default (first) variant
+  price: number;    // Of the default (first) variant
+  stock: number;    // Total across all variants
   description: string;
-  imageUrl: string;
+  imageUrl: string | null;         // The primary (first) image, for lists
+  images: ProductImage[];          // Gallery order; the first is the primary
   active: boolean;
+  reorderPoint: number | null;     // Reorder at or below this stock; null = category default
+  reorderQuantity: number | null;  // Minimum units per purchase; null = category default
+  variants: ProductVariant[];      // The first is the default; empty from backends without sizes
   createdAt: string;
   updatedAt: string;
 }
 
-export interface InventoryResponse {
-  success: boolean;
-  message: string;
-  data: Product[];
+// A pack size as sent when creating or updating a product. On update, entries with
+// an `id` edit that variant, entries without one are added, and variants left out
+// are removed (only once their stock is 0).
+export interface ProductVariantDTO {
+  id?: number;
+  unit: string;
+  price: number;
+  sku?: string;
+  barcode?: string;
 }
 
 export interface CreateProductDTO {
   name: string;
   category: string;
-  unit: string;
-  price: number;
-  stock: number;
   description: string;
+  variants: (ProductVariantDTO & { stock: number })[];  // `stock` is the opening stock
 }
 
+// Only the fields being changed. Stock is not editable here; it changes through
+// stock movements (see types/stock.ts)
 export interface UpdateProductDTO {
-  price?: number;
-  stock?: number;
+  name?: string;
   category?: string;
-}
\ No newline at end of file
+  description?: string;
+  active?: boolean;                // false archives the product; true restores it
+  variants?: ProductVariantDTO[];  // The complete list; see ProductVariantDTO
+  reorderPoint?: number | null;    // null clears the override
+  reorderQuantity?: number | null;
+}
+
+export type StockLevel = 'IN_STOCK' | 'LOW_STOCK' | 'OUT_OF_STOCK';
+export type ProductSortField = 'name' | 'category' | 'price' | 'stock' | 'updatedAt';
+
+// Query for the paginated /admin/products/search endpoint
+export interface ProductFilters extends PageRequest {
+  search?: string;      // Matches name or description
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  stockLevel?: StockLevel | '';
+  active?: boolean;
+  sort?: SortRequest<ProductSortField>;
+}
+
+// Response for /admin/products/stats (whole catalog, ignoring filters).
+// Counts cover active products; archived ones are only counted in `archived`.
+export interface ProductStats {
+  totalProducts: number;
+  lowStock: number;
+  outOfStock: number;
+  archived: number;
+}
+
+// Response for /admin/products/lookup: the product and size a scanned SKU or barcode belongs to
+export interface ProductLookup {
+  product: Product;
+  variantId: number;
+}
+
+// A node of the two-level category tree. Products refer to categories by name,
+// so a rename or merge is applied to their products as well.
+export interface Category {
+  id: number;
+  name: string;
+  parentId: number | null;  // null for top-level categories; subcategories can't have children
+  position: number;         // Display order among siblings, from 0
+  icon: string;             // Key of CATEGORY_ICONS
+  active: boolean;          // Inactive categories are hidden from pickers; their products keep them
+  productCount: number;     // Products directly in this category
+}
+
+export interface CategoryDTO {
+  name: string;
+  parentId: number | null;
+  icon: string;
+  active: boolean;
+}
+
+// Per-category reorder settings used by products without their own
+export interface CategoryReorderDefault {
+  category: string;
+  reorderPoint: number;
+  reorderQuantity: number;
+}
+
+export type ReorderUrgency = 'OUT_OF_STOCK' | 'BELOW_REORDER_POINT' | 'PROJECTED';
+
+// Row of /admin/inventory/reorder-suggestions
+export interface ReorderSuggestion {
+  productId: number;
+  productName: string;
+  category: string;
+  unit: string;
+  price: number;
+  stock: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  unitsSold: number;            // Over the requested sales window
+  dailyVelocity: number;        // Units per day over that window
+  daysOfCover: number | null;   // Days until stock runs out; null when nothing sold
+  suggestedQuantity: number;
+  urgency: ReorderUrgency;
+}
+
+export interface ReorderSuggestionQuery {
+  days: number;       // Sales window used for velocity
+  coverDays: number;  // How many days of sales a purchase should cover
+}
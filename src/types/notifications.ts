@@ -0,0 +1,17 @@
+export type NotificationKind = 'ORDER_PLACED' | 'ISSUE_OPENED' | 'OUT_OF_STOCK' | 'ORDER_STUCK';
+
+export interface AppNotification {
+  id: string;       // Stable per source event, so repeats are de-duplicated
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  link: string;     // In-app path to the order, ticket or product
+  critical: boolean;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface NotificationPreferences {
+  desktop: boolean;
+  sound: boolean;
+}
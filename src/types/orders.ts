@@ -1,33 +1,30 @@
 export type OrderStatus = 'ORDER_PLACED' | 'PACKED' | 'OUT_FOR_DELIVERY' | 'DELIVERED' | 'CANCELLED';
 
+export type CancellationReason =
+  | 'CUSTOMER_REQUEST'
+  | 'OUT_OF_STOCK'
+  | 'PAYMENT_FAILED'
+  | 'ADDRESS_UNREACHABLE'
+  | 'DUPLICATE_ORDER'
+  | 'OTHER';
+
 export interface Order {
   id: number;
-  customerName: string;
-  phone: string; // Customer phone
+  customerName: string | null;
+  phone: string | null; // Customer phone
   address: string;
   totalAmount: number;
   status: OrderStatus;
-  customerPhone: string; // Sometimes duplicate in backend, we map what's there
-  deliveryPhone: string;
-  assignedAt: string;
+  customerPhone: string | null; // Sometimes duplicate in backend, we map what's there
+  deliveryPhone: string | null; // Null until assigned
+  assignedAt: string | null;
+  packedAt: string | null;  // Latest move to PACKED
   createdAt: string;
-  receiptNumber: string;
-  receiptGeneratedAt: string;
-}
-
-export interface OrdersApiResponse {
-  success: boolean;
-  message: string;
-  data: {
-    content: Order[];
-    totalPages: number;
-    totalElements: number;
-    size: number;
-    number: number; // Current page index (0-based)
-    first: boolean;
-    last: boolean;
-    empty: boolean;
-  };
+  receiptNumber: string | null;
+  receiptGeneratedAt: string | null;
+  cancellationReason: CancellationReason | null; // Set while CANCELLED
+  cancellationNote: string | null;
+  refundedAmount: number; // Approved refunds so far
 }
 
 export interface OrderFilters {
@@ -41,6 +38,10 @@ export interface OrderFilters {
 export interface OrderItem {
   productId: number;
   productName: string;
+  variantId: number | null;  // Null on orders placed before products had variants
+  unit: string | null;
+  sku: string | null;        // Current codes of the size, for scan-to-pack
+  barcode: string | null;
   quantity: number;
   price: number;
   total: number;
@@ -50,28 +51,54 @@ export interface OrderDetails {
   orderId: number;
   status: OrderStatus;
   createdAt: string;
+  customerName: string | null;
   customerPhone: string;
   address: string;
-  deliveryPhone: string;
+  deliveryPhone: string | null;
   totalAmount: number;
+  cancellationReason: CancellationReason | null;
+  cancellationNote: string | null;
+  refundedAmount: number;
   items: OrderItem[];
 }
 
+export interface CancelOrderDTO {
+  reason: CancellationReason;
+  note?: string;
+}
+
+// The status change being taken back. The undo is refused when it's no longer
+// the order's latest change, e.g. someone else has moved the order on since.
+export interface UndoTransitionDTO {
+  from: OrderStatus;
+  to: OrderStatus;
+}
+
+// STATUS_CHANGE events drive the order journey. ITEMS_EDITED and REFUND events
+// carry a customer-facing note and keep the status the order had.
+export type TimelineEventKind = 'STATUS_CHANGE' | 'ITEMS_EDITED' | 'REFUND';
+
 export interface TimelineEvent {
   id: number;
   orderId: number;
   status: OrderStatus;
+  kind: TimelineEventKind;
+  note: string | null;
   timestamp: string;
 }
 
-export interface OrderDetailsResponse {
-  success: boolean;
-  message: string;
-  data: OrderDetails;
+// One change to a line of a pending order. Lines are identified by product and size.
+export interface OrderItemEditDTO {
+  productId: number;
+  variantId: number | null;
+  quantity: number;            // New quantity; 0 removes the line. Only substitutions keep it from going up
+  substitute?: {               // Replaces the line with this size at `quantity`
+    productId: number;
+    variantId: number;
+  };
 }
 
-export interface TimelineResponse {
-  success: boolean;
-  message: string;
-  data: TimelineEvent[];
+export interface EditOrderItemsDTO {
+  edits: OrderItemEditDTO[];
+  note?: string;               // Added to the customer-facing change log
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+import type { Order } from './orders';
+import type { Issue } from './support';
+import type { Suggestion } from './feedback';
+import type { Product } from './inventory';
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+// Messages pushed by the /admin/events stream (one JSON object per SSE message)
+export type RealtimeEvent =
+  | { type: 'order.created'; order: Order }
+  | { type: 'order.updated'; order: Order }
+  | { type: 'issue.created'; issue: Issue }
+  | { type: 'issue.updated'; issue: Issue }
+  | { type: 'suggestion.created'; suggestion: Suggestion }
+  | { type: 'product.updated'; product: Product };
+
+export type RealtimeEventType = RealtimeEvent['type'];
@@ -0,0 +1,61 @@
+import type { PageRequest } from './api';
+
+export type RefundMethod = 'CASH' | 'UPI' | 'STORE_CREDIT';
+
+// Every refund waits for a second person to approve it before money goes out
+export type RefundStatus = 'PENDING_APPROVAL' | 'APPROVED' | 'REJECTED';
+
+export type RefundReason =
+  | 'DAMAGED_ITEM'
+  | 'WRONG_ITEM'
+  | 'MISSING_ITEM'
+  | 'QUALITY'
+  | 'LATE_DELIVERY'
+  | 'OTHER';
+
+// Items being refunded; a refund for an amount only has none
+export interface RefundLine {
+  productId: number;
+  variantId: number | null;
+  productName: string;
+  unit: string | null;
+  quantity: number;
+  amount: number;
+}
+
+export interface Refund {
+  id: number;
+  orderId: number;
+  issueId: number | null;     // Support ticket the refund settles, if any
+  amount: number;
+  method: RefundMethod;
+  reason: RefundReason;
+  note: string | null;
+  status: RefundStatus;
+  items: RefundLine[];
+  requestedBy: string;        // Staff phone
+  requestedAt: string;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  decisionNote: string | null;
+}
+
+export interface RefundRequestDTO {
+  orderId: number;
+  issueId?: number;
+  items: { productId: number; variantId: number | null; quantity: number }[];
+  amount: number;             // May differ from the items' value, but never more than is left to refund
+  method: RefundMethod;
+  reason: RefundReason;
+  note?: string;
+}
+
+export interface RefundDecisionDTO {
+  note?: string;              // Required when rejecting
+}
+
+export interface RefundFilters extends PageRequest {
+  status?: RefundStatus | '';
+  orderId?: number;
+  issueId?: number;
+}
@@ -0,0 +1,12 @@
+import type { Order } from './orders';
+import type { Product } from './inventory';
+import type { Issue } from './support';
+import type { Suggestion } from './feedback';
+
+// Response for /admin/search: a few best matches per entity
+export interface SearchResults {
+  orders: Order[];
+  products: Product[];
+  issues: Issue[];
+  suggestions: Suggestion[];
+}
@@ -0,0 +1,13 @@
+// Response for /admin/settings/store. Money and dates across the dashboard,
+// exports and receipts are formatted with these.
+export interface StoreSettings {
+  currency: string;          // ISO 4217 code, e.g. INR
+  locale: string;            // BCP 47 tag for number and date formatting, e.g. en-IN
+  timeZone: string;          // IANA zone that times are shown in, e.g. Asia/Kolkata
+  currencyDisplay: CurrencyDisplay;
+  fractionDigits: number;    // Decimals shown on money amounts (0-3)
+}
+
+export type CurrencyDisplay = 'symbol' | 'narrowSymbol' | 'code';
+
+export type StoreSettingsDTO = Partial<StoreSettings>;
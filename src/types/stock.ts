@@ -0,0 +1,42 @@
+import type { PageRequest } from './api';
+
+// Why stock changed. SALE is recorded by the backend when orders are placed and
+// ORDER_EDIT when their items are changed; the rest are entered by staff as adjustments.
+export type StockMovementReason = 'DELIVERY' | 'SALE' | 'ORDER_EDIT' | 'RETURN' | 'SPOILAGE' | 'THEFT' | 'CORRECTION';
+
+export interface StockMovement {
+  id: number;
+  productId: number;
+  productName: string;
+  category: string;
+  variantId: number;
+  unit: string;           // The variant's pack size when the movement was recorded
+  quantity: number;       // Signed: positive adds stock, negative removes it
+  balanceAfter: number;   // Variant stock right after this movement
+  reason: StockMovementReason;
+  note: string | null;
+  createdBy: string | null; // Staff phone, null for system movements
+  createdAt: string;
+}
+
+export interface StockAdjustmentDTO {
+  variantId?: number;     // Defaults to the product's first variant
+  quantity: number;
+  reason: StockMovementReason;
+  note?: string;
+}
+
+// Query for the /admin/stock-movements audit report
+export interface StockMovementFilters extends PageRequest {
+  from?: string;  // YYYY-MM-DD, inclusive
+  to?: string;    // YYYY-MM-DD, inclusive
+  category?: string;
+  reason?: StockMovementReason | '';
+}
+
+// Net change per reason over the filtered report
+export interface StockMovementSummary {
+  reason: StockMovementReason;
+  count: number;
+  quantity: number;
+}
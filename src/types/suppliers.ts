@@ -0,0 +1,102 @@
+import type { PageRequest } from './api';
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  notes: string | null;
+  productCount: number;  // Linked products
+  createdAt: string;
+}
+
+export interface SupplierDTO {
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+}
+
+// A product the supplier can deliver, at what it costs us
+export interface SupplierProduct {
+  id: number;
+  supplierId: number;
+  supplierName: string;
+  productId: number;
+  productName: string;
+  unit: string;
+  costPrice: number;
+  supplierSku: string | null;
+}
+
+export interface SupplierProductDTO {
+  productId: number;
+  costPrice: number;
+  supplierSku?: string;
+}
+
+// DRAFT -> SENT -> PARTIALLY_RECEIVED -> CLOSED. Receiving everything closes the
+// order; closing earlier gives up on the rest. Orders with nothing received yet
+// (DRAFT or SENT) can be cancelled.
+export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIALLY_RECEIVED' | 'CLOSED' | 'CANCELLED';
+
+export interface PurchaseOrderLine {
+  productId: number;
+  variantId: number | null;   // The size being bought; null only on lines from before sizes
+  productName: string;
+  unit: string;               // Of that size
+  quantity: number;
+  receivedQuantity: number;
+  costPrice: number;
+}
+
+export interface PurchaseOrder {
+  id: number;
+  supplierId: number;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  total: number;
+  notes: string | null;
+  expectedAt: string | null;  // YYYY-MM-DD
+  createdBy: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  closedAt: string | null;
+}
+
+export interface PurchaseOrderLineDTO {
+  productId: number;
+  variantId: number | null;   // Required for products with several sizes
+  quantity: number;
+  costPrice: number;
+}
+
+// Create, or replace the contents of a draft
+export interface PurchaseOrderDTO {
+  supplierId: number;
+  lines: PurchaseOrderLineDTO[];
+  notes?: string;
+  expectedAt?: string;
+}
+
+export interface ReceivePurchaseOrderDTO {
+  lines: { productId: number; variantId: number | null; quantity: number }[];
+  note?: string;
+}
+
+// Result of drafting orders from reorder suggestions: one draft per supplier,
+// plus the products no supplier is linked to
+export interface DraftPurchaseOrdersResult {
+  orders: PurchaseOrder[];
+  unassignedProductIds: number[];
+}
+
+export interface PurchaseOrderFilters extends PageRequest {
+  status?: PurchaseOrderStatus | '';
+  supplierId?: number;
+}
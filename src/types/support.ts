@@ -17,17 +17,10 @@ export interface Issue {
   adminNote: string | null;
 }
 
-export interface IssuesResponse {
-  success: boolean;
-  message: string;
-  data: {
-    content: Issue[];
-    totalPages: number;
-    totalElements: number;
-    size: number;
-    number: number;
-    first: boolean;
-    last: boolean;
-    empty: boolean;
-  };
+export interface IssueFilters {
+  status?: IssueStatus | '';
+  severity?: IssueSeverity | '';
+  search?: string; // Ticket id, order id, phone or description text
+  page: number;
+  size: number;
 }
\ No newline at end of file
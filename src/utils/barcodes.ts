@@ -0,0 +1,21 @@
+// EAN-8, UPC-A (12), EAN-13 and GTIN-14 all end in a mod-10 check digit
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+export const gtinCheckDigit = (body: string) => {
+  const sum = [...body].reverse().reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+export const isValidGtin = (code: string) =>
+  /^\d+$/.test(code) && GTIN_LENGTHS.includes(code.length) && gtinCheckDigit(code.slice(0, -1)) === code.slice(-1);
+
+// Returns why a barcode can't be saved, or null when it's a valid EAN/UPC
+export const barcodeProblem = (code: string) => {
+  if (!/^\d+$/.test(code)) return `Barcode ${code} must contain digits only`;
+  if (!GTIN_LENGTHS.includes(code.length)) return `Barcode ${code} must be 8, 12, 13 or 14 digits (EAN/UPC)`;
+  if (!isValidGtin(code)) return `Barcode ${code} has the wrong check digit`;
+  return null;
+};
+
+// SKUs and barcodes are matched case-insensitively, ignoring stray whitespace
+export const normalizeCode = (code: string) => code.trim().toLowerCase();
@@ -0,0 +1,37 @@
+import { getErrorMessage } from '../api/errors';
+
+// Outcome for one record of a bulk action. Skipped records were never sent
+// (e.g. already packed), so only failed ones are worth retrying.
+export interface BulkResult {
+  id: number;
+  outcome: 'succeeded' | 'failed' | 'skipped';
+  message: string | null; // Why it failed or was skipped
+}
+
+export const skippedResult = (id: number, message: string): BulkResult => ({ id, outcome: 'skipped', message });
+
+// Runs the action for every id in parallel and records each outcome, so one
+// bad record doesn't hide how the rest went
+export const runBulk = async (ids: number[], action: (id: number) => Promise<unknown>): Promise<BulkResult[]> => {
+  const settled = await Promise.allSettled(ids.map(id => action(id)));
+  return settled.map((result, index) => result.status === 'fulfilled'
+    ? { id: ids[index], outcome: 'succeeded', message: null }
+    : { id: ids[index], outcome: 'failed', message: getErrorMessage(result.reason) });
+};
+
+// Replaces the earlier results for the records that were retried, keeping their order
+export const mergeBulkResults = (previous: BulkResult[], retried: BulkResult[]) => {
+  const byId = new Map(retried.map(result => [result.id, result]));
+  return previous.map(result => byId.get(result.id) ?? result);
+};
+
+export const idsWithOutcome = (results: BulkResult[], outcome: BulkResult['outcome']) =>
+  results.filter(result => result.outcome === outcome).map(result => result.id);
+
+// "3 succeeded, 1 failed, 2 skipped"
+export const summarizeBulk = (results: BulkResult[]) =>
+  (['succeeded', 'failed', 'skipped'] as const)
+    .map(outcome => [outcome, idsWithOutcome(results, outcome).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([outcome, count]) => `${count} ${outcome}`)
+    .join(', ');
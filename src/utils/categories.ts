@@ -0,0 +1,66 @@
+import {
+  Apple, Baby, Beef, Candy, Carrot, Cookie, Coffee, Croissant, CupSoda, Egg, Fish, IceCreamCone, Leaf, Milk,
+  Package, Pizza, Salad, Sandwich, ShoppingBasket, Snowflake, SprayCan, Tag, Wheat, type LucideIcon,
+} from 'lucide-react';
+import type { QueryClient } from '@tanstack/react-query';
+import type { Category } from '../types/inventory';
+
+// Icons a category can use; the key is what's stored on the category
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  'carrot': Carrot,
+  'apple': Apple,
+  'salad': Salad,
+  'leaf': Leaf,
+  'milk': Milk,
+  'egg': Egg,
+  'croissant': Croissant,
+  'wheat': Wheat,
+  'sandwich': Sandwich,
+  'beef': Beef,
+  'fish': Fish,
+  'cup-soda': CupSoda,
+  'coffee': Coffee,
+  'cookie': Cookie,
+  'candy': Candy,
+  'ice-cream-cone': IceCreamCone,
+  'pizza': Pizza,
+  'snowflake': Snowflake,
+  'shopping-basket': ShoppingBasket,
+  'package': Package,
+  'baby': Baby,
+  'spray-can': SprayCan,
+  'tag': Tag,
+};
+
+export const categoryIcon = (key: string) => CATEGORY_ICONS[key] ?? Tag;
+
+// Picker options in display order, subcategories indented under their parent
+// (with non-breaking spaces, which <option> doesn't collapse).
+// Inactive categories (and everything under one) are left out unless
+// `includeInactive` is set or the category is the one currently selected.
+export const categoryOptions = (
+  categories: Category[],
+  { includeInactive = false, selected }: { includeInactive?: boolean; selected?: string } = {},
+) => {
+  const parentActive = new Map(categories.filter(c => c.parentId === null).map(c => [c.id, c.active]));
+  return categories
+    .filter(c => includeInactive || c.name === selected
+      || (c.active && (c.parentId === null || parentActive.get(c.parentId) !== false)))
+    .map(c => ({ value: c.name, label: c.parentId === null ? c.name : `\u00a0\u00a0\u00a0${c.name}` }));
+};
+
+// The category's name plus its subcategories', for filtering by a parent
+export const categoryBranch = (categories: Pick<Category, 'id' | 'name' | 'parentId'>[], name: string) => {
+  const category = categories.find(c => c.name === name);
+  return new Set([name, ...categories.filter(c => category && c.parentId === category.id).map(c => c.name)]);
+};
+
+// Renames, merges and deletes rewrite the category on products, stock
+// movements and reorder defaults, so everything filed by category refetches
+export const refreshCategoryData = (client: QueryClient) => {
+  client.invalidateQueries({ queryKey: ['categories'] });
+  client.invalidateQueries({ queryKey: ['products'] });
+  client.invalidateQueries({ queryKey: ['stock-movements'] });
+  client.invalidateQueries({ queryKey: ['reorder-defaults'] });
+  client.invalidateQueries({ queryKey: ['reorder-suggestions'] });
+};
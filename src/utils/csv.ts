@@ -0,0 +1,47 @@
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, ''); // Excel adds a BOM
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines (often trailing) carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export type CellValue = string | number | boolean | null | undefined;
+
+const escapeCell = (value: CellValue) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Prefixed with a BOM so Excel opens UTF-8 (₹, accents) correctly
+export const toCsv = (rows: CellValue[][]) =>
+  '﻿' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
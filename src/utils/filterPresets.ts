@@ -0,0 +1,36 @@
+import { decodeToken, getRole, getToken } from '../api/session';
+
+export interface FilterPreset {
+  name: string;
+  query: string; // Serialized filter params, e.g. "status=PACKED&from=2026-01-01"
+}
+
+type PresetStore = Record<string, FilterPreset[]>;
+
+// Presets belong to whoever is signed in on this browser
+const storageKey = () => `filter-presets:${decodeToken(getToken())?.sub || getRole() || 'anonymous'}`;
+
+const readStore = (): PresetStore => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey()) || '{}') as PresetStore;
+  } catch {
+    return {};
+  }
+};
+
+export const loadPresets = (scope: string) => readStore()[scope] || [];
+
+// Saving under an existing name overwrites that preset
+export const savePresets = (scope: string, presets: FilterPreset[]) => {
+  localStorage.setItem(storageKey(), JSON.stringify({ ...readStore(), [scope]: presets }));
+};
+
+// Picks the given keys out of the current params in a stable order, so equal filters compare equal
+export const serializeFilters = (params: URLSearchParams, keys: readonly string[]) => {
+  const picked = new URLSearchParams();
+  keys.forEach(key => {
+    const value = params.get(key);
+    if (value) picked.set(key, value);
+  });
+  return picked.toString();
+};
@@ -0,0 +1,112 @@
+import type { StoreSettings } from '../types/settings';
+
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  currency: 'INR',
+  locale: 'en-IN',
+  timeZone: 'Asia/Kolkata',
+  currencyDisplay: 'symbol',
+  fractionDigits: 2,
+};
+
+const STORAGE_KEY = 'store-settings';
+
+const DATE_PRESETS = {
+  date: { day: '2-digit', month: 'short', year: 'numeric' },
+  dateTime: { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' },
+  time: { hour: '2-digit', minute: '2-digit' },
+  dayMonth: { day: '2-digit', month: 'short' },
+  weekday: { weekday: 'short' },
+} satisfies Record<string, Intl.DateTimeFormatOptions>;
+
+export type DatePreset = keyof typeof DATE_PRESETS;
+
+// Returns why the settings can't be used, or null. Intl throws a RangeError
+// for malformed locales, currency codes and unknown time zones.
+export const storeSettingsProblem = (settings: StoreSettings) => {
+  if (!/^[A-Z]{3}$/.test(settings.currency)) return 'Currency must be a 3-letter ISO code, e.g. INR';
+  if (!Number.isInteger(settings.fractionDigits) || settings.fractionDigits < 0 || settings.fractionDigits > 3) {
+    return 'Decimals must be a whole number from 0 to 3';
+  }
+  try {
+    Intl.getCanonicalLocales(settings.locale);
+  } catch {
+    return `Unknown locale "${settings.locale}"`;
+  }
+  try {
+    new Intl.DateTimeFormat(settings.locale, { timeZone: settings.timeZone });
+  } catch {
+    return `Unknown time zone "${settings.timeZone}"`;
+  }
+  return null;
+};
+
+// Date-only values ("2026-01-31") name a calendar day, so they're shown as-is
+// instead of being shifted into the store's time zone
+const isDateOnly = (value: string | Date): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export const createFormatters = (settings: StoreSettings) => {
+  const { locale, currency, currencyDisplay, timeZone } = settings;
+  const moneyFormats = new Map<number, Intl.NumberFormat>();
+  const moneyFormat = (digits: number) => {
+    let formatter = moneyFormats.get(digits);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(locale, {
+        style: 'currency', currency, currencyDisplay, minimumFractionDigits: digits, maximumFractionDigits: digits,
+      });
+      moneyFormats.set(digits, formatter);
+    }
+    return formatter;
+  };
+  const numberFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  const dateFormat = (preset: DatePreset, value: string | Date) =>
+    new Intl.DateTimeFormat(locale, { ...DATE_PRESETS[preset], timeZone: isDateOnly(value) ? 'UTC' : timeZone })
+      .format(typeof value === 'string' ? new Date(value) : value);
+
+  return {
+    settings,
+    // Whole-unit amounts (chart axes, filter buckets) pass fractionDigits 0
+    money: (amount: number, fractionDigits = settings.fractionDigits) => moneyFormat(fractionDigits).format(amount),
+    number: (value: number) => numberFormat.format(value),
+    currencySymbol: moneyFormat(0).formatToParts(0).find(part => part.type === 'currency')?.value ?? currency,
+    date: (value: string | Date) => dateFormat('date', value),
+    dateTime: (value: string | Date) => dateFormat('dateTime', value),
+    time: (value: string | Date) => dateFormat('time', value),
+    dayMonth: (value: string | Date) => dateFormat('dayMonth', value),
+    weekday: (value: string | Date) => dateFormat('weekday', value),
+  };
+};
+
+export type Formatters = ReturnType<typeof createFormatters>;
+
+// The last settings seen are kept on this browser, so amounts render in the
+// right currency before the settings request comes back
+const readSaved = (): StoreSettings => {
+  try {
+    const saved = { ...DEFAULT_STORE_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') } as StoreSettings;
+    return storeSettingsProblem(saved) ? DEFAULT_STORE_SETTINGS : saved;
+  } catch {
+    return DEFAULT_STORE_SETTINGS;
+  }
+};
+
+let formatters = createFormatters(readSaved());
+const listeners = new Set<() => void>();
+
+// Settings Intl can't use keep the current formatters rather than break every render
+export const setStoreSettings = (settings: StoreSettings) => {
+  if (storeSettingsProblem(settings)) return;
+  const current = formatters.settings;
+  if ((Object.keys(settings) as (keyof StoreSettings)[]).every(key => settings[key] === current[key])) return;
+  formatters = createFormatters(settings);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach(listener => listener());
+};
+
+// For code outside React (notifications, exports); components use useFormatters
+export const getFormatters = () => formatters;
+
+// useSyncExternalStore plumbing
+export const subscribeFormatters = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
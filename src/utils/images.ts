@@ -0,0 +1,51 @@
+// Product photos are cropped square and re-encoded in the browser, so uploads
+// are small and consistent no matter what the camera produced.
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_SOURCE_BYTES = 15 * 1024 * 1024;  // Before cropping and compression
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;   // What the API accepts per image
+export const MAX_PRODUCT_IMAGES = 8;
+
+const OUTPUT_SIZE = 1200;   // px; smaller crops are not upscaled
+const WEBP_QUALITY = 0.82;
+
+// Square region of the source image, in source pixels
+export interface CropArea {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Returns why the file can't be used, or null
+export const validateImageFile = (file: File) => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) return `${file.name} is not a JPEG, PNG or WebP image`;
+  if (file.size > MAX_SOURCE_BYTES) return `${file.name} is larger than ${formatBytes(MAX_SOURCE_BYTES)}`;
+  return null;
+};
+
+const encode = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, WEBP_QUALITY));
+
+// Crops, scales down to OUTPUT_SIZE and encodes as WebP (JPEG where the browser
+// can't encode WebP)
+export const cropImage = async (file: File, crop: CropArea): Promise<File> => {
+  const bitmap = await createImageBitmap(file);
+  const size = Math.round(Math.min(OUTPUT_SIZE, crop.size));
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image processing is not supported in this browser');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+  bitmap.close();
+
+  let blob = await encode(canvas, 'image/webp');
+  if (blob?.type !== 'image/webp') blob = await encode(canvas, 'image/jpeg');
+  if (!blob) throw new Error(`Could not process ${file.name}`);
+  if (blob.size > MAX_UPLOAD_BYTES) throw new Error(`${file.name} is still over ${formatBytes(MAX_UPLOAD_BYTES)} after compression`);
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  return new File([blob], `${file.name.replace(/\.\w+$/, '')}.${extension}`, { type: blob.type });
+};
@@ -1,20 +1,52 @@
-export const CATEGORIES = [
-  "Produce", 
-  "Dairy", 
-  "Bakery", 
-  "Meat", 
-  "Beverages", 
-  "Snacks", 
-  "Pantry"
-];
+import type { Formatters } from "./format";
 
 export const UNIT_TYPES = [
   "kg", "g", "L", "ml", "pcs", "pack", "oz", "lb"
 ];
 
-export const PRICE_RANGES = [
-  { label: "Under $5", min: 0, max: 5 },
-  { label: "$5 - $10", min: 5, max: 10 },
-  { label: "$10 - $20", min: 10, max: 20 },
-  { label: "Over $20", min: 20, max: Infinity }
-];
\ No newline at end of file
+// Price filter bucket edges, in whole units of the store currency. Currencies
+// not listed here use the edges sized for dollars and euros.
+const PRICE_RANGE_EDGES: Record<string, number[]> = {
+  INR: [50, 100, 250, 500],
+  JPY: [500, 1000, 2000],
+};
+const DEFAULT_PRICE_RANGE_EDGES = [5, 10, 20];
+
+export interface PriceRange {
+  value: string; // Kept in the URL, e.g. "50-100" or "500-"
+  label: string;
+  min: number;
+  max: number;
+}
+
+export const priceRanges = ({ settings, money }: Formatters): PriceRange[] => {
+  const edges = PRICE_RANGE_EDGES[settings.currency] ?? DEFAULT_PRICE_RANGE_EDGES;
+  const whole = (amount: number) => money(amount, 0);
+  return [0, ...edges].map((min, i) => {
+    const max = edges[i] ?? Infinity;
+    const label = i === 0 ? `Under ${whole(max)}` : max === Infinity ? `Over ${whole(min)}` : `${whole(min)} - ${whole(max)}`;
+    return { value: `${min}-${max === Infinity ? "" : max}`, label, min, max };
+  });
+};
+
+// Fallbacks for products whose category has no reorder defaults (see utils/reorder.ts)
+export const DEFAULT_REORDER_POINT = 10;
+export const DEFAULT_REORDER_QUANTITY = 20;
+
+export const STOCK_LEVELS = [
+  { label: "In Stock", value: "IN_STOCK" },
+  { label: "Low Stock", value: "LOW_STOCK" },
+  { label: "Out of Stock", value: "OUT_OF_STOCK" }
+] as const;
+
+// Stock movement reasons. `direction` fixes the sign of manual adjustments
+// (0 = either way); SALE and ORDER_EDIT are only recorded by the system.
+export const STOCK_REASONS = [
+  { value: "DELIVERY", label: "Delivery Received", direction: 1, manual: true, color: "bg-green-100 text-green-700 border-green-200" },
+  { value: "RETURN", label: "Customer Return", direction: 1, manual: true, color: "bg-blue-100 text-blue-700 border-blue-200" },
+  { value: "SALE", label: "Sale", direction: -1, manual: false, color: "bg-gray-100 text-gray-700 border-gray-200" },
+  { value: "ORDER_EDIT", label: "Order Edit", direction: 0, manual: false, color: "bg-slate-100 text-slate-700 border-slate-200" },
+  { value: "SPOILAGE", label: "Spoilage", direction: -1, manual: true, color: "bg-amber-100 text-amber-700 border-amber-200" },
+  { value: "THEFT", label: "Theft / Loss", direction: -1, manual: true, color: "bg-red-100 text-red-700 border-red-200" },
+  { value: "CORRECTION", label: "Count Correction", direction: 0, manual: true, color: "bg-purple-100 text-purple-700 border-purple-200" }
+] as const;
@@ -0,0 +1,41 @@
+import type { Permission } from '../types/auth';
+import type { OrderItem, OrderItemEditDTO, OrderStatus } from '../types/orders';
+import { ORDER_STATUS_LABELS } from './orderStateMachine';
+
+// Items can only change before anything has gone into a box
+export const isEditableOrder = (status: OrderStatus) => status === 'ORDER_PLACED';
+
+export const ORDER_EDIT_PERMISSION: Permission = 'orders:update';
+
+type OrderLine = Pick<OrderItem, 'productId' | 'variantId' | 'productName' | 'quantity'>;
+
+export const isSameLine = (a: Pick<OrderItem, 'productId' | 'variantId'>, b: Pick<OrderItem, 'productId' | 'variantId'>) =>
+  a.productId === b.productId && a.variantId === b.variantId;
+
+// Returns why the edits can't be made to an order in `status` with these items, or null.
+// Stock for substitutes is checked by the backend.
+export const orderEditProblem = (status: OrderStatus, items: OrderLine[], edits: OrderItemEditDTO[]) => {
+  if (!isEditableOrder(status)) return `Only pending orders can be edited; this one is ${ORDER_STATUS_LABELS[status]}`;
+  if (edits.length === 0) return 'Nothing was changed';
+  const seen: OrderItemEditDTO[] = [];
+  for (const edit of edits) {
+    const line = items.find(item => isSameLine(item, edit));
+    if (!line) return `Product ${edit.productId} is not in this order`;
+    if (seen.some(other => isSameLine(other, edit))) return `${line.productName} is changed twice`;
+    seen.push(edit);
+    if (!Number.isInteger(edit.quantity) || edit.quantity < 0) return `Quantity for ${line.productName} must be a whole number`;
+    if (edit.substitute) {
+      if (edit.quantity === 0) return `Choose how many of the substitute for ${line.productName}`;
+      if (edit.quantity > line.quantity) return `Substitute no more than the ${line.quantity} ordered of ${line.productName}`;
+      const { productId, variantId } = edit.substitute;
+      const isTaken = items.some(item => isSameLine(item, { productId, variantId }))
+        || seen.some(other => other !== edit && other.substitute?.productId === productId && other.substitute.variantId === variantId);
+      if (isTaken) return `The substitute for ${line.productName} is already in the order`;
+    } else if (edit.quantity >= line.quantity) {
+      return `${line.productName} can only be reduced or removed`;
+    }
+  }
+  const remaining = items.filter(item => !edits.some(edit => isSameLine(item, edit) && edit.quantity === 0));
+  if (remaining.length === 0) return 'An order needs at least one item; cancel it instead';
+  return null;
+};
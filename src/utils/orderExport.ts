@@ -0,0 +1,29 @@
+import type { Order } from '../types/orders';
+import { toCsv, type CellValue } from './csv';
+import { getFormatters } from './format';
+import { downloadBlob } from './helpers';
+import { CANCELLATION_REASONS, ORDER_STATUS_LABELS } from './orderStateMachine';
+
+// One row per order as it appears on the Orders grid; totals stay plain numbers
+// so they add up in a spreadsheet
+export const downloadOrdersCsv = (orders: Order[]) => {
+  const { dateTime, settings } = getFormatters();
+  const rows: CellValue[][] = [
+    ['Order ID', 'Placed At', 'Customer', 'Customer Phone', 'Address', 'Status', `Total (${settings.currency})`, `Refunded (${settings.currency})`, 'Delivery Phone', 'Receipt', 'Cancellation Reason', 'Cancellation Note'],
+    ...orders.map(o => [
+      o.id,
+      dateTime(o.createdAt),
+      o.customerName,
+      o.customerPhone ?? o.phone,
+      o.address,
+      ORDER_STATUS_LABELS[o.status],
+      o.totalAmount,
+      o.refundedAmount,
+      o.deliveryPhone,
+      o.receiptNumber,
+      CANCELLATION_REASONS.find(r => r.value === o.cancellationReason)?.label,
+      o.cancellationNote,
+    ]),
+  ];
+  downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `orders-${new Date().toISOString().slice(0, 10)}.csv`);
+};
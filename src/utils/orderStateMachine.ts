@@ -0,0 +1,65 @@
+import type { Permission } from '../types/auth';
+import type { CancellationReason, OrderStatus } from '../types/orders';
+
+// A move an order can make from its current status. The backend (and the mock)
+// reject anything not listed here; the UI only offers what's listed.
+export interface OrderTransition {
+  to: OrderStatus;
+  label: string;              // Button text
+  permission: Permission;
+  requiresReason?: boolean;   // Cancellations must say why
+}
+
+const CANCEL: OrderTransition = { to: 'CANCELLED', label: 'Cancel Order', permission: 'orders:cancel', requiresReason: true };
+
+// First entry is the normal next step; DELIVERED and CANCELLED are final
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderTransition[]> = {
+  ORDER_PLACED: [{ to: 'PACKED', label: 'Mark as Packed', permission: 'orders:update' }, CANCEL],
+  PACKED: [{ to: 'OUT_FOR_DELIVERY', label: 'Ship Order', permission: 'delivery:assign' }, CANCEL],
+  OUT_FOR_DELIVERY: [{ to: 'DELIVERED', label: 'Mark Delivered', permission: 'orders:update' }, CANCEL],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+// The latest transition can be taken back for this long, e.g. a mis-tapped "Mark Delivered"
+export const ORDER_UNDO_WINDOW_MS = 30 * 1000;
+
+export const CANCELLATION_REASONS: { value: CancellationReason; label: string }[] = [
+  { value: 'CUSTOMER_REQUEST', label: 'Customer asked to cancel' },
+  { value: 'OUT_OF_STOCK', label: 'Items out of stock' },
+  { value: 'PAYMENT_FAILED', label: 'Payment failed' },
+  { value: 'ADDRESS_UNREACHABLE', label: 'Address unreachable' },
+  { value: 'DUPLICATE_ORDER', label: 'Duplicate order' },
+  { value: 'OTHER', label: 'Other (add a note)' },
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  ORDER_PLACED: 'Pending',
+  PACKED: 'Packed',
+  OUT_FOR_DELIVERY: 'On The Way',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled',
+};
+
+export const transitionsFrom = (status: OrderStatus) => ORDER_TRANSITIONS[status];
+
+export const findTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_TRANSITIONS[from].find(t => t.to === to) ?? null;
+
+export const isFinalStatus = (status: OrderStatus) => ORDER_TRANSITIONS[status].length === 0;
+
+// Returns why the order can't move to `to`, or null when the move is allowed
+export const transitionProblem = (from: OrderStatus, to: OrderStatus) => {
+  if (from === to) return `Order is already ${ORDER_STATUS_LABELS[from]}`;
+  if (isFinalStatus(from)) return `Order is ${ORDER_STATUS_LABELS[from]} and can't change any more`;
+  if (!findTransition(from, to)) return `Can't move an order from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`;
+  return null;
+};
+
+// Returns why a cancellation can't be recorded, or null
+export const cancellationProblem = (reason: string | undefined, note: string | undefined) => {
+  if (!reason) return 'A cancellation reason is required';
+  if (!CANCELLATION_REASONS.some(r => r.value === reason)) return `Unknown cancellation reason "${reason}"`;
+  if (reason === 'OTHER' && !note?.trim()) return 'Add a note explaining the cancellation';
+  return null;
+};
@@ -0,0 +1,59 @@
+import type { Permission, Role } from '../types/auth';
+
+// UI-side access rules. The backend still enforces its own checks;
+// these only decide what each role sees and can click.
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  ADMIN: [
+    'dashboard:view',
+    'inventory:view', 'inventory:edit', 'inventory:delete',
+    'purchasing:view', 'purchasing:manage',
+    'orders:view', 'orders:update', 'orders:cancel',
+    'refunds:request', 'refunds:approve',
+    'delivery:assign',
+    'support:view', 'support:manage',
+    'feedback:view',
+    'settings:manage',
+  ],
+  STORE_MANAGER: [
+    'dashboard:view',
+    'inventory:view', 'inventory:edit',
+    'purchasing:view', 'purchasing:manage',
+    'orders:view', 'orders:update', 'orders:cancel',
+    'refunds:request', 'refunds:approve',
+    'delivery:assign',
+    'support:view',
+    'feedback:view',
+  ],
+  SUPPORT_AGENT: [
+    'dashboard:view',
+    'orders:view',
+    'refunds:request',
+    'support:view', 'support:manage',
+    'feedback:view',
+  ],
+  DISPATCHER: [
+    'dashboard:view',
+    'orders:view', 'orders:update',
+    'delivery:assign',
+  ],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  ADMIN: 'Administrator',
+  STORE_MANAGER: 'Store Manager',
+  SUPPORT_AGENT: 'Support Agent',
+  DISPATCHER: 'Dispatcher',
+};
+
+// Backend roles may come prefixed (ROLE_ADMIN) or in lower case
+export const normalizeRole = (raw: string | null | undefined): Role | null => {
+  if (!raw) return null;
+  const role = raw.toUpperCase().replace(/^ROLE_/, '');
+  return role in ROLE_PERMISSIONS ? (role as Role) : null;
+};
+
+// Unknown roles get no permissions at all
+export const hasPermission = (role: Role | null, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const NO_PERMISSION_HINT = "Your role doesn't allow this action";
@@ -0,0 +1,71 @@
+import type { Category, Product } from '../types/inventory';
+import type { OrderDetails, OrderItem } from '../types/orders';
+import { isSameLine } from './orderEdits';
+
+// One size of one product to take off the shelf, summed over the batch
+export interface PickLine {
+  productId: number;
+  variantId: number | null;
+  productName: string;
+  unit: string | null;
+  sku: string | null;
+  barcode: string | null;
+  quantity: number;
+  orderIds: number[];   // Orders it goes into, so pickers can pre-sort into bags
+}
+
+// Lines of one category; categories stand in for aisles and follow the
+// Categories page order, which is how the shelves are laid out
+export interface PickListAisle {
+  category: string;
+  lines: PickLine[];
+}
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+const sortByName = (a: PickLine, b: PickLine) =>
+  a.productName.localeCompare(b.productName) || (a.unit ?? '').localeCompare(b.unit ?? '');
+
+const toLine = (item: OrderItem, orderId: number): PickLine => ({
+  productId: item.productId,
+  variantId: item.variantId,
+  productName: item.productName,
+  unit: item.unit,
+  sku: item.sku,
+  barcode: item.barcode,
+  quantity: item.quantity,
+  orderIds: [orderId],
+});
+
+// `categories` come from /admin/categories, already in display order
+export const buildPickList = (orders: OrderDetails[], products: Product[], categories: Category[]): PickListAisle[] => {
+  const categoryOf = new Map(products.map(p => [p.id, p.category]));
+  const aisles = new Map<string, PickLine[]>();
+
+  for (const order of orders) {
+    for (const item of order.items) {
+      const category = categoryOf.get(item.productId) || UNCATEGORIZED;
+      const lines = aisles.get(category) ?? [];
+      const line = lines.find(l => isSameLine(l, item));
+      if (line) {
+        line.quantity += item.quantity;
+        if (!line.orderIds.includes(order.orderId)) line.orderIds.push(order.orderId);
+      } else {
+        lines.push(toLine(item, order.orderId));
+      }
+      aisles.set(category, lines);
+    }
+  }
+
+  // Known categories in shelf order, then any the store no longer has, then the rest
+  const rank = (name: string) => {
+    const index = categories.findIndex(c => c.name === name);
+    return index === -1 ? (name === UNCATEGORIZED ? Infinity : categories.length) : index;
+  };
+  return [...aisles.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([category, lines]) => ({ category, lines: lines.sort(sortByName) }));
+};
+
+export const pickListUnits = (aisles: PickListAisle[]) =>
+  aisles.reduce((sum, aisle) => sum + aisle.lines.reduce((s, line) => s + line.quantity, 0), 0);
@@ -0,0 +1,41 @@
+import { productsApi } from '../api/products';
+import type { Product, ProductFilters } from '../types/inventory';
+import { toCsv, type CellValue } from './csv';
+import { buildXlsx } from './xlsx';
+import { downloadBlob } from './helpers';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const EXPORT_PAGE_SIZE = 250;
+
+// Walks every page of a catalog search; the server caps page size
+export const fetchAllProducts = async (filters: Omit<ProductFilters, 'page' | 'size'>) => {
+  const products: Product[] = [];
+  for (let page = 0; ; page++) {
+    const result = await productsApi.search({ ...filters, page, size: EXPORT_PAGE_SIZE });
+    products.push(...result.content);
+    if (result.last || result.content.length === 0) return products;
+  }
+};
+
+// Column order matches the import template, so an export can be edited and re-imported.
+// Like the import, each row describes the product's default size, or the product itself
+// when an older backend sent no sizes.
+export const downloadCatalog = (products: Product[], format: ExportFormat) => {
+  const rows: CellValue[][] = [
+    ['Name', 'Category', 'Unit', 'Price', 'Stock', 'Description', 'SKU', 'Barcode', 'Active', 'ID', 'Other Sizes'],
+    ...products.map(p => {
+      const [first, ...others] = p.variants;
+      const otherSizes = others.map(v => `${v.unit} @ ${v.price} (${v.stock})`).join('; ');
+      return [
+        p.name, p.category, first?.unit ?? p.unit, first?.price ?? p.price, first?.stock ?? p.stock, p.description,
+        first?.sku ?? null, first?.barcode ?? null, p.active, p.id, otherSizes,
+      ];
+    }),
+  ];
+  const filename = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const blob = format === 'xlsx'
+    ? buildXlsx(rows, 'Products')
+    : new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, filename);
+};
@@ -0,0 +1,139 @@
+import type { Category, Product } from '../types/inventory';
+import { UNIT_TYPES } from './inventory-constants';
+import { barcodeProblem } from './barcodes';
+
+// One product per row; the unit, price and stock are those of its default size
+export interface ImportProduct {
+  name: string;
+  category: string;
+  unit: string;
+  price: number;
+  stock: number;
+  description: string;
+  sku: string | null;      // null leaves an existing product's code as it is
+  barcode: string | null;
+}
+
+export type ImportField = keyof ImportProduct;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'category', label: 'Category', required: true },
+  { field: 'unit', label: 'Unit', required: true },
+  { field: 'price', label: 'Price', required: true },
+  { field: 'stock', label: 'Stock', required: true },
+  { field: 'description', label: 'Description', required: false },
+  { field: 'sku', label: 'SKU', required: false },
+  { field: 'barcode', label: 'Barcode (EAN/UPC)', required: false },
+];
+
+// Column index per field; -1 means "not mapped"
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ImportRow {
+  rowNumber: number;          // 1-based line in the file, header included
+  cells: string[];
+  dto: ImportProduct | null;
+  errors: string[];
+  existingId: number | null;  // Set when the name matches a product, which is then updated
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z]/g, '');
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'product', 'productname', 'title'],
+  category: ['category', 'categoryname', 'department'],
+  unit: ['unit', 'size', 'packsize', 'quantity'],
+  price: ['price', 'unitprice', 'mrp', 'sellingprice'],
+  stock: ['stock', 'qty', 'instock', 'stockquantity', 'inventory'],
+  description: ['description', 'details', 'notes'],
+  sku: ['sku', 'itemcode', 'productcode'],
+  barcode: ['barcode', 'ean', 'upc', 'gtin', 'barcodeeanupc'],
+};
+
+// Guesses the mapping from header names, e.g. "Product Name" -> name
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalize);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field }) => {
+    mapping[field] = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+  });
+  return mapping;
+};
+
+const UNIT_PATTERN = new RegExp(`^(\\d+(?:\\.\\d+)?)\\s*(${UNIT_TYPES.join('|')})$`, 'i');
+
+// Splits "500 g" or "1KG" into its amount and canonical unit type, or null
+export const splitUnit = (raw: string) => {
+  const match = UNIT_PATTERN.exec(raw.trim());
+  if (!match) return null;
+  return { value: match[1], type: UNIT_TYPES.find(u => u.toLowerCase() === match[2].toLowerCase())! };
+};
+
+// Accepts "500 g" or "1KG" and returns the canonical "500g" / "1kg", or null
+export const parseUnit = (raw: string) => {
+  const parts = splitUnit(raw);
+  return parts ? `${parts.value}${parts.type}` : null;
+};
+
+// Tolerates currency symbols or a leading ISO code ("₹1,299", "INR 1299")
+const parseNumber = (raw: string) => {
+  const cleaned = raw.replace(/^[A-Z]{3}|\p{Sc}|[,\s]/gu, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+// Validates every data row against the form rules used by AddProductModal
+export const validateImportRows = (
+  rows: string[][], mapping: ColumnMapping, existing: Product[], categories: Category[],
+): ImportRow[] => {
+  const byName = new Map(existing.map(p => [p.name.trim().toLowerCase(), p.id]));
+  const seenNames = new Set<string>();
+
+  return rows.map((cells, i) => {
+    const cell = (field: ImportField) => (mapping[field] >= 0 ? cells[mapping[field]] ?? '' : '').trim();
+    const errors: string[] = [];
+
+    const name = cell('name');
+    if (!name) errors.push('Name is required');
+    else if (seenNames.has(name.toLowerCase())) errors.push('Duplicate name in file');
+    seenNames.add(name.toLowerCase());
+
+    const category = categories.find(c => c.name.toLowerCase() === cell('category').toLowerCase());
+    if (!category) errors.push(`Unknown category "${cell('category')}"`);
+    else if (!category.active) errors.push(`Category "${category.name}" is inactive`);
+
+    const unit = parseUnit(cell('unit'));
+    if (!unit) errors.push(`Invalid unit "${cell('unit')}" (use e.g. 500g, 1kg, 6pcs)`);
+
+    const price = parseNumber(cell('price'));
+    if (!Number.isFinite(price) || price < 0) errors.push(`Invalid price "${cell('price')}"`);
+
+    const stock = parseNumber(cell('stock'));
+    if (!Number.isInteger(stock) || stock < 0) errors.push(`Invalid stock "${cell('stock')}"`);
+
+    const barcode = cell('barcode');
+    const barcodeError = barcode ? barcodeProblem(barcode) : null;
+    if (barcodeError) errors.push(barcodeError);
+
+    const dto: ImportProduct | null = errors.length === 0
+      ? {
+        name,
+        category: category!.name,
+        unit: unit!,
+        price,
+        stock,
+        description: cell('description') || 'No description provided',
+        sku: cell('sku') || null,
+        barcode: barcode || null,
+      }
+      : null;
+
+    return {
+      rowNumber: i + 2,
+      cells,
+      dto,
+      errors,
+      existingId: byName.get(name.toLowerCase()) ?? null,
+    };
+  });
+};
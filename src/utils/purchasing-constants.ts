@@ -0,0 +1,9 @@
+import type { PurchaseOrderStatus } from '../types/suppliers';
+
+export const PURCHASE_ORDER_STATUS_INFO: Record<PurchaseOrderStatus, { label: string; color: string }> = {
+  DRAFT: { label: "Draft", color: "bg-gray-100 text-gray-700 border-gray-200" },
+  SENT: { label: "Sent", color: "bg-blue-100 text-blue-700 border-blue-200" },
+  PARTIALLY_RECEIVED: { label: "Partially Received", color: "bg-amber-100 text-amber-700 border-amber-200" },
+  CLOSED: { label: "Closed", color: "bg-green-100 text-green-700 border-green-200" },
+  CANCELLED: { label: "Cancelled", color: "bg-red-100 text-red-700 border-red-200" },
+};
@@ -0,0 +1,69 @@
+import type { Permission } from '../types/auth';
+import type { OrderItem, OrderStatus } from '../types/orders';
+import type { Refund, RefundMethod, RefundReason, RefundRequestDTO, RefundStatus } from '../types/refunds';
+import { isSameLine } from './orderEdits';
+
+export const REFUND_REQUEST_PERMISSION: Permission = 'refunds:request';
+export const REFUND_APPROVE_PERMISSION: Permission = 'refunds:approve';
+
+export const REFUND_METHODS: { value: RefundMethod; label: string }[] = [
+  { value: 'CASH', label: 'Cash' },
+  { value: 'UPI', label: 'UPI' },
+  { value: 'STORE_CREDIT', label: 'Store Credit' },
+];
+
+export const REFUND_REASONS: { value: RefundReason; label: string }[] = [
+  { value: 'DAMAGED_ITEM', label: 'Item arrived damaged' },
+  { value: 'WRONG_ITEM', label: 'Wrong item delivered' },
+  { value: 'MISSING_ITEM', label: 'Item missing from the bag' },
+  { value: 'QUALITY', label: 'Poor quality / expired' },
+  { value: 'LATE_DELIVERY', label: 'Delivered very late' },
+  { value: 'OTHER', label: 'Other (add a note)' },
+];
+
+export const REFUND_STATUS_STYLES: Record<RefundStatus, { label: string; className: string }> = {
+  PENDING_APPROVAL: { label: 'Awaiting Approval', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  APPROVED: { label: 'Refunded', className: 'bg-green-100 text-green-700 border-green-200' },
+  REJECTED: { label: 'Rejected', className: 'bg-gray-100 text-gray-600 border-gray-200' },
+};
+
+export const refundMethodLabel = (method: RefundMethod) => REFUND_METHODS.find(m => m.value === method)?.label ?? method;
+export const refundReasonLabel = (reason: RefundReason) => REFUND_REASONS.find(r => r.value === reason)?.label ?? reason;
+
+// Only delivered orders have been paid for
+export const isRefundableOrder = (status: OrderStatus) => status === 'DELIVERED';
+
+// Store credit never leaves the till, so only cash and UPI refunds lower cash collected
+export const isCashRefund = (method: RefundMethod) => method !== 'STORE_CREDIT';
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Approved refunds and those still waiting both hold on to part of the order
+const activeRefunds = (refunds: Refund[]) => refunds.filter(r => r.status !== 'REJECTED');
+
+export const refundableAmount = (orderTotal: number, refunds: Refund[]) =>
+  roundMoney(orderTotal - activeRefunds(refunds).reduce((sum, r) => sum + r.amount, 0));
+
+export const refundedQuantity = (refunds: Refund[], line: Pick<OrderItem, 'productId' | 'variantId'>) =>
+  activeRefunds(refunds).flatMap(r => r.items).filter(item => isSameLine(item, line)).reduce((sum, item) => sum + item.quantity, 0);
+
+type RefundableOrder = { status: OrderStatus; totalAmount: number; items: Pick<OrderItem, 'productId' | 'variantId' | 'productName' | 'quantity'>[] };
+
+// Returns why the refund can't be requested, or null. `refunds` are the order's earlier refunds.
+export const refundProblem = (dto: Omit<RefundRequestDTO, 'orderId'>, order: RefundableOrder, refunds: Refund[]) => {
+  if (!isRefundableOrder(order.status)) return 'Only delivered orders can be refunded';
+  if (!REFUND_METHODS.some(m => m.value === dto.method)) return 'Choose how the money goes back';
+  if (!REFUND_REASONS.some(r => r.value === dto.reason)) return 'Choose a reason for the refund';
+  if (dto.reason === 'OTHER' && !dto.note?.trim()) return 'Add a note explaining the refund';
+  for (const [index, item] of dto.items.entries()) {
+    const line = order.items.find(i => isSameLine(i, item));
+    if (!line) return `Product ${item.productId} is not in this order`;
+    if (dto.items.findIndex(other => isSameLine(other, item)) !== index) return `${line.productName} is listed twice`;
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) return `Quantity for ${line.productName} must be a whole number`;
+    const left = line.quantity - refundedQuantity(refunds, line);
+    if (item.quantity > left) return left === 0 ? `${line.productName} has already been refunded` : `Only ${left} of ${line.productName} can still be refunded`;
+  }
+  if (!(dto.amount > 0)) return 'Refund amount must be more than zero';
+  if (roundMoney(dto.amount) > refundableAmount(order.totalAmount, refunds)) return 'Refund is more than what is left on the order';
+  return null;
+};
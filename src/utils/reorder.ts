@@ -0,0 +1,20 @@
+import type { CategoryReorderDefault, Product, StockLevel } from '../types/inventory';
+import { DEFAULT_REORDER_POINT, DEFAULT_REORDER_QUANTITY } from './inventory-constants';
+
+// Product override, else its category default, else the global fallback
+export const resolveReorder = (
+  product: Pick<Product, 'category' | 'reorderPoint' | 'reorderQuantity'>,
+  defaults: CategoryReorderDefault[]
+) => {
+  const categoryDefault = defaults.find(d => d.category === product.category);
+  return {
+    reorderPoint: product.reorderPoint ?? categoryDefault?.reorderPoint ?? DEFAULT_REORDER_POINT,
+    reorderQuantity: product.reorderQuantity ?? categoryDefault?.reorderQuantity ?? DEFAULT_REORDER_QUANTITY,
+  };
+};
+
+// "Low" means at or below the reorder point but not yet empty
+export const stockLevelOf = (product: Product, defaults: CategoryReorderDefault[]): StockLevel => {
+  if (product.stock === 0) return 'OUT_OF_STOCK';
+  return product.stock <= resolveReorder(product, defaults).reorderPoint ? 'LOW_STOCK' : 'IN_STOCK';
+};
@@ -0,0 +1,28 @@
+import type { CurrencyDisplay } from '../types/settings';
+
+// Offered in the settings pickers; any ISO code or BCP 47 tag can still be typed in
+export const CURRENCY_OPTIONS = [
+  { value: "INR", label: "Indian Rupee" },
+  { value: "USD", label: "US Dollar" },
+  { value: "EUR", label: "Euro" },
+  { value: "GBP", label: "British Pound" },
+  { value: "AED", label: "UAE Dirham" },
+  { value: "SGD", label: "Singapore Dollar" },
+  { value: "JPY", label: "Japanese Yen" },
+];
+
+export const LOCALE_OPTIONS = [
+  { value: "en-IN", label: "English (India)" },
+  { value: "hi-IN", label: "Hindi (India)" },
+  { value: "en-US", label: "English (United States)" },
+  { value: "en-GB", label: "English (United Kingdom)" },
+  { value: "de-DE", label: "German (Germany)" },
+  { value: "fr-FR", label: "French (France)" },
+  { value: "ar-AE", label: "Arabic (UAE)" },
+];
+
+export const CURRENCY_DISPLAY_OPTIONS: { value: CurrencyDisplay; label: string }[] = [
+  { value: "symbol", label: "Symbol" },
+  { value: "narrowSymbol", label: "Narrow symbol (no country prefix)" },
+  { value: "code", label: "ISO code" },
+];
@@ -0,0 +1,83 @@
+import type { ProductVariant, ProductVariantDTO } from '../types/inventory';
+import { UNIT_TYPES } from './inventory-constants';
+import { splitUnit } from './productImport';
+import { barcodeProblem } from './barcodes';
+
+// A pack size row while it's being edited; all inputs are kept as typed
+export interface VariantDraft {
+  key: string;        // Stable React key, also for rows not saved yet
+  id?: number;        // Set for variants that already exist
+  unitValue: string;
+  unitType: string;
+  price: string;
+  stock: string;      // Opening stock when creating; read-only when editing
+  sku: string;
+  barcode: string;
+}
+
+let draftCount = 0;
+
+export const emptyVariant = (): VariantDraft => ({
+  key: `new-${++draftCount}`,
+  unitValue: '',
+  unitType: UNIT_TYPES[0],
+  price: '',
+  stock: '0',
+  sku: '',
+  barcode: '',
+});
+
+export const toVariantDraft = (variant: ProductVariant): VariantDraft => {
+  const parts = splitUnit(variant.unit);
+  return {
+    key: `variant-${variant.id}`,
+    id: variant.id,
+    unitValue: parts?.value ?? '',
+    unitType: parts?.type ?? UNIT_TYPES[0],
+    price: String(variant.price),
+    stock: String(variant.stock),
+    sku: variant.sku ?? '',
+    barcode: variant.barcode ?? '',
+  };
+};
+
+export const draftUnit = (draft: VariantDraft) => `${draft.unitValue}${draft.unitType}`;
+
+export const toVariantDTO = (draft: VariantDraft): ProductVariantDTO => ({
+  id: draft.id,
+  unit: draftUnit(draft),
+  price: Number(draft.price),
+  sku: draft.sku.trim() || undefined,
+  barcode: draft.barcode.trim() || undefined,
+});
+
+// An existing variant sent back unchanged, for updates that only touch one size
+export const variantAsDTO = ({ id, unit, price, sku, barcode }: ProductVariant): ProductVariantDTO => ({
+  id, unit, price, sku: sku ?? undefined, barcode: barcode ?? undefined,
+});
+
+// Same rules the backend applies; returns the first problem, or null when valid
+export const validateVariants = (drafts: VariantDraft[]) => {
+  if (drafts.length === 0) return 'Add at least one size';
+  const units = new Set<string>();
+  const codes = new Set<string>();
+  for (const draft of drafts) {
+    if (!(Number(draft.unitValue) > 0)) return 'Every size needs an amount above 0';
+    const unit = draftUnit(draft).toLowerCase();
+    if (units.has(unit)) return `Size ${draftUnit(draft)} is listed twice`;
+    units.add(unit);
+    if (draft.price === '' || !(Number(draft.price) >= 0)) return `Enter a valid price for ${draftUnit(draft)}`;
+    const stock = Number(draft.stock);
+    if (!Number.isInteger(stock) || stock < 0) return `Stock for ${draftUnit(draft)} must be a whole number of at least 0`;
+    const barcode = draft.barcode.trim();
+    const barcodeError = barcode ? barcodeProblem(barcode) : null;
+    if (barcodeError) return barcodeError;
+    for (const [label, code] of [['SKU', draft.sku.trim()], ['Barcode', barcode]]) {
+      if (!code) continue;
+      const key = `${label}:${code.toLowerCase()}`;
+      if (codes.has(key)) return `${label} ${code} is used by more than one size`;
+      codes.add(key);
+    }
+  }
+  return null;
+};